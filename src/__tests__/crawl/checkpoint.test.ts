@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFile, mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CrawlCheckpoint } from "../../crawl/checkpoint.js";
+import { ValidationError } from "../../errors.js";
+
+const SEED = "https://example.com/";
+
+function entry(path: string, depth = 1) {
+  const url = `https://example.com${path}`;
+  return { url, key: url, depth, score: 0 };
+}
+
+describe("CrawlCheckpoint", () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "crawl-checkpoint-"));
+  });
+
+  afterEach(async () => {
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("returns null when nothing was checkpointed", async () => {
+    expect(await new CrawlCheckpoint("missing", stateDir).load()).toBeNull();
+  });
+
+  it("rethrows a log it can't read instead of starting over", async () => {
+    const checkpoint = new CrawlCheckpoint("docs", stateDir);
+    await mkdir(checkpoint.file);
+
+    await expect(checkpoint.load()).rejects.toMatchObject({ code: "EISDIR" });
+  });
+
+  it("rejects crawl ids that aren't plain file names", () => {
+    expect(new CrawlCheckpoint("docs-nightly.v2_b", stateDir).file).toBe(
+      join(stateDir, "docs-nightly.v2_b.jsonl")
+    );
+    for (const crawlId of ["docs/nightly", "docs nightly", "", "../docs"]) {
+      expect(() => new CrawlCheckpoint(crawlId, stateDir)).toThrow(ValidationError);
+    }
+  });
+
+  it("rebuilds pages, scrape errors and pending entries from the log", async () => {
+    const checkpoint = new CrawlCheckpoint("docs", stateDir);
+    checkpoint.start(SEED);
+    checkpoint.queued(entry("/", 0));
+    checkpoint.queued(entry("/a"));
+    checkpoint.queued(entry("/b"));
+    checkpoint.queued(entry("/c"));
+    checkpoint.seen("https://example.com/home");
+    checkpoint.done(SEED, {
+      crawlUrl: { url: SEED, title: "Home", description: null },
+      scrapeError: "conversion failed",
+    });
+    checkpoint.done("https://example.com/b");
+    await checkpoint.flush();
+
+    const state = await new CrawlCheckpoint("docs", stateDir).load();
+
+    expect(state).toMatchObject({
+      seedUrl: SEED,
+      urls: [{ url: SEED, title: "Home" }],
+      scrapeErrors: [{ url: SEED, error: "conversion failed" }],
+      pending: [entry("/a"), entry("/c")],
+    });
+    expect(state?.seen.sort()).toEqual([SEED, "https://example.com/b", "https://example.com/home"]);
+  });
+
+  it("keeps queued entries' parents and finished pages' links", async () => {
+    const checkpoint = new CrawlCheckpoint("docs", stateDir);
+    checkpoint.start(SEED);
+    checkpoint.queued(entry("/", 0));
+    checkpoint.queued({ ...entry("/a"), parentUrl: SEED });
+    checkpoint.done(SEED, {
+      crawlUrl: { url: SEED, title: "Home", description: null },
+      graph: { depth: 0, links: [{ url: "https://example.com/a", anchorText: "A" }] },
+    });
+    await checkpoint.flush();
+
+    const state = await checkpoint.load();
+
+    expect(state?.pending).toEqual([{ ...entry("/a"), parentUrl: SEED }]);
+    expect(state?.pageLinks).toEqual([
+      { url: SEED, depth: 0, links: [{ url: "https://example.com/a", anchorText: "A" }] },
+    ]);
+  });
+
+  it("ignores a line cut short by a crash", async () => {
+    const checkpoint = new CrawlCheckpoint("docs", stateDir);
+    checkpoint.start(SEED);
+    checkpoint.queued(entry("/a"));
+    await checkpoint.flush();
+    await appendFile(checkpoint.file, '{"type":"done","key":"https://exa');
+
+    const state = await checkpoint.load();
+
+    expect(state?.pending).toEqual([entry("/a")]);
+  });
+});
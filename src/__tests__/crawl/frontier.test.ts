@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { CrawlFrontier, type FrontierEntry, type FrontierOptions } from "../../crawl/frontier.js";
+
+function frontierAt(options: FrontierOptions = {}) {
+  const clock = { now: 1000 };
+  const frontier = new CrawlFrontier({ now: () => clock.now, ...options });
+  return { frontier, clock };
+}
+
+function addAll(frontier: CrawlFrontier, paths: Array<[string, number, number?]>) {
+  for (const [path, depth, score] of paths) {
+    const url = `https://example.com${path}`;
+    frontier.add(url, url, depth, score);
+  }
+}
+
+/**
+ * The next ready entry (fails the test when nothing is ready)
+ */
+function take(frontier: CrawlFrontier): FrontierEntry {
+  const entry = frontier.next();
+  if (!entry) throw new Error("Expected a ready frontier entry");
+  return entry;
+}
+
+function drain(frontier: CrawlFrontier): string[] {
+  const order: string[] = [];
+  for (let entry = frontier.next(); entry; entry = frontier.next()) {
+    order.push(new URL(entry.url).pathname);
+    frontier.complete(entry);
+  }
+  return order;
+}
+
+describe("CrawlFrontier ordering", () => {
+  const paths: Array<[string, number, number?]> = [
+    ["/a", 1, 1],
+    ["/b", 1, 5],
+    ["/a/1", 2, 9],
+    ["/c", 1, 5],
+  ];
+
+  it("visits oldest first for bfs", () => {
+    const { frontier } = frontierAt();
+    addAll(frontier, paths);
+    expect(drain(frontier)).toEqual(["/a", "/b", "/a/1", "/c"]);
+  });
+
+  it("visits newest first for dfs", () => {
+    const { frontier } = frontierAt({ strategy: "dfs" });
+    addAll(frontier, paths);
+    expect(drain(frontier)).toEqual(["/c", "/a/1", "/b", "/a"]);
+  });
+
+  it("visits highest score first for best-first, oldest first on ties", () => {
+    const { frontier } = frontierAt({ strategy: "best-first" });
+    addAll(frontier, paths);
+    expect(drain(frontier)).toEqual(["/a/1", "/b", "/c", "/a"]);
+  });
+
+  it("lists queued entries in crawl order", () => {
+    const { frontier } = frontierAt({ strategy: "dfs" });
+    addAll(frontier, paths);
+    expect(frontier.entries().map((e) => e.depth)).toEqual([1, 2, 1, 1]);
+    expect(frontier.size).toBe(4);
+  });
+});
+
+describe("CrawlFrontier dedupe", () => {
+  it("ignores keys already queued, crawled or marked seen", () => {
+    const { frontier } = frontierAt();
+
+    expect(frontier.add("https://example.com/", "k1", 0)).toBe(true);
+    expect(frontier.add("https://example.com/?utm=x", "k1", 1)).toBe(false);
+
+    const entry = take(frontier);
+    frontier.complete(entry);
+    expect(frontier.add("https://example.com/", "k1", 1)).toBe(false);
+
+    frontier.markSeen("k2");
+    expect(frontier.has("k2")).toBe(true);
+    expect(frontier.add("https://example.com/redirected", "k2", 1)).toBe(false);
+    expect(frontier.size).toBe(0);
+  });
+});
+
+describe("CrawlFrontier politeness", () => {
+  it("limits fetches in flight per host", () => {
+    const { frontier } = frontierAt({ maxPerHost: 2 });
+    addAll(frontier, [
+      ["/1", 1],
+      ["/2", 1],
+      ["/3", 1],
+    ]);
+    frontier.add("https://docs.example.com/", "docs", 1);
+
+    const first = take(frontier);
+    const second = take(frontier);
+    const third = take(frontier);
+
+    expect([first.url, second.url]).toEqual(["https://example.com/1", "https://example.com/2"]);
+    expect(third.url).toBe("https://docs.example.com/");
+    expect(frontier.next()).toBeNull();
+
+    frontier.complete(first);
+    expect(frontier.next()?.url).toBe("https://example.com/3");
+  });
+
+  it("waits each host's own delay after a fetch completes", () => {
+    const { frontier, clock } = frontierAt({
+      hostDelayMs: (host) => (host === "slow.example.com" ? 5000 : 100),
+    });
+    frontier.add("https://slow.example.com/1", "s1", 1);
+    frontier.add("https://slow.example.com/2", "s2", 1);
+    frontier.add("https://fast.example.com/1", "f1", 1);
+    frontier.add("https://fast.example.com/2", "f2", 1);
+
+    const slow = take(frontier);
+    const fast = take(frontier);
+    frontier.complete(slow);
+    frontier.complete(fast);
+
+    expect(frontier.next()).toBeNull();
+    expect(frontier.nextReadyAt()).toBe(1100);
+
+    clock.now = 1100;
+    expect(frontier.next()?.url).toBe("https://fast.example.com/2");
+    expect(frontier.nextReadyAt()).toBe(6000);
+
+    clock.now = 6000;
+    expect(frontier.next()?.url).toBe("https://slow.example.com/2");
+    expect(frontier.nextReadyAt()).toBeNull();
+  });
+});
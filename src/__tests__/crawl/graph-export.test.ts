@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  exportCrawlGraph,
+  toDot,
+  toGraphML,
+  toLlmsTxt,
+  type CrawlGraphFormat,
+} from "../../crawl/graph-export.js";
+import { buildSiteTree } from "../../crawl/site-graph.js";
+import type { CrawlResult } from "../../crawl-types.js";
+
+const SEED = "https://example.com/";
+
+function crawlResult(): CrawlResult {
+  const urls = [
+    { url: SEED, title: "Example Docs", description: "Guides and\n API reference" },
+    { url: "https://example.com/about", title: "About", description: null },
+    { url: "https://example.com/guides/setup", title: "Setup [beta]", description: "Install it" },
+    { url: "https://example.com/guides/deploy", title: "Untitled", description: null },
+    { url: "https://status.example.com/", title: "Status", description: null },
+  ];
+  return {
+    urls,
+    skipped: [],
+    graph: {
+      nodes: [
+        { url: SEED, title: "Example Docs", depth: 0, inDegree: 0, outDegree: 1 },
+        {
+          url: "https://example.com/about",
+          title: 'About "us" & <team>',
+          depth: 1,
+          parentUrl: SEED,
+          inDegree: 1,
+          outDegree: 0,
+        },
+      ],
+      edges: [{ source: SEED, target: "https://example.com/about", anchorText: "Who we are" }],
+    },
+    tree: buildSiteTree(urls),
+    metadata: { totalUrls: urls.length, maxDepth: 2, totalDuration: 10, seedUrl: SEED },
+  };
+}
+
+describe("graph exporters", () => {
+  it("writes GraphML with escaped node and edge data", () => {
+    const graphml = toGraphML(crawlResult().graph);
+
+    expect(graphml).toContain('<graph id="crawl" edgedefault="directed">');
+    expect(graphml).toContain('<data key="title">About &quot;us&quot; &amp; &lt;team&gt;</data>');
+    expect(graphml).toContain(`<data key="parentUrl">${SEED}</data>`);
+    expect(graphml).toContain('<edge id="e0" source="n0" target="n1">');
+    expect(graphml).toContain('<data key="anchorText">Who we are</data>');
+  });
+
+  it("writes a DOT digraph with quoted labels", () => {
+    expect(toDot(crawlResult().graph)).toBe(
+      [
+        "digraph crawl {",
+        "  node [shape=box];",
+        `  "${SEED}" [label="Example Docs"];`,
+        '  "https://example.com/about" [label="About \\"us\\" & <team>"];',
+        `  "${SEED}" -> "https://example.com/about" [label="Who we are"];`,
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("writes an llms.txt index sectioned by path and host", () => {
+    expect(toLlmsTxt(crawlResult())).toBe(
+      [
+        "# Example Docs",
+        "",
+        "> Guides and API reference",
+        "",
+        "## Pages",
+        "",
+        "- [About](https://example.com/about)",
+        "",
+        "## Guides",
+        "",
+        "- [/guides/deploy](https://example.com/guides/deploy)",
+        "- [Setup \\[beta\\]](https://example.com/guides/setup): Install it",
+        "",
+        "## status.example.com",
+        "",
+        "- [Status](https://status.example.com/)",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("exports JSON with the graph and tree, and rejects unknown formats", () => {
+    const result = crawlResult();
+    expect(JSON.parse(exportCrawlGraph(result, "json"))).toEqual({
+      graph: result.graph,
+      tree: result.tree,
+    });
+    expect(() => exportCrawlGraph(result, "svg" as CrawlGraphFormat)).toThrow(
+      'Unknown graph format "svg"'
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("re2", () => {
+  return {
+    default: class RE2 {
+      private re: RegExp;
+      constructor(pattern: string | RegExp, flags?: string) {
+        this.re = new RegExp(pattern instanceof RegExp ? pattern.source : pattern, flags);
+      }
+      test(str: string) {
+        return this.re.test(str);
+      }
+    },
+  };
+});
+
+import { CrawlScope } from "../../crawl/scope.js";
+
+const SEED = "https://www.example.com/docs/";
+
+describe("CrawlScope hosts", () => {
+  it("stays on the registrable domain by default", () => {
+    const scope = new CrawlScope(SEED);
+    expect(scope.check("https://blog.example.com/post")).toBeNull();
+    expect(scope.check("https://example.org/")).toBe("external");
+  });
+
+  it("stays on the seed's host with exact-host", () => {
+    const scope = new CrawlScope(SEED, { mode: "exact-host" });
+    expect(scope.check("https://example.com/pricing")).toBeNull();
+    expect(scope.check("https://blog.example.com/post")).toBe("external");
+  });
+
+  it("stays under the seed's path with path-prefix", () => {
+    const scope = new CrawlScope(SEED, { mode: "path-prefix" });
+    expect(scope.check("https://example.com/docs")).toBeNull();
+    expect(scope.check("https://example.com/docs/guide/intro")).toBeNull();
+    expect(scope.check("https://example.com/docsearch")).toBe("out-of-scope");
+    expect(scope.check("https://blog.example.com/docs/a")).toBe("external");
+  });
+
+  it("also crawls allowlisted hosts, with * for subdomains", () => {
+    const scope = new CrawlScope(SEED, {
+      mode: "path-prefix",
+      allowedHosts: ["cdn-docs.example.net", "*.example.org"],
+    });
+    expect(scope.check("https://cdn-docs.example.net/anything")).toBeNull();
+    expect(scope.check("https://api.example.org/")).toBeNull();
+    expect(scope.check("https://example.org/")).toBeNull();
+    expect(scope.check("https://other.example.net/")).toBe("external");
+  });
+});
+
+describe("CrawlScope non-content pages", () => {
+  it("skips them unless skipNonContent is false", () => {
+    expect(new CrawlScope(SEED).check("https://example.com/privacy")).toBe("non-content");
+    expect(
+      new CrawlScope(SEED, { skipNonContent: false }).check("https://example.com/privacy")
+    ).toBeNull();
+  });
+
+  it("extends the deny list with nonContentPatterns", () => {
+    const scope = new CrawlScope(SEED, { nonContentPatterns: ["/changelog/"] });
+    expect(scope.check("https://example.com/changelog/2024")).toBe("non-content");
+  });
+});
+
+describe("CrawlScope budgets", () => {
+  it("caps pages under the longest matching path prefix", () => {
+    const scope = new CrawlScope(SEED, { pathBudgets: { "/blog/": 2, "/blog/tags/": 1 } });
+    expect(scope.admit("https://example.com/blog/a")).toBeNull();
+    expect(scope.admit("https://example.com/blog/tags/x")).toBeNull();
+    expect(scope.admit("https://example.com/blog/tags/y")).toBe("budget");
+    expect(scope.admit("https://example.com/blog/b")).toBeNull();
+    expect(scope.admit("https://example.com/blog/c")).toBe("budget");
+    expect(scope.admit("https://example.com/docs/a")).toBeNull();
+  });
+
+  it("keeps query strings in keys and caps variants per path with maxQueryVariants", () => {
+    const scope = new CrawlScope(SEED, { maxQueryVariants: 2 });
+    expect(scope.keyOf("https://example.com/list?b=2&a=1")).toBe(
+      scope.keyOf("https://example.com/list?a=1&b=2")
+    );
+    expect(scope.admit("https://example.com/list")).toBeNull();
+    expect(scope.admit("https://example.com/list?page=2")).toBeNull();
+    expect(scope.admit("https://example.com/list?page=2")).toBeNull();
+    expect(scope.admit("https://example.com/list?page=3")).toBe("query-variants");
+  });
+
+  it("keys URLs by the canonicalization policy", () => {
+    const scope = new CrawlScope(SEED, { maxQueryVariants: 2 }, { keepParams: ["id"] });
+    expect(scope.keyOf("https://example.com/item?id=1&utm_source=x&sort=asc")).toBe(
+      "https://example.com/item?id=1"
+    );
+    expect(scope.admit("https://example.com/item?id=1&sort=asc")).toBeNull();
+    expect(scope.admit("https://example.com/item?id=1&sort=desc")).toBeNull();
+    expect(scope.admit("https://example.com/item?id=2")).toBeNull();
+    expect(scope.admit("https://example.com/item?id=3")).toBe("query-variants");
+  });
+
+  it("ignores query strings in keys by default", () => {
+    const scope = new CrawlScope(SEED);
+    expect(scope.keyOf("https://example.com/list?page=2")).toBe(
+      scope.keyOf("https://example.com/list")
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { SiteGraphBuilder, buildSiteTree } from "../../crawl/site-graph.js";
+
+const page = (url: string, title = "Page") => ({ url, title, description: null });
+const keyOf = (url: string) => url.replace(/\/$/, "");
+
+describe("SiteGraphBuilder", () => {
+  it("links crawled pages with anchor text, depth, parent and degrees", () => {
+    const builder = new SiteGraphBuilder();
+    builder.add("https://example.com/", {
+      depth: 0,
+      links: [
+        { url: "https://example.com/docs/", anchorText: "Docs" },
+        { url: "https://example.com/blog", anchorText: "Blog" },
+        { url: "https://example.com/docs", anchorText: "Documentation" },
+        { url: "https://example.com/never-crawled", anchorText: "Gone" },
+      ],
+    });
+    builder.add("https://example.com/docs", {
+      depth: 1,
+      parentUrl: "https://example.com/",
+      links: [
+        { url: "https://example.com/", anchorText: "Home" },
+        { url: "https://example.com/docs", anchorText: "This page" },
+      ],
+    });
+
+    const graph = builder.build(
+      [page("https://example.com/"), page("https://example.com/docs", "Docs")],
+      keyOf
+    );
+
+    expect(graph.nodes).toEqual([
+      { url: "https://example.com/", title: "Page", depth: 0, inDegree: 1, outDegree: 1 },
+      {
+        url: "https://example.com/docs",
+        title: "Docs",
+        depth: 1,
+        parentUrl: "https://example.com/",
+        inDegree: 1,
+        outDegree: 1,
+      },
+    ]);
+    expect(graph.edges).toEqual([
+      { source: "https://example.com/", target: "https://example.com/docs", anchorText: "Docs" },
+      { source: "https://example.com/docs", target: "https://example.com/", anchorText: "Home" },
+    ]);
+  });
+});
+
+describe("buildSiteTree", () => {
+  it("nests pages by host and path, with segments that have no page of their own", () => {
+    const tree = buildSiteTree([
+      page("https://example.com/", "Home"),
+      page("https://example.com/docs/guide/install", "Install"),
+      page("https://example.com/docs/api", "API"),
+      page("https://example.com/list?page=2", "List 2"),
+      page("https://blog.example.com/caf%C3%A9", "Café"),
+    ]);
+
+    expect(tree).toEqual([
+      {
+        name: "example.com",
+        path: "/",
+        url: "https://example.com/",
+        title: "Home",
+        children: [
+          {
+            name: "docs",
+            path: "/docs",
+            children: [
+              {
+                name: "api",
+                path: "/docs/api",
+                url: "https://example.com/docs/api",
+                title: "API",
+                children: [],
+              },
+              {
+                name: "guide",
+                path: "/docs/guide",
+                children: [
+                  {
+                    name: "install",
+                    path: "/docs/guide/install",
+                    url: "https://example.com/docs/guide/install",
+                    title: "Install",
+                    children: [],
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            name: "list?page=2",
+            path: "/list?page=2",
+            url: "https://example.com/list?page=2",
+            title: "List 2",
+            children: [],
+          },
+        ],
+      },
+      {
+        name: "blog.example.com",
+        path: "/",
+        children: [
+          {
+            name: "café",
+            path: "/café",
+            url: "https://blog.example.com/caf%C3%A9",
+            title: "Café",
+            children: [],
+          },
+        ],
+      },
+    ]);
+  });
+});
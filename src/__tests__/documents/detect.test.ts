@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { detectDocumentType } from "../../documents/detect.js";
+import { convertDocument, decodeResponseBody } from "../../documents/index.js";
+import { jsonToHtml, textToHtml } from "../../documents/plain.js";
+
+const HTML = Buffer.from("<!DOCTYPE html><html><body><p>Hello</p></body></html>");
+
+// ---------------------------------------------------------------------------
+// detectDocumentType
+// ---------------------------------------------------------------------------
+
+describe("detectDocumentType", () => {
+  it("detects PDFs by magic bytes regardless of content type", () => {
+    const pdf = Buffer.from("%PDF-1.7\n1 0 obj\n<<>>\nendobj\n");
+
+    expect(detectDocumentType(pdf, "application/pdf")).toBe("pdf");
+    expect(detectDocumentType(pdf, "application/octet-stream")).toBe("pdf");
+    expect(detectDocumentType(pdf, "text/html")).toBe("pdf");
+  });
+
+  it("tolerates junk before the PDF header but not markup", () => {
+    const junk = Buffer.from("\r\n\x00\x00%PDF-1.4\n1 0 obj\n<<>>\nendobj\n", "latin1");
+    const page = Buffer.from(
+      "<!DOCTYPE html><html><head><title>%PDF-1.4 explained</title></head></html>"
+    );
+
+    expect(detectDocumentType(junk, "application/pdf")).toBe("pdf");
+    expect(detectDocumentType(page, "text/html")).toBeNull();
+  });
+
+  it("detects DOCX only for zips containing word/document.xml", () => {
+    const docx = Buffer.from("PK\x03\x04....word/document.xml....", "latin1");
+    const otherZip = Buffer.from("PK\x03\x04....data.csv....", "latin1");
+
+    expect(detectDocumentType(docx, "application/octet-stream")).toBe("docx");
+    expect(detectDocumentType(otherZip, "application/zip")).toBeNull();
+  });
+
+  it("uses the content type for JSON and text", () => {
+    const body = Buffer.from('{"a":1}');
+
+    expect(detectDocumentType(body, "application/json; charset=utf-8")).toBe("json");
+    expect(detectDocumentType(body, "application/ld+json")).toBe("json");
+    expect(detectDocumentType(Buffer.from("plain"), "text/plain")).toBe("text");
+    expect(detectDocumentType(Buffer.from("# Title"), "text/markdown")).toBe("text");
+  });
+
+  it("leaves HTML to the HTML pipeline, even when mislabelled as text", () => {
+    expect(detectDocumentType(HTML, "text/html")).toBeNull();
+    expect(detectDocumentType(HTML, "text/plain")).toBeNull();
+    expect(detectDocumentType(HTML, undefined, "https://example.com/notes.txt")).toBeNull();
+  });
+
+  it("falls back to the URL extension without a usable content type", () => {
+    const body = Buffer.from("some notes");
+
+    expect(detectDocumentType(body, undefined, "https://example.com/notes.txt")).toBe("text");
+    expect(detectDocumentType(body, "application/octet-stream", "https://x.dev/a.json")).toBe(
+      "json"
+    );
+    expect(detectDocumentType(body, undefined, "https://example.com/page")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Plain text and JSON
+// ---------------------------------------------------------------------------
+
+describe("textToHtml", () => {
+  it("splits paragraphs on blank lines and pages on form feeds", () => {
+    const { html } = textToHtml(Buffer.from("﻿First line\nsame para\r\n\r\nSecond <para>\fPage 2"));
+
+    expect(html).toContain(
+      '<section data-page="1"><p>First line<br>same para</p><p>Second &lt;para&gt;</p></section>' +
+        '<hr><section data-page="2"><p>Page 2</p></section>'
+    );
+  });
+});
+
+describe("jsonToHtml", () => {
+  it("pretty-prints JSON in a code block", () => {
+    const { html } = jsonToHtml(Buffer.from('{"name":"reader","tags":["a"]}'));
+    expect(html).toContain(
+      '<pre><code class="language-json">{\n  &quot;name&quot;: &quot;reader&quot;,\n  &quot;tags&quot;: [\n    &quot;a&quot;\n  ]\n}</code></pre>'
+    );
+  });
+
+  it("keeps invalid JSON verbatim", () => {
+    expect(jsonToHtml(Buffer.from("{oops")).html).toContain("{oops");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// decodeResponseBody
+// ---------------------------------------------------------------------------
+
+describe("decodeResponseBody", () => {
+  it("decodes HTML bodies with their charset", () => {
+    expect(decodeResponseBody(HTML, "text/html")).toEqual({
+      html: HTML.toString(),
+      charset: "utf-8",
+    });
+    expect(
+      decodeResponseBody(Buffer.from("<p>caf\xe9</p>", "latin1"), "text/html; charset=iso-8859-1")
+    ).toEqual({ html: "<p>café</p>", charset: "windows-1252" });
+  });
+
+  it("converts documents and reports their type and properties", () => {
+    const decoded = decodeResponseBody(Buffer.from("Hello"), "text/plain");
+
+    expect(decoded.document).toEqual({ type: "text", properties: {} });
+    expect(decoded.html).toBe(convertDocument(Buffer.from("Hello"), "text").html);
+  });
+});
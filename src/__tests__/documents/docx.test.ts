@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest";
+import { crc32, deflateRawSync } from "node:zlib";
+import { docxToHtml } from "../../documents/docx.js";
+import { openZip } from "../../documents/zip.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Build a zip archive (deflate, no zip64) from name -> content
+ */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(content, "utf8");
+    const data = deflateRawSync(raw);
+    const nameBytes = Buffer.from(name, "utf8");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc32(raw), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc32(raw), 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const R = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+function buildDocx(body: string, extra: Record<string, string> = {}): Buffer {
+  return buildZip({
+    "[Content_Types].xml": "<Types/>",
+    "word/document.xml": `<?xml version="1.0"?><w:document ${W} ${R}><w:body>${body}</w:body></w:document>`,
+    ...extra,
+  });
+}
+
+const para = (text: string, props = "", runProps = "") =>
+  `<w:p><w:pPr>${props}</w:pPr><w:r><w:rPr>${runProps}</w:rPr><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+const STYLES = `<?xml version="1.0"?><w:styles ${W}>
+  <w:style w:type="paragraph" w:styleId="Titre1"><w:name w:val="heading 1"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Sub"><w:name w:val="Custom"/><w:pPr><w:outlineLvl w:val="1"/></w:pPr></w:style>
+</w:styles>`;
+
+const NUMBERING = `<?xml version="1.0"?><w:numbering ${W}>
+  <w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/></w:lvl></w:abstractNum>
+  <w:abstractNum w:abstractNumId="1"><w:lvl w:ilvl="0"><w:numFmt w:val="bullet"/></w:lvl></w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+  <w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>
+</w:numbering>`;
+
+const listItem = (text: string, numId: number, level = 0) =>
+  para(text, `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`);
+
+// ---------------------------------------------------------------------------
+// openZip
+// ---------------------------------------------------------------------------
+
+describe("openZip", () => {
+  it("lists and inflates entries", () => {
+    const zip = openZip(buildZip({ "a.txt": "alpha", "dir/b.txt": "beta" }));
+
+    expect(zip.names).toEqual(["a.txt", "dir/b.txt"]);
+    expect(zip.read("dir/b.txt")?.toString()).toBe("beta");
+    expect(zip.read("missing")).toBeNull();
+  });
+
+  it("refuses to inflate an entry past its declared size", () => {
+    const archive = buildZip({ "bomb.xml": "x".repeat(10_000) });
+    // Understate the uncompressed size in the central directory
+    const central = archive.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    archive.writeUInt32LE(16, central + 24);
+
+    expect(() => openZip(archive).read("bomb.xml")).toThrow(/Cannot inflate zip entry bomb\.xml/);
+  });
+
+  it("throws on non-zip input", () => {
+    expect(() => openZip(Buffer.from("not a zip at all, just some bytes"))).toThrow(/zip/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// docxToHtml
+// ---------------------------------------------------------------------------
+
+describe("docxToHtml", () => {
+  it("maps heading styles from styles.xml, outline levels and built-in style ids", () => {
+    const body =
+      para("Localized heading", '<w:pStyle w:val="Titre1"/>') +
+      para("Outline heading", '<w:pStyle w:val="Sub"/>') +
+      para("Built-in heading", '<w:pStyle w:val="Heading3"/>') +
+      para("Body text");
+    const { html } = docxToHtml(buildDocx(body, { "word/styles.xml": STYLES }));
+
+    expect(html).toContain("<h1>Localized heading</h1>");
+    expect(html).toContain("<h2>Outline heading</h2>");
+    expect(html).toContain("<h3>Built-in heading</h3>");
+    expect(html).toContain("<p>Body text</p>");
+  });
+
+  it("keeps bold, italic and hyperlinks", () => {
+    const body =
+      `<w:p><w:r><w:rPr><w:b/></w:rPr><w:t>Bold</w:t></w:r><w:r><w:t xml:space="preserve"> and </w:t></w:r>` +
+      `<w:r><w:rPr><w:i/></w:rPr><w:t>italic</w:t></w:r><w:r><w:rPr><w:b w:val="0"/></w:rPr><w:t xml:space="preserve"> see </w:t></w:r>` +
+      `<w:hyperlink r:id="rId9"><w:r><w:t>docs</w:t></w:r></w:hyperlink></w:p>`;
+    const rels = `<?xml version="1.0"?><Relationships><Relationship Id="rId9" Target="https://example.com/docs" TargetMode="External"/></Relationships>`;
+    const { html } = docxToHtml(buildDocx(body, { "word/_rels/document.xml.rels": rels }));
+
+    expect(html).toContain(
+      '<p><strong>Bold</strong> and <em>italic</em> see <a href="https://example.com/docs">docs</a></p>'
+    );
+  });
+
+  it("builds nested ordered and bulleted lists", () => {
+    const body =
+      listItem("First", 1) + listItem("Nested", 2, 1) + listItem("Second", 1) + para("After");
+    const { html } = docxToHtml(buildDocx(body, { "word/numbering.xml": NUMBERING }));
+
+    expect(html).toContain(
+      "<ol><li>First<ul><li>Nested</li></ul></li><li>Second</li></ol><p>After</p>"
+    );
+  });
+
+  it("renders tables with header rows", () => {
+    const cell = (text: string) => `<w:tc>${para(text)}</w:tc>`;
+    const body =
+      `<w:tbl><w:tr><w:trPr><w:tblHeader/></w:trPr>${cell("Name")}${cell("Qty")}</w:tr>` +
+      `<w:tr>${cell("Apples")}${cell("3")}</w:tr></w:tbl>`;
+    const { html } = docxToHtml(buildDocx(body));
+
+    expect(html).toContain(
+      "<table><tr><th>Name</th><th>Qty</th></tr><tr><td>Apples</td><td>3</td></tr></table>"
+    );
+  });
+
+  it("splits pages on page breaks and drops deleted revisions", () => {
+    const body =
+      `<w:p><w:r><w:t>Page one</w:t></w:r><w:del><w:r><w:delText>gone</w:delText></w:r></w:del>` +
+      `<w:r><w:br w:type="page"/></w:r></w:p>` +
+      para("Page two") +
+      para("Page three", "<w:pageBreakBefore/>");
+    const { html } = docxToHtml(buildDocx(body));
+
+    expect(html).toContain(
+      '<section data-page="1"><p>Page one</p></section><hr><section data-page="2"><p>Page two</p></section>' +
+        '<hr><section data-page="3"><p>Page three</p></section>'
+    );
+    expect(html).not.toContain("gone");
+  });
+
+  it("reads core and app properties", () => {
+    const core = `<?xml version="1.0"?><cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/">
+      <dc:title>Handbook</dc:title><dc:creator>Ada</dc:creator><dc:subject>Onboarding</dc:subject>
+      <cp:keywords>hr, policy</cp:keywords><dc:language>fr-FR</dc:language>
+      <dcterms:created>2024-03-01T10:00:00Z</dcterms:created></cp:coreProperties>`;
+    const app = `<?xml version="1.0"?><Properties><Pages>12</Pages></Properties>`;
+    const { properties, html } = docxToHtml(
+      buildDocx(para("Hi"), { "docProps/core.xml": core, "docProps/app.xml": app })
+    );
+
+    expect(properties).toEqual({
+      title: "Handbook",
+      author: "Ada",
+      description: "Onboarding",
+      keywords: "hr, policy",
+      language: "fr-FR",
+      pageCount: 12,
+      createdAt: "2024-03-01T10:00:00Z",
+      modifiedAt: undefined,
+    });
+    expect(html).toContain("<title>Handbook</title>");
+  });
+
+  it("throws when the archive has no document body", () => {
+    expect(() => docxToHtml(buildZip({ "word/other.xml": "<x/>" }))).toThrow(/DOCX/);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import { deflateSync } from "node:zlib";
+import { pdfToHtml } from "../../documents/pdf.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Assemble a PDF from object bodies (object N is objects[N - 1]) with a valid xref table
+ */
+function buildPdf(objects: Array<string | Buffer>, trailer: string): Buffer {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n", "latin1")];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+
+  objects.forEach((body, i) => {
+    offsets.push(length);
+    const part = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+      Buffer.isBuffer(body) ? body : Buffer.from(body, "latin1"),
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    parts.push(part);
+    length += part.length;
+  });
+
+  const xref =
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${objects.length + 1} ${trailer} >>\nstartxref\n${length}\n%%EOF\n`;
+  parts.push(Buffer.from(xref, "latin1"));
+  return Buffer.concat(parts);
+}
+
+function flateStream(content: string, extra = ""): Buffer {
+  const data = deflateSync(Buffer.from(content, "latin1"));
+  return Buffer.concat([
+    Buffer.from(`<< /Length ${data.length} /Filter /FlateDecode ${extra}>>\nstream\n`, "latin1"),
+    data,
+    Buffer.from("\nendstream", "latin1"),
+  ]);
+}
+
+const FONT = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+
+function twoPagePdf(): Buffer {
+  const page1 = [
+    "BT /F1 24 Tf 72 720 Td (Quarterly Report) Tj ET",
+    "BT /F1 12 Tf 72 680 Td 14 TL",
+    "(Revenue grew in every region this quarter, ) Tj T*",
+    "(driven by strong subscription renewals.) Tj",
+    "0 -40 Td [(Costs) -250 (were) -250 (flat.)] TJ ET",
+  ].join("\n");
+  const page2 = "BT /F1 12 Tf 72 720 Td (Outlook \\(2025\\): \\223cautious\\224) Tj ET";
+
+  return buildPdf(
+    [
+      "<< /Type /Catalog /Pages 2 0 R /Lang (en-GB) >>",
+      "<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R >> >> >>",
+      "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 6 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 7 0 R >>",
+      FONT,
+      flateStream(page1),
+      flateStream(page2),
+      "<< /Title (Q3 Report) /Author <FEFF004A006F007300E9> /Subject (Results) /CreationDate (D:20240115093000+01'00') >>",
+    ],
+    "/Root 1 0 R /Info 8 0 R"
+  );
+}
+
+// ---------------------------------------------------------------------------
+// pdfToHtml
+// ---------------------------------------------------------------------------
+
+describe("pdfToHtml", () => {
+  it("extracts text page by page into page sections", () => {
+    const { html } = pdfToHtml(twoPagePdf());
+
+    expect(html).toContain('<section data-page="1">');
+    expect(html).toContain('<section data-page="2">');
+    expect(html).toContain("<hr>");
+    expect(html.indexOf("Quarterly Report")).toBeLessThan(html.indexOf("Outlook"));
+  });
+
+  it("joins lines into paragraphs and promotes large text to headings", () => {
+    const { html } = pdfToHtml(twoPagePdf());
+
+    expect(html).toContain("<h1>Quarterly Report</h1>");
+    expect(html).toContain(
+      "<p>Revenue grew in every region this quarter, driven by strong subscription renewals.</p>"
+    );
+    // TJ kerning gaps become word breaks; a large vertical gap starts a new paragraph
+    expect(html).toContain("<p>Costs were flat.</p>");
+  });
+
+  it("decodes string escapes and WinAnsi punctuation", () => {
+    const { html } = pdfToHtml(twoPagePdf());
+    expect(html).toContain("Outlook (2025): “cautious”");
+  });
+
+  it("reads the info dictionary, language and page count", () => {
+    const { properties, html } = pdfToHtml(twoPagePdf());
+
+    expect(properties).toEqual({
+      title: "Q3 Report",
+      author: "José",
+      description: "Results",
+      keywords: undefined,
+      language: "en-GB",
+      pageCount: 2,
+      createdAt: "2024-01-15T08:30:00.000Z",
+      modifiedAt: undefined,
+    });
+    expect(html).toContain("<title>Q3 Report</title>");
+  });
+
+  it("maps glyph codes through a ToUnicode CMap", () => {
+    const cmap = [
+      "/CIDInit /ProcSet findresource begin",
+      "begincmap",
+      "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+      "2 beginbfchar <0001> <0048> <0002> <0069> endbfchar",
+      "1 beginbfrange <0010> <0012> <0061> endbfrange",
+      "endcmap",
+    ].join("\n");
+    const pdf = buildPdf(
+      [
+        "<< /Type /Catalog /Pages 2 0 R >>",
+        "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+        "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>",
+        flateStream("BT /F1 12 Tf 72 720 Td <000100020010001100120002> Tj ET"),
+        "<< /Type /Font /Subtype /Type0 /BaseFont /Custom /Encoding /Identity-H /ToUnicode 6 0 R >>",
+        flateStream(cmap),
+      ],
+      "/Root 1 0 R"
+    );
+
+    expect(pdfToHtml(pdf).html).toContain("<p>Hiabci</p>");
+  });
+
+  it("maps bfrange destinations too short to increment as given", () => {
+    const cmap = [
+      "begincmap",
+      "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+      "3 beginbfrange <0001> <0001> <0048> <0002> <0003> <> <0004> <0004> <41> endbfrange",
+      "endcmap",
+    ].join("\n");
+    const pdf = buildPdf(
+      [
+        "<< /Type /Catalog /Pages 2 0 R >>",
+        "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+        "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>",
+        flateStream("BT /F1 12 Tf 72 720 Td <000100020001> Tj ET"),
+        "<< /Type /Font /Subtype /Type0 /BaseFont /Custom /Encoding /Identity-H /ToUnicode 6 0 R >>",
+        flateStream(cmap),
+      ],
+      "/Root 1 0 R"
+    );
+
+    expect(pdfToHtml(pdf).html).toContain("<p>HH</p>");
+  });
+
+  it("finds objects packed in object streams", () => {
+    // Object 6 (the font) only exists inside object stream 5
+    const pdf = buildPdf(
+      [
+        "<< /Type /Catalog /Pages 2 0 R >>",
+        "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+        "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 6 0 R >> >> /Contents 4 0 R >>",
+        flateStream("BT /F1 12 Tf 72 720 Td (Packed fonts still work) Tj ET"),
+        flateStream(`6 0 ${FONT}`, "/Type /ObjStm /N 1 /First 4 "),
+      ],
+      "/Root 1 0 R"
+    );
+
+    expect(pdfToHtml(pdf).html).toContain("<p>Packed fonts still work</p>");
+  });
+
+  it("rejects encrypted PDFs", () => {
+    const pdf = buildPdf(
+      ["<< /Type /Catalog >>", "<< /Filter /Standard >>"],
+      "/Root 1 0 R /Encrypt 2 0 R"
+    );
+    expect(() => pdfToHtml(pdf)).toThrow(/Encrypted/);
+  });
+});
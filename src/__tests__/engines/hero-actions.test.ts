@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { KeyboardKey, type default as Hero } from "@ulixee/hero";
+import { runPageActions, type PageAction } from "../../engines/hero/actions.js";
+import { PageActionError } from "../../engines/errors.js";
+
+function createMockHero() {
+  const tab = {
+    evaluate: vi.fn(async (_fn: unknown, script: string) => `ran: ${script}`),
+  };
+
+  const hero = {
+    click: vi.fn(async () => undefined),
+    type: vi.fn(async () => undefined),
+    scrollTo: vi.fn(async () => undefined),
+    waitForElement: vi.fn(async (element: unknown) => element),
+    takeScreenshot: vi.fn(async () => Buffer.from("png")),
+    activeTab: Promise.resolve(tab),
+    document: {
+      documentElement: {
+        outerHTML: Promise.resolve("<html><body>after</body></html>"),
+      },
+      querySelector: vi.fn((selector: string) => ({ selector })),
+    },
+    tab,
+  };
+  return hero as typeof hero & Hero;
+}
+
+describe("runPageActions", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs the steps in order against the page", async () => {
+    const hero = createMockHero();
+    const actions: PageAction[] = [
+      { type: "click", selector: "#accept-cookies" },
+      { type: "type", selector: "input[name=q]", text: "pricing" },
+      { type: "press", key: "Enter" },
+      { type: "scroll", selector: "#results" },
+      { type: "evaluate", script: "document.title" },
+    ];
+
+    const results = await runPageActions(hero, actions);
+
+    expect(hero.click).toHaveBeenNthCalledWith(1, { selector: "#accept-cookies" });
+    expect(hero.click).toHaveBeenNthCalledWith(2, { selector: "input[name=q]" });
+    expect(hero.type).toHaveBeenNthCalledWith(1, "pricing");
+    expect(hero.type).toHaveBeenNthCalledWith(2, KeyboardKey.Enter);
+    expect(hero.scrollTo).toHaveBeenCalledWith({ selector: "#results" });
+    expect(hero.tab.evaluate).toHaveBeenCalledWith(expect.any(Function), "document.title");
+    expect(results.map((result) => [result.type, result.status])).toEqual([
+      ["click", "completed"],
+      ["type", "completed"],
+      ["press", "completed"],
+      ["scroll", "completed"],
+      ["evaluate", "completed"],
+    ]);
+    expect(results[4].value).toBe("ran: document.title");
+  });
+
+  it("records a failed optional step and carries on", async () => {
+    const hero = createMockHero();
+    hero.waitForElement.mockResolvedValueOnce(null);
+
+    const results = await runPageActions(hero, [
+      { type: "click", selector: "#cookie-wall", optional: true },
+      { type: "press", key: "Escape" },
+    ]);
+
+    expect(results[0]).toMatchObject({
+      index: 0,
+      status: "failed",
+      error: 'No element matches "#cookie-wall"',
+    });
+    expect(results[1].status).toBe("completed");
+  });
+
+  it("fails on a required step with the step's position and type", async () => {
+    const hero = createMockHero();
+
+    const pending = runPageActions(hero, [
+      { type: "waitForTimeout", ms: 100 },
+      { type: "press", key: "NoSuchKey" },
+      { type: "click", selector: "#never" },
+    ]).catch((e: unknown) => e);
+    await vi.advanceTimersByTimeAsync(100);
+    const error = await pending;
+
+    expect(error).toBeInstanceOf(PageActionError);
+    expect(error).toMatchObject({
+      actionIndex: 1,
+      actionType: "press",
+      retryable: false,
+      message: '[hero] Action 2 (press) failed: Unknown key "NoSuchKey"',
+    });
+    expect(hero.click).not.toHaveBeenCalled();
+  });
+
+  it("gives up on a step after its timeout", async () => {
+    const hero = createMockHero();
+    hero.waitForElement.mockReturnValueOnce(new Promise(() => {}));
+
+    const pending = runPageActions(hero, [
+      { type: "waitForSelector", selector: ".results", timeoutMs: 500, optional: true },
+    ]);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect((await pending)[0]).toMatchObject({
+      status: "failed",
+      error: "Step did not finish within 500ms",
+    });
+  });
+
+  it("captures a screenshot and the HTML after a step", async () => {
+    const hero = createMockHero();
+
+    const [result] = await runPageActions(
+      hero,
+      [{ type: "click", selector: ".show-more", capture: ["screenshot", "html"] }],
+      { captureOptions: { screenshotFormat: "jpeg", quality: 60 } }
+    );
+
+    expect(hero.takeScreenshot).toHaveBeenCalledWith({
+      format: "jpeg",
+      fullPage: false,
+      jpegQuality: 60,
+    });
+    expect(result.screenshot).toEqual(Buffer.from("png"));
+    expect(result.html).toBe("<html><body>after</body></html>");
+  });
+
+  it("stops before the next step once the signal fires", async () => {
+    const hero = createMockHero();
+    const controller = new AbortController();
+    hero.takeScreenshot.mockImplementationOnce(async () => {
+      controller.abort();
+      return Buffer.from("png");
+    });
+
+    const results = await runPageActions(
+      hero,
+      [
+        { type: "click", selector: "#tab-2", capture: ["screenshot"] },
+        { type: "click", selector: "#tab-3" },
+      ],
+      { signal: controller.signal }
+    );
+
+    expect(results).toHaveLength(1);
+    expect(hero.click).toHaveBeenCalledTimes(1);
+  });
+
+  it("cuts a step short when the signal fires", async () => {
+    const hero = createMockHero();
+    hero.waitForElement.mockReturnValueOnce(new Promise(() => {}));
+    const controller = new AbortController();
+
+    const pending = runPageActions(
+      hero,
+      [
+        { type: "waitForTimeout", ms: 60_000 },
+        { type: "waitForSelector", selector: ".results" },
+      ],
+      { signal: controller.signal }
+    );
+    setTimeout(() => controller.abort(), 100);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await pending).toEqual([]);
+    expect(hero.waitForElement).not.toHaveBeenCalled();
+
+    // A required step the signal interrupts doesn't fail the run
+    const later = new AbortController();
+    hero.waitForElement.mockReturnValueOnce(new Promise(() => {}));
+    const required = runPageActions(hero, [{ type: "waitForSelector", selector: ".results" }], {
+      signal: later.signal,
+    });
+    later.abort();
+
+    expect(await required).toEqual([]);
+  });
+});
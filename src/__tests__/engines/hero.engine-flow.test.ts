@@ -1,4 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type Hero from "@ulixee/hero";
+import type { IBrowserPool } from "../../browser/types.js";
 
 // Mocks must be declared before importing the module under test.
 vi.mock("../../cloudflare/detector.js", () => ({
@@ -29,7 +31,7 @@ const mockSimulateBehavior = vi.mocked(simulateBehavior);
 const mockWaitForNetworkIdle = vi.mocked(waitForNetworkIdle);
 const mockScrollToBottom = vi.mocked(scrollToBottom);
 
-function createMockHero(html: string) {
+function createMockHero(html: string, overrides: Record<string, unknown> = {}) {
   const tab = {
     evaluate: vi.fn(async () => undefined),
   };
@@ -50,9 +52,23 @@ function createMockHero(html: string) {
       },
       querySelector: vi.fn(async () => null),
     },
+    ...overrides,
   } as any;
 }
 
+function createPool(hero: Hero): IBrowserPool {
+  const pool: IBrowserPool = {
+    initialize: vi.fn(async () => undefined),
+    shutdown: vi.fn(async () => undefined),
+    acquire: vi.fn(async () => hero),
+    release: vi.fn(),
+    withBrowser: (callback) => callback(hero),
+    getStats: vi.fn(),
+  };
+  vi.spyOn(pool, "withBrowser");
+  return pool;
+}
+
 describe("HeroEngine - flow", () => {
   beforeEach(() => {
     vi.useFakeTimers();
@@ -157,4 +173,134 @@ describe("HeroEngine - flow", () => {
       })
     );
   });
+
+  it("reports the final document's status, headers and redirect chain", async () => {
+    const { heroEngine } = await import("../../engines/hero/index.js");
+
+    mockDetectChallenge.mockResolvedValue({
+      isChallenge: false,
+      type: "none",
+      confidence: 0,
+      signals: [],
+    });
+
+    const redirect = {
+      url: "http://example.com/",
+      isRedirect: true,
+      response: { statusCode: 301, headers: { Location: "https://example.com/" } },
+    };
+    const challenge = {
+      url: "https://example.com/",
+      response: { statusCode: 403, headers: { "Content-Type": "text/html" } },
+    };
+    const page = {
+      url: "https://example.com/",
+      response: {
+        statusCode: 200,
+        headers: { "Content-Type": "text/html; charset=utf-8", "Set-Cookie": ["a=1", "b=2"] },
+      },
+    };
+    const findResources = vi.fn(async () => [redirect, challenge, page]);
+
+    const html = `<html><body>${"Hello world ".repeat(50)}</body></html>`;
+    const hero = createMockHero(html, {
+      goto: vi.fn(async () => challenge),
+      lastCommandId: Promise.resolve(7),
+      findResources,
+      url: Promise.resolve("https://example.com/"),
+    });
+    const pool = createPool(hero);
+
+    const p = heroEngine.scrape({
+      url: "http://example.com/",
+      options: { urls: ["http://example.com/"], pool },
+    });
+
+    await vi.advanceTimersByTimeAsync(3000);
+    const result = await p;
+
+    expect(findResources).toHaveBeenCalledWith({ type: "Document" }, { sinceCommandId: 7 });
+    expect(result.url).toBe("https://example.com/");
+    expect(result.statusCode).toBe(200);
+    expect(result.contentType).toBe("text/html; charset=utf-8");
+    expect(result.headers).toEqual({
+      "content-type": "text/html; charset=utf-8",
+      "set-cookie": "a=1, b=2",
+    });
+    expect(result.redirects).toEqual([{ url: "http://example.com/", statusCode: 301 }]);
+  });
+
+  it("reports an unknown status when no document response was recorded", async () => {
+    const { heroEngine } = await import("../../engines/hero/index.js");
+
+    mockDetectChallenge.mockResolvedValue({
+      isChallenge: false,
+      type: "none",
+      confidence: 0,
+      signals: [],
+    });
+
+    const html = `<html><body>${"Hello world ".repeat(50)}</body></html>`;
+    const hero = createMockHero(html, {
+      findResources: vi.fn(async () => {
+        throw new Error("session closed");
+      }),
+    });
+    const { createLogger } = await import("../../utils/logger.js");
+    const logger = createLogger("hero-test", "silent");
+    const warn = vi.spyOn(logger, "warn");
+
+    const p = heroEngine.scrape({
+      url: "https://example.com",
+      options: { urls: ["https://example.com"], pool: createPool(hero) },
+      logger,
+    });
+
+    await vi.advanceTimersByTimeAsync(3000);
+    const result = await p;
+
+    expect(result.statusCode).toBe(0);
+    expect(result.headers).toBeUndefined();
+    expect(result.redirects).toEqual([]);
+    expect(warn).toHaveBeenCalledWith("[hero] Document resources unavailable: session closed");
+    expect(warn).toHaveBeenCalledWith(
+      "[hero] No document response recorded for https://example.com; status unknown"
+    );
+  });
+
+  it("closes the tab and drops its abort listener when the scrape is aborted", async () => {
+    const { heroEngine } = await import("../../engines/hero/index.js");
+    const { EngineTimeoutError } = await import("../../engines/errors.js");
+
+    const tab = { close: vi.fn(async () => undefined) };
+    const hero = createMockHero("<html></html>", {
+      goto: vi.fn(() => new Promise((resolve) => setTimeout(resolve, 1000))),
+      activeTab: tab,
+    });
+    const pool = createPool(hero);
+    const controller = new AbortController();
+    const addListener = vi.spyOn(controller.signal, "addEventListener");
+    const removeListener = vi.spyOn(controller.signal, "removeEventListener");
+
+    const p = heroEngine.scrape({
+      url: "https://example.com",
+      options: { urls: ["https://example.com"], pool },
+      abortSignal: controller.signal,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await expect(p).rejects.toBeInstanceOf(EngineTimeoutError);
+    expect(tab.close).toHaveBeenCalledTimes(1);
+
+    // The page's own work stops at its next checkpoint and unhooks from the shared signal
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(vi.mocked(pool.withBrowser).mock.results[0].value).rejects.toBeInstanceOf(
+      EngineTimeoutError
+    );
+    const removed = removeListener.mock.calls.map(([, listener]) => listener);
+    for (const [, listener] of addListener.mock.calls) {
+      expect(removed).toContain(listener);
+    }
+  });
 });
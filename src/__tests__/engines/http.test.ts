@@ -121,7 +121,7 @@ describe("HttpEngine", () => {
 
       expect(fetchSpy).toHaveBeenCalledWith(
         "https://test.example.org/page",
-        expect.objectContaining({ method: "GET", redirect: "follow" })
+        expect.objectContaining({ method: "GET", redirect: "manual" })
       );
     });
   });
@@ -346,6 +346,164 @@ describe("HttpEngine", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Conditional requests
+  // -----------------------------------------------------------------------
+
+  describe("conditional requests", () => {
+    it("sends validators and returns an empty notModified result on 304", async () => {
+      // A 304 has no body, so build the Response directly
+      fetchSpy.mockResolvedValue(new Response(null, { status: 304, headers: { etag: '"v1"' } }));
+
+      const result = await httpEngine.scrape(
+        defaultMeta({
+          conditional: { etag: '"v1"', lastModified: "Mon, 01 Jun 2026 00:00:00 GMT" },
+        })
+      );
+
+      const callHeaders = fetchSpy.mock.calls[0][1].headers;
+      expect(callHeaders["If-None-Match"]).toBe('"v1"');
+      expect(callHeaders["If-Modified-Since"]).toBe("Mon, 01 Jun 2026 00:00:00 GMT");
+      expect(result).toMatchObject({ html: "", statusCode: 304, notModified: true });
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Redirects
+  // -----------------------------------------------------------------------
+
+  describe("redirects", () => {
+    function redirect(status: number, location: string): Response {
+      return new Response(null, { status, headers: { location } });
+    }
+
+    it("follows redirects and returns each hop in order", async () => {
+      fetchSpy
+        .mockResolvedValueOnce(redirect(301, "https://www.example.com/"))
+        .mockResolvedValueOnce(redirect(302, "/en/"))
+        .mockResolvedValueOnce(
+          mockFetchResponse(VALID_HTML, { url: "https://www.example.com/en/" })
+        );
+
+      const result = await httpEngine.scrape(defaultMeta({ url: "http://example.com/" }));
+
+      expect(fetchSpy.mock.calls.map(([url]) => url)).toEqual([
+        "http://example.com/",
+        "https://www.example.com/",
+        "https://www.example.com/en/",
+      ]);
+      expect(result.url).toBe("https://www.example.com/en/");
+      expect(result.statusCode).toBe(200);
+      expect(result.redirects).toEqual([
+        { url: "http://example.com/", statusCode: 301 },
+        { url: "https://www.example.com/", statusCode: 302 },
+      ]);
+    });
+
+    it("returns no redirects when the page answers directly", async () => {
+      fetchSpy.mockResolvedValue(mockFetchResponse(VALID_HTML, { url: "https://example.com" }));
+
+      const result = await httpEngine.scrape(defaultMeta());
+
+      expect(result.redirects).toEqual([]);
+    });
+
+    it("does not send cookies and credentials on to another origin", async () => {
+      fetchSpy
+        .mockResolvedValueOnce(redirect(302, "https://login.example.net/"))
+        .mockResolvedValueOnce(mockFetchResponse(VALID_HTML));
+
+      await httpEngine.scrape(
+        defaultMeta({
+          options: {
+            urls: ["https://example.com"],
+            headers: { Cookie: "session=1", Authorization: "Bearer x" },
+          },
+        })
+      );
+
+      expect(fetchSpy.mock.calls[0][1].headers).toMatchObject({ Cookie: "session=1" });
+      expect(fetchSpy.mock.calls[1][1].headers.Cookie).toBeUndefined();
+      expect(fetchSpy.mock.calls[1][1].headers.Authorization).toBeUndefined();
+    });
+
+    it("gives up on redirect loops", async () => {
+      fetchSpy.mockImplementation(async () => redirect(302, "https://example.com/"));
+
+      await expect(httpEngine.scrape(defaultMeta())).rejects.toThrow(
+        /Too many redirects \(more than 20\)/
+      );
+      expect(fetchSpy).toHaveBeenCalledTimes(21);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Charset decoding
+  // -----------------------------------------------------------------------
+
+  describe("charset decoding", () => {
+    it("decodes legacy-encoded pages and reports the charset used", async () => {
+      // "東京の天気予報です。" in Shift_JIS, repeated past the thin-content threshold
+      const sjis = Buffer.from("938c8b9e82cc93568b43975c95f182c582b78142", "hex");
+      const body = Buffer.concat([
+        Buffer.from('<html><head><meta charset="Shift_JIS"></head><body><p>'),
+        ...Array<Buffer>(12).fill(sjis),
+        Buffer.from("</p></body></html>"),
+      ]);
+      fetchSpy.mockResolvedValue(new Response(body, { headers: { "content-type": "text/html" } }));
+
+      const result = await httpEngine.scrape(defaultMeta());
+
+      expect(result.charset).toBe("shift_jis");
+      expect(result.html).toContain("東京の天気予報です。");
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Document responses
+  // -----------------------------------------------------------------------
+
+  describe("document responses", () => {
+    it("converts short text bodies instead of rejecting them as thin content", async () => {
+      fetchSpy.mockResolvedValue(
+        mockFetchResponse("Release notes.\n\nAccess denied errors are fixed.", {
+          headers: { "content-type": "text/plain" },
+          url: "https://example.com/notes.txt",
+        })
+      );
+
+      const result = await httpEngine.scrape(defaultMeta());
+
+      expect(result.document).toEqual({ type: "text", properties: {} });
+      expect(result.html).toContain("<p>Release notes.</p><p>Access denied errors are fixed.</p>");
+      expect(result.contentType).toBe("text/plain");
+    });
+
+    it("sniffs PDFs served as application/octet-stream", async () => {
+      fetchSpy.mockResolvedValue(
+        new Response(
+          "%PDF-1.4\n1 0 obj\n<< /Type /Page /Contents 2 0 R >>\nendobj\n" +
+            "2 0 obj\n<< /Length 29 >>\nstream\nBT 72 720 Td (Hello PDF) Tj ET\nendstream\nendobj\n",
+          { headers: { "content-type": "application/octet-stream" } }
+        )
+      );
+
+      const result = await httpEngine.scrape(defaultMeta());
+
+      expect(result.document?.type).toBe("pdf");
+      expect(result.document?.properties.pageCount).toBe(1);
+      expect(result.html).toContain("<p>Hello PDF</p>");
+    });
+
+    it("throws InsufficientContentError for documents without text", async () => {
+      fetchSpy.mockResolvedValue(
+        mockFetchResponse("", { headers: { "content-type": "application/json" } })
+      );
+
+      await expect(httpEngine.scrape(defaultMeta())).rejects.toThrow(InsufficientContentError);
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Challenge detection
   // -----------------------------------------------------------------------
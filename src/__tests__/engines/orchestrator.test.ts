@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import type { Engine, EngineMeta, EngineResult, EngineName } from "../../engines/types.js";
+import type {
+  BuiltInEngineName,
+  Engine,
+  EngineMeta,
+  EngineResult,
+  EngineName,
+} from "../../engines/types.js";
 import { ENGINE_CONFIGS } from "../../engines/types.js";
 import { EngineAffinityCache } from "../../engines/engine-affinity.js";
 import { DomainCircuitBreaker } from "../../engines/circuit-breaker.js";
@@ -12,12 +18,13 @@ import {
   EngineUnavailableError,
   AllEnginesFailedError,
 } from "../../engines/errors.js";
+import { AbortedError, ValidationError } from "../../errors.js";
 
 // ---------------------------------------------------------------------------
 // Mock engines
 // ---------------------------------------------------------------------------
 
-function makeMockEngine(name: EngineName, available = true): Engine {
+function makeMockEngine(name: BuiltInEngineName, available = true): Engine {
   return {
     config: ENGINE_CONFIGS[name],
     scrape: vi.fn<(meta: EngineMeta) => Promise<EngineResult>>(),
@@ -42,11 +49,21 @@ vi.mock("../../engines/hero/index.js", () => ({
 
 // Import the orchestrator AFTER mocks are in place.
 const { EngineOrchestrator } = await import("../../engines/orchestrator.js");
+const { registerEngine, unregisterEngine, getRegisteredEngines } =
+  await import("../../engines/registry.js");
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+function makeCustomEngine(name: string, quality: number): Engine {
+  return {
+    config: { ...ENGINE_CONFIGS.http, name, quality },
+    scrape: vi.fn<(meta: EngineMeta) => Promise<EngineResult>>(),
+    isAvailable: vi.fn(() => true),
+  };
+}
+
 function successResult(engine: EngineName): EngineResult {
   return {
     html: "<html><body>Hello world</body></html>",
@@ -329,6 +346,201 @@ describe("EngineOrchestrator", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Parallel racing
+  // -----------------------------------------------------------------------
+
+  describe("scrape – parallel racing", () => {
+    /** Answers after delayMs, or rejects once aborted */
+    function answerAfter(engine: EngineName, delayMs: number, signals: AbortSignal[] = []) {
+      return (meta: EngineMeta) =>
+        new Promise<EngineResult>((resolve, reject) => {
+          if (meta.abortSignal) signals.push(meta.abortSignal);
+          const timer = setTimeout(
+            () => resolve({ ...successResult(engine), duration: delayMs }),
+            delayMs
+          );
+          meta.abortSignal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(new EngineTimeoutError(engine, delayMs));
+          });
+        });
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("starts the next engine after the stagger timeout and aborts the slower one", async () => {
+      const httpSignals: AbortSignal[] = [];
+      (mockHttpEngine.scrape as ReturnType<typeof vi.fn>).mockImplementation(
+        answerAfter("http", 9000, httpSignals)
+      );
+      (mockTlsClientEngine.scrape as ReturnType<typeof vi.fn>).mockImplementation(
+        answerAfter("tlsclient", 500)
+      );
+      const cache = new EngineAffinityCache({ now: () => 0, ttlMs: 60_000 });
+      const orch = new EngineOrchestrator({ parallelRacing: true, affinityCache: cache });
+
+      const pending = orch.scrape(defaultMeta());
+      await vi.advanceTimersByTimeAsync(ENGINE_CONFIGS.http.timeout - 1);
+      expect(mockTlsClientEngine.scrape).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(501);
+      const result = await pending;
+
+      expect(result.engine).toBe("tlsclient");
+      expect(result.attemptedEngines).toEqual(["http", "tlsclient"]);
+      expect(result.engineErrors.size).toBe(0);
+      expect(httpSignals[0].aborted).toBe(true);
+      expect(mockHeroEngine.scrape).not.toHaveBeenCalled();
+
+      // The aborted loser is not counted as a failure
+      const snap = cache.getDomainSnapshot("example.com");
+      expect(snap?.entries.tlsclient?.successes).toBe(1);
+      expect(snap?.entries.http).toBeUndefined();
+    });
+
+    it("keeps the first engine's result when it answers before the engine racing it", async () => {
+      const tlsSignals: AbortSignal[] = [];
+      (mockHttpEngine.scrape as ReturnType<typeof vi.fn>).mockImplementation(
+        answerAfter("http", 4000)
+      );
+      (mockTlsClientEngine.scrape as ReturnType<typeof vi.fn>).mockImplementation(
+        answerAfter("tlsclient", 5000, tlsSignals)
+      );
+      const orch = new EngineOrchestrator({ parallelRacing: true });
+
+      const pending = orch.scrape(defaultMeta());
+      await vi.advanceTimersByTimeAsync(4000);
+      const result = await pending;
+
+      expect(result.engine).toBe("http");
+      expect(result.attemptedEngines).toEqual(["http", "tlsclient"]);
+      expect(tlsSignals[0].aborted).toBe(true);
+    });
+
+    it("falls back straight away when a racing engine fails", async () => {
+      (mockHttpEngine.scrape as ReturnType<typeof vi.fn>).mockImplementation(
+        answerAfter("http", 20_000)
+      );
+      (mockTlsClientEngine.scrape as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new HttpError("tlsclient", 403)
+      );
+      (mockHeroEngine.scrape as ReturnType<typeof vi.fn>).mockImplementation(
+        answerAfter("hero", 100)
+      );
+      const orch = new EngineOrchestrator({ parallelRacing: true });
+
+      const pending = orch.scrape(defaultMeta());
+      await vi.advanceTimersByTimeAsync(ENGINE_CONFIGS.http.timeout + 100);
+      const result = await pending;
+
+      expect(result.engine).toBe("hero");
+      expect(result.attemptedEngines).toEqual(["http", "tlsclient", "hero"]);
+      expect([...result.engineErrors.keys()]).toEqual(["tlsclient"]);
+    });
+
+    it("runs engines one at a time without parallelRacing", async () => {
+      (mockHttpEngine.scrape as ReturnType<typeof vi.fn>).mockImplementation(
+        answerAfter("http", 4000)
+      );
+      const orch = new EngineOrchestrator();
+
+      const pending = orch.scrape(defaultMeta());
+      await vi.advanceTimersByTimeAsync(4000);
+
+      expect((await pending).engine).toBe("http");
+      expect(mockTlsClientEngine.scrape).not.toHaveBeenCalled();
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Screenshot / PDF routing
+  // -----------------------------------------------------------------------
+
+  describe("scrape – capture formats", () => {
+    it("routes screenshot and pdf requests straight to hero", async () => {
+      const orch = new EngineOrchestrator();
+      (mockHttpEngine.scrape as ReturnType<typeof vi.fn>).mockResolvedValue(successResult("http"));
+      (mockHeroEngine.scrape as ReturnType<typeof vi.fn>).mockResolvedValue(successResult("hero"));
+
+      for (const format of ["screenshot", "pdf"] as const) {
+        const result = await orch.scrape(
+          defaultMeta({ options: { urls: ["https://example.com"], formats: ["markdown", format] } })
+        );
+        expect(result.engine).toBe("hero");
+        expect(result.attemptedEngines).toEqual(["hero"]);
+      }
+      expect(mockHttpEngine.scrape).not.toHaveBeenCalled();
+      expect(mockTlsClientEngine.scrape).not.toHaveBeenCalled();
+    });
+
+    it("fails without trying an engine when no capture-capable engine is enabled", async () => {
+      const orch = new EngineOrchestrator({ forceEngine: "http" });
+
+      const error = await orch
+        .scrape(defaultMeta({ options: { urls: ["https://example.com"], formats: ["pdf"] } }))
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AllEnginesFailedError);
+      expect((error as AllEnginesFailedError).errors.get("http")).toBeInstanceOf(
+        EngineUnavailableError
+      );
+      expect(mockHttpEngine.scrape).not.toHaveBeenCalled();
+    });
+
+    it("does not let capture runs shift the domain's engine affinity", async () => {
+      const cache = new EngineAffinityCache({ now: () => 0, ttlMs: 60_000 });
+      const orch = new EngineOrchestrator({ affinityCache: cache });
+      (mockHeroEngine.scrape as ReturnType<typeof vi.fn>).mockResolvedValue(successResult("hero"));
+
+      await orch.scrape(
+        defaultMeta({ options: { urls: ["https://example.com"], formats: ["screenshot"] } })
+      );
+
+      expect(cache.getDomainSnapshot("example.com")).toBeNull();
+    });
+
+    it("routes scrapes with page actions straight to hero", async () => {
+      const orch = new EngineOrchestrator();
+      (mockHeroEngine.scrape as ReturnType<typeof vi.fn>).mockResolvedValue(successResult("hero"));
+
+      const result = await orch.scrape(
+        defaultMeta({
+          options: {
+            urls: ["https://example.com"],
+            actions: [{ type: "click", selector: "#accept-cookies" }],
+          },
+        })
+      );
+
+      expect(result.attemptedEngines).toEqual(["hero"]);
+      expect(mockHttpEngine.scrape).not.toHaveBeenCalled();
+    });
+
+    it("fails without trying an engine when no engine can run page actions", async () => {
+      const orch = new EngineOrchestrator({ engines: ["http", "tlsclient"] });
+
+      const error = await orch
+        .scrape(
+          defaultMeta({
+            options: { urls: ["https://example.com"], actions: [{ type: "scroll" }] },
+          })
+        )
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AllEnginesFailedError);
+      expect((error as AllEnginesFailedError).errors.get("tlsclient")?.message).toBe(
+        "[tlsclient] Engine cannot run page actions"
+      );
+      expect(mockHttpEngine.scrape).not.toHaveBeenCalled();
+    });
+  });
+
   // -----------------------------------------------------------------------
   // shouldRetry
   // -----------------------------------------------------------------------
@@ -469,6 +681,55 @@ describe("EngineOrchestrator", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Progress events
+  // -----------------------------------------------------------------------
+
+  describe("events", () => {
+    it("reports each attempt, the challenge and the fallback", async () => {
+      (mockHttpEngine.scrape as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new ChallengeDetectedError("http", "cloudflare")
+      );
+      (mockTlsClientEngine.scrape as ReturnType<typeof vi.fn>).mockResolvedValue(
+        successResult("tlsclient")
+      );
+      const onEvent = vi.fn();
+
+      const orch = new EngineOrchestrator({ onEvent });
+      await orch.scrape(defaultMeta());
+
+      expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+        expect.objectContaining({ type: "engine:attempt", engine: "http", attempt: 1 }),
+        expect.objectContaining({
+          type: "challenge:detected",
+          engine: "http",
+          challengeType: "cloudflare",
+        }),
+        expect.objectContaining({
+          type: "engine:fallback",
+          from: "http",
+          to: "tlsclient",
+          durationMs: expect.any(Number),
+        }),
+        expect.objectContaining({ type: "engine:attempt", engine: "tlsclient", attempt: 2 }),
+      ]);
+    });
+
+    it("reports a fallback to null when the cascade gives up", async () => {
+      (mockHttpEngine.scrape as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new EngineError("http", "bad request", { retryable: false })
+      );
+      const onEvent = vi.fn();
+
+      const orch = new EngineOrchestrator({ onEvent });
+      await orch.scrape(defaultMeta()).catch(() => {});
+
+      expect(onEvent).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: "engine:fallback", from: "http", to: null })
+      );
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Abort signal propagation
   // -----------------------------------------------------------------------
@@ -521,6 +782,50 @@ describe("EngineOrchestrator", () => {
       const err = await p.catch((e: Error) => e);
       expect(err).toBeInstanceOf(Error);
     });
+
+    it("rejects with AbortedError up front when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const orch = new EngineOrchestrator();
+      await expect(orch.scrape(defaultMeta({ abortSignal: controller.signal }))).rejects.toThrow(
+        AbortedError
+      );
+      expect(mockHttpEngine.scrape).not.toHaveBeenCalled();
+    });
+
+    it("stops the cascade on external abort without penalising the engine", async () => {
+      const cache = new EngineAffinityCache({ now: () => 0, ttlMs: 60_000 });
+      const cb = new DomainCircuitBreaker({
+        failureThreshold: 1,
+        cooldownMs: 60_000,
+        halfOpenMaxAttempts: 1,
+        resetOnSuccess: true,
+      });
+      const controller = new AbortController();
+
+      (mockHttpEngine.scrape as ReturnType<typeof vi.fn>).mockImplementation(
+        async (meta: EngineMeta) =>
+          new Promise((_resolve, reject) => {
+            meta.abortSignal?.addEventListener("abort", () => {
+              reject(new EngineTimeoutError("http", 10000));
+            });
+          })
+      );
+      (mockTlsClientEngine.scrape as ReturnType<typeof vi.fn>).mockResolvedValue(
+        successResult("tlsclient")
+      );
+
+      const orch = new EngineOrchestrator({ affinityCache: cache, circuitBreaker: cb });
+      const p = orch.scrape(defaultMeta({ abortSignal: controller.signal }));
+      controller.abort();
+
+      await expect(p).rejects.toThrow(AbortedError);
+      expect(mockTlsClientEngine.scrape).not.toHaveBeenCalled();
+      expect(mockHeroEngine.scrape).not.toHaveBeenCalled();
+      expect(cache.getDomainSnapshot("example.com")).toBeNull();
+      expect(cb.getState("example.com")).toBe("closed");
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -554,6 +859,145 @@ describe("EngineOrchestrator", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Custom engines
+  // -----------------------------------------------------------------------
+
+  describe("custom engines", () => {
+    const archive = makeCustomEngine("archive", 200);
+    const vendor = makeCustomEngine("vendor", 10);
+
+    beforeEach(() => {
+      for (const eng of [archive, vendor]) {
+        (eng.scrape as ReturnType<typeof vi.fn>).mockReset();
+        registerEngine(eng, { replace: true });
+      }
+    });
+
+    afterEach(() => {
+      unregisterEngine("archive");
+      unregisterEngine("vendor");
+    });
+
+    it("places registered engines in the default cascade by quality", () => {
+      expect(getRegisteredEngines()).toEqual(["archive", "http", "tlsclient", "hero", "vendor"]);
+      expect(new EngineOrchestrator().getAvailableEngines()).toEqual([
+        "archive",
+        "http",
+        "tlsclient",
+        "hero",
+        "vendor",
+      ]);
+    });
+
+    it("rejects a second engine under a registered name", () => {
+      expect(() => registerEngine(makeCustomEngine("http", 1))).toThrow(ValidationError);
+      expect(() => registerEngine(makeCustomEngine("archive", 1))).toThrow(
+        'Engine "archive" is already registered'
+      );
+    });
+
+    it("honours forceEngine and skipEngines for registered engines", async () => {
+      (vendor.scrape as ReturnType<typeof vi.fn>).mockResolvedValue(successResult("vendor"));
+
+      const forced = await new EngineOrchestrator({ forceEngine: "vendor" }).scrape(defaultMeta());
+      expect(forced.engine).toBe("vendor");
+      expect(forced.attemptedEngines).toEqual(["vendor"]);
+
+      const skipping = new EngineOrchestrator({ skipEngines: ["archive", "tlsclient", "hero"] });
+      expect(skipping.getAvailableEngines()).toEqual(["http", "vendor"]);
+    });
+
+    it("uses engine instances passed to one orchestrator without registering them", async () => {
+      const local = makeCustomEngine("render-service", 60);
+      (mockHttpEngine.scrape as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new InsufficientContentError("http", 10)
+      );
+      (local.scrape as ReturnType<typeof vi.fn>).mockResolvedValue(successResult("render-service"));
+
+      const orch = new EngineOrchestrator({ engines: ["http", local] });
+      const result = await orch.scrape(defaultMeta());
+
+      expect(result.engine).toBe("render-service");
+      expect(result.attemptedEngines).toEqual(["http", "render-service"]);
+      expect(getRegisteredEngines()).not.toContain("render-service");
+      expect(() => new EngineOrchestrator({ forceEngine: "render-service" })).toThrow(
+        'Unknown engine "render-service"'
+      );
+    });
+
+    it("treats pdf and actions flags a custom engine leaves out as unsupported", async () => {
+      const renderer = makeCustomEngine("renderer", 60);
+      const engine: Engine = {
+        ...renderer,
+        config: {
+          ...renderer.config,
+          features: {
+            javascript: true,
+            cloudflare: false,
+            tlsFingerprint: false,
+            waitFor: true,
+            screenshots: true,
+          },
+        },
+      };
+      (engine.scrape as ReturnType<typeof vi.fn>).mockResolvedValue(successResult("renderer"));
+      const orch = new EngineOrchestrator({ engines: [engine] });
+
+      const screenshot = await orch.scrape(
+        defaultMeta({ options: { urls: ["https://example.com"], formats: ["screenshot"] } })
+      );
+      expect(screenshot.engine).toBe("renderer");
+
+      for (const options of [
+        { urls: ["https://example.com"], formats: ["pdf" as const] },
+        { urls: ["https://example.com"], actions: [{ type: "scroll" as const }] },
+      ]) {
+        await expect(orch.scrape(defaultMeta({ options }))).rejects.toThrow(AllEnginesFailedError);
+      }
+      expect(engine.scrape).toHaveBeenCalledTimes(1);
+    });
+
+    it("feeds custom engines into the affinity cache and circuit breaker", async () => {
+      const cache = new EngineAffinityCache({ now: () => 0, ttlMs: 60_000 });
+      const cb = new DomainCircuitBreaker({
+        failureThreshold: 2,
+        cooldownMs: 60_000,
+        halfOpenMaxAttempts: 1,
+        resetOnSuccess: true,
+      });
+      const orch = new EngineOrchestrator({
+        engines: ["archive", "vendor"],
+        affinityCache: cache,
+        circuitBreaker: cb,
+      });
+
+      (archive.scrape as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new EngineError("archive", "not archived")
+      );
+      (vendor.scrape as ReturnType<typeof vi.fn>).mockResolvedValue(successResult("vendor"));
+
+      await orch.scrape(defaultMeta({ url: "https://example.com" }));
+      const snap = cache.getDomainSnapshot("example.com");
+      expect(snap?.entries.archive?.failures).toBe(1);
+      expect(snap?.entries.vendor?.successes).toBe(1);
+
+      (vendor.scrape as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new EngineError("vendor", "quota exceeded")
+      );
+      await expect(orch.scrape(defaultMeta({ url: "https://example.org" }))).rejects.toThrow(
+        AllEnginesFailedError
+      );
+      expect(cb.getState("example.org")).toBe("open");
+
+      (archive.scrape as ReturnType<typeof vi.fn>).mockClear();
+      await expect(orch.scrape(defaultMeta({ url: "https://example.org" }))).rejects.toThrow(
+        AllEnginesFailedError
+      );
+      expect(archive.scrape).not.toHaveBeenCalled();
+    });
+  });
+
   // -----------------------------------------------------------------------
   // createOrchestrator / orchestratedScrape convenience functions
   // -----------------------------------------------------------------------
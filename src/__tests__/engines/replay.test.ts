@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+vi.mock("re2", () => {
+  return {
+    default: class RE2 {
+      private re: RegExp;
+      constructor(pattern: string | RegExp, flags?: string) {
+        this.re = new RegExp(pattern instanceof RegExp ? pattern.source : pattern, flags);
+      }
+      test(str: string) {
+        return this.re.test(str);
+      }
+      exec(str: string) {
+        return this.re.exec(str);
+      }
+    },
+  };
+});
+
+import type { Engine, EngineMeta, EngineResult } from "../../engines/types.js";
+import { ENGINE_CONFIGS } from "../../engines/types.js";
+import { ChallengeDetectedError, EngineUnavailableError, HttpError } from "../../engines/errors.js";
+import { EngineOrchestrator } from "../../engines/orchestrator.js";
+import {
+  FixtureStore,
+  RecordingEngine,
+  ReplayEngine,
+  recordEngines,
+  replayEngines,
+} from "../../engines/replay/index.js";
+import { Scraper } from "../../scraper.js";
+
+const URL = "https://example.com/docs";
+const HTML =
+  "<html><head><title>Docs</title></head><body><main><h1>Docs</h1>" +
+  "<p>Everything you need to get started, recorded once and replayed offline.</p></main></body></html>";
+
+function liveEngine(name: string, answer: (meta: EngineMeta) => EngineResult): Engine {
+  return {
+    config: { ...ENGINE_CONFIGS.http, name },
+    scrape: vi.fn(async (meta: EngineMeta) => answer(meta)),
+    isAvailable: () => true,
+  };
+}
+
+function page(engine: string, meta: EngineMeta): EngineResult {
+  return {
+    html: HTML,
+    url: `${meta.url}/`,
+    statusCode: 200,
+    contentType: "text/html; charset=utf-8",
+    headers: { etag: '"v1"' },
+    charset: "utf-8",
+    engine,
+    duration: 120,
+  };
+}
+
+describe("record and replay engines", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "replay-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("replays a recorded response, artifacts included", async () => {
+    const screenshot = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    const live = liveEngine("browser", (meta) => ({
+      ...page("browser", meta),
+      artifacts: { screenshot },
+    }));
+
+    await new RecordingEngine(live, dir).scrape({ url: URL, options: { urls: [URL] } });
+    const replayed = await new ReplayEngine(dir, { engine: "browser" }).scrape({
+      url: URL,
+      options: { urls: [URL] },
+    });
+
+    expect(replayed).toEqual({
+      html: HTML,
+      url: `${URL}/`,
+      statusCode: 200,
+      contentType: "text/html; charset=utf-8",
+      headers: { etag: '"v1"' },
+      charset: "utf-8",
+      engine: "browser",
+      duration: 0,
+      artifacts: { screenshot },
+    });
+  });
+
+  it("replays recorded errors as the same error class and message", async () => {
+    const live = liveEngine("http", () => {
+      throw new HttpError("http", 403, "Forbidden");
+    });
+    await expect(
+      new RecordingEngine(live, dir).scrape({ url: URL, options: { urls: [URL] } })
+    ).rejects.toThrow(HttpError);
+
+    const replayed = await new ReplayEngine(dir, { engine: "http" })
+      .scrape({ url: URL, options: { urls: [URL] } })
+      .catch((error: unknown) => error);
+
+    expect(replayed).toBeInstanceOf(HttpError);
+    expect((replayed as HttpError).statusCode).toBe(403);
+    expect((replayed as HttpError).message).toBe("[http] HTTP 403: Forbidden");
+  });
+
+  it("plays the orchestrator's fallback back as recorded", async () => {
+    const engines = [
+      liveEngine("alpha", () => {
+        throw new ChallengeDetectedError("alpha", "cloudflare-js");
+      }),
+      liveEngine("beta", (meta) => page("beta", meta)),
+    ];
+    const recorded = await new EngineOrchestrator({
+      engines: recordEngines(dir, engines),
+    }).scrape({ url: URL, options: { urls: [URL] } });
+    expect(recorded.attemptedEngines).toEqual(["alpha", "beta"]);
+
+    const replayed = await new EngineOrchestrator({
+      engines: replayEngines(dir, ["alpha", "beta"]),
+    }).scrape({ url: URL, options: { urls: [URL] } });
+
+    expect(replayed.attemptedEngines).toEqual(["alpha", "beta"]);
+    expect(replayed.engine).toBe("beta");
+    expect(replayed.html).toBe(HTML);
+    expect(replayed.engineErrors.get("alpha")).toBeInstanceOf(ChallengeDetectedError);
+    expect(await readdir(dir)).toHaveLength(2);
+  });
+
+  it("serves the successful recording as the replay engine, and fails on unknown URLs", async () => {
+    const store = new FixtureStore(dir);
+    await new RecordingEngine(
+      liveEngine("http", () => {
+        throw new HttpError("http", 503);
+      }),
+      store
+    )
+      .scrape({ url: URL, options: { urls: [URL] } })
+      .catch(() => {});
+    await new RecordingEngine(
+      liveEngine("hero", (meta) => page("hero", meta)),
+      store
+    ).scrape({ url: URL, options: { urls: [URL] } });
+
+    const replay = new ReplayEngine(store);
+    expect(replay.config.name).toBe("replay");
+    expect((await replay.scrape({ url: URL, options: { urls: [URL] } })).html).toBe(HTML);
+    await expect(
+      replay.scrape({ url: "https://example.com/missing", options: { urls: [] } })
+    ).rejects.toThrow(EngineUnavailableError);
+  });
+
+  it("does not record attempts aborted through the signal", async () => {
+    const controller = new AbortController();
+    const live = liveEngine("http", () => {
+      controller.abort();
+      throw new Error("aborted");
+    });
+
+    await expect(
+      new RecordingEngine(live, dir).scrape({
+        url: URL,
+        options: { urls: [URL] },
+        abortSignal: controller.signal,
+      })
+    ).rejects.toThrow("aborted");
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it("runs a Scraper offline from recordings", async () => {
+    await new RecordingEngine(
+      liveEngine("http", (meta) => ({
+        ...page("http", meta),
+        redirects: [{ url: meta.url, statusCode: 301 }],
+      })),
+      dir
+    ).scrape({ url: URL, options: { urls: [URL] } });
+
+    const result = await new Scraper({
+      urls: [URL],
+      formats: ["markdown"],
+      engines: replayEngines(dir, ["http"]),
+      respectRobots: false,
+      discovery: false,
+    }).scrape();
+
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0].markdown).toContain("recorded once and replayed offline");
+    expect(result.data[0].metadata.website.title).toBe("Docs");
+    expect(result.data[0].metadata).toMatchObject({
+      baseUrl: URL,
+      statusCode: 200,
+      finalUrl: `${URL}/`,
+      redirects: [{ url: URL, statusCode: 301 }],
+    });
+  });
+});
@@ -52,14 +52,17 @@ const VALID_HTML = `
 `;
 
 interface MockGotResponse {
-  body: string;
+  body: string | Buffer;
   statusCode: number;
   statusMessage?: string;
   url: string;
   headers: Record<string, string>;
 }
 
-function mockGotResponse(body: string, overrides: Partial<MockGotResponse> = {}): MockGotResponse {
+function mockGotResponse(
+  body: string | Buffer,
+  overrides: Partial<MockGotResponse> = {}
+): MockGotResponse {
   return {
     body,
     statusCode: 200,
@@ -145,6 +148,26 @@ describe("TlsClientEngine", () => {
       const result = await tlsClientEngine.scrape(defaultMeta());
       expect(result.contentType).toBe("text/html; charset=utf-8");
     });
+
+    it("returns the redirects got followed, in order", async () => {
+      type RedirectHook = (options: object, response: { url: string; statusCode: number }) => void;
+      mockGotScraping.mockImplementation(
+        async (options: { hooks: { beforeRedirect: RedirectHook[] } }) => {
+          const [beforeRedirect] = options.hooks.beforeRedirect;
+          beforeRedirect({}, { url: "http://example.com/", statusCode: 301 });
+          beforeRedirect({}, { url: "https://example.com/", statusCode: 302 });
+          return mockGotResponse(VALID_HTML, { url: "https://example.com/en/" });
+        }
+      );
+
+      const result = await tlsClientEngine.scrape(defaultMeta({ url: "http://example.com/" }));
+
+      expect(result.url).toBe("https://example.com/en/");
+      expect(result.redirects).toEqual([
+        { url: "http://example.com/", statusCode: 301 },
+        { url: "https://example.com/", statusCode: 302 },
+      ]);
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -352,6 +375,28 @@ describe("TlsClientEngine", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Document responses
+  // -----------------------------------------------------------------------
+
+  describe("document responses", () => {
+    it("requests a raw buffer and converts JSON bodies", async () => {
+      mockGotScraping.mockResolvedValue(
+        mockGotResponse(Buffer.from('{"status":"ok"}'), {
+          headers: { "content-type": "application/json" },
+        })
+      );
+
+      const result = await tlsClientEngine.scrape(defaultMeta());
+
+      expect(mockGotScraping).toHaveBeenCalledWith(
+        expect.objectContaining({ responseType: "buffer" })
+      );
+      expect(result.document).toEqual({ type: "json", properties: {} });
+      expect(result.html).toContain('<pre><code class="language-json">');
+    });
+  });
+
   // -----------------------------------------------------------------------
   // JS required / challenge detection
   // -----------------------------------------------------------------------
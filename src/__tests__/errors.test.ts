@@ -13,6 +13,7 @@ import {
   BrowserPoolError,
   ClientClosedError,
   NotInitializedError,
+  AbortedError,
   wrapError,
 } from "../errors.js";
 
@@ -301,6 +302,21 @@ describe("NotInitializedError", () => {
   });
 });
 
+describe("AbortedError", () => {
+  it("has code=ABORTED, retryable=false, message includes url", () => {
+    const cause = new Error("socket closed");
+    const err = new AbortedError({ url: "https://example.com", cause });
+
+    expect(err).toBeInstanceOf(ReaderError);
+    expect(err.name).toBe("AbortedError");
+    expect(err.code).toBe(ReaderErrorCode.ABORTED);
+    expect(err.retryable).toBe(false);
+    expect(err.url).toBe("https://example.com");
+    expect(err.cause).toBe(cause);
+    expect(err.message).toBe("Scrape aborted: https://example.com");
+  });
+});
+
 describe("wrapError", () => {
   it("passes through ReaderError unchanged", () => {
     const original = new NetworkError("already wrapped");
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from "vitest";
+import { ReaderEventEmitter, createEvent, type ReaderEventHandler } from "../events.js";
+
+class TestEmitter extends ReaderEventEmitter {
+  constructor(onEvent?: ReaderEventHandler) {
+    super();
+    this.onEvent = onEvent;
+  }
+
+  skip(url: string) {
+    this.emit("url:skipped", { url, reason: "robots" });
+  }
+}
+
+describe("createEvent", () => {
+  it("adds the type and a timestamp to the payload", () => {
+    const before = Date.now();
+    const event = createEvent("url:skipped", { url: "https://example.com/", reason: "pattern" });
+
+    expect(event).toMatchObject({ type: "url:skipped", reason: "pattern" });
+    expect(event.timestamp).toBeGreaterThanOrEqual(before);
+  });
+});
+
+describe("ReaderEventEmitter", () => {
+  it("delivers events to listeners of that type, then to onEvent", () => {
+    const order: string[] = [];
+    const emitter = new TestEmitter(() => order.push("onEvent"));
+    emitter.on("url:skipped", (event) => order.push(`skipped ${event.reason}`));
+    emitter.on("done", () => order.push("done"));
+
+    emitter.skip("https://example.com/");
+
+    expect(order).toEqual(["skipped robots", "onEvent"]);
+  });
+
+  it("removes listeners with off and after the first event with once", () => {
+    const emitter = new TestEmitter();
+    const listener = vi.fn();
+    const onceListener = vi.fn();
+    emitter.on("url:skipped", listener).once("url:skipped", onceListener);
+
+    emitter.skip("https://example.com/a");
+    emitter.off("url:skipped", listener);
+    emitter.skip("https://example.com/b");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(onceListener).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores listeners that throw", () => {
+    const onEvent = vi.fn();
+    const emitter = new TestEmitter(onEvent);
+    emitter.on("url:skipped", () => {
+      throw new Error("dashboard down");
+    });
+
+    expect(() => emitter.skip("https://example.com/")).not.toThrow();
+    expect(onEvent).toHaveBeenCalledOnce();
+  });
+});
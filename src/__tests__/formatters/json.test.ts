@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { htmlToDocument } from "../../formatters/json.js";
+
+// ---------------------------------------------------------------------------
+// htmlToDocument
+// ---------------------------------------------------------------------------
+
+describe("htmlToDocument", () => {
+  it("emits headings and paragraphs in document order with selectors", () => {
+    const doc = htmlToDocument(`
+      <html><body><main>
+        <h1>Title</h1>
+        <p>First   paragraph.</p>
+        <h2>Section</h2>
+        <p>Second <strong>paragraph</strong>.</p>
+      </main></body></html>
+    `);
+
+    expect(doc.blocks).toEqual([
+      { type: "heading", level: 1, text: "Title", selector: "body > main > h1" },
+      {
+        type: "paragraph",
+        text: "First paragraph.",
+        selector: "body > main > p:nth-of-type(1)",
+      },
+      { type: "heading", level: 2, text: "Section", selector: "body > main > h2" },
+      {
+        type: "paragraph",
+        text: "Second paragraph.",
+        selector: "body > main > p:nth-of-type(2)",
+      },
+    ]);
+  });
+
+  it("anchors selectors at the nearest id", () => {
+    const doc = htmlToDocument(`<body><div id="content"><section><p>Hi</p></section></div></body>`);
+    expect(doc.blocks[0].selector).toBe("#content > section > p");
+  });
+
+  it("keeps <br> line breaks inside paragraphs", () => {
+    const doc = htmlToDocument(`<body><p>Line one<br>Line two</p></body>`);
+    expect(doc.blocks[0]).toMatchObject({ type: "paragraph", text: "Line one\nLine two" });
+  });
+
+  it("parses ordered and unordered lists with nested children", () => {
+    const doc = htmlToDocument(`
+      <body>
+        <ul>
+          <li>Apples</li>
+          <li>Citrus
+            <ol><li>Lemon</li><li>Lime</li></ol>
+          </li>
+        </ul>
+      </body>
+    `);
+
+    const list = doc.blocks[0];
+    expect(list.type).toBe("list");
+    if (list.type !== "list") return;
+    expect(list.ordered).toBe(false);
+    expect(list.items[0]).toEqual({ text: "Apples" });
+    expect(list.items[1].text).toBe("Citrus");
+    expect(list.items[1].children).toEqual([
+      {
+        type: "list",
+        ordered: true,
+        items: [{ text: "Lemon" }, { text: "Lime" }],
+        selector: "body > ul > li:nth-of-type(2) > ol",
+      },
+    ]);
+  });
+
+  it("parses tables with a header row", () => {
+    const doc = htmlToDocument(`
+      <body><table>
+        <thead><tr><th>Name</th><th>Age</th></tr></thead>
+        <tbody><tr><td>Ada</td><td>36</td></tr><tr><td>Alan</td><td>41</td></tr></tbody>
+      </table></body>
+    `);
+
+    expect(doc.blocks[0]).toMatchObject({
+      type: "table",
+      headers: ["Name", "Age"],
+      rows: [
+        ["Ada", "36"],
+        ["Alan", "41"],
+      ],
+    });
+  });
+
+  it("parses tables without a header row", () => {
+    const doc = htmlToDocument(`<body><table><tr><td>a</td><td>b</td></tr></table></body>`);
+    expect(doc.blocks[0]).toMatchObject({ type: "table", headers: [], rows: [["a", "b"]] });
+  });
+
+  it("keeps code verbatim and picks up the language class", () => {
+    const doc = htmlToDocument(
+      `<body><pre><code class="language-ts">const a = 1;\n  return a;</code></pre></body>`
+    );
+    expect(doc.blocks[0]).toEqual({
+      type: "code",
+      language: "ts",
+      text: "const a = 1;\n  return a;",
+      selector: "body > pre",
+    });
+  });
+
+  it("emits images as their own blocks", () => {
+    const doc = htmlToDocument(
+      `<body><p>Look: <img src="/a.png" alt="A chart"></p><figure><img src="/b.png"></figure></body>`
+    );
+
+    expect(doc.blocks).toEqual([
+      { type: "paragraph", text: "Look:", selector: "body > p" },
+      { type: "image", src: "/a.png", alt: "A chart", selector: "body > p > img" },
+      { type: "image", src: "/b.png", alt: "", selector: "body > figure > img" },
+    ]);
+  });
+
+  it("nests blockquote content", () => {
+    const doc = htmlToDocument(`<body><blockquote><p>Quoted</p></blockquote></body>`);
+    expect(doc.blocks[0]).toMatchObject({
+      type: "quote",
+      children: [{ type: "paragraph", text: "Quoted" }],
+    });
+  });
+
+  it("turns loose text in containers into paragraphs and skips scripts", () => {
+    const doc = htmlToDocument(
+      `<body><div>Loose <a href="#">text</a><script>var x = 1;</script></div></body>`
+    );
+    expect(doc.blocks).toEqual([{ type: "paragraph", text: "Loose text", selector: "body > div" }]);
+  });
+
+  it("returns no blocks for empty input", () => {
+    expect(htmlToDocument("").blocks).toEqual([]);
+  });
+});
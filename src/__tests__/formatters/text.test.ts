@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { htmlToText } from "../../formatters/text.js";
+
+// ---------------------------------------------------------------------------
+// htmlToText
+// ---------------------------------------------------------------------------
+
+describe("htmlToText", () => {
+  it("separates blocks with a blank line", () => {
+    const text = htmlToText(`
+      <body>
+        <h1>Title</h1>
+        <p>First paragraph
+           spread over lines.</p>
+        <p>Second paragraph.</p>
+      </body>
+    `);
+    expect(text).toBe("Title\n\nFirst paragraph spread over lines.\n\nSecond paragraph.");
+  });
+
+  it("keeps <br> line breaks", () => {
+    expect(htmlToText(`<p>Roses are red<br>Violets are blue</p>`)).toBe(
+      "Roses are red\nViolets are blue"
+    );
+  });
+
+  it("renders lists with markers and indented nested lists", () => {
+    const text = htmlToText(`
+      <ol>
+        <li>One</li>
+        <li>Two<ul><li>Nested</li></ul></li>
+      </ol>
+    `);
+    expect(text).toBe("1. One\n2. Two\n  - Nested");
+  });
+
+  it("renders table rows on their own lines", () => {
+    const text = htmlToText(
+      `<table><tr><th>Key</th><th>Value</th></tr><tr><td>a</td><td>1</td></tr></table>`
+    );
+    expect(text).toBe("Key | Value\na | 1");
+  });
+
+  it("keeps code whitespace and drops images", () => {
+    const text = htmlToText(`<pre>if (x) {\n  y();\n}</pre><img src="/a.png" alt="Chart">`);
+    expect(text).toBe("if (x) {\n  y();\n}");
+  });
+});
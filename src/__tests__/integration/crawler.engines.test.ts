@@ -0,0 +1,687 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// ---------------------------------------------------------------------------
+// Mock native re2 module (may not be built in CI/test environments)
+// ---------------------------------------------------------------------------
+
+vi.mock("re2", () => {
+  return {
+    default: class RE2 {
+      private re: RegExp;
+      constructor(pattern: string | RegExp, flags?: string) {
+        this.re = new RegExp(pattern instanceof RegExp ? pattern.source : pattern, flags);
+      }
+      test(str: string) {
+        return this.re.test(str);
+      }
+      exec(str: string) {
+        return this.re.exec(str);
+      }
+    },
+  };
+});
+
+// ---------------------------------------------------------------------------
+// Mock the EngineOrchestrator at module level
+// ---------------------------------------------------------------------------
+
+const mockOrchestratorScrape = vi.fn();
+const orchestratorOptions: unknown[] = [];
+
+vi.mock("../../engines/index.js", () => {
+  class MockEngineOrchestrator {
+    constructor(options: unknown) {
+      orchestratorOptions.push(options);
+    }
+    scrape(...args: unknown[]) {
+      return mockOrchestratorScrape(...args);
+    }
+  }
+  class AllEnginesFailedError extends Error {}
+  return { EngineOrchestrator: MockEngineOrchestrator, AllEnginesFailedError };
+});
+
+import { crawl, Crawler } from "../../crawler.js";
+import { AbortedError } from "../../errors.js";
+import type { IBrowserPool } from "../../browser/types.js";
+
+beforeEach(() => {
+  mockOrchestratorScrape.mockReset();
+  orchestratorOptions.length = 0;
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SEED = "https://example.com/docs";
+
+function engineResult(url: string, html: string, engine = "http") {
+  return {
+    html,
+    url,
+    statusCode: 200,
+    engine,
+    duration: 5,
+    attemptedEngines: [engine],
+    engineErrors: new Map(),
+  };
+}
+
+const pool: IBrowserPool = {
+  initialize: vi.fn(),
+  shutdown: vi.fn(),
+  acquire: vi.fn(),
+  release: vi.fn(),
+  withBrowser: vi.fn(),
+  getStats: vi.fn(),
+};
+
+// ---------------------------------------------------------------------------
+// Engine cascade
+// ---------------------------------------------------------------------------
+
+describe("Crawler - engine cascade", () => {
+  it("fetches pages through the orchestrator with the crawl's engine options", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) =>
+      engineResult(
+        url,
+        '<html><head><title>Docs</title><meta name="description" content="Guides"></head>' +
+          '<body><a href="/docs/intro">Intro</a></body></html>'
+      )
+    );
+
+    const result = await crawl({
+      url: SEED,
+      depth: 1,
+      maxPages: 5,
+      delayMs: 0,
+      respectRobots: false,
+      skipEngines: ["hero"],
+      forceEngine: "tlsclient",
+      pool,
+    });
+
+    expect(orchestratorOptions[0]).toMatchObject({
+      skipEngines: ["hero"],
+      forceEngine: "tlsclient",
+    });
+    expect(mockOrchestratorScrape).toHaveBeenCalledTimes(2);
+    expect(mockOrchestratorScrape.mock.calls[0][0].options.formats).toEqual(["html"]);
+    expect(pool.withBrowser).not.toHaveBeenCalled();
+    expect(result.urls[0]).toEqual({ url: SEED, title: "Docs", description: "Guides" });
+    expect(result.urls.map((u) => u.url)).toContain("https://example.com/docs/intro");
+  });
+
+  it("resolves links against the final URL after redirects", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) =>
+      url === SEED
+        ? engineResult("https://example.com/docs/v2/", '<a href="getting-started">Start</a>')
+        : engineResult(url, "<title>Page</title>")
+    );
+
+    const result = await crawl({
+      url: SEED,
+      depth: 1,
+      maxPages: 5,
+      delayMs: 0,
+      respectRobots: false,
+      pool,
+    });
+
+    expect(result.urls.map((u) => u.url)).toEqual([
+      SEED,
+      "https://example.com/docs/v2/getting-started",
+    ]);
+  });
+
+  it("skips pages whose engines all fail and keeps crawling", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => {
+      if (url.endsWith("/broken")) throw new Error("All engines failed");
+      return engineResult(
+        url,
+        '<a href="/docs/broken">Broken</a><a href="/docs/working">Working</a>'
+      );
+    });
+
+    const result = await crawl({
+      url: SEED,
+      depth: 1,
+      maxPages: 5,
+      delayMs: 0,
+      respectRobots: false,
+      pool,
+    });
+
+    expect(result.urls.map((u) => u.url)).toEqual([SEED, "https://example.com/docs/working"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Frontier
+// ---------------------------------------------------------------------------
+
+describe("Crawler - frontier", () => {
+  const links = '<a href="/docs/a">A</a><a href="/docs/b">B</a><a href="/docs/c/deep">C</a>';
+
+  it("fetches up to maxConcurrencyPerHost pages from a host at once", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      inFlight--;
+      return engineResult(url, url === SEED ? links : "<title>Page</title>");
+    });
+
+    const result = await crawl({
+      url: SEED,
+      depth: 1,
+      maxPages: 10,
+      concurrency: 4,
+      maxConcurrencyPerHost: 3,
+      respectRobots: false,
+      pool,
+    });
+
+    expect(result.urls).toHaveLength(4);
+    expect(peak).toBe(3);
+  });
+
+  it("visits the highest-scored links first with best-first", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) =>
+      engineResult(url, url === SEED ? links : "<title>Page</title>")
+    );
+
+    const result = await crawl({
+      url: SEED,
+      depth: 1,
+      maxPages: 3,
+      maxConcurrencyPerHost: 4,
+      strategy: "best-first",
+      scoreUrl: ({ anchorText }) => (anchorText === "C" ? 10 : anchorText === "B" ? 5 : 0),
+      respectRobots: false,
+      pool,
+    });
+
+    expect(result.urls.map((u) => u.url)).toEqual([
+      SEED,
+      "https://example.com/docs/c/deep",
+      "https://example.com/docs/b",
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+describe("Crawler - events", () => {
+  it("reports queued and skipped URLs with the reason, fetches and a summary", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) =>
+      engineResult(
+        url,
+        url === SEED
+          ? '<a href="/docs/a">A</a><a href="https://other.org/">Other</a>' +
+              '<a href="/privacy">Privacy</a><a href="/docs/drafts/x">Draft</a>' +
+              '<a href="/docs">Self</a>'
+          : "<title>A</title>"
+      )
+    );
+    const onEvent = vi.fn();
+    const crawler = new Crawler({
+      url: SEED,
+      depth: 1,
+      maxPages: 10,
+      respectRobots: false,
+      excludePatterns: ["drafts"],
+      onEvent,
+      pool,
+    });
+    const skipped: string[] = [];
+    crawler.on("url:skipped", (event) => skipped.push(`${event.reason} ${event.url}`));
+
+    await crawler.crawl();
+
+    expect(skipped).toEqual([
+      "external https://other.org/",
+      "non-content https://example.com/privacy",
+      "pattern https://example.com/docs/drafts/x",
+      "duplicate https://example.com/docs",
+    ]);
+    const events = onEvent.mock.calls.map(([event]) => event);
+    expect(events.filter((e) => e.type === "url:queued")).toEqual([
+      expect.objectContaining({ url: SEED, depth: 0, source: "seed" }),
+      expect.objectContaining({ url: "https://example.com/docs/a", depth: 1, parentUrl: SEED }),
+    ]);
+    expect(events.filter((e) => e.type === "page:fetched")).toHaveLength(2);
+    expect(events.at(-1)).toMatchObject({
+      type: "done",
+      kind: "crawl",
+      status: "completed",
+      successfulUrls: 2,
+      failedUrls: 0,
+      skipped: { external: 1, "non-content": 1, pattern: 1, duplicate: 1 },
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Scope
+// ---------------------------------------------------------------------------
+
+describe("Crawler - scope", () => {
+  it("crawls within the scope and lists skipped URLs with the reason", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) =>
+      engineResult(
+        url,
+        url === SEED
+          ? '<a href="/docs/a">A</a><a href="/docs/b">B</a><a href="/blog/x">Blog</a>' +
+              '<a href="https://blog.example.com/docs/y">Sub</a>' +
+              '<a href="https://docs.partner.io/z">Partner</a>'
+          : "<title>Page</title>"
+      )
+    );
+
+    const result = await crawl({
+      url: SEED,
+      depth: 1,
+      maxPages: 10,
+      maxConcurrencyPerHost: 4,
+      respectRobots: false,
+      scope: {
+        mode: "path-prefix",
+        allowedHosts: ["docs.partner.io"],
+        pathBudgets: { "/docs/": 1 },
+      },
+      pool,
+    });
+
+    expect(result.urls.map((u) => u.url).sort()).toEqual([
+      "https://docs.partner.io/z",
+      SEED,
+      "https://example.com/docs/a",
+    ]);
+    expect(result.skipped).toEqual([
+      { url: "https://example.com/blog/x", reason: "out-of-scope", parentUrl: SEED },
+      { url: "https://blog.example.com/docs/y", reason: "external", parentUrl: SEED },
+      { url: "https://example.com/docs/b", reason: "budget", parentUrl: SEED },
+    ]);
+  });
+});
+
+describe("Crawler - canonicalization", () => {
+  it("crawls each canonical page once and groups hreflang alternates", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) =>
+      engineResult(
+        url,
+        url === SEED
+          ? '<link rel="alternate" hreflang="fr" href="/fr/docs">' +
+              '<a href="/docs/item?id=1&utm_source=news">1</a><a href="/docs/item?ID=1">1</a>' +
+              '<a href="/docs/item?id=2">2</a><a href="/docs/print">Print</a>' +
+              '<a href="/fr/docs">Français</a>'
+          : url.endsWith("/print")
+            ? '<link rel="canonical" href="/docs/item?id=2">'
+            : "<title>Item</title>"
+      )
+    );
+
+    const result = await crawl({
+      url: SEED,
+      depth: 1,
+      maxPages: 10,
+      maxConcurrencyPerHost: 4,
+      respectRobots: false,
+      canonicalization: { keepParams: ["id"], trustCanonical: true, groupHreflang: true },
+      pool,
+    });
+
+    expect(result.urls.map((u) => u.url)).toEqual([
+      SEED,
+      "https://example.com/docs/item?id=1&utm_source=news",
+      "https://example.com/docs/item?id=2",
+    ]);
+    expect(result.urls[0].alternates).toEqual([
+      { hreflang: "fr", url: "https://example.com/fr/docs" },
+    ]);
+    expect(result.skipped).toEqual([
+      { url: "https://example.com/docs/print", reason: "canonical" },
+    ]);
+  });
+});
+
+describe("Crawler - site graph", () => {
+  it("returns the link graph and site tree of the crawled pages", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) =>
+      engineResult(
+        url,
+        url === SEED
+          ? '<title>Docs</title><a href="/docs/guide/start">Get\n  started</a>' +
+              '<a href="/docs/api">API</a><a href="/privacy">Privacy</a>'
+          : '<title>Page</title><a href="/docs">Home</a><a href="/docs/api">API</a>' +
+              '<a href="/docs/deeper">Deeper</a><a href="/terms">Terms</a>'
+      )
+    );
+
+    const crawler = new Crawler({
+      url: SEED,
+      depth: 1,
+      maxPages: 10,
+      maxConcurrencyPerHost: 4,
+      respectRobots: false,
+      pool,
+    });
+    const skipped: string[] = [];
+    crawler.on("url:skipped", (event) => skipped.push(event.url));
+    const result = await crawler.crawl();
+
+    expect(result.graph.nodes).toEqual([
+      { url: SEED, title: "Docs", depth: 0, inDegree: 2, outDegree: 2 },
+      {
+        url: "https://example.com/docs/guide/start",
+        title: "Page",
+        depth: 1,
+        parentUrl: SEED,
+        inDegree: 1,
+        outDegree: 2,
+      },
+      {
+        url: "https://example.com/docs/api",
+        title: "Page",
+        depth: 1,
+        parentUrl: SEED,
+        inDegree: 2,
+        outDegree: 1,
+      },
+    ]);
+    expect(result.graph.edges).toContainEqual({
+      source: SEED,
+      target: "https://example.com/docs/guide/start",
+      anchorText: "Get started",
+    });
+    // Links on pages at the maximum depth feed the graph without being reported
+    expect(skipped).toEqual(["https://example.com/privacy"]);
+    expect(result.tree[0].children[0]).toMatchObject({
+      name: "docs",
+      url: SEED,
+      children: [{ name: "api" }, { name: "guide", children: [{ name: "start" }] }],
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Checkpoints
+// ---------------------------------------------------------------------------
+
+describe("Crawler - checkpoints", () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "crawl-state-"));
+  });
+
+  afterEach(async () => {
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("resumes an interrupted crawl without refetching finished pages", async () => {
+    const controller = new AbortController();
+    const site = async ({ url }: { url: string }) =>
+      engineResult(
+        url,
+        url === SEED
+          ? '<a href="/docs/a">A</a><a href="/docs/b">B</a><a href="/docs/c">C</a>'
+          : `<title>${url.slice(-1).toUpperCase()}</title>`
+      );
+    mockOrchestratorScrape.mockImplementation(async (args: { url: string }) => {
+      if (args.url.endsWith("/b")) {
+        controller.abort();
+        throw new AbortedError({ url: args.url });
+      }
+      return site(args);
+    });
+
+    const options = {
+      url: SEED,
+      depth: 1,
+      maxPages: 10,
+      respectRobots: false,
+      crawlId: "docs-nightly",
+      stateDir,
+      pool,
+    };
+    const first = await crawl({ ...options, abortSignal: controller.signal });
+
+    expect(first.metadata).toMatchObject({
+      status: "aborted",
+      crawlId: "docs-nightly",
+      resumed: false,
+    });
+    expect(first.urls.map((u) => u.url)).toEqual([SEED, "https://example.com/docs/a"]);
+
+    mockOrchestratorScrape.mockReset();
+    mockOrchestratorScrape.mockImplementation(site);
+    const second = await crawl(options);
+
+    expect(mockOrchestratorScrape.mock.calls.map((call) => call[0].url)).toEqual([
+      "https://example.com/docs/b",
+      "https://example.com/docs/c",
+    ]);
+    expect(second.metadata).toMatchObject({ status: "completed", resumed: true });
+    expect(second.urls.map((u) => u.title)).toEqual(["Untitled", "A", "B", "C"]);
+    expect(second.graph.edges.map((edge) => edge.target)).toEqual([
+      "https://example.com/docs/a",
+      "https://example.com/docs/b",
+      "https://example.com/docs/c",
+    ]);
+    expect(second.graph.nodes[3]).toMatchObject({ depth: 1, parentUrl: SEED, inDegree: 1 });
+
+    const log = await readFile(join(stateDir, "docs-nightly.jsonl"), "utf-8");
+    expect(log.trim().split("\n")[0]).toContain('"type":"crawl"');
+  });
+
+  it("finishes the crawl and reports it when checkpoint writes fail", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) =>
+      engineResult(url, url === SEED ? '<a href="/docs/a">A</a>' : "<title>A</title>")
+    );
+    // The state directory can't be created where a file already is
+    const blocked = join(stateDir, "blocked");
+    await writeFile(blocked, "");
+
+    const result = await crawl({
+      url: SEED,
+      depth: 1,
+      respectRobots: false,
+      crawlId: "docs",
+      stateDir: blocked,
+      pool,
+    });
+
+    expect(result.urls.map((u) => u.url)).toEqual([SEED, "https://example.com/docs/a"]);
+    expect(result.metadata).toMatchObject({ status: "completed", crawlId: "docs" });
+    expect(result.metadata.checkpointError).toMatch(/EEXIST|ENOTDIR/);
+  });
+
+  it("fails instead of starting over when the checkpoint can't be read", async () => {
+    await mkdir(join(stateDir, "docs.jsonl"));
+
+    await expect(
+      crawl({ url: SEED, depth: 1, respectRobots: false, crawlId: "docs", stateDir, pool })
+    ).rejects.toMatchObject({ code: "EISDIR" });
+    expect(mockOrchestratorScrape).not.toHaveBeenCalled();
+  });
+
+  it("refuses to resume a crawl id started from another seed", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) =>
+      engineResult(url, "<title>Docs</title>")
+    );
+    const options = {
+      depth: 1,
+      respectRobots: false,
+      crawlId: "docs",
+      stateDir,
+      pool,
+    };
+
+    await crawl({ ...options, url: SEED });
+
+    await expect(crawl({ ...options, url: "https://example.com/blog" })).rejects.toThrow(
+      /started from https:\/\/example\.com\/docs/
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Change tracking
+// ---------------------------------------------------------------------------
+
+describe("Crawler - change tracking", () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "crawl-changes-"));
+  });
+
+  afterEach(async () => {
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("revalidates recorded pages and reuses their links on 304", async () => {
+    const pages: Record<string, string> = {
+      [SEED]: '<title>Docs</title><a href="/docs/a">A</a><a href="/docs/b">B</a>',
+      "https://example.com/docs/a": "<title>A</title><p>First</p>",
+      "https://example.com/docs/b": "<title>B</title><p>Second</p>",
+    };
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => ({
+      ...engineResult(url, pages[url]),
+      headers: { ETag: `"${url}"` },
+    }));
+    const options = {
+      url: SEED,
+      depth: 1,
+      maxPages: 10,
+      respectRobots: false,
+      changeTracking: { file: join(stateDir, "pages.json") },
+      pool,
+    };
+
+    const first = await crawl(options);
+    expect(first.urls.map((u) => u.change)).toEqual(["new", "new", "new"]);
+
+    // Second crawl: the seed is unchanged (304), /docs/a changed, /docs/b is gone
+    const { HttpError } = await import("../../engines/errors.js");
+    mockOrchestratorScrape.mockReset();
+    mockOrchestratorScrape.mockImplementation(
+      async ({ url, conditional }: { url: string; conditional?: { etag?: string } }) => {
+        if (url === SEED) {
+          expect(conditional).toEqual({ etag: `"${SEED}"` });
+          return { ...engineResult(url, ""), statusCode: 304, notModified: true };
+        }
+        if (url.endsWith("/b")) throw new HttpError("http", 404, "Not Found");
+        return engineResult(url, "<title>A</title><p>Rewritten</p>");
+      }
+    );
+
+    const second = await crawl(options);
+
+    expect(second.urls).toEqual([
+      { url: SEED, title: "Docs", description: null, change: "unchanged" },
+      { url: "https://example.com/docs/a", title: "A", description: null, change: "changed" },
+    ]);
+    expect(second.removed).toEqual(["https://example.com/docs/b"]);
+  });
+
+  it("fails before fetching when the change records can't be read", async () => {
+    const file = join(stateDir, "pages.json");
+    await writeFile(file, "{not json", "utf-8");
+
+    await expect(
+      crawl({
+        url: SEED,
+        depth: 0,
+        maxPages: 1,
+        respectRobots: false,
+        changeTracking: { file },
+        pool,
+      })
+    ).rejects.toThrow(`Cannot read change records from ${file}`);
+    expect(mockOrchestratorScrape).not.toHaveBeenCalled();
+    expect(await readFile(file, "utf-8")).toBe("{not json");
+  });
+
+  it("marks a recorded page removed when an engine returns its 404 page", async () => {
+    const file = join(stateDir, "pages.json");
+    const options = { url: SEED, depth: 0, maxPages: 1, respectRobots: false, pool };
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) =>
+      engineResult(url, "<title>Docs</title><p>Getting started</p>")
+    );
+    await crawl({ ...options, changeTracking: { file } });
+    const recorded = JSON.parse(await readFile(file, "utf-8")).pages[SEED];
+
+    // The cascade falls back to hero, which returns the site's error page with its status
+    mockOrchestratorScrape.mockReset();
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => ({
+      ...engineResult(url, `<title>Not found</title><p>${"Page not found. ".repeat(40)}</p>`),
+      statusCode: 404,
+      engine: "hero",
+    }));
+
+    const second = await crawl({ ...options, changeTracking: { file } });
+
+    expect(second.urls[0].change).toBe("removed");
+    expect(second.removed).toEqual([SEED]);
+    const record = JSON.parse(await readFile(file, "utf-8")).pages[SEED];
+    expect(record.contentHash).toBe(recorded.contentHash);
+    expect(record.removedAt).toEqual(expect.any(String));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// scrape: true
+// ---------------------------------------------------------------------------
+
+describe("Crawler - scrape: true", () => {
+  it("scrapes from the HTML fetched while crawling instead of fetching again", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) =>
+      engineResult(
+        url,
+        url === SEED
+          ? "<html><head><title>Home</title></head><body><main><h1>Home</h1>" +
+              '<p>Welcome to the documentation.</p><a href="/docs/setup">Setup</a></main></body></html>'
+          : "<html><head><title>Setup</title></head><body><main><h1>Setup</h1>" +
+              "<p>Install the package first.</p></main></body></html>",
+        "tlsclient"
+      )
+    );
+
+    const result = await crawl({
+      url: SEED,
+      depth: 1,
+      maxPages: 5,
+      delayMs: 0,
+      respectRobots: false,
+      scrape: true,
+      formats: ["text"],
+      pool,
+    });
+
+    expect(mockOrchestratorScrape).toHaveBeenCalledTimes(2);
+    expect(mockOrchestratorScrape.mock.calls[0][0].options.formats).toEqual(["text"]);
+    expect(result.scraped?.data).toHaveLength(2);
+    expect(result.scraped?.data[1].text).toContain("Install the package first.");
+    expect(result.scraped?.data[1].metadata.baseUrl).toBe("https://example.com/docs/setup");
+    expect(result.scraped?.batchMetadata).toMatchObject({
+      totalUrls: 2,
+      successfulUrls: 2,
+      failedUrls: 0,
+      status: "completed",
+    });
+  });
+});
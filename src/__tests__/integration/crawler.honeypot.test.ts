@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 // ---------------------------------------------------------------------------
 // Mock native re2 module (may not be built in CI/test environments)
@@ -21,58 +21,63 @@ vi.mock("re2", () => {
   };
 });
 
-vi.mock("../../cloudflare/detector", () => {
-  return {
-    detectChallenge: vi.fn(async () => ({ isChallenge: false })),
-  };
-});
+// ---------------------------------------------------------------------------
+// Mock the EngineOrchestrator at module level
+// ---------------------------------------------------------------------------
 
-vi.mock("../../cloudflare/handler", () => {
-  return {
-    waitForChallengeResolution: vi.fn(async () => ({ resolved: true })),
-  };
+const mockOrchestratorScrape = vi.fn();
+
+vi.mock("../../engines/index.js", () => {
+  class MockEngineOrchestrator {
+    constructor() {}
+    scrape(...args: unknown[]) {
+      return mockOrchestratorScrape(...args);
+    }
+  }
+  class AllEnginesFailedError extends Error {}
+  return { EngineOrchestrator: MockEngineOrchestrator, AllEnginesFailedError };
 });
 
 import { crawl } from "../../crawler.js";
 
+beforeEach(() => {
+  mockOrchestratorScrape.mockReset();
+});
+
 afterEach(() => {
   vi.restoreAllMocks();
 });
 
+const SEED_HTML =
+  "<html><head><title>Seed</title></head><body>" +
+  '<a href="/posts/1">Post 1</a>' +
+  '<a href="/wp-admin/" style="display:none">x</a>' +
+  '<a href="/posts/2">Post 2</a>' +
+  "</body></html>";
+
+/** Orchestrator stub serving the seed page's links, recording visited URLs */
+function serveSite(seed: string, visited: string[]) {
+  mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => {
+    visited.push(url);
+    return {
+      html: url === seed ? SEED_HTML : "<html><head><title>Page</title></head><body></body></html>",
+      url,
+      statusCode: 200,
+      engine: "http",
+      duration: 5,
+      attemptedEngines: ["http"],
+      engineErrors: new Map(),
+    };
+  });
+}
+
 describe("Crawler - honeypot links", () => {
   it("does not visit high-confidence honeypot links by default", async () => {
     const seed = "https://example.com/";
     const visited: string[] = [];
 
-    const hero: any = {
-      url: seed,
-      goto: vi.fn(async (url: string) => {
-        visited.push(url);
-        hero.url = url;
-
-        if (url === seed) {
-          hero.document.documentElement.outerHTML =
-            "<html><head><title>Seed</title></head><body>" +
-            '<a href="/posts/1">Post 1</a>' +
-            '<a href="/wp-admin/" style="display:none">x</a>' +
-            '<a href="/posts/2">Post 2</a>' +
-            "</body></html>";
-        } else {
-          hero.document.documentElement.outerHTML =
-            "<html><head><title>Page</title></head><body></body></html>";
-        }
-      }),
-      waitForPaintingStable: vi.fn(async () => undefined),
-      document: {
-        title: "Test",
-        documentElement: { outerHTML: "" },
-        querySelector: vi.fn(async () => null),
-      },
-    };
-
-    const pool = {
-      withBrowser: vi.fn(async (fn: any) => fn(hero)),
-    };
+    serveSite(seed, visited);
+    const pool = { withBrowser: vi.fn() };
 
     const result = await crawl({
       url: seed,
@@ -94,35 +99,8 @@ describe("Crawler - honeypot links", () => {
     const seed = "https://example.com/";
     const visited: string[] = [];
 
-    const hero: any = {
-      url: seed,
-      goto: vi.fn(async (url: string) => {
-        visited.push(url);
-        hero.url = url;
-
-        if (url === seed) {
-          hero.document.documentElement.outerHTML =
-            "<html><head><title>Seed</title></head><body>" +
-            '<a href="/posts/1">Post 1</a>' +
-            '<a href="/wp-admin/" style="display:none">x</a>' +
-            '<a href="/posts/2">Post 2</a>' +
-            "</body></html>";
-        } else {
-          hero.document.documentElement.outerHTML =
-            "<html><head><title>Page</title></head><body></body></html>";
-        }
-      }),
-      waitForPaintingStable: vi.fn(async () => undefined),
-      document: {
-        title: "Test",
-        documentElement: { outerHTML: "" },
-        querySelector: vi.fn(async () => null),
-      },
-    };
-
-    const pool = {
-      withBrowser: vi.fn(async (fn: any) => fn(hero)),
-    };
+    serveSite(seed, visited);
+    const pool = { withBrowser: vi.fn() };
 
     const result = await crawl({
       url: seed,
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 // ---------------------------------------------------------------------------
 // Mock native re2 module (may not be built in CI/test environments)
@@ -21,22 +21,31 @@ vi.mock("re2", () => {
   };
 });
 
-vi.mock("../../cloudflare/detector", () => {
-  return {
-    detectChallenge: vi.fn(async () => ({ isChallenge: false })),
-  };
-});
+// ---------------------------------------------------------------------------
+// Mock the EngineOrchestrator at module level
+// ---------------------------------------------------------------------------
 
-vi.mock("../../cloudflare/handler", () => {
-  return {
-    waitForChallengeResolution: vi.fn(async () => ({ resolved: true })),
-  };
+const mockOrchestratorScrape = vi.fn();
+
+vi.mock("../../engines/index.js", () => {
+  class MockEngineOrchestrator {
+    constructor() {}
+    scrape(...args: unknown[]) {
+      return mockOrchestratorScrape(...args);
+    }
+  }
+  class AllEnginesFailedError extends Error {}
+  return { EngineOrchestrator: MockEngineOrchestrator, AllEnginesFailedError };
 });
 
 import { crawl } from "../../crawler.js";
 
 const originalFetch = globalThis.fetch;
 
+beforeEach(() => {
+  mockOrchestratorScrape.mockReset();
+});
+
 afterEach(() => {
   globalThis.fetch = originalFetch;
   vi.restoreAllMocks();
@@ -50,11 +59,7 @@ describe("Crawler - robots.txt", () => {
     })) as any;
     globalThis.fetch = fetchSpy;
 
-    const pool = {
-      withBrowser: vi.fn(async () => {
-        throw new Error("should not navigate when seed is blocked");
-      }),
-    };
+    const pool = { withBrowser: vi.fn() };
 
     const result = await crawl({
       url: "https://example.com/",
@@ -66,7 +71,7 @@ describe("Crawler - robots.txt", () => {
     });
 
     expect(fetchSpy).toHaveBeenCalled();
-    expect(pool.withBrowser).not.toHaveBeenCalled();
+    expect(mockOrchestratorScrape).not.toHaveBeenCalled();
     expect(result.urls).toHaveLength(0);
   });
 
@@ -77,22 +82,17 @@ describe("Crawler - robots.txt", () => {
     })) as any;
     globalThis.fetch = fetchSpy;
 
-    const hero = {
-      goto: vi.fn(async () => undefined),
-      waitForPaintingStable: vi.fn(async () => undefined),
+    mockOrchestratorScrape.mockResolvedValue({
+      html: "<html><head><title>Test</title></head><body></body></html>",
       url: "https://example.com/",
-      document: {
-        title: "Test",
-        documentElement: {
-          outerHTML: "<html><head><title>Test</title></head><body></body></html>",
-        },
-        querySelector: vi.fn(async () => null),
-      },
-    };
-
-    const pool = {
-      withBrowser: vi.fn(async (fn: any) => fn(hero)),
-    };
+      statusCode: 200,
+      engine: "http",
+      duration: 5,
+      attemptedEngines: ["http"],
+      engineErrors: new Map(),
+    });
+
+    const pool = { withBrowser: vi.fn() };
 
     const result = await crawl({
       url: "https://example.com/",
@@ -105,7 +105,7 @@ describe("Crawler - robots.txt", () => {
 
     // robots.txt should NOT have been fetched
     expect(fetchSpy).not.toHaveBeenCalled();
-    expect(pool.withBrowser).toHaveBeenCalledTimes(1);
+    expect(mockOrchestratorScrape).toHaveBeenCalledTimes(1);
     expect(result.urls).toHaveLength(1);
     expect(result.urls[0].title).toBe("Test");
   });
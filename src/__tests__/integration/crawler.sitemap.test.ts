@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// ---------------------------------------------------------------------------
+// Mock native re2 module (may not be built in CI/test environments)
+// ---------------------------------------------------------------------------
+
+vi.mock("re2", () => {
+  return {
+    default: class RE2 {
+      private re: RegExp;
+      constructor(pattern: string | RegExp, flags?: string) {
+        this.re = new RegExp(pattern instanceof RegExp ? pattern.source : pattern, flags);
+      }
+      test(str: string) {
+        return this.re.test(str);
+      }
+      exec(str: string) {
+        return this.re.exec(str);
+      }
+    },
+  };
+});
+
+// ---------------------------------------------------------------------------
+// Mock the EngineOrchestrator and discovery at module level
+// ---------------------------------------------------------------------------
+
+const mockOrchestratorScrape = vi.fn();
+const mockDiscoverSite = vi.fn();
+const mockLoadCachedProfile = vi.fn();
+
+vi.mock("../../engines/index.js", () => {
+  class MockEngineOrchestrator {
+    scrape(...args: unknown[]) {
+      return mockOrchestratorScrape(...args);
+    }
+  }
+  class AllEnginesFailedError extends Error {}
+  return { EngineOrchestrator: MockEngineOrchestrator, AllEnginesFailedError };
+});
+
+vi.mock("../../discovery/site-profile.js", () => ({
+  discoverSite: (...args: unknown[]) => mockDiscoverSite(...args),
+  loadCachedProfile: (...args: unknown[]) => mockLoadCachedProfile(...args),
+  saveCachedProfile: vi.fn(),
+}));
+
+import { crawl } from "../../crawler.js";
+import type { IBrowserPool } from "../../browser/types.js";
+
+beforeEach(() => {
+  mockOrchestratorScrape.mockReset();
+  mockDiscoverSite.mockReset();
+  mockLoadCachedProfile.mockReset();
+  mockLoadCachedProfile.mockResolvedValue(null);
+  mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => ({
+    html: url === SEED ? '<a href="/docs/linked">Linked</a>' : "<title>Page</title>",
+    url,
+    statusCode: 200,
+    engine: "http",
+    duration: 5,
+    attemptedEngines: ["http"],
+    engineErrors: new Map(),
+  }));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SEED = "https://example.com/docs";
+
+function profileWith(topUrls: Array<{ loc: string; priority?: number; lastmod?: string }>) {
+  return {
+    sitemap: { found: topUrls.length > 0, sources: [], totalUrls: topUrls.length, topUrls },
+  };
+}
+
+const pool: IBrowserPool = {
+  initialize: vi.fn(),
+  shutdown: vi.fn(),
+  acquire: vi.fn(),
+  release: vi.fn(),
+  withBrowser: vi.fn(),
+  getStats: vi.fn(),
+};
+
+const options = {
+  url: SEED,
+  depth: 1,
+  maxPages: 10,
+  maxConcurrencyPerHost: 4,
+  respectRobots: false,
+  pool,
+};
+
+// ---------------------------------------------------------------------------
+// seedStrategy
+// ---------------------------------------------------------------------------
+
+describe("Crawler - sitemap seeding", () => {
+  it("does not look at sitemaps by default", async () => {
+    const result = await crawl(options);
+
+    expect(mockDiscoverSite).not.toHaveBeenCalled();
+    expect(result.urls.map((u) => u.url)).toEqual([SEED, "https://example.com/docs/linked"]);
+  });
+
+  it("crawls sitemap URLs by priority and lastmod without following links", async () => {
+    mockDiscoverSite.mockResolvedValue(
+      profileWith([
+        { loc: "https://example.com/docs/old", priority: 0.8, lastmod: "2023-01-01" },
+        { loc: "https://example.com/docs/new", priority: 0.8, lastmod: "2024-06-01" },
+        { loc: "https://example.com/docs/top", priority: 1 },
+        { loc: "https://example.com/docs/default" },
+        { loc: "https://other.org/docs/elsewhere", priority: 1 },
+        { loc: "https://example.com/admin/users", priority: 1 },
+      ])
+    );
+
+    const result = await crawl({
+      ...options,
+      concurrency: 1,
+      seedStrategy: "sitemap",
+      excludePatterns: ["/admin/"],
+    });
+
+    expect(mockDiscoverSite.mock.calls[0][1]).toMatchObject({
+      parseSitemaps: true,
+      discoverOpenApi: false,
+    });
+    expect(result.urls.map((u) => u.url)).toEqual([
+      SEED,
+      "https://example.com/docs/top",
+      "https://example.com/docs/new",
+      "https://example.com/docs/old",
+      "https://example.com/docs/default",
+    ]);
+  });
+
+  it("follows links as well with both, using a cached profile and respecting maxPages", async () => {
+    mockLoadCachedProfile.mockResolvedValue(
+      profileWith([
+        { loc: "https://example.com/docs/a" },
+        { loc: "https://example.com/docs/b" },
+        { loc: "https://example.com/docs/c" },
+      ])
+    );
+
+    const both = await crawl({ ...options, seedStrategy: "both" });
+    const capped = await crawl({ ...options, seedStrategy: "both", maxPages: 2 });
+
+    expect(mockDiscoverSite).not.toHaveBeenCalled();
+    expect(both.urls.map((u) => u.url)).toContain("https://example.com/docs/linked");
+    expect(both.urls).toHaveLength(5);
+    expect(capped.urls).toHaveLength(2);
+  });
+});
@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
 // ---------------------------------------------------------------------------
 // Mock native re2 module (may not be built in CI/test environments)
@@ -50,7 +53,9 @@ vi.mock("../../engines/index.js", () => {
   };
 });
 
-import { Scraper, scrape } from "../../scraper.js";
+import { Scraper, scrape, scrapeStream } from "../../scraper.js";
+import type { ScrapeStreamItem } from "../../types.js";
+import { AbortedError } from "../../errors.js";
 
 // ---------------------------------------------------------------------------
 // Mock global.fetch for robots.txt
@@ -157,6 +162,174 @@ describe("Scraper – single URL", () => {
     expect(result.data[0].html).toBeDefined();
   });
 
+  it("returns text and json formats when requested", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    mockEngineSuccess();
+
+    const result = await scrape({
+      urls: ["https://example.com"],
+      formats: ["text", "json"],
+      onlyMainContent: false,
+    });
+
+    const page = result.data[0];
+    expect(page.text).toBe("Hello World\n\nContent here.");
+    expect(page.json?.blocks).toEqual([
+      expect.objectContaining({ type: "heading", level: 1, text: "Hello World" }),
+      expect.objectContaining({ type: "paragraph", text: "Content here." }),
+    ]);
+    expect(page.markdown).toBeUndefined();
+    expect(page.html).toBeUndefined();
+  });
+
+  it("returns chunks with page metadata when requested", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    mockEngineSuccess();
+
+    const result = await scrape({
+      urls: ["https://example.com"],
+      formats: ["chunks"],
+      chunkingOptions: { unit: "characters", size: 1000 },
+    });
+
+    const page = result.data[0];
+    expect(page.markdown).toBeUndefined();
+    expect(page.chunks?.length).toBeGreaterThan(0);
+    expect(page.chunks?.[0]).toMatchObject({
+      index: 0,
+      url: "https://example.com",
+      metadata: { title: "Test Page" },
+    });
+    expect(page.chunks?.[0].hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("returns screenshot and pdf artifacts as base64", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    mockOrchestratorScrape.mockResolvedValue({
+      html: SIMPLE_HTML,
+      url: "https://example.com",
+      engine: "hero",
+      duration: 150,
+      attemptedEngines: ["hero"],
+      artifacts: { screenshot: Buffer.from("png-bytes"), pdf: Buffer.from("%PDF-1.4") },
+    });
+
+    const result = await scrape({
+      urls: ["https://example.com"],
+      formats: ["screenshot", "pdf"],
+      captureOptions: { screenshotFormat: "jpeg" },
+    });
+
+    const page = result.data[0];
+    expect(page.screenshot).toEqual({
+      mimeType: "image/jpeg",
+      byteLength: 9,
+      base64: Buffer.from("png-bytes").toString("base64"),
+    });
+    expect(page.pdf?.mimeType).toBe("application/pdf");
+    expect(Buffer.from(page.pdf?.base64 ?? "", "base64").toString()).toBe("%PDF-1.4");
+    expect(page.markdown).toBeUndefined();
+  });
+
+  it("writes capture artifacts to captureOptions.outputDir", async () => {
+    const outputDir = await mkdtemp(join(tmpdir(), "reader-capture-"));
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    mockOrchestratorScrape.mockResolvedValue({
+      html: SIMPLE_HTML,
+      url: "https://example.com/docs/intro",
+      engine: "hero",
+      duration: 150,
+      attemptedEngines: ["hero"],
+      artifacts: { pdf: Buffer.from("%PDF-1.4") },
+    });
+
+    try {
+      const result = await scrape({
+        urls: ["https://example.com/docs/intro"],
+        formats: ["pdf"],
+        captureOptions: { outputDir },
+      });
+
+      const pdf = result.data[0].pdf;
+      expect(pdf?.base64).toBeUndefined();
+      expect(pdf?.path).toMatch(/example\.com-docs-intro-[0-9a-f]{8}\.pdf$/);
+      expect(await readFile(pdf?.path ?? "", "utf8")).toBe("%PDF-1.4");
+    } finally {
+      await rm(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it("returns link and image inventories of the full page", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    mockEngineSuccess(
+      `<html><head><title>Test Page</title></head><body>
+        <nav><a href="/home">Home</a></nav>
+        <main><h1>Hello World</h1><p>Content here.</p><img src="/hero.png" alt="Hero"></main>
+        <footer><a href="https://other.org/" rel="nofollow">Partner</a></footer>
+      </body></html>`
+    );
+
+    const result = await scrape({
+      urls: ["https://example.com"],
+      formats: ["links", "images"],
+    });
+
+    const page = result.data[0];
+    expect(page.links?.map((l) => [l.url, l.internal])).toEqual([
+      ["https://example.com/home", true],
+      ["https://other.org/", false],
+    ]);
+    expect(page.links?.[1].rel).toEqual(["nofollow"]);
+    expect(page.images).toEqual([
+      expect.objectContaining({ src: "https://example.com/hero.png", alt: "Hero" }),
+    ]);
+    expect(page.markdown).toBeUndefined();
+  });
+
+  it("fills website metadata from converted document properties", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    const { convertDocument } = await import("../../documents/index.js");
+    const properties = { title: "Annual Report", author: "Finance", language: "de", pageCount: 2 };
+    mockOrchestratorScrape.mockResolvedValue({
+      html: convertDocument(Buffer.from("Page one text.\fPage two text."), "text").html,
+      url: "https://example.com/report.txt",
+      engine: "http",
+      duration: 20,
+      attemptedEngines: ["http"],
+      document: { type: "pdf", properties },
+    });
+
+    const result = await scrape({
+      urls: ["https://example.com/report.txt"],
+      formats: ["html"],
+    });
+
+    const page = result.data[0];
+    expect(page.html).toContain('<section data-page="2">');
+    expect(page.metadata.website).toMatchObject({
+      title: "Annual Report",
+      author: "Finance",
+      language: "de",
+      document: { type: "pdf", pageCount: 2, createdAt: null, modifiedAt: null },
+    });
+  });
+
+  it("records the engine's decoding charset in website metadata", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    mockOrchestratorScrape.mockResolvedValue({
+      html: SIMPLE_HTML,
+      url: "https://example.com",
+      charset: "windows-1251",
+      engine: "http",
+      duration: 10,
+      attemptedEngines: ["http"],
+    });
+
+    const result = await scrape({ urls: ["https://example.com"], formats: ["markdown"] });
+
+    expect(result.data[0].metadata.website.charset).toBe("windows-1251");
+  });
+
   it("includes metadata in the result", async () => {
     mockFetchRobots("User-agent: *\nAllow: /", true);
     mockEngineSuccess();
@@ -239,6 +412,225 @@ describe("Scraper – robots.txt", () => {
     expect(result.batchMetadata.errors!.length).toBeGreaterThan(0);
     expect(result.batchMetadata.errors![0].error).toContain("robots.txt");
   });
+
+  it("emits url:skipped when robots.txt blocks the URL", async () => {
+    mockFetchRobots("User-agent: *\nDisallow: /blocked", true);
+    mockEngineSuccess();
+    const onEvent = vi.fn();
+
+    await scrape({
+      urls: ["https://example.com/blocked/page"],
+      formats: ["markdown"],
+      maxRetries: 0,
+      onEvent,
+    });
+
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "url:skipped",
+        url: "https://example.com/blocked/page",
+        reason: "robots",
+      })
+    );
+    expect(mockOrchestratorScrape).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pagination
+// ---------------------------------------------------------------------------
+
+describe("Scraper – followPagination", () => {
+  const ARTICLE = "https://example.com/story";
+
+  function articlePage(part: number, next?: string) {
+    return {
+      html:
+        `<html><head><title>Story</title>${next ? `<link rel="next" href="${next}">` : ""}` +
+        `</head><body><main><h1>Story</h1><p>Part ${part} of the story.</p></main></body></html>`,
+      url: part === 1 ? ARTICLE : `${ARTICLE}?page=${part}`,
+      statusCode: 200,
+      engine: "http",
+      duration: 10,
+      attemptedEngines: ["http"],
+    };
+  }
+
+  beforeEach(() => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+  });
+
+  it("merges the following pages into one markdown document", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => {
+      const part = Number(new URL(url).searchParams.get("page") ?? 1);
+      return articlePage(part, part < 3 ? `/story?page=${part + 1}` : undefined);
+    });
+
+    const result = await scrape({
+      urls: [ARTICLE],
+      formats: ["markdown"],
+      followPagination: true,
+    });
+
+    const page = result.data[0];
+    expect(mockOrchestratorScrape).toHaveBeenCalledTimes(3);
+    expect(page.metadata.totalPages).toBe(3);
+    expect(page.metadata.pagination?.stoppedBy).toBe("last-page");
+    const pages = page.metadata.pagination?.pages ?? [];
+    expect(pages.map((p) => p.url)).toEqual([ARTICLE, `${ARTICLE}?page=2`, `${ARTICLE}?page=3`]);
+    const [first, second, third] = pages.map((p) => p.markdownOffset);
+    const markdown = page.markdown ?? "";
+    expect(first).toBe(0);
+    expect(markdown.slice(second, third)).toContain("Part 2 of the story.");
+    expect(markdown.slice(third)).toContain("Part 3 of the story.");
+  });
+
+  it("stops at paginationOptions.maxPages and keeps pages when a later one fails", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => {
+      const part = Number(new URL(url).searchParams.get("page") ?? 1);
+      if (part === 3) throw new Error("HTTP 500");
+      return articlePage(part, `/story?page=${part + 1}`);
+    });
+
+    const limited = await scrape({
+      urls: [ARTICLE],
+      formats: ["markdown"],
+      followPagination: true,
+      paginationOptions: { maxPages: 2 },
+    });
+    expect(limited.data[0].metadata.totalPages).toBe(2);
+    expect(limited.data[0].metadata.pagination?.stoppedBy).toBe("max-pages");
+
+    const failed = await scrape({
+      urls: [ARTICLE],
+      formats: ["markdown"],
+      followPagination: true,
+    });
+    expect(failed.batchMetadata.successfulUrls).toBe(1);
+    expect(failed.data[0].metadata.totalPages).toBe(2);
+    expect(failed.data[0].metadata.pagination?.stoppedBy).toBe("error");
+  });
+
+  it("falls back to the default limit when maxPages isn't a number", async () => {
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => {
+      const part = Number(new URL(url).searchParams.get("page") ?? 1);
+      return articlePage(part, `/story?page=${part + 1}`);
+    });
+
+    const result = await scrape({
+      urls: [ARTICLE],
+      formats: ["markdown"],
+      followPagination: true,
+      paginationOptions: { maxPages: Number.NaN },
+    });
+
+    expect(result.data[0].metadata.totalPages).toBe(10);
+    expect(result.data[0].metadata.pagination?.stoppedBy).toBe("max-pages");
+  });
+
+  it("fetches only the requested page by default", async () => {
+    mockOrchestratorScrape.mockResolvedValue(articlePage(1, "/story?page=2"));
+
+    const result = await scrape({ urls: [ARTICLE], formats: ["markdown"] });
+
+    expect(mockOrchestratorScrape).toHaveBeenCalledTimes(1);
+    expect(result.data[0].metadata.totalPages).toBe(1);
+    expect(result.data[0].metadata.pagination).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Change tracking
+// ---------------------------------------------------------------------------
+
+describe("Scraper – changeTracking", () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "scrape-changes-"));
+  });
+
+  afterEach(async () => {
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("returns a content-less result with the recorded title on 304", async () => {
+    const options = {
+      urls: ["https://example.com/"],
+      formats: ["markdown", "html"] as Array<"markdown" | "html">,
+      changeTracking: { file: join(stateDir, "pages.json") },
+    };
+    mockOrchestratorScrape.mockResolvedValue({
+      html: SIMPLE_HTML,
+      url: "https://example.com/",
+      statusCode: 200,
+      headers: { etag: '"v1"' },
+      engine: "http",
+      duration: 10,
+      attemptedEngines: ["http"],
+    });
+
+    const first = await scrape(options);
+    expect(first.data[0].markdown).toContain("Hello World");
+    expect(first.data[0].change?.status).toBe("new");
+
+    mockOrchestratorScrape.mockReset();
+    mockOrchestratorScrape.mockImplementation(
+      async ({ conditional }: { conditional?: { etag?: string } }) => {
+        expect(conditional).toEqual({ etag: '"v1"' });
+        return {
+          html: "",
+          url: "https://example.com/",
+          statusCode: 304,
+          notModified: true,
+          engine: "http",
+          duration: 5,
+          attemptedEngines: ["http"],
+        };
+      }
+    );
+
+    const [page] = (await scrape(options)).data;
+    expect(page.markdown).toBeUndefined();
+    expect(page.html).toBeUndefined();
+    expect(page.metadata.statusCode).toBe(304);
+    expect(page.metadata.website).toMatchObject({
+      title: "Test Page",
+      description: "A test page",
+    });
+    expect(page.change).toMatchObject({ status: "unchanged", notModified: true });
+  });
+
+  it("marks a recorded page removed when an engine returns its 404 page", async () => {
+    const file = join(stateDir, "pages.json");
+    const options = { urls: ["https://example.com/"], changeTracking: { file } };
+    const page = {
+      url: "https://example.com/",
+      engine: "http",
+      duration: 10,
+      attemptedEngines: ["http"],
+    };
+    mockOrchestratorScrape.mockResolvedValue({ ...page, html: SIMPLE_HTML, statusCode: 200 });
+    await scrape(options);
+    const recorded = JSON.parse(await readFile(file, "utf-8")).pages["https://example.com/"];
+
+    // The cascade falls back to hero, which returns the site's error page with its status
+    mockOrchestratorScrape.mockReset();
+    mockOrchestratorScrape.mockResolvedValue({
+      ...page,
+      html: `<html><head><title>Not found</title></head><body><p>${"Page not found. ".repeat(40)}</p></body></html>`,
+      statusCode: 404,
+      engine: "hero",
+    });
+
+    const result = await scrape(options);
+
+    expect(result.data[0].change?.status).toBe("removed");
+    expect(result.batchMetadata.removedUrls).toEqual(["https://example.com/"]);
+    const record = JSON.parse(await readFile(file, "utf-8")).pages["https://example.com/"];
+    expect(record.contentHash).toBe(recorded.contentHash);
+    expect(record.removedAt).toEqual(expect.any(String));
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -298,6 +690,37 @@ describe("Scraper – batch scraping", () => {
     expect(result.batchMetadata.successfulUrls).toBe(1);
     expect(result.batchMetadata.failedUrls).toBe(1);
   });
+
+  it("drops URLs that canonicalize to an earlier one when canonicalization is set", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => ({
+      html: SIMPLE_HTML,
+      url,
+      engine: "http",
+      duration: 100,
+      attemptedEngines: ["http"],
+    }));
+
+    const scraper = new Scraper({
+      urls: [
+        "https://example.com/item?id=1",
+        "https://www.example.com/item?id=1&utm_source=mail",
+        "https://example.com/item?id=2",
+      ],
+      formats: ["markdown"],
+      canonicalization: { keepParams: ["id"] },
+    });
+    const skipped: string[] = [];
+    scraper.on("url:skipped", (event) => skipped.push(`${event.reason} ${event.url}`));
+    const result = await scraper.scrape();
+
+    expect(result.data.map((page) => page.metadata.baseUrl)).toEqual([
+      "https://example.com/item?id=1",
+      "https://example.com/item?id=2",
+    ]);
+    expect(result.batchMetadata.totalUrls).toBe(2);
+    expect(skipped).toEqual(["duplicate https://www.example.com/item?id=1&utm_source=mail"]);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -344,6 +767,44 @@ describe("Scraper – retry logic", () => {
     vi.useRealTimers();
   });
 
+  it("emits retry, page:fetched and done events", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    mockOrchestratorScrape
+      .mockRejectedValueOnce(new Error("Temporary failure"))
+      .mockResolvedValueOnce({
+        html: SIMPLE_HTML,
+        url: "https://example.com/",
+        statusCode: 200,
+        engine: "http",
+        duration: 100,
+        attemptedEngines: ["http"],
+      });
+
+    const onEvent = vi.fn();
+    const scraper = new Scraper({
+      urls: ["https://example.com"],
+      formats: ["markdown"],
+      maxRetries: 2,
+      onEvent,
+    });
+    const retries: number[] = [];
+    scraper.on("retry", (event) => retries.push(event.attempt));
+
+    await scraper.scrape();
+
+    expect(retries).toEqual([2]);
+    const events = onEvent.mock.calls.map(([event]) => event);
+    expect(events.map((event) => event.type)).toEqual(["retry", "page:fetched", "done"]);
+    expect(events[0]).toMatchObject({ url: "https://example.com", maxRetries: 2 });
+    expect(events[1]).toMatchObject({ finalUrl: "https://example.com/", engine: "http" });
+    expect(events[2]).toMatchObject({
+      kind: "scrape",
+      status: "completed",
+      successfulUrls: 1,
+      failedUrls: 0,
+    });
+  });
+
   it("maxRetries: 0 disables retries (fixed: uses ?? instead of ||)", async () => {
     // BUG FIX: scraper.ts now uses `this.options.maxRetries ?? 2`
     // so maxRetries: 0 correctly means zero retries (1 attempt total).
@@ -429,6 +890,389 @@ describe("Scraper – batch timeout", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Streaming
+// ---------------------------------------------------------------------------
+
+describe("Scraper – stream", () => {
+  it("yields each URL as soon as it finishes (completion order)", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => {
+      await new Promise((r) => setTimeout(r, url.endsWith("/slow") ? 80 : 10));
+      return {
+        html: SIMPLE_HTML,
+        url,
+        engine: "http",
+        duration: 10,
+        attemptedEngines: ["http"],
+      };
+    });
+
+    const items: ScrapeStreamItem[] = [];
+    for await (const item of scrapeStream({
+      urls: ["https://example.com/slow", "https://example.com/fast"],
+      formats: ["markdown"],
+      batchConcurrency: 2,
+      maxRetries: 0,
+    })) {
+      items.push(item);
+    }
+
+    expect(items.map((i) => i.url)).toEqual([
+      "https://example.com/fast",
+      "https://example.com/slow",
+    ]);
+    expect(items.map((i) => i.index)).toEqual([1, 0]);
+    expect(items.every((i) => i.status === "success")).toBe(true);
+  });
+
+  it("yields typed failure records for failed URLs", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+
+    mockOrchestratorScrape
+      .mockResolvedValueOnce({
+        html: SIMPLE_HTML,
+        url: "https://example.com/good",
+        engine: "http",
+        duration: 100,
+        attemptedEngines: ["http"],
+      })
+      .mockRejectedValueOnce(new Error("Connection refused"));
+
+    const scraper = new Scraper({
+      urls: ["https://example.com/good", "https://example.com/bad"],
+      formats: ["markdown"],
+      maxRetries: 0,
+    });
+
+    const items: ScrapeStreamItem[] = [];
+    for await (const item of scraper.stream()) {
+      items.push(item);
+    }
+
+    expect(items).toHaveLength(2);
+    const good = items.find((i) => i.index === 0);
+    const bad = items.find((i) => i.index === 1);
+    expect(good?.status).toBe("success");
+    if (good?.status === "success") {
+      expect(good.result.markdown).toBeDefined();
+    }
+    expect(bad?.status).toBe("failed");
+    if (bad?.status === "failed") {
+      expect(bad.url).toBe("https://example.com/bad");
+      expect(bad.error).toBeTruthy();
+    }
+  });
+
+  it("keeps the caller's positions when canonicalization drops duplicates", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => ({
+      html: SIMPLE_HTML,
+      url,
+      engine: "http",
+      duration: 10,
+      attemptedEngines: ["http"],
+    }));
+
+    const items: ScrapeStreamItem[] = [];
+    for await (const item of scrapeStream({
+      urls: [
+        "https://example.com/a",
+        "https://www.example.com/a/",
+        "https://example.com/b",
+        "https://example.com/c",
+      ],
+      formats: ["markdown"],
+      canonicalization: {},
+      maxRetries: 0,
+    })) {
+      items.push(item);
+    }
+
+    expect(items.map((item) => [item.index, item.url])).toEqual([
+      [0, "https://example.com/a"],
+      [2, "https://example.com/b"],
+      [3, "https://example.com/c"],
+    ]);
+  });
+
+  it("respects batchConcurrency", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+
+    let concurrent = 0;
+    let maxConcurrent = 0;
+    mockOrchestratorScrape.mockImplementation(async () => {
+      concurrent++;
+      maxConcurrent = Math.max(maxConcurrent, concurrent);
+      await new Promise((r) => setTimeout(r, 20));
+      concurrent--;
+      return {
+        html: SIMPLE_HTML,
+        url: "https://example.com",
+        engine: "http",
+        duration: 20,
+        attemptedEngines: ["http"],
+      };
+    });
+
+    const items: ScrapeStreamItem[] = [];
+    for await (const item of scrapeStream({
+      urls: [1, 2, 3, 4, 5].map((n) => `https://example.com/${n}`),
+      formats: ["markdown"],
+      batchConcurrency: 2,
+      maxRetries: 0,
+    })) {
+      items.push(item);
+    }
+
+    expect(items).toHaveLength(5);
+    expect(maxConcurrent).toBeLessThanOrEqual(2);
+  });
+
+  it("yields timeout failures for unfinished URLs when batchTimeoutMs elapses", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => {
+      if (url.endsWith("/hang")) {
+        await new Promise((r) => setTimeout(r, 60000));
+      }
+      return {
+        html: SIMPLE_HTML,
+        url,
+        engine: "http",
+        duration: 1,
+        attemptedEngines: ["http"],
+      };
+    });
+
+    const items: ScrapeStreamItem[] = [];
+    for await (const item of scrapeStream({
+      urls: ["https://example.com/ok", "https://example.com/hang"],
+      formats: ["markdown"],
+      batchConcurrency: 2,
+      batchTimeoutMs: 200,
+      maxRetries: 0,
+    })) {
+      items.push(item);
+    }
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({ status: "success", index: 0 });
+    expect(items[1]).toMatchObject({ status: "failed", index: 1 });
+    if (items[1].status === "failed") {
+      expect(items[1].error).toMatch(/timed out/i);
+    }
+  });
+
+  it("stops starting new URLs when the consumer breaks early", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    mockEngineSuccess();
+
+    for await (const item of scrapeStream({
+      urls: [1, 2, 3, 4].map((n) => `https://example.com/${n}`),
+      formats: ["markdown"],
+      batchConcurrency: 1,
+      maxRetries: 0,
+    })) {
+      expect(item.status).toBe("success");
+      break;
+    }
+
+    // Let any in-flight work settle
+    await new Promise((r) => setTimeout(r, 50));
+    expect(mockOrchestratorScrape.mock.calls.length).toBeLessThan(4);
+  });
+
+  it("aborts scrapes in flight and reports what was yielded when the consumer breaks", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    const signals: AbortSignal[] = [];
+    mockOrchestratorScrape.mockImplementation(
+      async ({ url, abortSignal }: { url: string; abortSignal: AbortSignal }) => {
+        signals.push(abortSignal);
+        if (url.endsWith("/slow")) {
+          await new Promise((_, reject) =>
+            abortSignal.addEventListener("abort", () => reject(new AbortedError({ url })))
+          );
+        }
+        return { html: SIMPLE_HTML, url, engine: "http", duration: 1, attemptedEngines: ["http"] };
+      }
+    );
+
+    const scraper = new Scraper({
+      urls: ["https://example.com/slow", "https://example.com/fast", "https://example.com/next"],
+      formats: ["markdown"],
+      batchConcurrency: 2,
+      maxRetries: 0,
+    });
+    const done: unknown[] = [];
+    scraper.on("done", (event) => done.push(event));
+
+    for await (const item of scraper.stream()) {
+      expect(item.url).toBe("https://example.com/fast");
+      break;
+    }
+
+    expect(signals[0].aborted).toBe(true);
+    expect(done).toEqual([
+      expect.objectContaining({ status: "aborted", successfulUrls: 1, failedUrls: 0 }),
+    ]);
+  });
+
+  it("aborts scrapes in flight when batchTimeoutMs elapses", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    let hung: AbortSignal | undefined;
+    mockOrchestratorScrape.mockImplementation(
+      async ({ url, abortSignal }: { url: string; abortSignal: AbortSignal }) => {
+        hung = abortSignal;
+        await new Promise((_, reject) =>
+          abortSignal.addEventListener("abort", () => reject(new AbortedError({ url })))
+        );
+      }
+    );
+
+    const scraper = new Scraper({
+      urls: ["https://example.com/hang"],
+      formats: ["markdown"],
+      batchTimeoutMs: 100,
+      maxRetries: 2,
+    });
+    const done: unknown[] = [];
+    scraper.on("done", (event) => done.push(event));
+
+    const items: ScrapeStreamItem[] = [];
+    for await (const item of scraper.stream()) items.push(item);
+
+    expect(items).toEqual([expect.objectContaining({ status: "failed", index: 0 })]);
+    expect(hung?.aborted).toBe(true);
+    await new Promise((r) => setTimeout(r, 50));
+    expect(mockOrchestratorScrape).toHaveBeenCalledTimes(1);
+    expect(done).toEqual([
+      expect.objectContaining({ status: "completed", successfulUrls: 0, failedUrls: 1 }),
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Cancellation
+// ---------------------------------------------------------------------------
+
+describe("Scraper – abortSignal", () => {
+  it("returns partial results with status 'aborted'", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+
+    const controller = new AbortController();
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => {
+      controller.abort();
+      return {
+        html: SIMPLE_HTML,
+        url,
+        engine: "http",
+        duration: 1,
+        attemptedEngines: ["http"],
+      };
+    });
+
+    const result = await scrape({
+      urls: [1, 2, 3].map((n) => `https://example.com/${n}`),
+      formats: ["markdown"],
+      batchConcurrency: 1,
+      abortSignal: controller.signal,
+    });
+
+    expect(result.data).toHaveLength(1);
+    expect(result.batchMetadata.status).toBe("aborted");
+    expect(result.batchMetadata.failedUrls).toBe(2);
+    expect(result.batchMetadata.errors?.every((e) => /aborted/i.test(e.error))).toBe(true);
+    expect(mockOrchestratorScrape).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports status 'completed' when the signal never fires", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+    mockEngineSuccess();
+
+    const result = await scrape({
+      urls: ["https://example.com"],
+      formats: ["markdown"],
+      abortSignal: new AbortController().signal,
+    });
+
+    expect(result.batchMetadata.status).toBe("completed");
+  });
+
+  it("passes the signal to the orchestrator and does not retry an aborted attempt", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+
+    const controller = new AbortController();
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => {
+      controller.abort();
+      throw new AbortedError({ url });
+    });
+
+    const result = await scrape({
+      urls: ["https://example.com"],
+      formats: ["markdown"],
+      maxRetries: 2,
+      abortSignal: controller.signal,
+    });
+
+    expect(mockOrchestratorScrape).toHaveBeenCalledTimes(1);
+    expect(mockOrchestratorScrape.mock.calls[0][0].abortSignal).toBe(controller.signal);
+    expect(result.batchMetadata.errors?.[0].error).toMatch(/aborted/i);
+  });
+
+  it("cancels a pending retry backoff", async () => {
+    // A robots.txt block throws out of the attempt, which is the path that backs off
+    mockFetchRobots("User-agent: *\nDisallow: /", true);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const startedAt = Date.now();
+    const result = await scrape({
+      urls: ["https://example.com"],
+      formats: ["markdown"],
+      maxRetries: 2,
+      abortSignal: controller.signal,
+    });
+
+    // First backoff is at least 500ms; abort must cut it short
+    expect(Date.now() - startedAt).toBeLessThan(400);
+    expect(result.batchMetadata.failedUrls).toBe(1);
+    expect(result.batchMetadata.status).toBe("aborted");
+  });
+
+  it("stream marks URLs skipped by the abort", async () => {
+    mockFetchRobots("User-agent: *\nAllow: /", true);
+
+    const controller = new AbortController();
+    mockOrchestratorScrape.mockImplementation(async ({ url }: { url: string }) => {
+      controller.abort();
+      return {
+        html: SIMPLE_HTML,
+        url,
+        engine: "http",
+        duration: 1,
+        attemptedEngines: ["http"],
+      };
+    });
+
+    const items: ScrapeStreamItem[] = [];
+    for await (const item of scrapeStream({
+      urls: [1, 2].map((n) => `https://example.com/${n}`),
+      formats: ["markdown"],
+      batchConcurrency: 1,
+      abortSignal: controller.signal,
+    })) {
+      items.push(item);
+    }
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({ status: "success", index: 0 });
+    expect(items[1]).toMatchObject({ status: "failed", index: 1, aborted: true });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Progress callback
 // ---------------------------------------------------------------------------
@@ -82,12 +82,26 @@ describe("isValidFormat", () => {
     expect(isValidFormat("html")).toBe(true);
   });
 
-  it('returns false for "json"', () => {
-    expect(isValidFormat("json")).toBe(false);
+  it('returns true for "text"', () => {
+    expect(isValidFormat("text")).toBe(true);
   });
 
-  it('returns false for "text"', () => {
-    expect(isValidFormat("text")).toBe(false);
+  it('returns true for "json"', () => {
+    expect(isValidFormat("json")).toBe(true);
+  });
+
+  it('returns true for "chunks"', () => {
+    expect(isValidFormat("chunks")).toBe(true);
+  });
+
+  it('returns true for "screenshot" and "pdf"', () => {
+    expect(isValidFormat("screenshot")).toBe(true);
+    expect(isValidFormat("pdf")).toBe(true);
+  });
+
+  it('returns true for "links" and "images"', () => {
+    expect(isValidFormat("links")).toBe(true);
+    expect(isValidFormat("images")).toBe(true);
   });
 
   it("returns false for empty string", () => {
@@ -95,7 +109,7 @@ describe("isValidFormat", () => {
   });
 
   it("returns false for arbitrary strings", () => {
-    expect(isValidFormat("pdf")).toBe(false);
+    expect(isValidFormat("docx")).toBe(false);
     expect(isValidFormat("xml")).toBe(false);
     expect(isValidFormat("Markdown")).toBe(false); // case-sensitive
     expect(isValidFormat("HTML")).toBe(false);
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi } from "vitest";
+
+// Mock native re2 module (may not be built in CI/test environments)
+vi.mock("re2", () => {
+  return {
+    default: class RE2 {
+      private re: RegExp;
+      constructor(pattern: string | RegExp, flags?: string) {
+        this.re = new RegExp(pattern instanceof RegExp ? pattern.source : pattern, flags);
+      }
+      test(str: string) {
+        return this.re.test(str);
+      }
+    },
+  };
+});
+
+const { extractMetadata, applyDocumentProperties } =
+  await import("../../utils/metadata-extractor.js");
+
+const PAGE_URL = "https://news.example.com/world/kettle-prices";
+
+function page(head: string, body: string): string {
+  return `<html><head>${head}</head><body>${body}</body></html>`;
+}
+
+const PARAGRAPH = `<p>${"Kettle prices rose again this week across the region. ".repeat(10)}</p>`;
+
+// ---------------------------------------------------------------------------
+// Source priority
+// ---------------------------------------------------------------------------
+
+describe("article metadata sources", () => {
+  it("prefers JSON-LD and raises confidence when other sources agree", () => {
+    const html = page(
+      `<script type="application/ld+json">{
+        "@context": "https://schema.org",
+        "@type": "NewsArticle",
+        "datePublished": "2024-03-15T09:30:00+01:00",
+        "dateModified": "2024-03-16T12:00:00Z",
+        "author": [{"@type": "Person", "name": "Jane Doe"}, {"@type": "Person", "name": "John Roe"}],
+        "articleSection": "World",
+        "keywords": "kettles, prices"
+      }</script>
+      <meta property="article:published_time" content="2024-03-15T08:30:00Z">
+      <meta property="article:section" content="Business">
+      <meta property="article:tag" content="kettles">
+      <meta property="article:tag" content="prices">`,
+      `<article><time datetime="2024-03-15">March 15</time>${PARAGRAPH}</article>`
+    );
+
+    const { article } = extractMetadata(html, PAGE_URL);
+
+    expect(article.publishedAt).toEqual({
+      value: "2024-03-15T08:30:00.000Z",
+      source: "json-ld",
+      confidence: 0.99,
+    });
+    expect(article.modifiedAt).toEqual({
+      value: "2024-03-16T12:00:00.000Z",
+      source: "json-ld",
+      confidence: 0.95,
+    });
+    expect(article.authors?.value).toEqual(["Jane Doe", "John Roe"]);
+    expect(article.section).toMatchObject({ value: "World", source: "json-ld", confidence: 0.95 });
+    expect(article.tags).toMatchObject({ value: ["kettles", "prices"], confidence: 0.99 });
+  });
+
+  it("finds the article inside a JSON-LD @graph and ignores profile URLs in article:author", () => {
+    const html = page(
+      `<script type="application/ld+json">{"@graph": [
+        {"@type": "WebSite", "name": "News"},
+        {"@type": "WebPage", "datePublished": "2020-01-01"},
+        {"@type": "BlogPosting", "datePublished": "2024-02-02", "author": "Ann Lee"}
+      ]}</script>
+      <meta property="article:author" content="https://news.example.com/staff/ann">`,
+      PARAGRAPH
+    );
+
+    const { article } = extractMetadata(html, PAGE_URL);
+
+    expect(article.publishedAt).toMatchObject({ value: "2024-02-02", source: "json-ld" });
+    expect(article.authors).toMatchObject({ value: ["Ann Lee"], source: "json-ld" });
+  });
+
+  it("falls back to article:* Open Graph and named meta tags", () => {
+    const html = page(
+      `<meta property="article:published_time" content="2023-11-05T10:00:00Z">
+      <meta property="og:updated_time" content="2023-11-06T10:00:00Z">
+      <meta name="author" content="Jane Doe and John Roe">
+      <meta name="parsely-section" content="Tech">
+      <meta name="news_keywords" content="ai, chips">`,
+      PARAGRAPH
+    );
+
+    const { article } = extractMetadata(html, PAGE_URL);
+
+    expect(article.publishedAt).toMatchObject({
+      value: "2023-11-05T10:00:00.000Z",
+      source: "opengraph",
+    });
+    expect(article.modifiedAt).toMatchObject({ source: "opengraph" });
+    expect(article.authors).toMatchObject({ value: ["Jane Doe", "John Roe"], source: "meta" });
+    expect(article.section).toMatchObject({ value: "Tech", source: "meta", confidence: 0.8 });
+    expect(article.tags).toMatchObject({ value: ["ai", "chips"], source: "meta" });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Page heuristics
+// ---------------------------------------------------------------------------
+
+describe("article metadata heuristics", () => {
+  it("reads labelled <time> elements and ignores ones in comments", () => {
+    const html = page(
+      "",
+      `<article>
+        <header>
+          <span class="published">Published <time datetime="2022-06-01T07:00:00Z">June 1</time></span>
+          <span class="updated">Updated <time datetime="2022-06-03">June 3</time></span>
+        </header>
+        ${PARAGRAPH}
+      </article>
+      <section class="comments"><time datetime="2022-06-10">June 10</time></section>`
+    );
+
+    const { article } = extractMetadata(html, PAGE_URL);
+
+    expect(article.publishedAt).toEqual({
+      value: "2022-06-01T07:00:00.000Z",
+      source: "time",
+      confidence: 0.7,
+    });
+    expect(article.modifiedAt).toMatchObject({ value: "2022-06-03", source: "time" });
+  });
+
+  it("parses bylines for authors and written-out dates", () => {
+    const html = page(
+      "",
+      `<article>
+        <div class="byline">By Jane Doe &amp; John Roe | March 3rd, 2021 · Updated 5 Mar 2021</div>
+        ${PARAGRAPH}
+      </article>`
+    );
+
+    const { article } = extractMetadata(html, PAGE_URL);
+
+    expect(article.authors).toEqual({
+      value: ["Jane Doe", "John Roe"],
+      source: "byline",
+      confidence: 0.6,
+    });
+    expect(article.publishedAt).toMatchObject({ value: "2021-03-03", source: "byline" });
+    expect(article.modifiedAt).toMatchObject({ value: "2021-03-05", source: "byline" });
+  });
+
+  it("prefers rel=author links and collects rel=tag links", () => {
+    const html = page(
+      "",
+      `<article>
+        <p class="author-info">Written by <a rel="author" href="/staff/ann">Ann Lee</a>, staff writer</p>
+        ${PARAGRAPH}
+        <a rel="tag" href="/t/kettles">kettles</a> <a rel="tag" href="/t/tea">tea</a>
+      </article>`
+    );
+
+    const { article } = extractMetadata(html, PAGE_URL);
+
+    expect(article.authors).toMatchObject({ value: ["Ann Lee"], confidence: 0.65 });
+    expect(article.tags).toMatchObject({ value: ["kettles", "tea"], source: "content" });
+  });
+
+  it("takes the publication day from the URL as a last resort", () => {
+    const { article } = extractMetadata(
+      page("", PARAGRAPH),
+      "https://blog.example.com/2019/07/04/fireworks/"
+    );
+
+    expect(article.publishedAt).toEqual({ value: "2019-07-04", source: "url", confidence: 0.4 });
+  });
+
+  it("rejects impossible URL dates", () => {
+    const { article } = extractMetadata(page("", PARAGRAPH), "https://example.com/2019/13/45/post");
+
+    expect(article.publishedAt).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Word count and reading time
+// ---------------------------------------------------------------------------
+
+describe("word count and reading time", () => {
+  it("counts words in the main content, skipping navigation and scripts", () => {
+    const html = page(
+      "",
+      `<nav>Home About Contact Careers</nav>
+      <main><p>${"word ".repeat(500)}</p><script>var ignored = "a b c";</script></main>
+      <footer>Copyright footer text</footer>`
+    );
+
+    const { article } = extractMetadata(html, PAGE_URL);
+
+    expect(article.wordCount).toEqual({ value: 500, source: "content", confidence: 0.8 });
+    expect(article.readingTimeMinutes).toMatchObject({ value: 3, source: "content" });
+  });
+
+  it("counts CJK characters as words", () => {
+    const { article } = extractMetadata(page("", "<p>東京の天気予報です。</p>"), PAGE_URL);
+
+    expect(article.wordCount).toMatchObject({ value: 9, source: "content", confidence: 0.5 });
+    expect(article.readingTimeMinutes?.value).toBe(1);
+  });
+
+  it("uses declared wordCount and timeRequired from structured data", () => {
+    const html = page(
+      `<script type="application/ld+json">
+        {"@type": "Article", "wordCount": "1,200", "timeRequired": "PT7M"}
+      </script>`,
+      PARAGRAPH
+    );
+
+    const { article } = extractMetadata(html, PAGE_URL);
+
+    expect(article.wordCount).toMatchObject({ value: 1200, source: "json-ld" });
+    expect(article.readingTimeMinutes).toMatchObject({ value: 7, source: "json-ld" });
+  });
+
+  it("leaves every field null on an empty page", () => {
+    expect(extractMetadata("<html><body></body></html>", PAGE_URL).article).toEqual({
+      publishedAt: null,
+      modifiedAt: null,
+      authors: null,
+      section: null,
+      tags: null,
+      wordCount: null,
+      readingTimeMinutes: null,
+    });
+  });
+
+  it("copes with an empty body (e.g. a 304 Not Modified)", () => {
+    expect(extractMetadata("", PAGE_URL).article.wordCount).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Converted documents
+// ---------------------------------------------------------------------------
+
+describe("applyDocumentProperties", () => {
+  it("takes dates and authors from the document's own properties", () => {
+    const metadata = extractMetadata(page("", PARAGRAPH), "https://example.com/2001/01/01/r.pdf");
+    const { article } = applyDocumentProperties(metadata, "pdf", {
+      author: "Jane Doe; John Roe",
+      createdAt: "2020-05-01T10:00:00Z",
+    });
+
+    expect(article.publishedAt).toEqual({
+      value: "2020-05-01T10:00:00.000Z",
+      source: "document",
+      confidence: 0.8,
+    });
+    expect(article.authors?.value).toEqual(["Jane Doe", "John Roe"]);
+    expect(article.modifiedAt).toBeNull();
+  });
+});
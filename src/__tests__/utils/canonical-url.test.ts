@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("re2", () => {
+  return {
+    default: class RE2 {
+      private re: RegExp;
+      constructor(pattern: string | RegExp, flags?: string) {
+        this.re = new RegExp(pattern instanceof RegExp ? pattern.source : pattern, flags);
+      }
+      test(str: string) {
+        return this.re.test(str);
+      }
+    },
+  };
+});
+
+import { canonicalUrlKey, isTrackingParam, UrlCanonicalizer } from "../../utils/canonical-url.js";
+import { getUrlKey } from "../../utils/url-helpers.js";
+
+describe("canonicalUrlKey", () => {
+  it("matches getUrlKey under the default policy", () => {
+    for (const url of [
+      "https://www.Example.com/Docs/Guide/?page=2#intro",
+      "http://example.com:80/blog/index.html",
+      "https://example.com/",
+      "https://example.com:8443/API/v1/",
+    ]) {
+      expect(canonicalUrlKey(url)).toBe(getUrlKey(url));
+    }
+  });
+
+  it("keeps the listed parameters, sorted", () => {
+    const policy = { keepParams: ["id", "lang"] };
+    expect(canonicalUrlKey("https://example.com/item?lang=en&ref=nav&id=7", policy)).toBe(
+      "https://example.com/item?id=7&lang=en"
+    );
+    expect(canonicalUrlKey("https://example.com/item?ref=nav", policy)).toBe(
+      "https://example.com/item"
+    );
+  });
+
+  it("keeps all parameters but tracking and dropped ones", () => {
+    const policy = { keepParams: "all" as const, dropParams: ["sort"] };
+    expect(
+      canonicalUrlKey(
+        "https://example.com/list/?q=shoes&utm_source=mail&fbclid=abc&gclid=x&sort=asc",
+        policy
+      )
+    ).toBe("https://example.com/list?q=shoes");
+    expect(
+      canonicalUrlKey("https://example.com/list?utm_source=mail", {
+        ...policy,
+        stripTrackingParams: false,
+      })
+    ).toBe("https://example.com/list?utm_source=mail");
+  });
+
+  it("keeps the path's case when caseSensitivePaths is set", () => {
+    expect(
+      canonicalUrlKey("https://WWW.Example.com/Wiki/Main_Page", { caseSensitivePaths: true })
+    ).toBe("https://example.com/Wiki/Main_Page");
+  });
+
+  it("recognises tracking parameters", () => {
+    expect(isTrackingParam("utm_campaign")).toBe(true);
+    expect(isTrackingParam("FBCLID")).toBe(true);
+    expect(isTrackingParam("page")).toBe(false);
+  });
+});
+
+describe("UrlCanonicalizer", () => {
+  it("maps pages to the rel=canonical URL they declare when trustCanonical is set", () => {
+    const html = '<head><link rel="canonical" href="/article/42"></head>';
+    const trusting = new UrlCanonicalizer({ trustCanonical: true });
+    const result = trusting.learn("https://example.com/article/42/print", html);
+
+    expect(result.canonicalUrl).toBe("https://example.com/article/42");
+    expect(result.key).toBe("https://example.com/article/42");
+    expect(trusting.key("https://example.com/article/42/print")).toBe(result.key);
+
+    const ignoring = new UrlCanonicalizer();
+    ignoring.learn("https://example.com/article/42/print", html);
+    expect(ignoring.key("https://example.com/article/42/print")).toBe(
+      "https://example.com/article/42/print"
+    );
+  });
+
+  it("groups hreflang alternates under the page's key when groupHreflang is set", () => {
+    const canonicalizer = new UrlCanonicalizer({ groupHreflang: true });
+    const result = canonicalizer.learn(
+      "https://example.com/en/pricing",
+      '<link rel="alternate" hreflang="de" href="https://example.com/de/preise">' +
+        '<link rel="alternate" hreflang="x-default" href="/en/pricing">'
+    );
+
+    expect(result.alternates).toEqual([
+      { hreflang: "de", url: "https://example.com/de/preise" },
+      { hreflang: "x-default", url: "https://example.com/en/pricing" },
+    ]);
+    expect(canonicalizer.key("https://example.com/de/preise")).toBe(
+      "https://example.com/en/pricing"
+    );
+  });
+
+  it("gives the path key regardless of the query", () => {
+    const canonicalizer = new UrlCanonicalizer({ keepParams: "all" });
+    expect(canonicalizer.key("https://example.com/list?page=2")).toBe(
+      "https://example.com/list?page=2"
+    );
+    expect(canonicalizer.pathKey("https://example.com/list?page=2")).toBe(
+      "https://example.com/list"
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ChangeTracker, contentHash, isGoneError } from "../../utils/change-tracker.js";
+import { AllEnginesFailedError, HttpError } from "../../engines/errors.js";
+import { UrlCanonicalizer } from "../../utils/canonical-url.js";
+
+const URL_A = "https://example.com/a";
+
+function page(text: string, headers: Record<string, string> = {}) {
+  return { html: `<html><body><p>${text}</p></body></html>`, headers };
+}
+
+describe("contentHash", () => {
+  it("ignores markup, scripts and whitespace", () => {
+    const base = contentHash("<html><body><p>Hello world</p></body></html>");
+
+    expect(contentHash('<div class="x"><p>Hello\n   world</p></div>')).toBe(base);
+    expect(
+      contentHash("<html><body><script>var n = 42;</script><p>Hello world</p></body></html>")
+    ).toBe(base);
+    expect(contentHash("<html><body><p>Hello there</p></body></html>")).not.toBe(base);
+  });
+});
+
+describe("isGoneError", () => {
+  it("matches 404/410 from any engine", () => {
+    expect(isGoneError(new HttpError("http", 410))).toBe(true);
+    expect(isGoneError(new HttpError("http", 503))).toBe(false);
+    expect(
+      isGoneError(
+        new AllEnginesFailedError(
+          ["http", "tlsclient"],
+          new Map([
+            ["http", new HttpError("http", 404)],
+            ["tlsclient", new Error("socket hang up")],
+          ])
+        )
+      )
+    ).toBe(true);
+  });
+});
+
+describe("ChangeTracker", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "change-tracker-"));
+    file = join(dir, "state", "pages.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("tags pages new, unchanged and changed across runs", async () => {
+    const first = new ChangeTracker(file);
+    await first.load();
+    expect(first.record(URL_A, page("One", { ETag: '"v1"' })).status).toBe("new");
+    await first.save();
+
+    const second = new ChangeTracker(file);
+    await second.load();
+    expect(second.validatorsFor(URL_A)).toEqual({ etag: '"v1"', lastModified: undefined });
+    expect(second.record(`${URL_A}#top`, page("One")).status).toBe("unchanged");
+
+    const change = second.record(URL_A, page("Two"));
+    expect(change.status).toBe("changed");
+    expect(change.previousContentHash).toBe(contentHash(page("One").html));
+  });
+
+  it("keeps the record on 304 Not Modified", async () => {
+    const tracker = new ChangeTracker(file);
+    await tracker.load();
+    tracker.record(URL_A, page("One", { "last-modified": "Mon, 01 Jun 2026 00:00:00 GMT" }), {
+      links: ["https://example.com/b"],
+    });
+
+    const change = tracker.record(URL_A, { html: "", notModified: true });
+
+    expect(change).toMatchObject({ status: "unchanged", notModified: true });
+    expect(tracker.get(URL_A)?.links).toEqual(["https://example.com/b"]);
+    expect(tracker.validatorsFor(URL_A)?.lastModified).toBe("Mon, 01 Jun 2026 00:00:00 GMT");
+  });
+
+  it("skips revalidation when the sitemap lastmod moved forward", async () => {
+    const tracker = new ChangeTracker(file);
+    await tracker.load();
+    tracker.record(URL_A, page("One", { etag: '"v1"' }), { sitemapLastmod: "2026-06-01" });
+
+    expect(tracker.validatorsFor(URL_A, "2026-06-01")).toBeDefined();
+    expect(tracker.validatorsFor(URL_A, "2026-07-01")).toBeUndefined();
+  });
+
+  it("tombstones removed pages and treats their return as new", async () => {
+    const tracker = new ChangeTracker(file);
+    await tracker.load();
+    tracker.record(URL_A, page("One", { etag: '"v1"' }));
+
+    expect(tracker.markRemoved(URL_A)?.status).toBe("removed");
+    expect(tracker.markRemoved(URL_A)).toBeNull();
+    expect(tracker.markRemoved("https://example.com/never-seen")).toBeNull();
+    expect(tracker.validatorsFor(URL_A)).toBeUndefined();
+    expect(tracker.record(URL_A, page("One")).status).toBe("new");
+  });
+
+  it("refuses to overwrite records it could not read", async () => {
+    await mkdir(join(dir, "state"));
+    await writeFile(file, '{"version":1,"pages":{"https://example.com/a":', "utf-8");
+
+    const tracker = new ChangeTracker(file);
+    await expect(tracker.load()).rejects.toThrow(`Cannot read change records from ${file}`);
+    tracker.record(URL_A, page("One"));
+
+    await expect(tracker.save()).rejects.toThrow("Not overwriting unreadable change records");
+    expect(await readFile(file, "utf-8")).toBe('{"version":1,"pages":{"https://example.com/a":');
+  });
+
+  it("replaces the file in one step when saving", async () => {
+    const tracker = new ChangeTracker(file);
+    await tracker.load();
+    tracker.record(URL_A, page("One"));
+    await tracker.save();
+
+    expect(await readdir(join(dir, "state"))).toEqual(["pages.json"]);
+    expect(JSON.parse(await readFile(file, "utf-8")).pages[URL_A].contentHash).toBe(
+      contentHash(page("One").html)
+    );
+  });
+
+  it("keys records by the canonicalizer when given one", async () => {
+    const tracker = new ChangeTracker(file, new UrlCanonicalizer({ keepParams: ["id"] }));
+    await tracker.load();
+    tracker.record("https://example.com/item?id=1&utm_source=mail", page("One"));
+
+    expect(tracker.record("https://www.example.com/item/?id=1", page("One")).status).toBe(
+      "unchanged"
+    );
+    expect(tracker.record("https://example.com/item?id=2", page("One")).status).toBe("new");
+  });
+});
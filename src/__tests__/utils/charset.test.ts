@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import {
+  charsetFromContentType,
+  decodeBody,
+  detectCharset,
+  normalizeCharset,
+} from "../../utils/charset.js";
+
+// Encoded fixtures (text -> bytes in the named legacy encoding)
+const SHIFT_JIS = { text: "東京の天気予報です。", hex: "938c8b9e82cc93568b43975c95f182c582b78142" };
+const EUC_KR = {
+  text: "서울의 오늘 날씨 예보입니다.",
+  hex: "bcadbfefc0c720bfc0b4c320b3afbebe20bfb9bab8c0d4b4cfb4d92e",
+};
+const GBK = { text: "北京今天的天气预报。", hex: "b1b1bea9bdf1ccecb5c4ccecc6f8d4a4b1a8a1a3" };
+const WINDOWS_1251 = {
+  text: "Прогноз погоды в Москве на сегодня.",
+  hex: "cff0eee3edeee720efeee3eee4fb20e220cceef1eae2e520ede020f1e5e3eee4edff2e",
+};
+const WINDOWS_1252 = {
+  text: "Météo à Paris: très ensoleillé.",
+  hex: "4de974e96f20e02050617269733a207472e87320656e736f6c65696c6ce92e",
+};
+
+function page(fixture: { hex: string }, head = ""): Buffer {
+  return Buffer.concat([
+    Buffer.from(`<html><head>${head}</head><body><p>`),
+    Buffer.from(fixture.hex, "hex"),
+    Buffer.from("</p></body></html>"),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Charset labels
+// ---------------------------------------------------------------------------
+
+describe("normalizeCharset / charsetFromContentType", () => {
+  it("maps labels to WHATWG encoding names", () => {
+    expect(normalizeCharset("Shift_JIS")).toBe("shift_jis");
+    expect(normalizeCharset("sjis")).toBe("shift_jis");
+    expect(normalizeCharset("latin1")).toBe("windows-1252");
+    expect(normalizeCharset("gb2312")).toBe("gbk");
+    expect(normalizeCharset("no-such-charset")).toBeNull();
+  });
+
+  it("treats a UTF-16 meta declaration as UTF-8", () => {
+    expect(normalizeCharset("utf-16")).toBe("utf-8");
+  });
+
+  it("reads the charset parameter of a Content-Type header", () => {
+    expect(charsetFromContentType("text/html; charset=EUC-KR")).toBe("euc-kr");
+    expect(charsetFromContentType('text/html; charset="windows-1251"')).toBe("windows-1251");
+    expect(charsetFromContentType("text/html")).toBeNull();
+    expect(charsetFromContentType("text/html; charset=bogus")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// decodeBody
+// ---------------------------------------------------------------------------
+
+describe("decodeBody", () => {
+  it("uses the Content-Type charset first", () => {
+    const decoded = decodeBody(
+      page(SHIFT_JIS, '<meta charset="utf-8">'),
+      "text/html; charset=Shift_JIS"
+    );
+
+    expect(decoded).toMatchObject({ charset: "shift_jis", source: "header" });
+    expect(decoded.text).toContain(SHIFT_JIS.text);
+  });
+
+  it("honours a byte order mark when the header has no charset", () => {
+    const body = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from("<p>Grüße</p>")]);
+    const decoded = decodeBody(body, "text/html");
+
+    expect(decoded).toMatchObject({ charset: "utf-8", source: "bom", text: "<p>Grüße</p>" });
+  });
+
+  it("reads <meta charset> before http-equiv", () => {
+    const decoded = decodeBody(
+      page(
+        WINDOWS_1251,
+        '<meta http-equiv="Content-Type" content="text/html; charset=koi8-r"><meta charset="windows-1251">'
+      )
+    );
+
+    expect(decoded).toMatchObject({ charset: "windows-1251", source: "meta" });
+    expect(decoded.text).toContain(WINDOWS_1251.text);
+  });
+
+  it("reads the http-equiv Content-Type declaration", () => {
+    const decoded = decodeBody(
+      page(EUC_KR, '<meta http-equiv="Content-Type" content="text/html; charset=euc-kr">')
+    );
+
+    expect(decoded).toMatchObject({ charset: "euc-kr", source: "http-equiv" });
+    expect(decoded.text).toContain(EUC_KR.text);
+  });
+
+  it("skips meta sniffing for non-HTML bodies", () => {
+    const body = Buffer.from('<meta charset="windows-1251"> plain text');
+    expect(decodeBody(body, "text/plain", { sniffMeta: false }).source).toBe("detected");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// detectCharset
+// ---------------------------------------------------------------------------
+
+describe("detectCharset", () => {
+  it("prefers UTF-8 when the bytes are valid UTF-8", () => {
+    expect(detectCharset(Buffer.from("<p>東京 Москва Météo</p>"))).toBe("utf-8");
+    expect(detectCharset(Buffer.from("<p>ascii only</p>"))).toBe("utf-8");
+  });
+
+  it.each([
+    ["shift_jis", SHIFT_JIS],
+    ["euc-kr", EUC_KR],
+    ["gbk", GBK],
+    ["windows-1251", WINDOWS_1251],
+    ["windows-1252", WINDOWS_1252],
+  ])("detects undeclared %s pages", (charset, fixture) => {
+    const body = page(fixture);
+
+    expect(detectCharset(body)).toBe(charset);
+    expect(decodeBody(body).text).toContain(fixture.text);
+  });
+});
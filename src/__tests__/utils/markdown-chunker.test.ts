@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { chunkMarkdown, estimateTokens } from "../../utils/markdown-chunker.js";
+
+const DOC = `Intro paragraph before any heading.
+
+# Guide
+
+Welcome to the guide.
+
+## Install
+
+Run the installer.
+
+\`\`\`bash
+npm install reader
+\`\`\`
+
+## Usage
+
+| Option | Default |
+| ------ | ------- |
+| depth  | 1       |
+
+### Advanced
+
+Tune the pool size.
+`;
+
+// ---------------------------------------------------------------------------
+// chunkMarkdown
+// ---------------------------------------------------------------------------
+
+describe("chunkMarkdown", () => {
+  it("splits on heading boundaries and records the breadcrumb path", () => {
+    const chunks = chunkMarkdown(DOC);
+
+    expect(chunks.map((c) => c.headingPath)).toEqual([
+      [],
+      ["Guide"],
+      ["Guide", "Install"],
+      ["Guide", "Usage"],
+      ["Guide", "Usage", "Advanced"],
+    ]);
+    expect(chunks.map((c) => c.index)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("offsets slice back to the chunk text", () => {
+    for (const chunk of chunkMarkdown(DOC)) {
+      expect(DOC.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
+      expect(chunk.charCount).toBe(chunk.text.length);
+    }
+  });
+
+  it("produces a stable sha256 content hash", () => {
+    const [a] = chunkMarkdown("Same text.");
+    const [b] = chunkMarkdown("Same text.");
+    const [c] = chunkMarkdown("Other text.");
+
+    expect(a.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(a.hash).toBe(b.hash);
+    expect(a.hash).not.toBe(c.hash);
+  });
+
+  it("packs paragraphs up to the character budget", () => {
+    const md = ["aaaa aaaa.", "bbbb bbbb.", "cccc cccc.", "dddd dddd."].join("\n\n");
+    const chunks = chunkMarkdown(md, { unit: "characters", size: 25, overlap: 0 });
+
+    expect(chunks.map((c) => c.text)).toEqual([
+      "aaaa aaaa.\n\nbbbb bbbb.",
+      "cccc cccc.\n\ndddd dddd.",
+    ]);
+  });
+
+  it("carries trailing content of the previous chunk as overlap", () => {
+    const md = ["aaaa aaaa.", "bbbb bbbb.", "cccc cccc."].join("\n\n");
+    const chunks = chunkMarkdown(md, { unit: "characters", size: 25, overlap: 12 });
+
+    expect(chunks.map((c) => c.text)).toEqual([
+      "aaaa aaaa.\n\nbbbb bbbb.",
+      "bbbb bbbb.\n\ncccc cccc.",
+    ]);
+  });
+
+  it("never cuts a fenced code block, even when it exceeds the budget", () => {
+    const code = "```js\n" + "console.log(1);\n".repeat(10) + "```";
+    const md = `Before.\n\n${code}\n\nAfter.`;
+    const chunks = chunkMarkdown(md, { unit: "characters", size: 40, overlap: 0 });
+
+    const codeChunks = chunks.filter((c) => c.text.includes("console.log"));
+    expect(codeChunks).toHaveLength(1);
+    expect(codeChunks[0].text).toBe(code);
+  });
+
+  it("does not treat headings inside code fences as section boundaries", () => {
+    const md = "# Real\n\n```md\n# Not a heading\n```";
+    const chunks = chunkMarkdown(md);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headingPath).toEqual(["Real"]);
+  });
+
+  it("never cuts a table", () => {
+    const rows = Array.from({ length: 8 }, (_, i) => `| row${i} | value${i} |`).join("\n");
+    const table = `| Name | Value |\n| ---- | ----- |\n${rows}`;
+    const chunks = chunkMarkdown(`Intro.\n\n${table}`, {
+      unit: "characters",
+      size: 50,
+      overlap: 0,
+    });
+
+    const tableChunks = chunks.filter((c) => c.text.includes("| row"));
+    expect(tableChunks).toHaveLength(1);
+    expect(tableChunks[0].text).toBe(table);
+  });
+
+  it("splits an oversized paragraph on sentence boundaries", () => {
+    const md = "First sentence here. Second sentence here. Third sentence here.";
+    const chunks = chunkMarkdown(md, { unit: "characters", size: 45, overlap: 0 });
+
+    expect(chunks.map((c) => c.text)).toEqual([
+      "First sentence here. Second sentence here.",
+      "Third sentence here.",
+    ]);
+  });
+
+  it("uses a custom tokenizer for budgets and token counts", () => {
+    const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const chunks = chunkMarkdown("one two three.\n\nfour five six.", {
+      size: 3,
+      overlap: 0,
+      tokenizer: words,
+    });
+
+    expect(chunks.map((c) => c.tokenCount)).toEqual([3, 3]);
+  });
+
+  it("returns no chunks for empty markdown", () => {
+    expect(chunkMarkdown("")).toEqual([]);
+    expect(chunkMarkdown("\n\n  \n")).toEqual([]);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("estimates about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
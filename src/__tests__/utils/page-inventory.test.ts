@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from "vitest";
+
+// Mock native re2 module (may not be built in CI/test environments)
+vi.mock("re2", () => {
+  return {
+    default: class RE2 {
+      private re: RegExp;
+      constructor(pattern: string | RegExp, flags?: string) {
+        this.re = new RegExp(pattern instanceof RegExp ? pattern.source : pattern, flags);
+      }
+      test(str: string) {
+        return this.re.test(str);
+      }
+    },
+  };
+});
+
+const { extractPageImages, extractPageLinks } = await import("../../utils/page-inventory.js");
+
+const PAGE_URL = "https://example.com/blog/post";
+
+const ARTICLE_TEXT = "This paragraph is long enough to count as real article content. ".repeat(4);
+
+// ---------------------------------------------------------------------------
+// extractPageLinks
+// ---------------------------------------------------------------------------
+
+describe("extractPageLinks", () => {
+  it("resolves URLs and records text, rel and the internal flag", () => {
+    const links = extractPageLinks(
+      `<html><body>
+        <a href="/about">About   us</a>
+        <a href="https://docs.example.com/guide#setup">Docs</a>
+        <a href="https://other.org/" rel="nofollow noopener">Other</a>
+      </body></html>`,
+      PAGE_URL
+    );
+
+    expect(links).toEqual([
+      {
+        url: "https://example.com/about",
+        text: "About us",
+        rel: [],
+        internal: true,
+        honeypot: false,
+      },
+      {
+        url: "https://docs.example.com/guide#setup",
+        text: "Docs",
+        rel: [],
+        internal: true,
+        honeypot: false,
+      },
+      {
+        url: "https://other.org/",
+        text: "Other",
+        rel: ["nofollow", "noopener"],
+        internal: false,
+        honeypot: false,
+      },
+    ]);
+  });
+
+  it("skips fragment-only and non-http links", () => {
+    const links = extractPageLinks(
+      `<html><body>
+        <a href="#top">Top</a>
+        <a href="mailto:hi@example.com">Mail</a>
+        <a href="javascript:void(0)">JS</a>
+        <a href="ftp://example.com/file">FTP</a>
+        <a href="next">Next</a>
+      </body></html>`,
+      PAGE_URL
+    );
+
+    expect(links.map((l) => l.url)).toEqual(["https://example.com/blog/next"]);
+  });
+
+  it("flags honeypot links", () => {
+    const links = extractPageLinks(
+      `<html><body><a href="/trap" style="display:none;width:1px;height:1px"></a></body></html>`,
+      PAGE_URL
+    );
+
+    expect(links).toHaveLength(1);
+    expect(links[0].honeypot).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// extractPageImages
+// ---------------------------------------------------------------------------
+
+describe("extractPageImages", () => {
+  it("records src, srcset, alt, dimensions and main-content placement", () => {
+    const images = extractPageImages(
+      `<html><body>
+        <header><img src="/logo.png" alt="Logo" width="120" height="40px"></header>
+        <main>
+          <p>${ARTICLE_TEXT}</p>
+          <img src="photo.jpg" srcset="photo-480.jpg 480w, https://cdn.example.com/photo-960.jpg 960w" alt=" Sunset ">
+        </main>
+      </body></html>`,
+      PAGE_URL
+    );
+
+    expect(images).toEqual([
+      {
+        src: "https://example.com/logo.png",
+        alt: "Logo",
+        width: 120,
+        height: 40,
+        inMainContent: false,
+      },
+      {
+        src: "https://example.com/blog/photo.jpg",
+        srcset: [
+          { url: "https://example.com/blog/photo-480.jpg", descriptor: "480w" },
+          { url: "https://cdn.example.com/photo-960.jpg", descriptor: "960w" },
+        ],
+        alt: "Sunset",
+        inMainContent: true,
+      },
+    ]);
+  });
+
+  it("falls back to data-src for lazy-loaded images and skips inline data images", () => {
+    const images = extractPageImages(
+      `<html><body>
+        <img src="data:image/gif;base64,R0lGODlhAQABAAAAACw=" data-src="/lazy.png">
+        <img src="data:image/png;base64,iVBORw0KGgo=">
+      </body></html>`,
+      PAGE_URL
+    );
+
+    expect(images.map((i) => i.src)).toEqual(["https://example.com/lazy.png"]);
+  });
+
+  it("marks every image outside main content when no main region is found", () => {
+    const images = extractPageImages(`<html><body><img src="/a.png"></body></html>`, PAGE_URL);
+    expect(images[0]).toMatchObject({ alt: "", inMainContent: false });
+    expect(images[0].width).toBeUndefined();
+  });
+});
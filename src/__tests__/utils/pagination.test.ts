@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { findNextPageUrl, nextNumberedUrls } from "../../utils/pagination.js";
+
+const PAGE = "https://news.example.com/2024/story";
+
+describe("findNextPageUrl", () => {
+  it("follows <link rel=next> first", () => {
+    const html =
+      '<html><head><link rel="next" href="/2024/story?page=2"></head>' +
+      '<body><div class="pagination"><a href="/elsewhere">Next</a></div></body></html>';
+    expect(findNextPageUrl(html, PAGE)).toBe("https://news.example.com/2024/story?page=2");
+  });
+
+  it("finds the next link in pager markup", () => {
+    const html =
+      '<article>Part one</article><nav aria-label="Pagination">' +
+      '<a href="/2024/story">1</a><a href="/2024/story/2" aria-label="Next page">›</a></nav>';
+    expect(findNextPageUrl(html, PAGE)).toBe("https://news.example.com/2024/story/2");
+  });
+
+  it("follows a link to the incremented page number", () => {
+    const html = '<p>Replies</p><a href="/forum/thread?id=7&page=3">3</a>';
+    expect(findNextPageUrl(html, "https://news.example.com/forum/thread?id=7&page=2")).toBe(
+      "https://news.example.com/forum/thread?id=7&page=3"
+    );
+  });
+
+  it("ignores other hosts, the current page and unrelated numbered links", () => {
+    const html =
+      '<link rel="next" href="https://other.example.org/story?page=2">' +
+      '<div class="pager"><a href="#comments">Next</a></div><a href="/2024/story?page=5">5</a>';
+    expect(findNextPageUrl(html, PAGE)).toBeNull();
+  });
+});
+
+describe("nextNumberedUrls", () => {
+  it("increments page numbers in the query or the path", () => {
+    expect(nextNumberedUrls("https://example.com/list?p=4")).toEqual([
+      "https://example.com/list?p=5",
+    ]);
+    expect(nextNumberedUrls("https://example.com/blog/page/2/")).toEqual([
+      "https://example.com/blog/page/3/",
+    ]);
+  });
+
+  it("proposes the common page 2 forms for a first page", () => {
+    expect(nextNumberedUrls("https://example.com/blog")).toEqual([
+      "https://example.com/blog?page=2",
+      "https://example.com/blog?p=2",
+      "https://example.com/blog/page/2",
+      "https://example.com/blog/page/2/",
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi } from "vitest";
+
+// Mock native re2 module (may not be built in CI/test environments)
+vi.mock("re2", () => {
+  return {
+    default: class RE2 {
+      private re: RegExp;
+      constructor(pattern: string | RegExp, flags?: string) {
+        this.re = new RegExp(pattern instanceof RegExp ? pattern.source : pattern, flags);
+      }
+      test(str: string) {
+        return this.re.test(str);
+      }
+    },
+  };
+});
+
+const { extractMetadata, extractMicrodata, extractRdfa, extractStructuredData } =
+  await import("../../utils/metadata-extractor.js");
+
+const PAGE_URL = "https://shop.example.com/products/kettle";
+
+// ---------------------------------------------------------------------------
+// Microdata
+// ---------------------------------------------------------------------------
+
+describe("extractMicrodata", () => {
+  it("extracts nested items with element-specific values", () => {
+    const items = extractMicrodata(
+      `<div itemscope itemtype="https://schema.org/Product" itemid="/p/42">
+        <h1 itemprop="name">Steel   Kettle</h1>
+        <img itemprop="image" src="/img/kettle.jpg">
+        <a itemprop="url" href="/products/kettle">Link</a>
+        <meta itemprop="sku" content="K-42">
+        <div itemprop="offers" itemscope itemtype="http://schema.org/Offer">
+          <data itemprop="price" value="39.90">$39.90</data>
+          <link itemprop="availability" href="https://schema.org/InStock">
+          <time itemprop="priceValidUntil" datetime="2025-12-31">end of year</time>
+        </div>
+      </div>`,
+      PAGE_URL
+    );
+
+    expect(items).toEqual([
+      {
+        "@type": "Product",
+        "@id": "https://shop.example.com/p/42",
+        name: "Steel Kettle",
+        image: "https://shop.example.com/img/kettle.jpg",
+        url: "https://shop.example.com/products/kettle",
+        sku: "K-42",
+        offers: {
+          "@type": "Offer",
+          price: "39.90",
+          availability: "https://schema.org/InStock",
+          priceValidUntil: "2025-12-31",
+        },
+      },
+    ]);
+  });
+
+  it("follows itemref, collects repeated properties and survives self-references", () => {
+    const items = extractMicrodata(
+      `<div itemscope itemtype="https://schema.org/Recipe" itemref="extra" id="self">
+        <span itemprop="recipeIngredient">Flour</span>
+        <span itemprop="recipeIngredient">Water</span>
+      </div>
+      <p id="extra"><span itemprop="name">Bread</span>
+        <span itemprop="isPartOf" itemscope itemref="self"></span></p>`,
+      PAGE_URL
+    );
+
+    expect(items[0]).toMatchObject({
+      "@type": "Recipe",
+      recipeIngredient: ["Flour", "Water"],
+      name: "Bread",
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// RDFa Lite
+// ---------------------------------------------------------------------------
+
+describe("extractRdfa", () => {
+  it("extracts vocab/typeof/property items with nested values", () => {
+    const items = extractRdfa(
+      `<div vocab="https://schema.org/" typeof="Event" resource="#launch">
+        <span property="name">Launch Party</span>
+        <time property="startDate" datetime="2025-05-01T19:00">May 1st</time>
+        <div property="location" typeof="Place">
+          <span property="name">Main Hall</span>
+          <a property="url" href="/venues/main">Venue</a>
+        </div>
+      </div>`,
+      PAGE_URL
+    );
+
+    expect(items).toEqual([
+      {
+        "@type": "Event",
+        "@id": "https://shop.example.com/products/kettle#launch",
+        name: "Launch Party",
+        startDate: "2025-05-01T19:00",
+        location: {
+          "@type": "Place",
+          name: "Main Hall",
+          url: "https://shop.example.com/venues/main",
+        },
+      },
+    ]);
+  });
+
+  it("expands prefixes and keeps non-schema.org terms as full IRIs", () => {
+    const items = extractRdfa(
+      `<div prefix="foaf: http://xmlns.com/foaf/0.1/ schema: https://schema.org/" typeof="schema:Person">
+        <span property="schema:name">Ada</span>
+        <span property="foaf:nick">ada</span>
+        <meta property="schema:jobTitle" content="Engineer">
+      </div>`,
+      PAGE_URL
+    );
+
+    expect(items).toEqual([
+      {
+        "@type": "Person",
+        name: "Ada",
+        "http://xmlns.com/foaf/0.1/nick": "ada",
+        jobTitle: "Engineer",
+      },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// JSON-LD
+// ---------------------------------------------------------------------------
+
+describe("extractStructuredData", () => {
+  it("parses JSON-LD blocks, tolerating comment wrappers and trailing commas", () => {
+    const data = extractStructuredData(
+      `<script type="application/ld+json"><!--
+        {"@type": "Organization", "name": "Acme",}
+      --></script>
+      <script type="application/ld+json">not json</script>`
+    );
+
+    expect(data).toEqual([{ "@type": "Organization", name: "Acme" }]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// WebsiteMetadata.structuredData
+// ---------------------------------------------------------------------------
+
+describe("extractMetadata structuredData", () => {
+  it("is null when the page has no structured data", () => {
+    expect(extractMetadata("<html><body><p>Plain</p></body></html>", PAGE_URL).structuredData).toBe(
+      null
+    );
+  });
+
+  it("merges all sources, flattens @graph and indexes nested items by type", () => {
+    const html = `<html><head>
+      <script type="application/ld+json">{
+        "@context": "https://schema.org",
+        "@graph": [
+          {"@type": "WebSite", "@id": "#site", "name": "Shop"},
+          {"@type": ["Article", "NewsArticle"], "headline": "Kettles compared",
+           "author": {"@type": "Person", "name": "Ada"}}
+        ]
+      }</script></head>
+      <body>
+        <div itemscope itemtype="https://schema.org/Product"><span itemprop="name">Kettle</span></div>
+        <div vocab="https://schema.org/" typeof="BreadcrumbList"><span property="name">Home</span></div>
+      </body></html>`;
+
+    const structured = extractMetadata(html, PAGE_URL).structuredData;
+
+    expect(structured?.items.map((i) => [i.source, i.types])).toEqual([
+      ["json-ld", ["WebSite"]],
+      ["json-ld", ["Article", "NewsArticle"]],
+      ["microdata", ["Product"]],
+      ["rdfa", ["BreadcrumbList"]],
+    ]);
+    expect(structured?.items[1].data).not.toHaveProperty("@context");
+    expect(Object.keys(structured?.byType ?? {}).sort()).toEqual([
+      "Article",
+      "BreadcrumbList",
+      "NewsArticle",
+      "Person",
+      "Product",
+      "WebSite",
+    ]);
+    expect(structured?.byType.Person).toEqual([{ "@type": "Person", name: "Ada" }]);
+    expect(structured?.byType.Article[0]).toBe(structured?.byType.NewsArticle[0]);
+  });
+});
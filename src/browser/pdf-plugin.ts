@@ -0,0 +1,71 @@
+/**
+ * PDF capture plugin for Hero
+ *
+ * Hero has no PDF API, so this pairs a core plugin (runs next to Chrome and calls
+ * the DevTools `Page.printToPDF` command) with a client plugin (gives scraping code
+ * a way to reach it). The core half is registered on the in-process HeroCore by
+ * ReaderClient; the client half is registered on every pooled Hero instance.
+ *
+ * When Hero is connected to a core without the plugin (e.g. a remote core),
+ * printToPdf() resolves to null instead of failing the scrape.
+ */
+
+import type Hero from "@ulixee/hero";
+import { ClientPlugin, CorePlugin } from "@ulixee/hero-plugin-utils";
+import type { IOnClientCommandMeta } from "@ulixee/hero-interfaces/ICorePlugin";
+import type { ISendToCoreFn } from "@ulixee/hero-interfaces/IClientPlugin";
+
+const PLUGIN_ID = "@vakra-dev/reader-pdf";
+
+/**
+ * PDF rendering options
+ */
+export interface PdfOptions {
+  /** Paper orientation (default: false) */
+  landscape?: boolean;
+  /** Print background graphics (default: true) */
+  printBackground?: boolean;
+}
+
+/** Client-side command channel for each Hero instance that has the plugin */
+const senders = new WeakMap<Hero, ISendToCoreFn>();
+
+/**
+ * Core half: prints the active page through DevTools
+ */
+export class PdfCorePlugin extends CorePlugin {
+  static override readonly id = PLUGIN_ID;
+
+  async onClientCommand({ page }: IOnClientCommandMeta, options: PdfOptions = {}): Promise<string> {
+    const { data } = await page.devtoolsSession.send("Page.printToPDF", {
+      landscape: options.landscape ?? false,
+      printBackground: options.printBackground ?? true,
+      preferCSSPageSize: true,
+    });
+    return data;
+  }
+}
+
+/**
+ * Client half: remembers how to reach the core plugin for each Hero instance
+ */
+export class PdfClientPlugin extends ClientPlugin {
+  static override readonly id = PLUGIN_ID;
+
+  onHero(hero: Hero, sendToCore: ISendToCoreFn): void {
+    senders.set(hero, sendToCore);
+  }
+}
+
+/**
+ * Print the active tab of `hero` to PDF
+ *
+ * @returns PDF bytes, or null if the plugin is not registered on the client or core
+ */
+export async function printToPdf(hero: Hero, options: PdfOptions = {}): Promise<Buffer | null> {
+  const sendToCore = senders.get(hero);
+  if (!sendToCore) return null;
+
+  const data: unknown = await sendToCore(PLUGIN_ID, options);
+  return typeof data === "string" ? Buffer.from(data, "base64") : null;
+}
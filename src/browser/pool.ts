@@ -1,5 +1,6 @@
 import Hero from "@ulixee/hero";
 import { createHeroConfig } from "./hero-config";
+import { PdfClientPlugin } from "./pdf-plugin";
 import type {
   BrowserInstance,
   QueueItem,
@@ -9,6 +10,7 @@ import type {
   IBrowserPool,
 } from "./types";
 import type { ProxyConfig } from "../types";
+import { AbortedError } from "../errors";
 import { createLogger } from "../utils/logger";
 
 /**
@@ -157,7 +159,11 @@ export class BrowserPool implements IBrowserPool {
   /**
    * Acquire a browser from the pool
    */
-  async acquire(): Promise<Hero> {
+  async acquire(signal?: AbortSignal): Promise<Hero> {
+    if (signal?.aborted) {
+      throw new AbortedError();
+    }
+
     // Get available instance
     const instance = this.available.shift();
     if (!instance) {
@@ -167,7 +173,7 @@ export class BrowserPool implements IBrowserPool {
           `No browsers available, queuing request (queue: ${this.queue.length + 1})`
         );
       }
-      return this.queueRequest();
+      return this.queueRequest(signal);
     }
 
     // Mark as busy
@@ -186,8 +192,10 @@ export class BrowserPool implements IBrowserPool {
 
   /**
    * Release a browser back to the pool
+   *
+   * @param options.recycle - Replace the browser instead of reusing it (e.g. its tab was closed)
    */
-  release(hero: Hero): void {
+  release(hero: Hero, options: { recycle?: boolean } = {}): void {
     const instance = this.instances.find((i) => i.hero === hero);
     if (!instance) return;
 
@@ -203,7 +211,7 @@ export class BrowserPool implements IBrowserPool {
     }
 
     // Check if needs recycling
-    if (this.shouldRecycle(instance)) {
+    if (options.recycle || this.shouldRecycle(instance)) {
       if (this.verbose) {
         this.logger.info(`Recycling browser ${instance.id} (age or request limit reached)`);
       }
@@ -217,9 +225,12 @@ export class BrowserPool implements IBrowserPool {
   /**
    * Execute callback with auto-managed browser
    */
-  async withBrowser<T>(callback: (hero: Hero) => Promise<T>): Promise<T> {
+  async withBrowser<T>(
+    callback: (hero: Hero) => Promise<T>,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<T> {
     const startTime = Date.now();
-    const hero = await this.acquire();
+    const hero = await this.acquire(options.signal);
 
     try {
       const result = await callback(hero);
@@ -230,7 +241,8 @@ export class BrowserPool implements IBrowserPool {
 
       return result;
     } finally {
-      this.release(hero);
+      // An aborted callback may have closed the tab mid-navigation
+      this.release(hero, { recycle: options.signal?.aborted === true });
     }
   }
 
@@ -299,6 +311,7 @@ export class BrowserPool implements IBrowserPool {
     });
 
     const hero = new Hero(heroConfig);
+    hero.use(PdfClientPlugin);
 
     return {
       hero,
@@ -361,7 +374,7 @@ export class BrowserPool implements IBrowserPool {
   /**
    * Queue a request when no browsers available
    */
-  private queueRequest(): Promise<Hero> {
+  private queueRequest(signal?: AbortSignal): Promise<Hero> {
     return new Promise<Hero>((resolve, reject) => {
       // Check queue size
       if (this.queue.length >= this.config.maxQueueSize) {
@@ -371,18 +384,36 @@ export class BrowserPool implements IBrowserPool {
 
       // Add to queue
       const item: QueueItem = {
-        resolve,
-        reject,
+        resolve: (hero) => {
+          settle();
+          resolve(hero);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
         queuedAt: Date.now(),
       };
+      const settle = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        const index = this.queue.indexOf(item);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          item.reject(new AbortedError());
+        }
+      };
       this.queue.push(item);
+      signal?.addEventListener("abort", onAbort, { once: true });
 
       // Set timeout
-      setTimeout(() => {
+      const timeoutId = setTimeout(() => {
         const index = this.queue.indexOf(item);
         if (index !== -1) {
           this.queue.splice(index, 1);
-          reject(new Error("Queue timeout"));
+          item.reject(new Error("Queue timeout"));
         }
       }, this.config.queueTimeout);
     });
@@ -119,14 +119,17 @@ export interface IBrowserPool {
   /** Shutdown the pool */
   shutdown(): Promise<void>;
 
-  /** Acquire a browser instance */
-  acquire(): Promise<Hero>;
+  /** Acquire a browser instance (a queued wait is rejected when signal aborts) */
+  acquire(signal?: AbortSignal): Promise<Hero>;
 
   /** Release a browser instance back to the pool */
   release(hero: Hero): void;
 
   /** Execute callback with auto-managed browser */
-  withBrowser<T>(callback: (hero: Hero) => Promise<T>): Promise<T>;
+  withBrowser<T>(
+    callback: (hero: Hero) => Promise<T>,
+    options?: { signal?: AbortSignal }
+  ): Promise<T>;
 
   /** Get pool statistics */
   getStats(): PoolStats;
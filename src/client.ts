@@ -14,6 +14,9 @@
  *
  * console.log(result.data[0].markdown);
  *
+ * // Events from every scrape and crawl this client runs
+ * reader.on("engine:fallback", (event) => console.log(`${event.from} → ${event.to}`));
+ *
  * // When done (optional - auto-closes on process exit)
  * await reader.close();
  */
@@ -21,12 +24,20 @@
 import HeroCore from "@ulixee/hero-core";
 import { TransportBridge } from "@ulixee/net";
 import { ConnectionToHeroCore } from "@ulixee/hero";
-import { scrape } from "./scraper";
+import { scrape, scrapeStream } from "./scraper";
 import { crawl } from "./crawler";
 import { HeroBrowserPool } from "./browser/pool";
-import type { ScrapeOptions, ScrapeResult, ProxyConfig, BrowserPoolConfig } from "./types";
+import { PdfCorePlugin } from "./browser/pdf-plugin";
+import type {
+  ScrapeOptions,
+  ScrapeResult,
+  ScrapeStreamItem,
+  ProxyConfig,
+  BrowserPoolConfig,
+} from "./types";
 import type { CrawlOptions, CrawlResult } from "./crawl-types";
 import { createLogger } from "./utils/logger";
+import { ReaderEventEmitter, type ReaderEvent, type ReaderEventHandler } from "./events";
 
 const logger = createLogger("client");
 
@@ -60,8 +71,11 @@ export interface ReaderClientOptions {
 /**
  * ReaderClient manages the HeroCore lifecycle and provides
  * scrape/crawl methods with automatic initialization.
+ *
+ * Progress events of every scrape and crawl are re-emitted on the client,
+ * in addition to the call's own onEvent.
  */
-export class ReaderClient {
+export class ReaderClient extends ReaderEventEmitter {
   private heroCore: HeroCore | null = null;
   private pool: HeroBrowserPool | null = null;
   private initialized = false;
@@ -72,6 +86,7 @@ export class ReaderClient {
   private cleanupHandler: (() => Promise<void>) | null = null;
 
   constructor(options: ReaderClientOptions = {}) {
+    super();
     this.options = options;
 
     // Configure TLS verification
@@ -140,6 +155,7 @@ export class ReaderClient {
       }
 
       this.heroCore = new HeroCore();
+      this.heroCore.use(PdfCorePlugin);
       await this.heroCore.start();
 
       if (this.options.verbose) {
@@ -262,6 +278,42 @@ export class ReaderClient {
       showChrome: options.showChrome ?? this.options.showChrome,
       verbose: options.verbose ?? this.options.verbose,
       pool: this.pool,
+      onEvent: this.forwardEvents(options.onEvent),
+    });
+  }
+
+  /**
+   * Scrape one or more URLs, yielding each result as soon as it finishes
+   *
+   * @param options - Scrape options (urls, formats, etc.)
+   * @returns Async iterator of per-URL results (success or failure record)
+   *
+   * @example
+   * for await (const item of reader.scrapeStream({ urls, batchConcurrency: 5 })) {
+   *   if (item.status === "success") {
+   *     await vectorStore.add(item.result.markdown);
+   *   }
+   * }
+   */
+  async *scrapeStream(
+    options: Omit<ScrapeOptions, "connectionToCore" | "pool">
+  ): AsyncGenerator<ScrapeStreamItem, void, undefined> {
+    await this.ensureInitialized();
+
+    if (!this.pool) {
+      throw new Error("Browser pool not initialized. This should not happen.");
+    }
+
+    // Use proxy rotation if proxies are configured and no specific proxy is provided
+    const proxy = options.proxy ?? this.getNextProxy();
+
+    yield* scrapeStream({
+      ...options,
+      proxy,
+      showChrome: options.showChrome ?? this.options.showChrome,
+      verbose: options.verbose ?? this.options.verbose,
+      pool: this.pool,
+      onEvent: this.forwardEvents(options.onEvent),
     });
   }
 
@@ -293,9 +345,20 @@ export class ReaderClient {
       ...options,
       proxy,
       pool: this.pool,
+      onEvent: this.forwardEvents(options.onEvent),
     });
   }
 
+  /**
+   * Event handler for one call: emits on the client, then calls the call's own onEvent
+   */
+  private forwardEvents(onEvent?: ReaderEventHandler): ReaderEventHandler {
+    return (event: ReaderEvent) => {
+      this.dispatch(event);
+      onEvent?.(event);
+    };
+  }
+
   /**
    * Check if the client is initialized and ready
    */
@@ -1,5 +1,19 @@
-import type { ScrapeResult, ProxyConfig } from "./types";
+import type {
+  ScrapeResult,
+  ProxyConfig,
+  OutputFormat,
+  CaptureOptions,
+  ChangeStatus,
+  ChangeTrackingOptions,
+} from "./types";
 import type { IBrowserPool } from "./browser/types";
+import type { ChunkingOptions } from "./utils/markdown-chunker";
+import type { CanonicalizationPolicy } from "./utils/canonical-url";
+import type { Engine, EngineName } from "./engines/types.js";
+import type { CrawlStrategy } from "./crawl/frontier.js";
+import type { CrawlScopeOptions, SkippedUrl } from "./crawl/scope.js";
+import type { SiteGraph, SiteTreeNode } from "./crawl/site-graph.js";
+import type { ReaderEventHandler } from "./events";
 
 /**
  * Crawl options interface
@@ -17,9 +31,43 @@ export interface CrawlOptions {
   /** Also scrape full content (default: false) */
   scrape?: boolean;
 
-  /** Delay between requests in milliseconds (default: 1000) */
+  /**
+   * Delay between requests to the same host in milliseconds (default: 1000).
+   * A host's robots.txt Crawl-delay takes precedence for that host.
+   */
   delayMs?: number;
 
+  /** Pages fetched in parallel across all hosts (default: 4) */
+  concurrency?: number;
+
+  /** Pages fetched in parallel from any one host (default: 1) */
+  maxConcurrencyPerHost?: number;
+
+  /**
+   * Order in which discovered pages are visited (default: "bfs")
+   * - "bfs": breadth-first, shallowest pages first
+   * - "dfs": depth-first, most recently discovered pages first
+   * - "best-first": highest `scoreUrl` first
+   */
+  strategy?: CrawlStrategy;
+
+  /**
+   * Where pages to crawl come from (default: "links")
+   * - "links": the seed URL and the links found on crawled pages
+   * - "sitemap": the seed URL and the URLs listed in the site's sitemaps (links are not followed)
+   * - "both": sitemap URLs are queued up front and links are followed as well
+   *
+   * Sitemap URLs are queued highest priority first, then most recently modified, and go
+   * through the same include/exclude patterns, robots.txt rules and maxPages limit as links.
+   */
+  seedStrategy?: "links" | "sitemap" | "both";
+
+  /**
+   * Score a discovered link for the "best-first" strategy (higher is visited sooner).
+   * Defaults to preferring shallow pages with short paths.
+   */
+  scoreUrl?: (link: CrawlLinkCandidate) => number;
+
   /** Respect robots.txt rules (default: true). Set to false to ignore robots.txt. */
   respectRobots?: boolean;
 
@@ -35,16 +83,73 @@ export interface CrawlOptions {
   /** URL patterns to exclude (regex strings) - matching URLs are skipped */
   excludePatterns?: string[];
 
+  /**
+   * Which URLs belong to the crawl: hosts (exact host, registrable domain, path prefix,
+   * allowlisted hosts), page budgets per path prefix, query-string variants per path and
+   * the non-content page filter. Defaults to the seed's domain and its subdomains.
+   */
+  scope?: CrawlScopeOptions;
+
+  /**
+   * How URLs are deduplicated: which query parameters make a different page, tracking
+   * parameters, path case, and whether to trust rel=canonical and group hreflang
+   * alternates. Also keys the changeTracking records. Defaults to ignoring query
+   * strings and case.
+   */
+  canonicalization?: CanonicalizationPolicy;
+
+  /**
+   * Checkpoint the crawl under this id so it can be resumed. Re-running with the
+   * same id continues from the last checkpoint instead of starting over. The id
+   * names the log file, so it may only contain letters, digits, ".", "_" and "-".
+   */
+  crawlId?: string;
+
+  /** Directory for crawl checkpoints (default: ~/.ultra-reader/crawls) */
+  stateDir?: string;
+
+  /**
+   * Compare each page with an earlier crawl. Pages recorded before are revalidated
+   * with conditional requests; a 304 reuses the recorded title, description and links.
+   * Each page gets a `change` status and recorded pages answering 404/410 are listed
+   * in `removed`.
+   */
+  changeTracking?: ChangeTrackingOptions;
+
+  /**
+   * Cancel the crawl. The in-flight fetch is cancelled, no further pages are visited,
+   * and pages discovered (and scraped) so far are returned with metadata.status "aborted".
+   */
+  abortSignal?: AbortSignal;
+
+  /**
+   * Receives every progress event: URLs queued and skipped (with the reason), pages
+   * fetched, engine attempts and fallbacks, challenges and the final summary.
+   * Crawler also offers on()/off() for individual events.
+   */
+  onEvent?: ReaderEventHandler;
+
   // ============================================================================
   // Scrape options (used when scrape: true)
   // ============================================================================
 
   /** Output formats for scraped content (default: ['markdown']) */
-  formats?: Array<"markdown" | "html">;
-
-  /** Number of URLs to scrape in parallel (default: 2) */
+  formats?: OutputFormat[];
+
+  /**
+   * Number of URLs to scrape in parallel (default: 2)
+   *
+   * @deprecated Pages are scraped from the HTML fetched while crawling, so there is no
+   * separate scrape pass to parallelize. Ignored.
+   */
   scrapeConcurrency?: number;
 
+  /** Chunk size, unit and overlap when formats include "chunks" */
+  chunkingOptions?: ChunkingOptions;
+
+  /** Screenshot/PDF settings when formats include "screenshot" or "pdf" */
+  captureOptions?: CaptureOptions;
+
   // ============================================================================
   // Content cleaning options
   // ============================================================================
@@ -55,6 +160,25 @@ export interface CrawlOptions {
   /** Remove base64-encoded images to reduce output size (default: true) */
   removeBase64Images?: boolean;
 
+  // ============================================================================
+  // Engine options
+  // ============================================================================
+
+  /**
+   * Engines to use in order, by name or as engine instances (default: the registered
+   * engines by quality: ['http', 'tlsclient', 'hero'] plus any registerEngine() ones)
+   */
+  engines?: Array<EngineName | Engine>;
+
+  /** Skip specific engines (e.g., ['hero'] for a static site) */
+  skipEngines?: EngineName[];
+
+  /** Force a specific engine, skipping the cascade */
+  forceEngine?: EngineName;
+
+  /** Start the next engine when the running one is slow to answer (default: false) */
+  parallelRacing?: boolean;
+
   // ============================================================================
   // Hero-specific options
   // ============================================================================
@@ -78,6 +202,26 @@ export interface CrawlOptions {
   pool?: IBrowserPool;
 }
 
+/**
+ * A link discovered while crawling, as passed to `scoreUrl`
+ */
+export interface CrawlLinkCandidate {
+  /** Resolved URL of the link */
+  url: string;
+
+  /** Depth the linked page would be crawled at */
+  depth: number;
+
+  /** Final URL of the page the link was found on */
+  parentUrl: string;
+
+  /** Visible text of the anchor ("" for sitemap URLs) */
+  anchorText: string;
+
+  /** Sitemap entry details when the URL came from a sitemap */
+  sitemap?: { priority?: number; lastmod?: string };
+}
+
 /**
  * Crawl URL result interface
  */
@@ -90,6 +234,12 @@ export interface CrawlUrl {
 
   /** Page description or null if not found */
   description: string | null;
+
+  /** Comparison with the previous crawl (when changeTracking is set) */
+  change?: ChangeStatus;
+
+  /** Language versions of the page (when canonicalization.groupHreflang is set) */
+  alternates?: Array<{ hreflang: string; url: string }>;
 }
 
 /**
@@ -102,6 +252,18 @@ export interface CrawlResult {
   /** Full scrape results (only when scrape: true) */
   scraped?: ScrapeResult;
 
+  /** URLs found but not queued, with the reason (each URL once; duplicates not listed) */
+  skipped: SkippedUrl[];
+
+  /** Links between the crawled pages, with each page's depth, parent and degrees */
+  graph: SiteGraph;
+
+  /** Crawled pages arranged by host and URL path (one root per host) */
+  tree: SiteTreeNode[];
+
+  /** Previously recorded URLs that now answer 404 or 410 (when changeTracking is set) */
+  removed?: string[];
+
   /** Crawl operation metadata */
   metadata: CrawlMetadata;
 }
@@ -121,4 +283,16 @@ export interface CrawlMetadata {
 
   /** Seed URL that started the crawl */
   seedUrl: string;
+
+  /** Checkpoint id when crawlId was set */
+  crawlId?: string;
+
+  /** True when the crawl continued from an earlier checkpoint */
+  resumed?: boolean;
+
+  /** Why checkpoint writes failed, when they did (the crawl finished, but can't be fully resumed) */
+  checkpointError?: string;
+
+  /** "aborted" when the crawl was cancelled via abortSignal (urls holds partial results) */
+  status?: "completed" | "aborted";
 }
@@ -0,0 +1,248 @@
+/**
+ * Crawl checkpoints
+ *
+ * Persists a crawl's progress as an append-only JSONL log so an interrupted
+ * crawl can be resumed with the same crawlId. Each line is one event:
+ * - "crawl": header with the seed URL
+ * - "queued": a URL added to the frontier
+ * - "seen": a key marked seen without being queued (redirect targets)
+ * - "done": a frontier entry finished, with the page found, its links and its scrape result
+ *
+ * Replaying the log rebuilds the discovered pages, scrape results and the
+ * frontier (queued entries without a "done" line, in their original order).
+ * A line cut short by a crash is ignored.
+ */
+
+import { access, appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { CrawlUrl } from "../crawl-types";
+import { ValidationError } from "../errors";
+import type { WebsiteScrapeResult } from "../types";
+import type { FrontierEntry } from "./frontier.js";
+import type { PageLinks } from "./site-graph.js";
+
+/**
+ * A page finished by the crawl, as recorded in a "done" line
+ */
+export interface CheckpointPage {
+  /** Discovered page (absent if the fetch failed or robots.txt blocked it) */
+  crawlUrl?: CrawlUrl;
+  /** Scrape result when scrape: true */
+  scraped?: WebsiteScrapeResult;
+  /** Scrape error when scrape: true and conversion failed */
+  scrapeError?: string;
+  /** The page's depth, parent and links, for the site graph */
+  graph?: PageLinks;
+}
+
+type CheckpointRecord =
+  | { type: "crawl"; crawlId: string; seedUrl: string; createdAt: string }
+  | {
+      type: "queued";
+      url: string;
+      key: string;
+      depth: number;
+      score: number;
+      parentUrl?: string;
+    }
+  | { type: "seen"; key: string }
+  | ({ type: "done"; key: string } & CheckpointPage);
+
+/**
+ * Crawl state rebuilt from a checkpoint log
+ */
+export interface CrawlState {
+  seedUrl: string;
+  /** Discovered pages in the order they were found */
+  urls: CrawlUrl[];
+  scrapedPages: WebsiteScrapeResult[];
+  scrapeErrors: Array<{ url: string; error: string }>;
+  /** Depth, parent and links of the discovered pages */
+  pageLinks: Array<PageLinks & { url: string }>;
+  /** Entries still waiting to be crawled, in the order they were queued */
+  pending: Array<Omit<FrontierEntry, "seq">>;
+  /** Keys queued, crawled or marked seen, excluding pending ones */
+  seen: string[];
+}
+
+/**
+ * Default directory for crawl state (~/.ultra-reader/crawls)
+ */
+export function defaultCrawlStateDir(): string {
+  return join(homedir(), ".ultra-reader", "crawls");
+}
+
+/** Crawl ids are used as file names as they are, so two ids never share a log */
+const CRAWL_ID_PATTERN = /^[a-z0-9._-]+$/i;
+
+/**
+ * Append-only checkpoint log for one crawl
+ *
+ * @example
+ * const checkpoint = new CrawlCheckpoint("docs-nightly");
+ * const state = await checkpoint.load(); // null for a new crawl
+ * checkpoint.start(seedUrl);
+ * checkpoint.queued(entry);
+ * checkpoint.done(entry.key, { crawlUrl });
+ * await checkpoint.flush();
+ */
+export class CrawlCheckpoint {
+  readonly crawlId: string;
+  readonly file: string;
+  private readonly dir: string;
+  private buffer: string[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private error: Error | null = null;
+
+  /**
+   * @throws ValidationError when the id has characters other than letters, digits, ".", "_" and "-"
+   */
+  constructor(crawlId: string, stateDir?: string) {
+    if (!CRAWL_ID_PATTERN.test(crawlId)) {
+      throw new ValidationError(
+        `Crawl id "${crawlId}" may only contain letters, digits, ".", "_" and "-"`,
+        { field: "crawlId" }
+      );
+    }
+    this.crawlId = crawlId;
+    this.dir = stateDir ?? defaultCrawlStateDir();
+    this.file = join(this.dir, `${crawlId}.jsonl`);
+  }
+
+  /**
+   * Whether anything was checkpointed under this crawlId
+   */
+  async exists(): Promise<boolean> {
+    try {
+      await access(this.file);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild the crawl's state from its log
+   *
+   * @returns null if nothing was checkpointed under this crawlId yet
+   * @throws when the log exists but can't be read (it is never restarted over)
+   */
+  async load(): Promise<CrawlState | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.file, "utf-8");
+    } catch (error) {
+      // No log (ENOTDIR: a file stands where the state directory would be)
+      const { code } = error as NodeJS.ErrnoException;
+      if (code === "ENOENT" || code === "ENOTDIR") return null;
+      throw error;
+    }
+
+    let seedUrl: string | null = null;
+    const queued = new Map<string, Omit<FrontierEntry, "seq">>();
+    const seen = new Set<string>();
+    const state: Omit<CrawlState, "seedUrl" | "pending" | "seen"> = {
+      urls: [],
+      scrapedPages: [],
+      scrapeErrors: [],
+      pageLinks: [],
+    };
+
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      let record: CheckpointRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      switch (record.type) {
+        case "crawl":
+          seedUrl = record.seedUrl;
+          break;
+        case "queued":
+          queued.set(record.key, {
+            url: record.url,
+            key: record.key,
+            depth: record.depth,
+            score: record.score,
+            ...(record.parentUrl && { parentUrl: record.parentUrl }),
+          });
+          break;
+        case "seen":
+          seen.add(record.key);
+          break;
+        case "done":
+          queued.delete(record.key);
+          seen.add(record.key);
+          if (record.crawlUrl) state.urls.push(record.crawlUrl);
+          if (record.crawlUrl && record.graph) {
+            state.pageLinks.push({ url: record.crawlUrl.url, ...record.graph });
+          }
+          if (record.scraped) state.scrapedPages.push(record.scraped);
+          if (record.scrapeError && record.crawlUrl) {
+            state.scrapeErrors.push({ url: record.crawlUrl.url, error: record.scrapeError });
+          }
+          break;
+      }
+    }
+
+    if (seedUrl === null) return null;
+    return { seedUrl, ...state, pending: [...queued.values()], seen: [...seen] };
+  }
+
+  /** Record the start of a new crawl */
+  start(seedUrl: string): void {
+    this.append({
+      type: "crawl",
+      crawlId: this.crawlId,
+      seedUrl,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /** Record a URL added to the frontier */
+  queued(entry: Omit<FrontierEntry, "seq">): void {
+    const { url, key, depth, score, parentUrl } = entry;
+    this.append({ type: "queued", url, key, depth, score, parentUrl });
+  }
+
+  /** Record a key marked seen without being queued */
+  seen(key: string): void {
+    this.append({ type: "seen", key });
+  }
+
+  /** Record a finished frontier entry */
+  done(key: string, page: CheckpointPage = {}): void {
+    this.append({ type: "done", key, ...page });
+  }
+
+  /**
+   * Write buffered records to disk
+   *
+   * @throws the first write error, if any write failed
+   */
+  async flush(): Promise<void> {
+    if (this.buffer.length > 0) {
+      const lines = this.buffer.join("");
+      this.buffer = [];
+      this.writing = this.writing.then(async () => {
+        try {
+          await mkdir(this.dir, { recursive: true });
+          await appendFile(this.file, lines, "utf-8");
+        } catch (error: unknown) {
+          if (!this.error) this.error = error instanceof Error ? error : new Error(String(error));
+        }
+      });
+    }
+    await this.writing;
+    if (this.error) throw this.error;
+  }
+
+  private append(record: CheckpointRecord): void {
+    this.buffer.push(JSON.stringify(record) + "\n");
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Crawl frontier
+ *
+ * Holds the URLs waiting to be crawled, one priority queue per host, and
+ * decides which URL may be fetched next:
+ * - Traversal order: BFS (oldest first), DFS (newest first) or best-first
+ *   (highest score first, ties oldest first)
+ * - Per-host politeness: at most `maxPerHost` fetches in flight per host, and
+ *   each host waits its own delay after a fetch completes before the next starts
+ * - O(1) "already seen" checks across everything queued, in flight or done
+ */
+
+/**
+ * Order in which queued URLs are crawled
+ */
+export type CrawlStrategy = "bfs" | "dfs" | "best-first";
+
+/**
+ * A URL waiting in (or taken from) the frontier
+ */
+export interface FrontierEntry {
+  url: string;
+  /** Dedupe key (normalized URL) */
+  key: string;
+  depth: number;
+  /** Priority for best-first traversal (higher first) */
+  score: number;
+  /** Page the URL was found on (absent for the seed and sitemap URLs) */
+  parentUrl?: string;
+  /** Insertion order, used for BFS/DFS and to break ties */
+  seq: number;
+}
+
+/**
+ * Frontier options
+ */
+export interface FrontierOptions {
+  /** Traversal order (default: "bfs") */
+  strategy?: CrawlStrategy;
+  /** Fetches allowed in flight per host (default: 1) */
+  maxPerHost?: number;
+  /** Delay before a host's next fetch, after one completes (ms, default: 0) */
+  hostDelayMs?: (host: string) => number;
+  /** Inject time source (testing). Defaults to Date.now */
+  now?: () => number;
+}
+
+interface HostState {
+  queue: FrontierEntry[];
+  active: number;
+  /** Earliest time the next fetch may start */
+  readyAt: number;
+}
+
+/**
+ * Host a URL is queued under ("" if it cannot be parsed)
+ */
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Crawl frontier with per-host queues and politeness
+ *
+ * @example
+ * const frontier = new CrawlFrontier({ strategy: "bfs", hostDelayMs: () => 1000 });
+ * frontier.add("https://example.com/", key, 0);
+ * const entry = frontier.next();
+ * // ... fetch entry.url ...
+ * frontier.complete(entry);
+ */
+export class CrawlFrontier {
+  private readonly strategy: CrawlStrategy;
+  private readonly maxPerHost: number;
+  private readonly hostDelayMs: (host: string) => number;
+  private readonly now: () => number;
+  private readonly hosts = new Map<string, HostState>();
+  private readonly seen = new Set<string>();
+  private seq = 0;
+  private queued = 0;
+
+  constructor(options: FrontierOptions = {}) {
+    this.strategy = options.strategy ?? "bfs";
+    this.maxPerHost = Math.max(1, options.maxPerHost ?? 1);
+    this.hostDelayMs = options.hostDelayMs ?? (() => 0);
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  /**
+   * Whether a key has been queued before (whether or not it was crawled since)
+   */
+  has(key: string): boolean {
+    return this.seen.has(key);
+  }
+
+  /**
+   * Mark a key as seen without queueing it (e.g. a redirect target already crawled)
+   */
+  markSeen(key: string): void {
+    this.seen.add(key);
+  }
+
+  /**
+   * Queue a URL unless its key was seen before
+   *
+   * @returns false if the key was already seen
+   */
+  add(url: string, key: string, depth: number, score = 0, parentUrl?: string): boolean {
+    if (this.seen.has(key)) return false;
+    this.seen.add(key);
+
+    const host = hostOf(url);
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { queue: [], active: 0, readyAt: 0 };
+      this.hosts.set(host, state);
+    }
+    this.push(state.queue, {
+      url,
+      key,
+      depth,
+      score,
+      ...(parentUrl && { parentUrl }),
+      seq: this.seq++,
+    });
+    this.queued++;
+    return true;
+  }
+
+  /**
+   * Take the highest-priority URL whose host may be fetched now
+   *
+   * @returns null if nothing is ready (see nextReadyAt)
+   */
+  next(): FrontierEntry | null {
+    const now = this.now();
+    let best: HostState | null = null;
+
+    for (const state of this.hosts.values()) {
+      if (state.queue.length === 0 || state.active >= this.maxPerHost || state.readyAt > now) {
+        continue;
+      }
+      if (!best || this.before(state.queue[0], best.queue[0])) best = state;
+    }
+    if (!best) return null;
+
+    best.active++;
+    this.queued--;
+    return this.pop(best.queue);
+  }
+
+  /**
+   * Release the host slot of a finished fetch and start its politeness delay
+   */
+  complete(entry: FrontierEntry): void {
+    const host = hostOf(entry.url);
+    const state = this.hosts.get(host);
+    if (!state) return;
+    state.active = Math.max(0, state.active - 1);
+    state.readyAt = Math.max(state.readyAt, this.now() + this.hostDelayMs(host));
+  }
+
+  /**
+   * Earliest time a queued URL becomes fetchable, ignoring hosts whose slots are
+   * all in use (their completion frees them). Null when nothing is queued.
+   */
+  nextReadyAt(): number | null {
+    let earliest: number | null = null;
+    for (const state of this.hosts.values()) {
+      if (state.queue.length === 0 || state.active >= this.maxPerHost) continue;
+      if (earliest === null || state.readyAt < earliest) earliest = state.readyAt;
+    }
+    return earliest;
+  }
+
+  /**
+   * Number of URLs waiting to be crawled
+   */
+  get size(): number {
+    return this.queued;
+  }
+
+  /**
+   * Queued entries in crawl order (for inspection and checkpointing)
+   */
+  entries(): FrontierEntry[] {
+    const all: FrontierEntry[] = [];
+    for (const state of this.hosts.values()) all.push(...state.queue);
+    return all.sort((a, b) => (this.before(a, b) ? -1 : 1));
+  }
+
+  // ==========================================================================
+  // Priority queue (binary heap ordered by `before`)
+  // ==========================================================================
+
+  /** Whether `a` should be crawled before `b` */
+  private before(a: FrontierEntry, b: FrontierEntry): boolean {
+    switch (this.strategy) {
+      case "dfs":
+        return a.seq > b.seq;
+      case "best-first":
+        return a.score !== b.score ? a.score > b.score : a.seq < b.seq;
+      default:
+        return a.seq < b.seq;
+    }
+  }
+
+  private push(heap: FrontierEntry[], entry: FrontierEntry): void {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(heap[i], heap[parent])) break;
+      [heap[i], heap[parent]] = [heap[parent], heap[i]];
+      i = parent;
+    }
+  }
+
+  private pop(heap: FrontierEntry[]): FrontierEntry {
+    const top = heap[0];
+    const last = heap.pop();
+    if (last && heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let first = i;
+        if (left < heap.length && this.before(heap[left], heap[first])) first = left;
+        if (right < heap.length && this.before(heap[right], heap[first])) first = right;
+        if (first === i) break;
+        [heap[i], heap[first]] = [heap[first], heap[i]];
+        i = first;
+      }
+    }
+    return top;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Crawl graph exporters
+ *
+ * Serializes a crawl's link graph and site tree:
+ * - "json": `{ graph, tree }`
+ * - "graphml": GraphML for Gephi, yEd, NetworkX, ...
+ * - "dot": Graphviz
+ * - "llms-txt": an llms.txt-style markdown index of the pages, sectioned by the
+ *   site tree (https://llmstxt.org)
+ */
+
+import type { CrawlResult } from "../crawl-types";
+import type { SiteGraph, SiteTreeNode } from "./site-graph.js";
+
+/**
+ * Export formats of exportCrawlGraph
+ */
+export type CrawlGraphFormat = "json" | "graphml" | "dot" | "llms-txt";
+
+export const CRAWL_GRAPH_FORMATS: CrawlGraphFormat[] = ["json", "graphml", "dot", "llms-txt"];
+
+/**
+ * Serialize a crawl's graph and tree in one of the export formats
+ *
+ * @example
+ * const result = await reader.crawl({ url: "https://example.com/docs", depth: 3 });
+ * await writeFile("llms.txt", exportCrawlGraph(result, "llms-txt"));
+ */
+export function exportCrawlGraph(result: CrawlResult, format: CrawlGraphFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify({ graph: result.graph, tree: result.tree }, null, 2);
+    case "graphml":
+      return toGraphML(result.graph);
+    case "dot":
+      return toDot(result.graph);
+    case "llms-txt":
+      return toLlmsTxt(result);
+    default:
+      throw new Error(
+        `Unknown graph format "${format}" (expected ${CRAWL_GRAPH_FORMATS.join(", ")})`
+      );
+  }
+}
+
+/**
+ * GraphML document of the link graph: url, title, depth and degrees on nodes,
+ * anchor text on edges
+ */
+export function toGraphML(graph: SiteGraph): string {
+  const ids = new Map(graph.nodes.map((node, index) => [node.url, `n${index}`]));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="url" for="node" attr.name="url" attr.type="string"/>',
+    '  <key id="title" for="node" attr.name="title" attr.type="string"/>',
+    '  <key id="depth" for="node" attr.name="depth" attr.type="int"/>',
+    '  <key id="parentUrl" for="node" attr.name="parentUrl" attr.type="string"/>',
+    '  <key id="inDegree" for="node" attr.name="inDegree" attr.type="int"/>',
+    '  <key id="outDegree" for="node" attr.name="outDegree" attr.type="int"/>',
+    '  <key id="anchorText" for="edge" attr.name="anchorText" attr.type="string"/>',
+    '  <graph id="crawl" edgedefault="directed">',
+  ];
+
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${ids.get(node.url)}">`);
+    lines.push(`      <data key="url">${escapeXml(node.url)}</data>`);
+    lines.push(`      <data key="title">${escapeXml(node.title)}</data>`);
+    lines.push(`      <data key="depth">${node.depth}</data>`);
+    if (node.parentUrl) {
+      lines.push(`      <data key="parentUrl">${escapeXml(node.parentUrl)}</data>`);
+    }
+    lines.push(`      <data key="inDegree">${node.inDegree}</data>`);
+    lines.push(`      <data key="outDegree">${node.outDegree}</data>`);
+    lines.push("    </node>");
+  }
+  graph.edges.forEach((edge, index) => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    lines.push(`    <edge id="e${index}" source="${source}" target="${target}">`);
+    lines.push(`      <data key="anchorText">${escapeXml(edge.anchorText)}</data>`);
+    lines.push("    </edge>");
+  });
+
+  lines.push("  </graph>", "</graphml>");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Graphviz DOT digraph of the link graph, nodes labelled with page titles and edges
+ * with anchor text
+ */
+export function toDot(graph: SiteGraph): string {
+  const lines = ["digraph crawl {", "  node [shape=box];"];
+  for (const node of graph.nodes) {
+    lines.push(`  ${quoteDot(node.url)} [label=${quoteDot(node.title)}];`);
+  }
+  for (const edge of graph.edges) {
+    const label = edge.anchorText ? ` [label=${quoteDot(edge.anchorText)}]` : "";
+    lines.push(`  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)}${label};`);
+  }
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * llms.txt-style index: the seed page's title and description, then one section per
+ * top-level path (or per other host) listing its pages in tree order. Top-level pages
+ * with nothing below them are listed under "Pages".
+ */
+export function toLlmsTxt(result: CrawlResult): string {
+  const descriptions = new Map(result.urls.map((page) => [page.url, page.description]));
+  const seed = result.urls.find((page) => page.url === result.metadata.seedUrl);
+  const seedHost = hostOf(result.metadata.seedUrl);
+
+  const lines = [`# ${seed && seed.title !== "Untitled" ? seed.title : seedHost}`, ""];
+  const summary = seed ? descriptions.get(seed.url) : null;
+  if (summary) lines.push(`> ${summary.replace(/\s+/g, " ").trim()}`, "");
+
+  const entry = (url: string, node: SiteTreeNode) => {
+    const title = node.title && node.title !== "Untitled" ? node.title : node.path;
+    const description = descriptions.get(url)?.replace(/\s+/g, " ").trim();
+    return `- [${escapeMarkdownLink(title)}](${url})${description ? `: ${description}` : ""}`;
+  };
+  const section = (heading: string, nodes: SiteTreeNode[]) => {
+    const entries = nodes
+      .flatMap(flatten)
+      .flatMap((node) => (node.url && node.url !== seed?.url ? [entry(node.url, node)] : []));
+    if (entries.length > 0) lines.push(`## ${heading}`, "", ...entries, "");
+  };
+
+  for (const root of result.tree) {
+    if (root.name !== seedHost) {
+      section(root.name, [root]);
+      continue;
+    }
+    const pages = root.children.filter((child) => child.children.length === 0);
+    section("Pages", [{ ...root, children: [] }, ...pages]);
+    for (const child of root.children) {
+      if (child.children.length > 0) section(headingOf(child.name), [child]);
+    }
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+/** A tree node followed by its descendants, depth-first */
+function flatten(node: SiteTreeNode): SiteTreeNode[] {
+  return [node, ...node.children.flatMap(flatten)];
+}
+
+/** "getting-started" → "Getting started" */
+function headingOf(segment: string): string {
+  const words = segment.replace(/[-_]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n")}"`;
+}
+
+function escapeMarkdownLink(value: string): string {
+  return value.replace(/([[\]\\])/g, "\\$1");
+}
@@ -0,0 +1,207 @@
+/**
+ * Crawl scope
+ *
+ * Decides which discovered URLs belong to a crawl:
+ * - Hosts: the seed's exact host, its registrable domain (subdomains included),
+ *   or only URLs under the seed's path, plus an allowlist of other hosts
+ * - Budgets: at most N pages under a path prefix, and at most N query-string
+ *   variants of one path
+ * - Non-content pages (legal, policy, utility) via the isContentUrl heuristic,
+ *   which can be turned off or extended
+ */
+
+import { isContentUrl, isSameDomain, matchesPatterns } from "../utils/url-helpers";
+import { UrlCanonicalizer, type CanonicalizationPolicy } from "../utils/canonical-url";
+import type { UrlSkipReason } from "../events";
+
+/**
+ * Which hosts a crawl stays on
+ * - "exact-host": the seed's host only (www. and non-www count as the same host)
+ * - "registrable-domain": the seed's domain and all its subdomains
+ * - "path-prefix": the seed's host, under the seed's path (or `pathPrefix`)
+ */
+export type CrawlScopeMode = "exact-host" | "registrable-domain" | "path-prefix";
+
+/**
+ * Scope options
+ */
+export interface CrawlScopeOptions {
+  /** Which hosts the crawl stays on (default: "registrable-domain") */
+  mode?: CrawlScopeMode;
+
+  /** Path the "path-prefix" mode stays under (default: the seed URL's path) */
+  pathPrefix?: string;
+
+  /**
+   * Other hosts to crawl as well, whatever the mode. "docs.example.org" matches that
+   * host only; "*.example.org" matches example.org and all its subdomains.
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Maximum pages per path prefix, e.g. `{ "/blog/": 50, "/tags/": 5 }`. A URL
+   * counts against the longest prefix it matches.
+   */
+  pathBudgets?: Record<string, number>;
+
+  /**
+   * Crawl up to this many URLs per path that differ only in their query string.
+   * Unset, query strings are ignored and `/list?page=2` is a duplicate of `/list`.
+   * Set, query strings count (minus tracking parameters) unless the canonicalization
+   * policy says which parameters to keep.
+   */
+  maxQueryVariants?: number;
+
+  /** Skip legal, policy and utility pages (login, cart, feeds, ...) (default: true) */
+  skipNonContent?: boolean;
+
+  /** More URL patterns (regex strings) to skip as non-content pages */
+  nonContentPatterns?: string[];
+}
+
+/**
+ * A URL the crawl did not queue, and why
+ */
+export interface SkippedUrl {
+  url: string;
+  reason: UrlSkipReason;
+  /** Page the link was found on */
+  parentUrl?: string;
+}
+
+/**
+ * Scope of one crawl, with the page counts its budgets need
+ */
+export class CrawlScope {
+  /** Dedupe keys of the crawl */
+  readonly canonicalizer: UrlCanonicalizer;
+  private seedHost: string;
+  private pathPrefix: string;
+  /** Pages queued per pathBudgets prefix */
+  private budgetCounts: Map<string, number> = new Map();
+  /** Query-string variants queued per path */
+  private queryVariants: Map<string, Set<string>> = new Map();
+
+  constructor(
+    private seedUrl: string,
+    private options: CrawlScopeOptions = {},
+    policy: CanonicalizationPolicy = {}
+  ) {
+    const keepParams =
+      policy.keepParams ?? (options.maxQueryVariants === undefined ? "none" : "all");
+    this.canonicalizer = new UrlCanonicalizer({ ...policy, keepParams });
+    const seed = new URL(seedUrl);
+    this.seedHost = stripWww(seed.hostname.toLowerCase());
+    this.pathPrefix = (options.pathPrefix ?? seed.pathname).replace(/\/+$/, "");
+  }
+
+  /**
+   * Dedupe key of a URL under the crawl's canonicalization policy
+   */
+  keyOf(url: string): string {
+    return this.canonicalizer.key(url);
+  }
+
+  /**
+   * Why a URL is outside the scope (null if it is in)
+   */
+  check(url: string): UrlSkipReason | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return "external";
+    }
+
+    if (!this.isAllowedHost(parsed.hostname)) {
+      if (!this.inModeHosts(url, parsed.hostname)) return "external";
+      if (this.options.mode === "path-prefix" && !this.underPathPrefix(parsed.pathname)) {
+        return "out-of-scope";
+      }
+    }
+
+    if (this.options.skipNonContent !== false && !isContentUrl(url)) return "non-content";
+    if (matchesPatterns(url, this.options.nonContentPatterns ?? [])) return "non-content";
+    return null;
+  }
+
+  /**
+   * Count a URL about to be queued against the budgets. Returns why it can't be
+   * queued instead when a budget is used up.
+   */
+  admit(url: string): UrlSkipReason | null {
+    const budget = this.budgetOf(url);
+    if (budget && (this.budgetCounts.get(budget.prefix) ?? 0) >= budget.pages) return "budget";
+
+    const { maxQueryVariants } = this.options;
+    if (maxQueryVariants !== undefined) {
+      const path = this.canonicalizer.pathKey(url);
+      const variants = this.queryVariants.get(path) ?? new Set<string>();
+      const key = this.keyOf(url);
+      if (!variants.has(key) && variants.size >= maxQueryVariants) return "query-variants";
+      variants.add(key);
+      this.queryVariants.set(path, variants);
+    }
+
+    if (budget) {
+      this.budgetCounts.set(budget.prefix, (this.budgetCounts.get(budget.prefix) ?? 0) + 1);
+    }
+    return null;
+  }
+
+  /**
+   * Whether a host is on the allowedHosts list
+   */
+  private isAllowedHost(hostname: string): boolean {
+    const host = stripWww(hostname.toLowerCase());
+    return (this.options.allowedHosts ?? []).some((pattern) => {
+      const allowed = stripWww(pattern.toLowerCase());
+      if (allowed.startsWith("*.")) {
+        const domain = allowed.slice(2);
+        return host === domain || host.endsWith(`.${domain}`);
+      }
+      return host === allowed;
+    });
+  }
+
+  /**
+   * Whether a URL's host is one the scope mode covers
+   */
+  private inModeHosts(url: string, hostname: string): boolean {
+    if (this.options.mode === "exact-host" || this.options.mode === "path-prefix") {
+      return stripWww(hostname.toLowerCase()) === this.seedHost;
+    }
+    return isSameDomain(url, this.seedUrl);
+  }
+
+  /**
+   * Whether a path is the scope's path prefix or below it
+   */
+  private underPathPrefix(pathname: string): boolean {
+    if (!this.pathPrefix) return true;
+    return pathname === this.pathPrefix || pathname.startsWith(`${this.pathPrefix}/`);
+  }
+
+  /**
+   * Budget of the longest pathBudgets prefix a URL's path starts with (null if none)
+   */
+  private budgetOf(url: string): { prefix: string; pages: number } | null {
+    let pathname: string;
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      return null;
+    }
+    let match: { prefix: string; pages: number } | null = null;
+    for (const [prefix, pages] of Object.entries(this.options.pathBudgets ?? {})) {
+      if (pathname.startsWith(prefix) && (!match || prefix.length > match.prefix.length)) {
+        match = { prefix, pages };
+      }
+    }
+    return match;
+  }
+}
+
+function stripWww(hostname: string): string {
+  return hostname.startsWith("www.") ? hostname.slice(4) : hostname;
+}
@@ -0,0 +1,181 @@
+/**
+ * Site graph and tree
+ *
+ * Builds two views of a crawl from its pages:
+ * - The link graph: one node per crawled page (depth, parent, in/out degree) and one
+ *   edge per link between crawled pages, with its anchor text
+ * - The site tree: pages arranged by host and URL path segments
+ */
+
+import type { CrawlUrl } from "../crawl-types";
+
+/**
+ * Where a crawled page sits in the crawl and what it links to
+ */
+export interface PageLinks {
+  /** Crawl depth (0 for the seed and sitemap URLs) */
+  depth: number;
+  /** Page the URL was first found on */
+  parentUrl?: string;
+  /** In-scope links found on the page, first anchor per target */
+  links: Array<{ url: string; anchorText: string }>;
+}
+
+/**
+ * A crawled page in the link graph
+ */
+export interface SiteGraphNode {
+  url: string;
+  title: string;
+  depth: number;
+  /** Page the URL was first found on (absent for the seed and sitemap URLs) */
+  parentUrl?: string;
+  /** Crawled pages linking here */
+  inDegree: number;
+  /** Crawled pages linked from here */
+  outDegree: number;
+}
+
+/**
+ * A link from one crawled page to another
+ */
+export interface LinkEdge {
+  source: string;
+  target: string;
+  anchorText: string;
+}
+
+/**
+ * Link graph of a crawl
+ */
+export interface SiteGraph {
+  /** Crawled pages, in crawl order */
+  nodes: SiteGraphNode[];
+  edges: LinkEdge[];
+}
+
+/**
+ * A host or path segment of the site tree
+ */
+export interface SiteTreeNode {
+  /** Host (for roots) or path segment, with the query string for pages that have one */
+  name: string;
+  /** Path from the host root, e.g. "/docs/guide" */
+  path: string;
+  /** Crawled page at this path (absent for segments with pages only below them) */
+  url?: string;
+  title?: string;
+  children: SiteTreeNode[];
+}
+
+/**
+ * Collects each crawled page's position and links while a crawl runs
+ *
+ * @example
+ * const builder = new SiteGraphBuilder();
+ * builder.add(page.url, { depth: 1, parentUrl: seedUrl, links });
+ * const graph = builder.build(result.urls, (url) => scope.keyOf(url));
+ */
+export class SiteGraphBuilder {
+  private pages = new Map<string, PageLinks>();
+
+  /** Record a crawled page */
+  add(url: string, page: PageLinks): void {
+    this.pages.set(url, page);
+  }
+
+  /**
+   * Build the graph of the given pages. Links are matched to pages by dedupe key, so
+   * a link to `/docs/` reaches the page crawled as `/docs`; links to pages that were
+   * not crawled, and links from a page to itself, are left out.
+   *
+   * @param pages - Crawled pages, in crawl order
+   * @param keyOf - Dedupe key of a URL
+   */
+  build(pages: CrawlUrl[], keyOf: (url: string) => string): SiteGraph {
+    const nodes = pages.map((page): SiteGraphNode => {
+      const recorded = this.pages.get(page.url);
+      return {
+        url: page.url,
+        title: page.title,
+        depth: recorded?.depth ?? 0,
+        ...(recorded?.parentUrl && { parentUrl: recorded.parentUrl }),
+        inDegree: 0,
+        outDegree: 0,
+      };
+    });
+    const nodeByKey = new Map(nodes.map((node) => [keyOf(node.url), node]));
+
+    const edges: LinkEdge[] = [];
+    for (const source of nodes) {
+      const targets = new Set<string>();
+      for (const link of this.pages.get(source.url)?.links ?? []) {
+        const target = nodeByKey.get(keyOf(link.url));
+        if (!target || target === source || targets.has(target.url)) continue;
+        targets.add(target.url);
+        edges.push({ source: source.url, target: target.url, anchorText: link.anchorText });
+        source.outDegree++;
+        target.inDegree++;
+      }
+    }
+
+    return { nodes, edges };
+  }
+}
+
+/**
+ * Arrange pages by host and URL path, one root per host (in the order hosts were
+ * first crawled) with children sorted by name
+ */
+export function buildSiteTree(pages: Array<Pick<CrawlUrl, "url" | "title">>): SiteTreeNode[] {
+  const roots = new Map<string, SiteTreeNode>();
+
+  for (const page of pages) {
+    let parsed: URL;
+    try {
+      parsed = new URL(page.url);
+    } catch {
+      continue;
+    }
+
+    const root = roots.get(parsed.host) ?? { name: parsed.host, path: "/", children: [] };
+    roots.set(parsed.host, root);
+
+    const segments = parsed.pathname.split("/").filter(Boolean).map(decodeSegment);
+    if (parsed.search) {
+      if (segments.length === 0) segments.push("");
+      segments[segments.length - 1] += parsed.search;
+    }
+    let node = root;
+    for (const segment of segments) {
+      let child = node.children.find((candidate) => candidate.name === segment);
+      if (!child) {
+        child = { name: segment, path: `${node.path.replace(/\/$/, "")}/${segment}`, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    }
+
+    if (!node.url) {
+      node.url = page.url;
+      node.title = page.title;
+    }
+  }
+
+  const tree = [...roots.values()];
+  tree.forEach(sortChildren);
+  return tree;
+}
+
+function sortChildren(node: SiteTreeNode): void {
+  node.children.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  node.children.forEach(sortChildren);
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
@@ -1,33 +1,63 @@
-import Hero from "@ulixee/hero";
 import { parseHTML } from "linkedom";
 import type { IBrowserPool } from "./browser/types";
-import { detectChallenge } from "./cloudflare/detector";
-import { waitForChallengeResolution } from "./cloudflare/handler";
-import {
-  resolveUrl,
-  isValidUrl,
-  isSameDomain,
-  getUrlKey,
-  isContentUrl,
-  shouldIncludeUrl,
-} from "./utils/url-helpers";
+import { resolveUrl, isValidUrl, shouldIncludeUrl } from "./utils/url-helpers";
 import { isLikelyHoneypotLink } from "./utils/honeypot-detector";
 import { fetchRobotsTxt, isUrlAllowed, type RobotsRules } from "./utils/robots-parser";
-import { rateLimit } from "./utils/rate-limiter";
+import { jitteredDelay, sleep } from "./utils/rate-limiter";
+import { ChangeTracker, isGoneError, isGoneStatus, type PageRecord } from "./utils/change-tracker";
 import { createLogger } from "./utils/logger";
-import { scrape } from "./scraper";
-import type { CrawlOptions, CrawlResult, CrawlUrl, CrawlMetadata } from "./crawl-types";
-import type { ScrapeResult } from "./types";
+import { AbortedError, ValidationError } from "./errors";
+import { ReaderEventEmitter, type UrlSkipReason } from "./events";
+import { Scraper } from "./scraper";
+import {
+  EngineOrchestrator,
+  type ConditionalRequest,
+  type OrchestratorResult,
+} from "./engines/index.js";
+import { EngineAffinityCache } from "./engines/engine-affinity.js";
+import { DomainCircuitBreaker } from "./engines/circuit-breaker.js";
+import { createProxyUrl } from "./proxy/config";
+import { discoverSite, loadCachedProfile } from "./discovery/site-profile.js";
+import type { SitemapUrl } from "./discovery/sitemap-parser.js";
+import { CrawlFrontier, hostOf, type FrontierEntry } from "./crawl/frontier.js";
+import { CrawlCheckpoint, type CheckpointPage, type CrawlState } from "./crawl/checkpoint.js";
+import { CrawlScope, type SkippedUrl } from "./crawl/scope.js";
+import { SiteGraphBuilder, buildSiteTree } from "./crawl/site-graph.js";
+import type {
+  CrawlOptions,
+  CrawlResult,
+  CrawlUrl,
+  CrawlMetadata,
+  CrawlLinkCandidate,
+} from "./crawl-types";
+import {
+  DEFAULT_OPTIONS,
+  type PageChange,
+  type ScrapeOptions,
+  type ScrapeResult,
+  type WebsiteScrapeResult,
+} from "./types";
+
+/**
+ * A link to queue: resolved URL, dedupe key, depth, best-first score and anchor text
+ */
+type CrawlLink = { url: string; key: string; depth: number; score: number; anchorText: string };
 
 /**
  * Crawler class for discovering and optionally scraping pages
  *
  * Features:
- * - BFS/DFS crawling with depth control
- * - Automatic Cloudflare challenge handling
- * - Link extraction and filtering
- * - Optional full content scraping
- * - URL deduplication
+ * - BFS, DFS or best-first crawling with depth control
+ * - Seeding from the site's sitemaps as well as (or instead of) following links
+ * - Concurrent fetching with per-host politeness (delay and concurrency per host)
+ * - Pages fetched through the http → tlsclient → hero engine cascade
+ * - Link extraction and filtering, within a configurable scope (hosts, path prefix, budgets)
+ * - Optional full content scraping, reusing the HTML fetched during the crawl
+ * - Link graph (anchor text, depth, parent, degrees) and path-based site tree of the pages
+ * - URL deduplication under a canonicalization policy (query parameters, rel=canonical, hreflang)
+ * - Resumable crawls checkpointed to disk under a crawlId
+ * - Incremental recrawls: conditional requests and per-page change status
+ * - Progress events: queued and skipped URLs (with the reason), fetches, engine fallbacks
  *
  * @example
  * const crawler = new Crawler({
@@ -37,10 +67,12 @@ import type { ScrapeResult } from "./types";
  *   scrape: true
  * });
  *
+ * crawler.on("url:skipped", (event) => console.log(`${event.url}: ${event.reason}`));
+ *
  * const result = await crawler.crawl();
  * console.log(`Discovered ${result.urls.length} URLs`);
  */
-export class Crawler {
+export class Crawler extends ReaderEventEmitter {
   private options: Omit<
     Required<CrawlOptions>,
     | "proxy"
@@ -48,26 +80,81 @@ export class Crawler {
     | "userAgent"
     | "includePatterns"
     | "excludePatterns"
+    | "scope"
+    | "canonicalization"
     | "pool"
     | "removeAds"
     | "removeBase64Images"
+    | "abortSignal"
+    | "chunkingOptions"
+    | "captureOptions"
+    | "engines"
+    | "skipEngines"
+    | "forceEngine"
+    | "scoreUrl"
+    | "crawlId"
+    | "stateDir"
+    | "changeTracking"
+    | "onEvent"
   > & {
     proxy?: CrawlOptions["proxy"];
     timeoutMs?: CrawlOptions["timeoutMs"];
     userAgent?: CrawlOptions["userAgent"];
     includePatterns?: string[];
     excludePatterns?: string[];
+    scope?: CrawlOptions["scope"];
+    canonicalization?: CrawlOptions["canonicalization"];
     removeAds?: boolean;
     removeBase64Images?: boolean;
+    abortSignal?: AbortSignal;
+    chunkingOptions?: CrawlOptions["chunkingOptions"];
+    captureOptions?: CrawlOptions["captureOptions"];
+    engines?: CrawlOptions["engines"];
+    skipEngines?: CrawlOptions["skipEngines"];
+    forceEngine?: CrawlOptions["forceEngine"];
+    scoreUrl?: CrawlOptions["scoreUrl"];
+    crawlId?: string;
+    stateDir?: string;
+    changeTracking?: CrawlOptions["changeTracking"];
   };
-  private visited: Set<string> = new Set();
-  private queue: Array<{ url: string; depth: number }> = [];
+  private frontier: CrawlFrontier;
+  private scope: CrawlScope;
   private urls: CrawlUrl[] = [];
   private pool: IBrowserPool;
   private logger = createLogger("crawler");
-  private robotsRules: RobotsRules | null = null;
+  /** robots.txt rules per host, once loaded */
+  private robotsRules: Map<string, RobotsRules | null> = new Map();
+  private robotsLoading: Map<string, Promise<RobotsRules | null>> = new Map();
+  private orchestrator: EngineOrchestrator;
+  /** Options passed to the engines (and to the scraper when scrape: true) */
+  private scrapeOptions: ScrapeOptions;
+  /** Converts fetched pages when scrape: true */
+  private scraper: Scraper | null = null;
+  private scrapedPages: WebsiteScrapeResult[] = [];
+  private scrapeErrors: Array<{ url: string; error: string }> = [];
+  /** Progress log when crawlId is set */
+  private checkpoint: CrawlCheckpoint | null = null;
+  /** First checkpoint write failure (the crawl carries on without it) */
+  private checkpointError: string | null = null;
+  /** Per-URL records of earlier crawls when changeTracking is set */
+  private changeTracker: ChangeTracker | null = null;
+  /** Recorded URLs that answered 404/410 in this crawl */
+  private removedUrls: string[] = [];
+  /** Sitemap <lastmod> per URL key, kept with the change records */
+  private sitemapLastmod: Map<string, string> = new Map();
+  /** Fetches that failed, for the done event */
+  private failedFetches = 0;
+  /** URLs skipped per reason, for the done event */
+  private skipped: Partial<Record<UrlSkipReason, number>> = {};
+  /** First reason each URL was skipped for, duplicates aside */
+  private skippedUrls: Map<string, SkippedUrl> = new Map();
+  /** Depth, parent and links of each crawled page */
+  private siteGraph = new SiteGraphBuilder();
 
   constructor(options: CrawlOptions) {
+    super();
+    this.onEvent = options.onEvent;
+
     // Pool must be provided by client
     if (!options.pool) {
       throw new Error(
@@ -82,13 +169,25 @@ export class Crawler {
       maxPages: options.maxPages || 20,
       scrape: options.scrape || false,
       delayMs: options.delayMs || 1000,
+      concurrency: Math.max(1, options.concurrency ?? 4),
+      maxConcurrencyPerHost: Math.max(1, options.maxConcurrencyPerHost ?? 1),
+      strategy: options.strategy ?? "bfs",
+      seedStrategy: options.seedStrategy ?? "links",
+      scoreUrl: options.scoreUrl,
+      crawlId: options.crawlId,
+      stateDir: options.stateDir,
+      changeTracking: options.changeTracking,
       respectRobots: options.respectRobots ?? true,
       avoidHoneypotLinks: options.avoidHoneypotLinks ?? true,
       timeoutMs: options.timeoutMs,
       includePatterns: options.includePatterns,
       excludePatterns: options.excludePatterns,
+      scope: options.scope,
+      canonicalization: options.canonicalization,
       formats: options.formats || ["markdown", "html"],
       scrapeConcurrency: options.scrapeConcurrency || 2,
+      chunkingOptions: options.chunkingOptions,
+      captureOptions: options.captureOptions,
       proxy: options.proxy,
       userAgent: options.userAgent,
       verbose: options.verbose || false,
@@ -97,7 +196,78 @@ export class Crawler {
       // Content cleaning options
       removeAds: options.removeAds,
       removeBase64Images: options.removeBase64Images,
+      abortSignal: options.abortSignal,
+      // Engine options
+      engines: options.engines,
+      skipEngines: options.skipEngines,
+      forceEngine: options.forceEngine,
+      parallelRacing: options.parallelRacing ?? false,
     };
+
+    this.scope = new CrawlScope(
+      this.options.url,
+      this.options.scope,
+      this.options.canonicalization
+    );
+
+    if (this.options.crawlId) {
+      this.checkpoint = new CrawlCheckpoint(this.options.crawlId, this.options.stateDir);
+    }
+    if (this.options.changeTracking) {
+      this.changeTracker = new ChangeTracker(
+        this.options.changeTracking.file,
+        this.options.canonicalization ? this.scope.canonicalizer : undefined
+      );
+    }
+
+    // Each host waits its own delay (robots.txt Crawl-delay if set) between fetches
+    this.frontier = new CrawlFrontier({
+      strategy: this.options.strategy,
+      maxPerHost: this.options.maxConcurrencyPerHost,
+      hostDelayMs: (host) =>
+        jitteredDelay(this.robotsRules.get(host)?.crawlDelay || this.options.delayMs, 0.3),
+    });
+
+    this.orchestrator = new EngineOrchestrator({
+      engines: this.options.engines,
+      skipEngines: this.options.skipEngines,
+      forceEngine: this.options.forceEngine,
+      parallelRacing: this.options.parallelRacing,
+      logger: this.logger,
+      verbose: this.options.verbose,
+      onEvent: (event) => this.dispatch(event),
+      affinityCache: new EngineAffinityCache(),
+      circuitBreaker: new DomainCircuitBreaker({
+        // Be conservative: the orchestrator records failures per-engine attempt.
+        failureThreshold: 10,
+        cooldownMs: 2 * 60 * 1000,
+        halfOpenMaxAttempts: 1,
+        resetOnSuccess: true,
+      }),
+    });
+
+    // Discovery-only crawls just need HTML; scraping formats like "screenshot" route to hero
+    this.scrapeOptions = {
+      ...DEFAULT_OPTIONS,
+      urls: [],
+      formats: this.options.scrape ? this.options.formats : ["html"],
+      chunkingOptions: this.options.chunkingOptions,
+      captureOptions: this.options.captureOptions,
+      proxy: this.options.proxy,
+      userAgent: this.options.userAgent,
+      respectRobots: this.options.respectRobots,
+      verbose: this.options.verbose,
+      showChrome: this.options.showChrome,
+      connectionToCore: this.options.connectionToCore,
+      pool: this.pool,
+      removeAds: this.options.removeAds ?? DEFAULT_OPTIONS.removeAds,
+      removeBase64Images: this.options.removeBase64Images ?? DEFAULT_OPTIONS.removeBase64Images,
+      abortSignal: this.options.abortSignal,
+      discovery: false,
+    };
+    if (this.options.scrape) {
+      this.scraper = new Scraper(this.scrapeOptions);
+    }
   }
 
   /**
@@ -105,154 +275,479 @@ export class Crawler {
    */
   async crawl(): Promise<CrawlResult> {
     const startTime = Date.now();
+    const signal = this.options.abortSignal;
 
-    // Fetch robots.txt rules before crawling (unless disabled)
+    // Fetch the seed host's robots.txt rules before crawling (unless disabled)
     if (this.options.respectRobots !== false) {
-      this.robotsRules = await fetchRobotsTxt(this.options.url);
-      if (this.robotsRules) {
+      if (await this.loadRobotsRules(this.options.url)) {
         this.logger.info("Loaded robots.txt rules");
       }
-    } else {
-      this.robotsRules = null;
-      if (this.options.verbose) {
-        this.logger.info("Skipping robots.txt checks (respectRobots=false)");
-      }
+    } else if (this.options.verbose) {
+      this.logger.info("Skipping robots.txt checks (respectRobots=false)");
     }
 
-    // Pool is managed by ReaderClient - just use it
-    // Add seed URL to queue (if allowed by robots.txt)
-    if (isUrlAllowed(this.options.url, this.robotsRules)) {
-      this.queue.push({ url: this.options.url, depth: 0 });
+    // Fail before fetching anything when earlier change records can't be read
+    await this.changeTracker?.load();
+
+    // Continue from the last checkpoint if this crawlId was crawled before
+    const state = this.checkpoint ? await this.checkpoint.load() : null;
+    if (state) {
+      this.restore(state);
     } else {
-      this.logger.warn(`Seed URL blocked by robots.txt: ${this.options.url}`);
+      this.checkpoint?.start(this.options.url);
+
+      // Pool is managed by ReaderClient - just use it
+      // Add seed URL to the frontier (if allowed by robots.txt)
+      if (isUrlAllowed(this.options.url, this.cachedRobotsRules(this.options.url))) {
+        const seed = {
+          url: this.options.url,
+          key: this.scope.keyOf(this.options.url),
+          depth: 0,
+          score: 0,
+          anchorText: "",
+        };
+        this.enqueue(seed, "seed");
+      } else {
+        this.logger.warn(`Seed URL blocked by robots.txt: ${this.options.url}`);
+        this.skip(this.options.url, "robots");
+      }
+
+      if (this.options.seedStrategy !== "links") {
+        await this.seedFromSitemaps();
+      }
     }
 
-    // Crawl URLs
-    while (this.queue.length > 0 && this.urls.length < this.options.maxPages) {
+    // Crawl URLs, keeping up to `concurrency` fetches in flight
+    const { concurrency, maxPages } = this.options;
+    const active = new Set<Promise<void>>();
+    const hasRoom = () => active.size < concurrency && this.urls.length + active.size < maxPages;
+
+    while (this.urls.length < maxPages) {
       // Check timeout
       if (this.options.timeoutMs && Date.now() - startTime > this.options.timeoutMs) {
         this.logger.warn(`Crawl timed out after ${this.options.timeoutMs}ms`);
         break;
       }
 
-      const item = this.queue.shift()!;
-      const urlKey = getUrlKey(item.url);
-
-      if (this.visited.has(urlKey)) {
-        continue;
+      // Check cancellation
+      if (signal?.aborted) {
+        this.logger.warn(`Crawl aborted after ${this.urls.length} pages`);
+        break;
       }
 
-      // Fetch page
-      const result = await this.fetchPage(item.url);
-
-      if (result) {
-        this.urls.push(result.crawlUrl);
-        this.visited.add(urlKey);
-
-        // Extract links from the fetched HTML if not at max depth
-        if (item.depth < this.options.depth) {
-          const links = this.extractLinks(result.html, item.url, item.depth + 1);
-          this.queue.push(...links);
-        }
+      // Start every URL whose host is ready, without overshooting maxPages
+      while (hasRoom()) {
+        const entry = this.frontier.next();
+        if (!entry) break;
+        const task = this.visit(entry).finally(() => active.delete(task));
+        active.add(task);
       }
 
-      // Rate limit (use robots.txt crawl-delay if specified, otherwise use configured delay)
-      const delay = this.robotsRules?.crawlDelay || this.options.delayMs;
-      await rateLimit(delay, 0.3);
+      // Wait for a fetch to finish or for a waiting host's delay to pass
+      const readyAt = hasRoom() ? this.frontier.nextReadyAt() : null;
+      if (active.size === 0 && readyAt === null) break;
+
+      const waits: Promise<void>[] = [...active];
+      if (readyAt !== null) waits.push(sleep(Math.max(0, readyAt - Date.now()), signal));
+      await Promise.race(waits);
     }
 
+    await Promise.all(active);
+    await this.flushCheckpoint();
+    await this.saveChanges();
+
     // Build metadata
+    const status = signal?.aborted ? "aborted" : "completed";
     const metadata: CrawlMetadata = {
       totalUrls: this.urls.length,
       maxDepth: this.options.depth,
       totalDuration: Date.now() - startTime,
       seedUrl: this.options.url,
+      status,
     };
+    if (this.checkpoint) {
+      metadata.crawlId = this.checkpoint.crawlId;
+      metadata.resumed = state !== null;
+      if (this.checkpointError) metadata.checkpointError = this.checkpointError;
+    }
 
-    // Optionally scrape all discovered URLs
+    // Pages scraped during the crawl (partial when aborted)
     let scraped: ScrapeResult | undefined;
-    if (this.options.scrape) {
-      scraped = await this.scrapeDiscoveredUrls();
+    if (this.scraper) {
+      scraped = {
+        data: this.scrapedPages,
+        batchMetadata: {
+          totalUrls: this.urls.length,
+          successfulUrls: this.scrapedPages.length,
+          failedUrls: this.scrapeErrors.length,
+          scrapedAt: new Date().toISOString(),
+          totalDuration: metadata.totalDuration,
+          errors: this.scrapeErrors,
+          status,
+        },
+      };
     }
 
+    this.emit("done", {
+      kind: "crawl",
+      status,
+      durationMs: metadata.totalDuration,
+      successfulUrls: this.urls.length,
+      failedUrls: this.failedFetches,
+      skipped: this.skipped,
+    });
+
     return {
       urls: this.urls,
       scraped,
+      skipped: [...this.skippedUrls.values()],
+      graph: this.siteGraph.build(this.urls, (url) => this.scope.keyOf(url)),
+      tree: buildSiteTree(this.urls),
+      ...(this.changeTracker && { removed: this.removedUrls }),
       metadata,
     };
   }
 
   /**
-   * Fetch a single page and extract basic info
+   * Fetch a page taken from the frontier, record it and queue its links
    */
-  private async fetchPage(url: string): Promise<{ crawlUrl: CrawlUrl; html: string } | null> {
+  private async visit(entry: FrontierEntry): Promise<void> {
+    // What to checkpoint for this entry; stays null if cancelled mid-fetch so a resume retries it
+    let page: CheckpointPage | null = {};
+
     try {
-      return await this.pool.withBrowser(async (hero: Hero) => {
-        // Navigate
-        await hero.goto(url, { timeoutMs: 30000 });
-        await hero.waitForPaintingStable();
-
-        // Handle Cloudflare challenge
-        const initialUrl = await hero.url;
-        const detection = await detectChallenge(hero);
-
-        if (detection.isChallenge) {
-          if (this.options.verbose) {
-            this.logger.info(`Challenge detected on ${url}`);
-          }
-
-          const result = await waitForChallengeResolution(hero, {
-            maxWaitMs: 45000,
-            pollIntervalMs: 500,
-            verbose: this.options.verbose,
-            initialUrl,
-          });
+      // Hosts other than the seed's load their robots.txt on first visit
+      if (!isUrlAllowed(entry.url, await this.loadRobotsRules(entry.url))) {
+        if (this.options.verbose) {
+          this.logger.info(`Skipping ${entry.url}: blocked by robots.txt`);
+        }
+        this.skip(entry.url, "robots");
+        return;
+      }
 
-          if (!result.resolved) {
-            throw new Error(`Challenge not resolved`);
-          }
+      // Revalidate pages an earlier crawl recorded instead of downloading them again
+      const record = await this.loadChangeRecord(entry.url);
+      const followLinks =
+        entry.depth < this.options.depth && this.options.seedStrategy !== "sitemap";
+      const sitemapLastmod = this.sitemapLastmod.get(entry.key);
+      let conditional: ConditionalRequest | undefined;
+      if (
+        this.changeTracker &&
+        this.options.changeTracking?.conditionalRequests !== false &&
+        (!followLinks || record?.links)
+      ) {
+        conditional = this.changeTracker.validatorsFor(entry.url, sitemapLastmod);
+      }
+
+      const result = await this.fetchPage(entry.url, entry.depth, conditional);
+      if (!result) {
+        if (this.options.abortSignal?.aborted) page = null;
+        return;
+      }
+
+      const { engineResult } = result;
+      // A 304 has no HTML: its title, description and links come from the record
+      const unchanged = engineResult.notModified ? record : undefined;
+      if (unchanged) {
+        result.crawlUrl.title = unchanged.title || result.crawlUrl.title;
+        result.crawlUrl.description = unchanged.description ?? null;
+      }
+
+      // A page whose canonical URL (or hreflang group) is crawled or queued is a duplicate
+      const canonical = this.scope.canonicalizer.learn(
+        engineResult.url,
+        unchanged ? "" : engineResult.html
+      );
+      if (canonical.key !== entry.key && this.frontier.has(canonical.key)) {
+        this.skip(entry.url, "canonical");
+        return;
+      }
+      if (this.options.canonicalization?.groupHreflang && canonical.alternates.length > 0) {
+        result.crawlUrl.alternates = canonical.alternates;
+      }
+
+      // Extract links from whichever engine's HTML came back, relative to the final URL,
+      // or reuse the recorded ones when the page answered 304. Pages at the maximum
+      // depth still have their links extracted for the site graph, without queueing them.
+      const links = unchanged
+        ? this.recordedLinks(unchanged.links ?? [], entry.url, entry.depth + 1, followLinks)
+        : this.extractLinks(engineResult.html, engineResult.url, entry.depth + 1, followLinks);
+
+      // An engine that returned the site's 404/410 page means the page is gone
+      const change = isGoneStatus(engineResult.statusCode)
+        ? this.markRemoved(entry.url)
+        : this.changeTracker?.record(entry.url, engineResult, {
+            sitemapLastmod,
+            title: result.crawlUrl.title,
+            description: result.crawlUrl.description,
+            links: followLinks ? links.map((link) => link.url) : undefined,
+          });
+      if (change) result.crawlUrl.change = change.status;
+
+      const index = this.urls.push(result.crawlUrl) - 1;
+      page.crawlUrl = result.crawlUrl;
+      page.graph = {
+        depth: entry.depth,
+        ...(entry.parentUrl && { parentUrl: entry.parentUrl }),
+        links: links.map(({ url, anchorText }) => ({ url, anchorText })),
+      };
+      this.siteGraph.add(entry.url, page.graph);
+
+      for (const seenKey of [this.scope.keyOf(engineResult.url), canonical.key]) {
+        if (!this.frontier.has(seenKey)) {
+          this.frontier.markSeen(seenKey);
+          this.checkpoint?.seen(seenKey);
         }
+      }
+
+      // Scrape from the HTML already fetched rather than fetching the page again
+      if (this.scraper) {
+        Object.assign(
+          page,
+          await this.scrapePage(this.scraper, entry.url, engineResult, index, unchanged)
+        );
+        if (page.scraped && change) page.scraped.change = change;
+      }
 
-        // Extract basic info and HTML
-        const title = await hero.document.title;
-        const html = await hero.document.documentElement.outerHTML;
-
-        // Try to extract description from meta tags
-        let description: string | null = null;
-        try {
-          const metaDesc = await hero.document.querySelector('meta[name="description"]');
-          if (metaDesc) {
-            description = await metaDesc.getAttribute("content");
-          }
-        } catch {
-          // No description found
+      if (followLinks) {
+        for (const link of links) {
+          this.enqueue(link, "link", engineResult.url);
         }
+      }
+    } finally {
+      this.frontier.complete(entry);
+      if (this.checkpoint && page) {
+        this.checkpoint.done(entry.key, page);
+        await this.flushCheckpoint();
+      }
+    }
+  }
 
-        return {
-          crawlUrl: {
-            url,
-            title: title || "Untitled",
-            description,
-          },
-          html,
-        };
+  /**
+   * Write the checkpoint; a failed write is logged once and the crawl carries on
+   */
+  private async flushCheckpoint(): Promise<void> {
+    try {
+      await this.checkpoint?.flush();
+    } catch (error: unknown) {
+      if (this.checkpointError === null) {
+        this.checkpointError = error instanceof Error ? error.message : String(error);
+        this.logger.error(
+          `Checkpoint write failed, this crawl can't be fully resumed: ${this.checkpointError}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Add a URL to the frontier if new and within the scope's budgets, checkpointing it
+   */
+  private enqueue(link: CrawlLink, source: "seed" | "link" | "sitemap", parentUrl?: string): void {
+    const { url, key, depth, score } = link;
+    if (this.frontier.has(key)) {
+      this.skip(url, "duplicate", parentUrl);
+      return;
+    }
+    const overBudget = this.scope.admit(url);
+    if (overBudget) {
+      this.skip(url, overBudget, parentUrl);
+      return;
+    }
+    this.frontier.add(url, key, depth, score, parentUrl);
+    this.checkpoint?.queued({ url, key, depth, score, parentUrl });
+    this.emit("url:queued", { url, depth, source, parentUrl });
+  }
+
+  /**
+   * Count and report a URL that won't be crawled
+   */
+  private skip(url: string, reason: UrlSkipReason, parentUrl?: string): void {
+    this.skipped[reason] = (this.skipped[reason] ?? 0) + 1;
+    if (reason !== "duplicate" && !this.skippedUrls.has(url)) {
+      this.skippedUrls.set(url, { url, reason, parentUrl });
+    }
+    this.emit("url:skipped", { url, reason, parentUrl });
+  }
+
+  /**
+   * Restore pages, scrape results and the frontier from a checkpoint
+   */
+  private restore(state: CrawlState): void {
+    if (state.seedUrl !== this.options.url) {
+      throw new ValidationError(
+        `Crawl "${this.options.crawlId}" was started from ${state.seedUrl}, not ${this.options.url}`,
+        { field: "crawlId", url: this.options.url }
+      );
+    }
+
+    this.urls.push(...state.urls);
+    this.scrapedPages.push(...state.scrapedPages);
+    this.scrapeErrors.push(...state.scrapeErrors);
+    for (const { url, ...page } of state.pageLinks) this.siteGraph.add(url, page);
+    for (const key of state.seen) this.frontier.markSeen(key);
+    for (const entry of state.pending) {
+      this.frontier.add(entry.url, entry.key, entry.depth, entry.score, entry.parentUrl);
+    }
+    // Pages already crawled or queued count against the scope's budgets again
+    for (const url of [...state.urls.map((page) => page.url), ...state.pending.map((e) => e.url)]) {
+      this.scope.admit(url);
+    }
+
+    this.logger.info(
+      `Resuming crawl "${this.options.crawlId}": ${state.urls.length} pages found, ` +
+        `${state.pending.length} queued`
+    );
+  }
+
+  /**
+   * Change record an earlier crawl kept for a URL (loads the records on first use)
+   */
+  private async loadChangeRecord(url: string): Promise<PageRecord | undefined> {
+    if (!this.changeTracker) return undefined;
+    await this.changeTracker.load();
+    return this.changeTracker.get(url);
+  }
+
+  /**
+   * Persist change records for the next crawl (a failed write doesn't fail the crawl)
+   */
+  private async saveChanges(): Promise<void> {
+    if (!this.changeTracker) return;
+    try {
+      await this.changeTracker.save();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to save change tracking records: ${message}`);
+    }
+  }
+
+  /**
+   * Load (once per host) the robots.txt rules that apply to a URL
+   */
+  private loadRobotsRules(url: string): Promise<RobotsRules | null> {
+    if (this.options.respectRobots === false) return Promise.resolve(null);
+
+    const host = hostOf(url);
+    let loading = this.robotsLoading.get(host);
+    if (!loading) {
+      loading = fetchRobotsTxt(url).then((rules) => {
+        this.robotsRules.set(host, rules);
+        return rules;
       });
-    } catch (error: any) {
-      this.logger.error(`Failed to fetch ${url}: ${error.message}`);
+      this.robotsLoading.set(host, loading);
+    }
+    return loading;
+  }
+
+  /**
+   * robots.txt rules for a URL's host if already loaded
+   */
+  private cachedRobotsRules(url: string): RobotsRules | null {
+    return this.robotsRules.get(hostOf(url)) ?? null;
+  }
+
+  /**
+   * Fetch a single page through the engine cascade and extract basic info
+   */
+  private async fetchPage(
+    url: string,
+    depth: number,
+    conditional?: ConditionalRequest
+  ): Promise<{ crawlUrl: CrawlUrl; engineResult: OrchestratorResult } | null> {
+    const startTime = Date.now();
+    try {
+      const engineResult = await this.orchestrator.scrape({
+        url,
+        options: this.scrapeOptions,
+        logger: this.logger,
+        abortSignal: this.options.abortSignal,
+        conditional,
+      });
+
+      if (this.options.verbose) {
+        this.logger.info(
+          `Fetched ${url} with ${engineResult.engine} engine in ${engineResult.duration}ms`
+        );
+      }
+      this.emit("page:fetched", {
+        url,
+        finalUrl: engineResult.url,
+        statusCode: engineResult.statusCode,
+        engine: engineResult.engine,
+        durationMs: Date.now() - startTime,
+        depth,
+        notModified: engineResult.notModified,
+      });
+
+      const { document } = parseHTML(engineResult.html);
+      const title = document.querySelector("title")?.textContent?.trim();
+      const description =
+        document.querySelector('meta[name="description"]')?.getAttribute("content") ?? null;
+
+      return {
+        crawlUrl: {
+          url,
+          title: title || "Untitled",
+          description,
+        },
+        engineResult,
+      };
+    } catch (error: unknown) {
+      // Cancelled: the crawl loop notices the signal and stops
+      if (!(error instanceof AbortedError)) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Failed to fetch ${url}: ${message}`);
+        this.failedFetches++;
+      }
+      // Tombstone pages an earlier crawl recorded that are now gone
+      if (isGoneError(error)) {
+        this.markRemoved(url);
+      }
       return null;
     }
   }
 
+  /**
+   * Tombstone a page an earlier crawl recorded that now answers 404/410
+   */
+  private markRemoved(url: string): PageChange | undefined {
+    const change = this.changeTracker?.markRemoved(url);
+    if (!change) return undefined;
+    this.removedUrls.push(url);
+    return change;
+  }
+
+  /**
+   * Convert a fetched page into a scrape result
+   */
+  private async scrapePage(
+    scraper: Scraper,
+    url: string,
+    engineResult: OrchestratorResult,
+    index: number,
+    recorded?: PageRecord
+  ): Promise<Pick<CheckpointPage, "scraped" | "scrapeError">> {
+    try {
+      const page = await scraper.scrapeFetchedPage(url, engineResult, index, recorded);
+      this.scrapedPages.push(page);
+      return { scraped: page };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to scrape ${url}: ${message}`);
+      this.scrapeErrors.push({ url, error: message });
+      return { scrapeError: message };
+    }
+  }
+
   /**
    * Extract links from HTML content using DOM parsing
    * Handles all href formats (single quotes, double quotes, unquoted)
+   *
+   * @param report - Report filtered links as skipped (false when they won't be queued)
    */
-  private extractLinks(
-    html: string,
-    baseUrl: string,
-    depth: number
-  ): Array<{ url: string; depth: number }> {
-    const links: Array<{ url: string; depth: number }> = [];
+  private extractLinks(html: string, baseUrl: string, depth: number, report = true): CrawlLink[] {
+    const links: CrawlLink[] = [];
+    const keys = new Set<string>();
     const { document } = parseHTML(html);
 
     // Use proper DOM API to find all anchor elements with href
@@ -293,18 +788,17 @@ export class Crawler {
         return;
       }
 
-      // Check if same domain
-      if (!isSameDomain(resolved, this.options.url)) return;
-
-      // Check if content page (skip legal, policy, utility pages)
-      if (!isContentUrl(resolved)) return;
+      // Skip duplicates on the page (the frontier skips URLs already queued)
+      const urlKey = this.scope.keyOf(resolved);
+      if (keys.has(urlKey)) return;
+      keys.add(urlKey);
 
-      // Check include/exclude patterns
-      if (!shouldIncludeUrl(resolved, this.options.includePatterns, this.options.excludePatterns))
+      // Scope (hosts, path prefix, content page), include/exclude patterns, robots.txt
+      const reason = this.skipReason(resolved);
+      if (reason) {
+        if (report) this.skip(resolved, reason, baseUrl);
         return;
-
-      // Check if allowed by robots.txt
-      if (!isUrlAllowed(resolved, this.robotsRules)) return;
+      }
 
       // Honeypot/trap detection (conservative; only blocks high-confidence)
       if (this.options.avoidHoneypotLinks !== false) {
@@ -316,42 +810,157 @@ export class Crawler {
             baseUrl: this.options.url,
           })
         ) {
+          if (report) this.skip(resolved, "honeypot", baseUrl);
           return;
         }
       }
 
-      // Check if already visited or queued
-      const urlKey = getUrlKey(resolved);
-      if (this.visited.has(urlKey) || this.queue.some((q) => getUrlKey(q.url) === urlKey)) {
-        return;
-      }
+      const anchorText = anchor.textContent?.replace(/\s+/g, " ").trim() ?? "";
+      const score = this.scoreLink({ url: resolved, depth, parentUrl: baseUrl, anchorText });
 
-      links.push({ url: resolved, depth });
+      links.push({ url: resolved, key: urlKey, depth, score, anchorText });
     });
 
     return links;
   }
 
   /**
-   * Scrape all discovered URLs
+   * Links recorded for a page that answered 304, filtered as if just extracted
    */
-  private async scrapeDiscoveredUrls(): Promise<ScrapeResult> {
-    const urls = this.urls.map((u) => u.url);
+  private recordedLinks(
+    urls: string[],
+    parentUrl: string,
+    depth: number,
+    report = true
+  ): CrawlLink[] {
+    return urls
+      .filter((url) => {
+        if (!isValidUrl(url)) return false;
+        const reason = this.skipReason(url);
+        if (reason && report) this.skip(url, reason, parentUrl);
+        return reason === null;
+      })
+      .map((url) => ({
+        url,
+        key: this.scope.keyOf(url),
+        depth,
+        score: this.scoreLink({ url, depth, parentUrl, anchorText: "" }),
+        anchorText: "",
+      }));
+  }
 
-    return scrape({
-      urls,
-      formats: this.options.formats,
-      batchConcurrency: this.options.scrapeConcurrency,
-      proxy: this.options.proxy,
-      userAgent: this.options.userAgent,
-      respectRobots: this.options.respectRobots,
-      verbose: this.options.verbose,
-      showChrome: this.options.showChrome,
-      pool: this.pool,
-      // Content cleaning options
-      removeAds: this.options.removeAds,
-      removeBase64Images: this.options.removeBase64Images,
-    });
+  /**
+   * Why a discovered URL may not be queued (null if it may)
+   */
+  private skipReason(url: string): UrlSkipReason | null {
+    // Check hosts, path prefix and content page (skip legal, policy, utility pages)
+    const outOfScope = this.scope.check(url);
+    if (outOfScope) return outOfScope;
+
+    // Check include/exclude patterns
+    if (!shouldIncludeUrl(url, this.options.includePatterns, this.options.excludePatterns)) {
+      return "pattern";
+    }
+
+    // Check if allowed by robots.txt (hosts not loaded yet are checked when visited)
+    return isUrlAllowed(url, this.cachedRobotsRules(url)) ? null : "robots";
+  }
+
+  /**
+   * Frontier priority of a discovered URL (only used by best-first)
+   */
+  private scoreLink(link: CrawlLinkCandidate): number {
+    if (this.options.strategy !== "best-first") return 0;
+    return (this.options.scoreUrl ?? defaultLinkScore)(link);
+  }
+
+  /**
+   * Queue the seed's sitemap URLs, highest priority and most recently modified first
+   */
+  private async seedFromSitemaps(): Promise<void> {
+    const sitemapUrls = await this.loadSitemapUrls();
+    const ordered = sitemapUrls
+      .map((entry, index) => ({ entry, index, lastmod: Date.parse(entry.lastmod ?? "") || 0 }))
+      .sort(
+        (a, b) =>
+          (b.entry.priority ?? 0.5) - (a.entry.priority ?? 0.5) ||
+          b.lastmod - a.lastmod ||
+          a.index - b.index
+      );
+
+    let queued = 0;
+    for (const { entry } of ordered) {
+      if (!isValidUrl(entry.loc)) continue;
+      const reason = this.skipReason(entry.loc);
+      if (reason) {
+        this.skip(entry.loc, reason);
+        continue;
+      }
+      const key = this.scope.keyOf(entry.loc);
+      if (entry.lastmod) this.sitemapLastmod.set(key, entry.lastmod);
+      if (this.frontier.has(key)) continue;
+
+      const score = this.scoreLink({
+        url: entry.loc,
+        depth: 0,
+        parentUrl: this.options.url,
+        anchorText: "",
+        sitemap: { priority: entry.priority, lastmod: entry.lastmod },
+      });
+      this.enqueue({ url: entry.loc, key, depth: 0, score, anchorText: "" }, "sitemap");
+      queued++;
+    }
+
+    if (queued > 0) {
+      this.logger.info(`Seeded ${queued} URLs from sitemaps`);
+    } else {
+      this.logger.warn(`No crawlable sitemap URLs found for ${this.options.url}`);
+    }
+  }
+
+  /**
+   * Sitemap URLs from the seed's discovery profile (cached, or discovered now)
+   */
+  private async loadSitemapUrls(): Promise<SitemapUrl[]> {
+    try {
+      const cached = await loadCachedProfile(new URL(this.options.url).hostname);
+      if (cached?.sitemap.found) return cached.sitemap.topUrls;
+    } catch {
+      // ignore cache errors
+    }
+
+    // Sitemaps only: the rest of discovery is not needed to crawl
+    try {
+      const profile = await discoverSite(this.options.url, {
+        probeWellKnown: false,
+        parseSitemaps: true,
+        discoverOpenApi: false,
+        introspectGraphQL: false,
+        profileEndpoints: false,
+        maxSitemapUrls: Math.max(1000, this.options.maxPages * 5),
+        network: {
+          proxyUrl: this.options.proxy ? createProxyUrl(this.options.proxy) : undefined,
+          userAgent: this.options.userAgent,
+        },
+      });
+      return profile.sitemap.topUrls;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Sitemap discovery failed for ${this.options.url}: ${message}`);
+      return [];
+    }
+  }
+}
+
+/**
+ * Default best-first score: shallow pages with short paths first
+ */
+function defaultLinkScore(link: CrawlLinkCandidate): number {
+  try {
+    const segments = new URL(link.url).pathname.split("/").filter(Boolean).length;
+    return -(link.depth * 10 + segments);
+  } catch {
+    return -link.depth * 10;
   }
 }
 
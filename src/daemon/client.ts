@@ -18,6 +18,7 @@ import type { ScrapeOptions, ScrapeResult } from "../types";
 import type { CrawlOptions, CrawlResult } from "../crawl-types";
 import type { DaemonStatus } from "./server";
 import { DEFAULT_DAEMON_PORT } from "./server";
+import { AbortedError } from "../errors";
 
 /**
  * Daemon client configuration
@@ -44,22 +45,34 @@ export class DaemonClient {
 
   /**
    * Scrape URLs via daemon
+   *
+   * Aborting `abortSignal` drops the connection, which cancels the scrape on the daemon.
    */
   async scrape(options: Omit<ScrapeOptions, "connectionToCore">): Promise<ScrapeResult> {
-    return this.request<ScrapeResult>({
-      action: "scrape",
-      options,
-    });
+    const { abortSignal, ...rest } = options;
+    return this.request<ScrapeResult>(
+      {
+        action: "scrape",
+        options: rest,
+      },
+      abortSignal
+    );
   }
 
   /**
    * Crawl URL via daemon
+   *
+   * Aborting `abortSignal` drops the connection, which cancels the crawl on the daemon.
    */
   async crawl(options: Omit<CrawlOptions, "connectionToCore">): Promise<CrawlResult> {
-    return this.request<CrawlResult>({
-      action: "crawl",
-      options,
-    });
+    const { abortSignal, ...rest } = options;
+    return this.request<CrawlResult>(
+      {
+        action: "crawl",
+        options: rest,
+      },
+      abortSignal
+    );
   }
 
   /**
@@ -95,8 +108,13 @@ export class DaemonClient {
   /**
    * Make HTTP request to daemon
    */
-  private request<T>(body: object): Promise<T> {
+  private request<T>(body: object, signal?: AbortSignal): Promise<T> {
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortedError());
+        return;
+      }
+
       const data = JSON.stringify(body);
 
       const req = http.request(
@@ -149,6 +167,15 @@ export class DaemonClient {
         reject(new Error(`Request to daemon timed out after ${this.options.timeoutMs}ms`));
       });
 
+      if (signal) {
+        const onAbort = () => {
+          req.destroy();
+          reject(new AbortedError());
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        req.on("close", () => signal.removeEventListener("abort", onAbort));
+      }
+
       req.write(data);
       req.end();
     });
@@ -246,7 +246,10 @@ export class DaemonServer {
       return;
     }
 
-    const result = await this.client.scrape(options);
+    const result = await this.client.scrape({
+      ...options,
+      abortSignal: this.abortOnDisconnect(res),
+    });
     this.sendResponse<ScrapeResult>(res, 200, { success: true, data: result });
   }
 
@@ -262,10 +265,30 @@ export class DaemonServer {
       return;
     }
 
-    const result = await this.client.crawl(options);
+    const result = await this.client.crawl({
+      ...options,
+      abortSignal: this.abortOnDisconnect(res),
+    });
     this.sendResponse<CrawlResult>(res, 200, { success: true, data: result });
   }
 
+  /**
+   * Signal that aborts when the caller disconnects before the response is written,
+   * so a cancelled CLI command stops holding pool browsers
+   */
+  private abortOnDisconnect(res: http.ServerResponse): AbortSignal {
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        if (this.options.verbose) {
+          logger.info("Client disconnected, aborting request");
+        }
+        controller.abort();
+      }
+    });
+    return controller.signal;
+  }
+
   /**
    * Handle status request
    */
@@ -300,6 +323,8 @@ export class DaemonServer {
     statusCode: number,
     data: DaemonResponse<T>
   ): void {
+    // Caller already went away (aborted request)
+    if (res.destroyed) return;
     res.writeHead(statusCode, { "Content-Type": "application/json" });
     res.end(JSON.stringify(data));
   }
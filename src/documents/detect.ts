@@ -0,0 +1,75 @@
+import type { DocumentType } from "./types";
+
+/**
+ * Response body sniffing
+ *
+ * Magic bytes win over the Content-Type header (servers routinely send PDFs as
+ * application/octet-stream, or HTML error pages as application/pdf); the header
+ * and URL extension only decide between HTML and the text formats.
+ */
+
+const PDF_MAGIC = "%PDF-";
+const ZIP_MAGIC = "PK\x03\x04";
+
+/**
+ * Media type without parameters, lowercased ("text/html; charset=utf-8" -> "text/html")
+ */
+function mediaType(contentType?: string): string {
+  return (contentType ?? "").split(";")[0].trim().toLowerCase();
+}
+
+function urlExtension(url?: string): string {
+  if (!url) return "";
+  try {
+    const match = new URL(url).pathname.toLowerCase().match(/\.([a-z0-9]+)$/);
+    return match ? match[1] : "";
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Detect a convertible document body
+ *
+ * @param body - Raw response body
+ * @param contentType - Content-Type response header
+ * @param url - Final response URL (extension is used as a last resort)
+ * @returns The document type, or null for HTML (and anything else left to the HTML pipeline)
+ */
+export function detectDocumentType(
+  body: Buffer,
+  contentType?: string,
+  url?: string
+): DocumentType | null {
+  const head = body.subarray(0, 1024).toString("latin1");
+
+  // PDFs may have a little junk before the header, but never markup (an HTML page
+  // that merely mentions "%PDF-1.4" stays HTML)
+  const pdfStart = head.indexOf(PDF_MAGIC);
+  if (pdfStart !== -1 && !head.slice(0, pdfStart).includes("<")) return "pdf";
+
+  // DOCX is a zip whose entries live under word/ (other zips are not documents we convert)
+  if (head.startsWith(ZIP_MAGIC)) {
+    return body.includes("word/document.xml") ? "docx" : null;
+  }
+
+  const type = mediaType(contentType);
+  const extension = urlExtension(url);
+  const looksLikeHtml = /^\s*(<!doctype html|<html|<head|<body)/i.test(
+    head.replace(/^\xEF\xBB\xBF/, "")
+  );
+
+  if (type === "application/json" || type.endsWith("+json")) return "json";
+  if (type === "text/plain" || type === "text/markdown" || type === "text/csv") {
+    return looksLikeHtml ? null : "text";
+  }
+
+  // No usable header: fall back to the extension, but never override markup
+  if (!type || type === "application/octet-stream") {
+    if (looksLikeHtml) return null;
+    if (extension === "json") return "json";
+    if (extension === "txt" || extension === "md" || extension === "csv") return "text";
+  }
+
+  return null;
+}
@@ -0,0 +1,319 @@
+import { DOMParser } from "linkedom";
+import { escapeHtml, renderDocumentHtml, renderPages } from "./html";
+import { openZip, type ZipArchive } from "./zip";
+import type { ConvertedDocument, DocumentProperties } from "./types";
+
+/**
+ * DOCX -> HTML
+ *
+ * Walks word/document.xml in order:
+ * - Paragraphs with a heading style (or outline level) become <h1>-<h6>
+ * - Numbered/bulleted paragraphs become nested <ol>/<ul> by list level
+ * - Tables become <table>; a row marked as a header row uses <th>
+ * - Bold/italic runs and hyperlinks are kept; deleted revisions and drawings are dropped
+ * - Explicit page breaks and section breaks start a new page section
+ *
+ * Properties come from docProps/core.xml and docProps/app.xml.
+ */
+
+interface ParagraphStyle {
+  headingLevel?: number;
+}
+
+interface DocxContext {
+  relationships: Map<string, string>;
+  styles: Map<string, ParagraphStyle>;
+  orderedLists: Set<string>;
+}
+
+interface RenderedParagraph {
+  html: string;
+  headingLevel?: number;
+  list?: { numId: string; level: number };
+  pageBreakBefore: boolean;
+  pageBreakAfter: boolean;
+}
+
+function parseXml(xml: Buffer | null): Document | null {
+  if (!xml) return null;
+  return new DOMParser().parseFromString(xml.toString("utf8"), "text/xml") as unknown as Document;
+}
+
+function children(el: Element, tagName?: string): Element[] {
+  return Array.from(el.children).filter((child) => !tagName || child.tagName === tagName);
+}
+
+function child(el: Element | null | undefined, tagName: string): Element | null {
+  return el ? (children(el, tagName)[0] ?? null) : null;
+}
+
+function firstText(doc: Document | null, tagName: string): string | undefined {
+  const text = doc?.getElementsByTagName(tagName)[0]?.textContent?.trim();
+  return text || undefined;
+}
+
+/**
+ * On/off property (<w:b/>, <w:b w:val="false"/>)
+ */
+function isOn(el: Element | null): boolean {
+  if (!el) return false;
+  const val = el.getAttribute("w:val");
+  return val === null || !["0", "false", "off"].includes(val);
+}
+
+function parseRelationships(zip: ZipArchive): Map<string, string> {
+  const relationships = new Map<string, string>();
+  const doc = parseXml(zip.read("word/_rels/document.xml.rels"));
+  for (const rel of Array.from(doc?.getElementsByTagName("Relationship") ?? [])) {
+    const id = rel.getAttribute("Id");
+    const target = rel.getAttribute("Target");
+    if (id && target) relationships.set(id, target);
+  }
+  return relationships;
+}
+
+function parseStyles(zip: ZipArchive): Map<string, ParagraphStyle> {
+  const styles = new Map<string, ParagraphStyle>();
+  const doc = parseXml(zip.read("word/styles.xml"));
+  for (const style of Array.from(doc?.getElementsByTagName("w:style") ?? [])) {
+    const id = style.getAttribute("w:styleId");
+    if (!id || style.getAttribute("w:type") !== "paragraph") continue;
+
+    const name = child(style, "w:name")?.getAttribute("w:val") ?? "";
+    const outline = child(child(style, "w:pPr"), "w:outlineLvl")?.getAttribute("w:val");
+    const named = name.match(/^heading\s*(\d)$/i);
+
+    let headingLevel: number | undefined;
+    if (outline !== null && outline !== undefined && Number(outline) < 6) {
+      headingLevel = Number(outline) + 1;
+    } else if (named) {
+      headingLevel = Number(named[1]);
+    } else if (/^title$/i.test(name)) {
+      headingLevel = 1;
+    }
+    styles.set(id, { headingLevel });
+  }
+  return styles;
+}
+
+/**
+ * numIds whose first level is numbered rather than bulleted
+ */
+function parseOrderedLists(zip: ZipArchive): Set<string> {
+  const ordered = new Set<string>();
+  const doc = parseXml(zip.read("word/numbering.xml"));
+  if (!doc) return ordered;
+
+  const orderedAbstract = new Set<string>();
+  for (const abstract of Array.from(doc.getElementsByTagName("w:abstractNum"))) {
+    const firstLevel = children(abstract, "w:lvl")[0];
+    const format = child(firstLevel, "w:numFmt")?.getAttribute("w:val");
+    if (format && format !== "bullet" && format !== "none") {
+      orderedAbstract.add(abstract.getAttribute("w:abstractNumId") ?? "");
+    }
+  }
+  for (const num of Array.from(doc.getElementsByTagName("w:num"))) {
+    const abstractId = child(num, "w:abstractNumId")?.getAttribute("w:val") ?? "";
+    if (orderedAbstract.has(abstractId)) ordered.add(num.getAttribute("w:numId") ?? "");
+  }
+  return ordered;
+}
+
+function parseProperties(zip: ZipArchive): DocumentProperties {
+  const core = parseXml(zip.read("docProps/core.xml"));
+  const app = parseXml(zip.read("docProps/app.xml"));
+  const pages = Number(firstText(app, "Pages"));
+
+  return {
+    title: firstText(core, "dc:title"),
+    author: firstText(core, "dc:creator"),
+    description: firstText(core, "dc:description") ?? firstText(core, "dc:subject"),
+    keywords: firstText(core, "cp:keywords"),
+    language: firstText(core, "dc:language"),
+    pageCount: Number.isFinite(pages) && pages > 0 ? pages : undefined,
+    createdAt: firstText(core, "dcterms:created"),
+    modifiedAt: firstText(core, "dcterms:modified"),
+  };
+}
+
+/**
+ * Render the inline content (runs, hyperlinks, fields) of a paragraph
+ */
+function renderInline(el: Element, ctx: DocxContext, state: { pageBreak: boolean }): string {
+  let html = "";
+
+  for (const node of children(el)) {
+    switch (node.tagName) {
+      case "w:r": {
+        const props = child(node, "w:rPr");
+        let text = "";
+        for (const part of children(node)) {
+          if (part.tagName === "w:t") text += escapeHtml(part.textContent ?? "");
+          else if (part.tagName === "w:tab") text += " ";
+          else if (part.tagName === "w:br" || part.tagName === "w:cr") {
+            if (part.getAttribute("w:type") === "page") state.pageBreak = true;
+            else text += "<br>";
+          }
+        }
+        if (text && isOn(child(props, "w:b"))) text = `<strong>${text}</strong>`;
+        if (text && isOn(child(props, "w:i"))) text = `<em>${text}</em>`;
+        html += text;
+        break;
+      }
+      case "w:hyperlink": {
+        const inner = renderInline(node, ctx, state);
+        const target = ctx.relationships.get(node.getAttribute("r:id") ?? "");
+        html += target ? `<a href="${escapeHtml(target)}">${inner}</a>` : inner;
+        break;
+      }
+      case "w:del":
+      case "w:pPr":
+        break;
+      default:
+        // w:ins, w:smartTag, w:fldSimple, w:sdt/w:sdtContent...: keep their runs
+        html += renderInline(node, ctx, state);
+    }
+  }
+
+  return html;
+}
+
+function renderParagraph(p: Element, ctx: DocxContext): RenderedParagraph {
+  const props = child(p, "w:pPr");
+  const styleId = child(props, "w:pStyle")?.getAttribute("w:val") ?? "";
+  const outline = child(props, "w:outlineLvl")?.getAttribute("w:val");
+  const numPr = child(props, "w:numPr");
+
+  const state = { pageBreak: false };
+  const html = renderInline(p, ctx, state).trim();
+
+  // Style IDs are localized, so prefer styles.xml; fall back to the English built-in IDs
+  const builtIn = styleId.match(/^heading(\d)$/i);
+  let headingLevel = ctx.styles.has(styleId)
+    ? ctx.styles.get(styleId)?.headingLevel
+    : builtIn
+      ? Number(builtIn[1])
+      : styleId === "Title"
+        ? 1
+        : undefined;
+  if (outline !== null && outline !== undefined && Number(outline) < 6) {
+    headingLevel = Number(outline) + 1;
+  }
+
+  const sectionBreak = child(props, "w:sectPr");
+  const continuous = child(sectionBreak, "w:type")?.getAttribute("w:val") === "continuous";
+
+  const numId = child(numPr, "w:numId")?.getAttribute("w:val");
+  const level = Number(child(numPr, "w:ilvl")?.getAttribute("w:val") ?? 0);
+
+  return {
+    html,
+    headingLevel,
+    list: numId && numId !== "0" && !headingLevel ? { numId, level } : undefined,
+    pageBreakBefore: isOn(child(props, "w:pageBreakBefore")),
+    pageBreakAfter: state.pageBreak || (sectionBreak !== null && !continuous),
+  };
+}
+
+function renderTable(table: Element, ctx: DocxContext): string {
+  const rows = children(table, "w:tr").map((row) => {
+    const header = isOn(child(child(row, "w:trPr"), "w:tblHeader"));
+    const tag = header ? "th" : "td";
+    const cells = children(row, "w:tc").map((cell) => {
+      const content = children(cell)
+        .map((block) =>
+          block.tagName === "w:p"
+            ? renderParagraph(block, ctx).html
+            : block.tagName === "w:tbl"
+              ? renderTable(block, ctx)
+              : ""
+        )
+        .filter(Boolean)
+        .join("<br>");
+      return `<${tag}>${content}</${tag}>`;
+    });
+    return `<tr>${cells.join("")}</tr>`;
+  });
+  return `<table>${rows.join("")}</table>`;
+}
+
+/**
+ * Convert a DOCX file to HTML
+ *
+ * @throws Error if the buffer is not a readable DOCX
+ */
+export function docxToHtml(body: Buffer): ConvertedDocument {
+  const zip = openZip(body);
+  const doc = parseXml(zip.read("word/document.xml"));
+  const documentBody = doc?.getElementsByTagName("w:body")[0];
+  if (!documentBody) {
+    throw new Error("Not a DOCX document (word/document.xml has no body)");
+  }
+
+  const ctx: DocxContext = {
+    relationships: parseRelationships(zip),
+    styles: parseStyles(zip),
+    orderedLists: parseOrderedLists(zip),
+  };
+
+  const pages: string[] = [];
+  let page = "";
+  const listStack: string[] = [];
+
+  const closeLists = () => {
+    while (listStack.length > 0) page += `</li></${listStack.pop()}>`;
+  };
+  const breakPage = () => {
+    closeLists();
+    if (page) pages.push(page);
+    page = "";
+  };
+
+  const renderBlocks = (container: Element) => {
+    for (const block of children(container)) {
+      if (block.tagName === "w:sdt") {
+        const content = child(block, "w:sdtContent");
+        if (content) renderBlocks(content);
+        continue;
+      }
+
+      if (block.tagName === "w:tbl") {
+        closeLists();
+        page += renderTable(block, ctx);
+        continue;
+      }
+
+      if (block.tagName !== "w:p") continue;
+
+      const paragraph = renderParagraph(block, ctx);
+      if (paragraph.pageBreakBefore) breakPage();
+
+      if (paragraph.list && paragraph.html) {
+        const depth = paragraph.list.level + 1;
+        const tag = ctx.orderedLists.has(paragraph.list.numId) ? "ol" : "ul";
+        let opened = false;
+        while (listStack.length > depth) page += `</li></${listStack.pop()}>`;
+        while (listStack.length < depth) {
+          page += `<${tag}>`;
+          listStack.push(tag);
+          opened = true;
+        }
+        if (!opened) page += "</li>";
+        page += `<li>${paragraph.html}`;
+      } else if (paragraph.html) {
+        closeLists();
+        const level = paragraph.headingLevel;
+        page += level ? `<h${level}>${paragraph.html}</h${level}>` : `<p>${paragraph.html}</p>`;
+      }
+
+      if (paragraph.pageBreakAfter) breakPage();
+    }
+  };
+
+  renderBlocks(documentBody);
+  breakPage();
+
+  const properties = parseProperties(zip);
+  const bodyHtml = pages.length > 1 ? renderPages(pages) : (pages[0] ?? "");
+  return { html: renderDocumentHtml(properties, bodyHtml), properties };
+}
@@ -0,0 +1,42 @@
+import type { DocumentProperties } from "./types";
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Wrap converted body HTML in a full document whose <head> carries the document properties
+ */
+export function renderDocumentHtml(properties: DocumentProperties, bodyHtml: string): string {
+  const head: string[] = ['<meta charset="utf-8">'];
+  if (properties.title) head.push(`<title>${escapeHtml(properties.title)}</title>`);
+  if (properties.author) {
+    head.push(`<meta name="author" content="${escapeHtml(properties.author)}">`);
+  }
+  if (properties.description) {
+    head.push(`<meta name="description" content="${escapeHtml(properties.description)}">`);
+  }
+  if (properties.keywords) {
+    head.push(`<meta name="keywords" content="${escapeHtml(properties.keywords)}">`);
+  }
+
+  const lang = properties.language ? ` lang="${escapeHtml(properties.language)}"` : "";
+  return (
+    `<!DOCTYPE html><html${lang}><head>${head.join("")}</head>` +
+    `<body><article>${bodyHtml}</article></body></html>`
+  );
+}
+
+/**
+ * Join per-page HTML into <section data-page="N"> elements separated by <hr>
+ */
+export function renderPages(pages: string[]): string {
+  return pages.map((page, i) => `<section data-page="${i + 1}">${page}</section>`).join("<hr>");
+}
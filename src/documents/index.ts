@@ -0,0 +1,75 @@
+/**
+ * Document ingestion
+ *
+ * Converts non-HTML response bodies (PDF, DOCX, plain text, JSON) into HTML so
+ * they flow through the regular cleaning and formatting pipeline unchanged.
+ */
+
+import { decodeBody } from "../utils/charset";
+import { detectDocumentType } from "./detect";
+import { docxToHtml } from "./docx";
+import { pdfToHtml } from "./pdf";
+import { jsonToHtml, textToHtml } from "./plain";
+import type { ConvertedDocument, DocumentProperties, DocumentType } from "./types";
+
+export type { ConvertedDocument, DocumentProperties, DocumentType } from "./types";
+export { detectDocumentType } from "./detect";
+
+/**
+ * Convert a document body of a known type to HTML
+ *
+ * @param body - Raw document body
+ * @param type - Document type
+ * @param contentType - Content-Type header (charset of text and JSON bodies)
+ * @throws Error if the body cannot be parsed as that type
+ */
+export function convertDocument(
+  body: Buffer,
+  type: DocumentType,
+  contentType?: string
+): ConvertedDocument {
+  switch (type) {
+    case "pdf":
+      return pdfToHtml(body);
+    case "docx":
+      return docxToHtml(body);
+    case "json":
+      return jsonToHtml(body, contentType);
+    case "text":
+      return textToHtml(body, contentType);
+  }
+}
+
+/**
+ * A response body decoded for the HTML pipeline
+ */
+export interface DecodedBody {
+  html: string;
+  /** Charset the HTML was decoded with (absent for binary documents) */
+  charset?: string;
+  /** Set when the body was a document converted to HTML */
+  document?: {
+    type: DocumentType;
+    properties: DocumentProperties;
+  };
+}
+
+/**
+ * Decode a raw response body: documents are converted, anything else is decoded
+ * as HTML using its declared or detected charset
+ *
+ * @param body - Raw response body
+ * @param contentType - Content-Type response header
+ * @param url - Final response URL
+ * @throws Error if the body is a document that cannot be parsed
+ */
+export function decodeResponseBody(body: Buffer, contentType?: string, url?: string): DecodedBody {
+  const type = detectDocumentType(body, contentType, url);
+  if (!type) {
+    const { text, charset } = decodeBody(body, contentType);
+    return { html: text, charset };
+  }
+
+  const { html, properties } = convertDocument(body, type, contentType);
+  return { html, document: { type, properties } };
+}
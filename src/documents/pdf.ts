@@ -0,0 +1,993 @@
+import { constants, inflateSync } from "node:zlib";
+import { escapeHtml, renderDocumentHtml, renderPages } from "./html";
+import type { ConvertedDocument, DocumentProperties } from "./types";
+
+/**
+ * PDF -> HTML
+ *
+ * A small text extractor, not a renderer:
+ * 1. Index every object (including objects packed in object streams)
+ * 2. Walk the page tree in order and run each page's content streams
+ * 3. Map shown strings to Unicode through the font's ToUnicode CMap (or WinAnsi)
+ * 4. Group text runs into lines by position, lines into paragraphs by vertical gap;
+ *    lines set noticeably larger than the body text become headings
+ *
+ * Each page becomes a <section data-page="N">. Properties come from the
+ * document information dictionary and the catalog's /Lang.
+ * Encrypted PDFs and image-only (scanned) pages yield no text.
+ */
+
+// ============================================================================
+// Object model and lexer
+// ============================================================================
+
+interface PdfName {
+  kind: "name";
+  value: string;
+}
+
+interface PdfRef {
+  kind: "ref";
+  num: number;
+}
+
+interface PdfOperator {
+  kind: "op";
+  value: string;
+}
+
+interface PdfDict {
+  kind: "dict";
+  entries: Record<string, PdfValue>;
+  /** Raw (still encoded) stream data, for stream objects */
+  stream?: Buffer;
+}
+
+type PdfValue = number | boolean | null | Buffer | PdfName | PdfRef | PdfDict | PdfValue[];
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * Largest decoded stream; bigger (or bomb-like) streams are skipped like unsupported filters
+ */
+const MAX_STREAM_BYTES = 64 * 1024 * 1024;
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+function isName(value: PdfValue | undefined, name?: string): value is PdfName {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !Buffer.isBuffer(value) &&
+    value.kind === "name" &&
+    (name === undefined || value.value === name)
+  );
+}
+
+function isDict(value: PdfValue | undefined): value is PdfDict {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !Buffer.isBuffer(value) &&
+    value.kind === "dict"
+  );
+}
+
+function isRef(value: PdfValue | undefined): value is PdfRef {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !Buffer.isBuffer(value) &&
+    value.kind === "ref"
+  );
+}
+
+/**
+ * Tokenizer/parser for PDF objects and content streams
+ */
+class PdfLexer {
+  pos: number;
+
+  constructor(
+    private readonly data: Buffer,
+    start = 0
+  ) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.data.length;
+  }
+
+  private skipWhitespace(): void {
+    const data = this.data;
+    while (this.pos < data.length) {
+      const c = data[this.pos];
+      if (WHITESPACE.has(c)) {
+        this.pos++;
+      } else if (c === 0x25 /* % */) {
+        while (this.pos < data.length && data[this.pos] !== 0x0a && data[this.pos] !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (
+      this.pos < this.data.length &&
+      !WHITESPACE.has(this.data[this.pos]) &&
+      !DELIMITERS.has(this.data[this.pos])
+    ) {
+      this.pos++;
+    }
+    return this.data.toString("latin1", start, this.pos);
+  }
+
+  private readLiteralString(): Buffer {
+    const data = this.data;
+    const bytes: number[] = [];
+    let depth = 1;
+    this.pos++; // (
+
+    while (this.pos < data.length) {
+      const c = data[this.pos++];
+      if (c === 0x5c /* \ */) {
+        const next = data[this.pos++];
+        const escapes: Record<number, number> = {
+          0x6e: 0x0a, // n
+          0x72: 0x0d, // r
+          0x74: 0x09, // t
+          0x62: 0x08, // b
+          0x66: 0x0c, // f
+        };
+        if (next in escapes) {
+          bytes.push(escapes[next]);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30;
+          for (let i = 0; i < 2 && data[this.pos] >= 0x30 && data[this.pos] <= 0x37; i++) {
+            octal = octal * 8 + (data[this.pos++] - 0x30);
+          }
+          bytes.push(octal & 0xff);
+        } else if (next === 0x0d) {
+          if (data[this.pos] === 0x0a) this.pos++; // line continuation
+        } else if (next !== 0x0a) {
+          bytes.push(next);
+        }
+      } else if (c === 0x28) {
+        depth++;
+        bytes.push(c);
+      } else if (c === 0x29) {
+        if (--depth === 0) break;
+        bytes.push(c);
+      } else {
+        bytes.push(c);
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  private readHexString(): Buffer {
+    const end = this.data.indexOf(0x3e /* > */, this.pos);
+    const stop = end === -1 ? this.data.length : end;
+    let hex = this.data.toString("latin1", this.pos + 1, stop).replace(/[^0-9a-fA-F]/g, "");
+    this.pos = stop + 1;
+    if (hex.length % 2 === 1) hex += "0";
+    return Buffer.from(hex, "hex");
+  }
+
+  /**
+   * Next value or operator; undefined at end of input
+   */
+  next(): PdfValue | PdfOperator | undefined {
+    this.skipWhitespace();
+    const data = this.data;
+    if (this.pos >= data.length) return undefined;
+
+    const c = data[this.pos];
+
+    if (c === 0x2f /* / */) {
+      this.pos++;
+      const raw = this.readRegular();
+      return { kind: "name", value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, h) => chr(h)) };
+    }
+    if (c === 0x28) return this.readLiteralString();
+    if (c === 0x3c /* < */) {
+      if (data[this.pos + 1] === 0x3c) {
+        this.pos += 2;
+        return this.readDict();
+      }
+      return this.readHexString();
+    }
+    if (c === 0x5b /* [ */) {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (this.pos >= data.length) break;
+        if (data[this.pos] === 0x5d) {
+          this.pos++;
+          break;
+        }
+        const item = this.next();
+        if (item === undefined) break;
+        if (!isOperator(item)) items.push(item);
+      }
+      return items;
+    }
+    if (c === 0x5d || c === 0x3e || c === 0x7b || c === 0x7d || c === 0x29) {
+      // Stray closing delimiter: skip it
+      this.pos++;
+      return this.next();
+    }
+
+    const word = this.readRegular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      const number = Number(word);
+      // "num gen R" is an indirect reference
+      if (/^\d+$/.test(word)) {
+        const save = this.pos;
+        this.skipWhitespace();
+        const gen = this.readRegular();
+        this.skipWhitespace();
+        if (/^\d+$/.test(gen) && this.data[this.pos] === 0x52 /* R */) {
+          const after = this.data[this.pos + 1];
+          if (after === undefined || WHITESPACE.has(after) || DELIMITERS.has(after)) {
+            this.pos++;
+            return { kind: "ref", num: number };
+          }
+        }
+        this.pos = save;
+      }
+      return number;
+    }
+    if (word === "true") return true;
+    if (word === "false") return false;
+    if (word === "null") return null;
+    return { kind: "op", value: word };
+  }
+
+  private readDict(): PdfDict {
+    const entries: Record<string, PdfValue> = {};
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.data.length) break;
+      if (this.data[this.pos] === 0x3e && this.data[this.pos + 1] === 0x3e) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.next();
+      if (!isName(key as PdfValue)) continue;
+      const value = this.next();
+      if (value !== undefined && !isOperator(value)) {
+        entries[(key as PdfName).value] = value;
+      }
+    }
+    return { kind: "dict", entries };
+  }
+}
+
+function isOperator(value: PdfValue | PdfOperator): value is PdfOperator {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !Buffer.isBuffer(value) &&
+    value.kind === "op"
+  );
+}
+
+function chr(hex: string): string {
+  return String.fromCharCode(parseInt(hex, 16));
+}
+
+// ============================================================================
+// Document index
+// ============================================================================
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfValue>();
+
+  constructor(private readonly data: Buffer) {
+    this.indexObjects();
+    this.indexObjectStreams();
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (isRef(value) && depth < 32) return this.resolve(this.objects.get(value.num), depth + 1);
+    return value;
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  get(dict: PdfDict | undefined, key: string): PdfValue | undefined {
+    return this.resolve(dict?.entries[key]);
+  }
+
+  /** All indexed objects, in object-number order */
+  values(): PdfValue[] {
+    return [...this.objects.entries()].sort(([a], [b]) => a - b).map(([, value]) => value);
+  }
+
+  /** Trailer entry (last occurrence wins, so incremental updates are honoured) */
+  trailerRef(key: string): PdfValue | undefined {
+    const text = this.data.toString("latin1");
+    const matches = [...text.matchAll(new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`, "g"))];
+    const last = matches[matches.length - 1];
+    return last ? this.objects.get(Number(last[1])) : undefined;
+  }
+
+  get encrypted(): boolean {
+    return /\/Encrypt\s+(\d+\s+\d+\s+R|<<)/.test(this.data.toString("latin1"));
+  }
+
+  /**
+   * Decoded stream content, or null for unsupported filters
+   */
+  streamData(dict: PdfDict): Buffer | null {
+    if (!dict.stream) return null;
+
+    const filter = this.get(dict, "Filter");
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map((f) =>
+      isName(this.resolve(f)) ? (this.resolve(f) as PdfName).value : ""
+    );
+
+    let data: Buffer = dict.stream;
+    for (const name of filters) {
+      if (name === "FlateDecode" || name === "Fl") {
+        try {
+          data = inflateSync(data, { maxOutputLength: MAX_STREAM_BYTES });
+        } catch {
+          // Truncated/slightly corrupt streams are common; take what inflates
+          try {
+            data = inflateSync(data, {
+              finishFlush: constants.Z_SYNC_FLUSH,
+              maxOutputLength: MAX_STREAM_BYTES,
+            });
+          } catch {
+            return null;
+          }
+        }
+      } else if (name === "ASCIIHexDecode" || name === "AHx") {
+        const hex = data
+          .toString("latin1")
+          .replace(/>.*$/s, "")
+          .replace(/[^0-9a-fA-F]/g, "");
+        data = Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex");
+      } else {
+        return null;
+      }
+    }
+    return data;
+  }
+
+  private indexObjects(): void {
+    const text = this.data.toString("latin1");
+    const objectRe = /(\d+)\s+(\d+)\s+obj\b/g;
+
+    for (const match of text.matchAll(objectRe)) {
+      const start = (match.index ?? 0) + match[0].length;
+      const lexer = new PdfLexer(this.data, start);
+      const value = lexer.next();
+      if (value === undefined || isOperator(value)) continue;
+
+      if (isDict(value)) {
+        const after = text.slice(lexer.pos, lexer.pos + 20);
+        const streamMatch = after.match(/^\s*stream\r?\n/);
+        if (streamMatch) {
+          const dataStart = lexer.pos + streamMatch[0].length;
+          const length = value.entries.Length;
+          let dataEnd = typeof length === "number" ? dataStart + length : -1;
+          if (
+            dataEnd < 0 ||
+            dataEnd > this.data.length ||
+            !/^\s*endstream/.test(text.slice(dataEnd, dataEnd + 20))
+          ) {
+            dataEnd = text.indexOf("endstream", dataStart);
+            if (dataEnd === -1) dataEnd = this.data.length;
+            // Drop the EOL before endstream
+            if (this.data[dataEnd - 1] === 0x0a) dataEnd--;
+            if (this.data[dataEnd - 1] === 0x0d) dataEnd--;
+          }
+          value.stream = this.data.subarray(dataStart, dataEnd);
+        }
+      }
+
+      this.objects.set(Number(match[1]), value);
+    }
+  }
+
+  /** PDF 1.5 object streams pack many objects into one compressed stream */
+  private indexObjectStreams(): void {
+    for (const value of [...this.objects.values()]) {
+      if (!isDict(value) || !isName(value.entries.Type, "ObjStm")) continue;
+
+      const data = this.streamData(value);
+      const count = value.entries.N;
+      const first = value.entries.First;
+      if (!data || typeof count !== "number" || typeof first !== "number") continue;
+
+      const header = new PdfLexer(data);
+      const offsets: Array<[number, number]> = [];
+      for (let i = 0; i < count; i++) {
+        const num = header.next();
+        const offset = header.next();
+        if (typeof num === "number" && typeof offset === "number") offsets.push([num, offset]);
+      }
+
+      for (const [num, offset] of offsets) {
+        if (this.objects.has(num)) continue;
+        const item = new PdfLexer(data, first + offset).next();
+        if (item !== undefined && !isOperator(item)) this.objects.set(num, item);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Fonts
+// ============================================================================
+
+/** WinAnsiEncoding differs from Latin-1 in 0x80-0x9F */
+const WIN_ANSI_EXTRAS: Record<number, string> = {
+  0x80: "€",
+  0x82: "‚",
+  0x83: "ƒ",
+  0x84: "„",
+  0x85: "…",
+  0x86: "†",
+  0x87: "‡",
+  0x88: "ˆ",
+  0x89: "‰",
+  0x8a: "Š",
+  0x8b: "‹",
+  0x8c: "Œ",
+  0x8e: "Ž",
+  0x91: "‘",
+  0x92: "’",
+  0x93: "“",
+  0x94: "”",
+  0x95: "•",
+  0x96: "–",
+  0x97: "—",
+  0x98: "˜",
+  0x99: "™",
+  0x9a: "š",
+  0x9b: "›",
+  0x9c: "œ",
+  0x9e: "ž",
+  0x9f: "Ÿ",
+};
+
+interface PdfFont {
+  /** Bytes per character code */
+  codeLength: number;
+  toUnicode: Map<number, string>;
+  /** Glyph widths in thousandths of text space */
+  widths: Map<number, number>;
+  defaultWidth: number;
+}
+
+const FALLBACK_FONT: PdfFont = {
+  codeLength: 1,
+  toUnicode: new Map(),
+  widths: new Map(),
+  defaultWidth: 500,
+};
+
+function utf16be(bytes: Buffer): string {
+  let text = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  }
+  return text;
+}
+
+/**
+ * Parse the bfchar/bfrange sections of a ToUnicode CMap
+ */
+function parseCMap(data: Buffer): { map: Map<number, string>; codeLength?: number } {
+  const map = new Map<number, string>();
+  const text = data.toString("latin1");
+
+  const codespace = text.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  const codeLength = codespace ? Math.ceil(codespace[1].length / 2) : undefined;
+
+  const hex = (value: string) => parseInt(value, 16);
+  const unicode = (value: string) => utf16be(Buffer.from(value, "hex"));
+
+  for (const section of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of section[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(hex(entry[1]), unicode(entry[2]));
+    }
+  }
+
+  for (const section of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const ranges = section[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<([0-9a-fA-F]*)>|\[([^\]]*)\])/g
+    );
+    for (const range of ranges) {
+      const low = hex(range[1]);
+      const high = Math.min(hex(range[2]), low + 0xffff);
+      if (range[4] !== undefined) {
+        const base = Buffer.from(range[4], "hex");
+        if (base.length < 2) {
+          // Too short to increment (<> or a single byte): every code maps to the value as given
+          for (let code = low; code <= high; code++) map.set(code, unicode(range[4]));
+          continue;
+        }
+        for (let code = low; code <= high; code++) {
+          const target = Buffer.from(base);
+          target.writeUInt16BE(
+            (target.readUInt16BE(target.length - 2) + code - low) & 0xffff,
+            target.length - 2
+          );
+          map.set(code, utf16be(target));
+        }
+      } else {
+        const targets = [...(range[5] ?? "").matchAll(/<([0-9a-fA-F]*)>/g)];
+        targets.forEach((target, i) => map.set(low + i, unicode(target[1])));
+      }
+    }
+  }
+
+  return { map, codeLength };
+}
+
+function loadFont(doc: PdfDocument, fontDict: PdfDict | undefined): PdfFont {
+  if (!fontDict) return FALLBACK_FONT;
+
+  const composite = isName(doc.get(fontDict, "Subtype"), "Type0");
+  const font: PdfFont = {
+    codeLength: composite ? 2 : 1,
+    toUnicode: new Map(),
+    widths: new Map(),
+    defaultWidth: composite ? 1000 : 500,
+  };
+
+  const toUnicode = doc.dict(fontDict.entries.ToUnicode);
+  const cmapData = toUnicode ? doc.streamData(toUnicode) : null;
+  if (cmapData) {
+    const cmap = parseCMap(cmapData);
+    font.toUnicode = cmap.map;
+    if (cmap.codeLength && composite) font.codeLength = cmap.codeLength;
+  }
+
+  if (composite) {
+    // Widths live on the descendant CIDFont: /DW default, /W [c [w...]] or [cfirst clast w]
+    const descendants = doc.get(fontDict, "DescendantFonts");
+    const cidFont = doc.dict(Array.isArray(descendants) ? descendants[0] : undefined);
+    const dw = doc.get(cidFont, "DW");
+    if (typeof dw === "number") font.defaultWidth = dw;
+
+    const w = doc.get(cidFont, "W");
+    if (Array.isArray(w)) {
+      for (let i = 0; i < w.length; ) {
+        const first = doc.resolve(w[i]);
+        const second = doc.resolve(w[i + 1]);
+        if (typeof first !== "number") break;
+        if (Array.isArray(second)) {
+          second.forEach((width, j) => {
+            const value = doc.resolve(width);
+            if (typeof value === "number") font.widths.set(first + j, value);
+          });
+          i += 2;
+        } else {
+          const width = doc.resolve(w[i + 2]);
+          if (typeof second === "number" && typeof width === "number") {
+            for (let code = first; code <= second && code - first < 0xffff; code++) {
+              font.widths.set(code, width);
+            }
+          }
+          i += 3;
+        }
+      }
+    }
+  } else {
+    const firstChar = doc.get(fontDict, "FirstChar");
+    const widths = doc.get(fontDict, "Widths");
+    if (typeof firstChar === "number" && Array.isArray(widths)) {
+      widths.forEach((width, i) => {
+        const value = doc.resolve(width);
+        if (typeof value === "number") font.widths.set(firstChar + i, value);
+      });
+    }
+  }
+
+  return font;
+}
+
+/**
+ * Decode a shown string to text and its advance width (in thousandths of the font size)
+ */
+function decodeString(font: PdfFont, bytes: Buffer): { text: string; width: number } {
+  let text = "";
+  let width = 0;
+
+  for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+    const code = font.codeLength === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i];
+    width += font.widths.get(code) ?? font.defaultWidth;
+
+    const mapped = font.toUnicode.get(code);
+    if (mapped !== undefined) {
+      text += mapped;
+    } else if (font.codeLength === 1) {
+      text += WIN_ANSI_EXTRAS[code] ?? String.fromCharCode(code);
+    }
+  }
+
+  return { text, width };
+}
+
+// ============================================================================
+// Content stream interpretation
+// ============================================================================
+
+interface TextLine {
+  y: number;
+  size: number;
+  text: string;
+  /** Horizontal position where the last run ended */
+  endX: number;
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function toMatrix(values: PdfValue[]): Matrix | null {
+  return values.length === 6 && values.every((v) => typeof v === "number")
+    ? (values as Matrix)
+    : null;
+}
+
+/**
+ * Run a page's content streams (and the form XObjects they draw) and collect text lines
+ */
+function extractLines(doc: PdfDocument, page: PdfDict, resources: PdfDict | undefined): TextLine[] {
+  const lines: TextLine[] = [];
+  const fontCache = new Map<PdfDict, PdfFont>();
+
+  const run = (content: Buffer, res: PdfDict | undefined, baseCtm: Matrix, depth: number) => {
+    const fonts = doc.dict(doc.get(res, "Font"));
+    const xobjects = doc.dict(doc.get(res, "XObject"));
+    const lexer = new PdfLexer(content);
+    const operands: PdfValue[] = [];
+
+    let ctm: Matrix = baseCtm;
+    const stack: Matrix[] = [];
+    let tm: Matrix = IDENTITY;
+    let tlm: Matrix = IDENTITY;
+    let font = FALLBACK_FONT;
+    let fontSize = 12;
+    let leading = 0;
+
+    const moveLine = (tx: number, ty: number) => {
+      tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+      tm = tlm;
+    };
+
+    const show = (bytes: Buffer) => {
+      const { text, width } = decodeString(font, bytes);
+      const m = multiply(tm, ctm);
+      const scale = Math.hypot(m[2], m[3]) || 1;
+      const size = fontSize * scale;
+      const x = m[4];
+      const y = m[5];
+      const advance = (width / 1000) * fontSize;
+      tm = multiply([1, 0, 0, 1, advance, 0], tm);
+
+      if (!text) return;
+      const last = lines[lines.length - 1];
+      if (last && Math.abs(last.y - y) < Math.max(last.size, size) * 0.5) {
+        // Same line: a visible gap between runs is a word break
+        const gap = x - last.endX;
+        if (gap > size * 0.15 && !last.text.endsWith(" ") && !text.startsWith(" ")) {
+          last.text += " ";
+        }
+        last.text += text;
+        last.size = Math.max(last.size, size);
+      } else {
+        lines.push({ y, size, text, endX: 0 });
+      }
+      lines[lines.length - 1].endX = x + advance * scale;
+    };
+
+    for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+      if (!isOperator(token)) {
+        operands.push(token);
+        continue;
+      }
+
+      const args = operands.splice(0);
+      switch (token.value) {
+        case "q":
+          stack.push(ctm);
+          break;
+        case "Q":
+          ctm = stack.pop() ?? baseCtm;
+          break;
+        case "cm": {
+          const m = toMatrix(args);
+          if (m) ctm = multiply(m, ctm);
+          break;
+        }
+        case "BT":
+          tm = IDENTITY;
+          tlm = IDENTITY;
+          break;
+        case "Tf": {
+          const [name, size] = args;
+          const fontDict = isName(name) ? doc.dict(fonts?.entries[name.value]) : undefined;
+          if (fontDict) {
+            if (!fontCache.has(fontDict)) fontCache.set(fontDict, loadFont(doc, fontDict));
+            font = fontCache.get(fontDict) ?? FALLBACK_FONT;
+          } else {
+            font = FALLBACK_FONT;
+          }
+          if (typeof size === "number") fontSize = size;
+          break;
+        }
+        case "TL":
+          if (typeof args[0] === "number") leading = args[0];
+          break;
+        case "Td":
+        case "TD":
+          if (typeof args[0] === "number" && typeof args[1] === "number") {
+            if (token.value === "TD") leading = -args[1];
+            moveLine(args[0], args[1]);
+          }
+          break;
+        case "Tm": {
+          const m = toMatrix(args);
+          if (m) {
+            tlm = m;
+            tm = m;
+          }
+          break;
+        }
+        case "T*":
+          moveLine(0, -leading);
+          break;
+        case "Tj":
+          if (Buffer.isBuffer(args[0])) show(args[0]);
+          break;
+        case "'":
+        case '"': {
+          moveLine(0, -leading);
+          const bytes = args[args.length - 1];
+          if (Buffer.isBuffer(bytes)) show(bytes);
+          break;
+        }
+        case "TJ":
+          if (Array.isArray(args[0])) {
+            for (const item of args[0]) {
+              if (Buffer.isBuffer(item)) {
+                show(item);
+              } else if (typeof item === "number") {
+                // Positive adjustments move left; large negative ones are word gaps
+                tm = multiply([1, 0, 0, 1, (-item / 1000) * fontSize, 0], tm);
+              }
+            }
+          }
+          break;
+        case "Do": {
+          const name = args[0];
+          const xobject = isName(name) ? doc.dict(xobjects?.entries[name.value]) : undefined;
+          if (xobject && isName(doc.get(xobject, "Subtype"), "Form") && depth < 8) {
+            const data = doc.streamData(xobject);
+            const matrix = toMatrix((doc.get(xobject, "Matrix") as PdfValue[]) ?? []) ?? IDENTITY;
+            const formResources = doc.dict(xobject.entries.Resources) ?? res;
+            if (data) run(data, formResources, multiply(matrix, ctm), depth + 1);
+          }
+          break;
+        }
+      }
+    }
+  };
+
+  const contents = doc.get(page, "Contents");
+  const streams = (Array.isArray(contents) ? contents : [contents])
+    .map((value) => doc.dict(value))
+    .filter((dict): dict is PdfDict => dict !== undefined);
+  const data = Buffer.concat(
+    streams.flatMap((stream) => {
+      const decoded = doc.streamData(stream);
+      return decoded ? [decoded, Buffer.from("\n")] : [];
+    })
+  );
+  run(data, resources, IDENTITY, 0);
+
+  return lines;
+}
+
+// ============================================================================
+// Layout -> HTML
+// ============================================================================
+
+/**
+ * Most common line size, weighted by text length
+ */
+function bodySize(lines: TextLine[]): number {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.size * 2) / 2;
+    weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+  }
+  let best = 0;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  }
+  return best || 12;
+}
+
+function joinLines(previous: string, next: string): string {
+  // Re-join words hyphenated across lines
+  if (/[a-zA-Z]-$/.test(previous) && /^[a-z]/.test(next)) return previous.slice(0, -1) + next;
+  return `${previous} ${next}`;
+}
+
+function renderPage(lines: TextLine[], baseSize: number): string {
+  const blocks: Array<{ heading: number; text: string; size: number; y: number }> = [];
+
+  for (const line of lines) {
+    const text = line.text.replace(/\s+/g, " ").trim();
+    if (!text) continue;
+
+    const ratio = line.size / baseSize;
+    const heading = text.length < 200 ? (ratio >= 1.6 ? 1 : ratio >= 1.2 ? 2 : 0) : 0;
+    const last = blocks[blocks.length - 1];
+
+    const gap = last ? last.y - line.y : Infinity;
+    const continues =
+      last !== undefined &&
+      last.heading === heading &&
+      Math.abs(last.size - line.size) < 0.5 &&
+      gap > 0 &&
+      gap < Math.max(last.size, line.size) * 1.8;
+
+    if (continues) {
+      last.text = joinLines(last.text, text);
+      last.y = line.y;
+    } else {
+      blocks.push({ heading, text, size: line.size, y: line.y });
+    }
+  }
+
+  return blocks
+    .map(({ heading, text }) =>
+      heading ? `<h${heading}>${escapeHtml(text)}</h${heading}>` : `<p>${escapeHtml(text)}</p>`
+    )
+    .join("");
+}
+
+// ============================================================================
+// Properties
+// ============================================================================
+
+function decodeTextString(value: PdfValue | undefined): string | undefined {
+  if (!Buffer.isBuffer(value)) return undefined;
+  const text =
+    value[0] === 0xfe && value[1] === 0xff ? utf16be(value.subarray(2)) : value.toString("latin1");
+  return text.replace(/\0/g, "").trim() || undefined;
+}
+
+/**
+ * PDF date ("D:20240115093000+01'00'") -> ISO 8601
+ */
+function parsePdfDate(value: string | undefined): string | undefined {
+  const match = value?.match(
+    /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/
+  );
+  if (!match) return undefined;
+
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00", zone] = match;
+  let offset = "Z";
+  if (zone && zone !== "Z") {
+    const digits = zone.replace(/'/g, "");
+    offset = `${digits.slice(0, 3)}:${digits.slice(3, 5) || "00"}`;
+  }
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/**
+ * Collect leaf pages in reading order, with their (possibly inherited) resources
+ */
+function collectPages(
+  doc: PdfDocument,
+  node: PdfDict | undefined,
+  inherited: PdfDict | undefined,
+  seen: Set<PdfDict>,
+  out: Array<{ page: PdfDict; resources: PdfDict | undefined }>
+): void {
+  if (!node || seen.has(node)) return;
+  seen.add(node);
+
+  const resources = doc.dict(node.entries.Resources) ?? inherited;
+  const kids = doc.get(node, "Kids");
+  if (Array.isArray(kids)) {
+    for (const kid of kids) collectPages(doc, doc.dict(kid), resources, seen, out);
+  } else {
+    out.push({ page: node, resources });
+  }
+}
+
+/**
+ * Convert a PDF file to HTML
+ *
+ * @throws Error for encrypted PDFs
+ */
+export function pdfToHtml(body: Buffer): ConvertedDocument {
+  const doc = new PdfDocument(body);
+  if (doc.encrypted) {
+    throw new Error("Encrypted PDFs are not supported");
+  }
+
+  let catalog = doc.dict(doc.trailerRef("Root"));
+  if (!catalog) {
+    catalog = doc
+      .values()
+      .find((v): v is PdfDict => isDict(v) && isName(v.entries.Type, "Catalog"));
+  }
+
+  const pages: Array<{ page: PdfDict; resources: PdfDict | undefined }> = [];
+  collectPages(doc, doc.dict(catalog?.entries.Pages), undefined, new Set(), pages);
+  if (pages.length === 0) {
+    // No usable page tree: fall back to page objects in object order
+    for (const value of doc.values()) {
+      if (isDict(value) && isName(value.entries.Type, "Page")) {
+        pages.push({ page: value, resources: doc.dict(value.entries.Resources) });
+      }
+    }
+  }
+
+  const pageLines = pages.map(({ page, resources }) => extractLines(doc, page, resources));
+  const baseSize = bodySize(pageLines.flat());
+  const pagesHtml = pageLines.map((lines) => renderPage(lines, baseSize));
+
+  const info = doc.dict(doc.trailerRef("Info"));
+  const lang = doc.get(catalog, "Lang");
+  const properties: DocumentProperties = {
+    title: decodeTextString(doc.get(info, "Title")),
+    author: decodeTextString(doc.get(info, "Author")),
+    description: decodeTextString(doc.get(info, "Subject")),
+    keywords: decodeTextString(doc.get(info, "Keywords")),
+    language: decodeTextString(lang),
+    pageCount: pages.length,
+    createdAt: parsePdfDate(decodeTextString(doc.get(info, "CreationDate"))),
+    modifiedAt: parsePdfDate(decodeTextString(doc.get(info, "ModDate"))),
+  };
+
+  const bodyHtml = pagesHtml.length > 1 ? renderPages(pagesHtml) : (pagesHtml[0] ?? "");
+  return { html: renderDocumentHtml(properties, bodyHtml), properties };
+}
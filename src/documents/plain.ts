@@ -0,0 +1,48 @@
+import { decodeBody } from "../utils/charset";
+import { escapeHtml, renderDocumentHtml, renderPages } from "./html";
+import type { ConvertedDocument } from "./types";
+
+/**
+ * Decode a text body by its declared charset, BOM or detection (the BOM is dropped)
+ */
+function decodeText(body: Buffer, contentType?: string): string {
+  return decodeBody(body, contentType, { sniffMeta: false }).text;
+}
+
+/**
+ * Plain text -> HTML: blank lines separate paragraphs, single newlines become <br>.
+ * Form feeds (page breaks in text exports) become page sections.
+ */
+export function textToHtml(body: Buffer, contentType?: string): ConvertedDocument {
+  const text = decodeText(body, contentType).replace(/\r\n?/g, "\n");
+
+  const pages = text.split("\f").map((page) =>
+    page
+      .split(/\n[ \t]*\n/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean)
+      .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+      .join("")
+  );
+
+  const bodyHtml = pages.length > 1 ? renderPages(pages) : pages[0];
+
+  return { html: renderDocumentHtml({}, bodyHtml), properties: {} };
+}
+
+/**
+ * JSON -> HTML: a pretty-printed code block (invalid JSON is kept verbatim)
+ */
+export function jsonToHtml(body: Buffer, contentType?: string): ConvertedDocument {
+  const raw = decodeText(body, contentType);
+
+  let pretty: string;
+  try {
+    pretty = JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    pretty = raw;
+  }
+
+  const bodyHtml = `<pre><code class="language-json">${escapeHtml(pretty)}</code></pre>`;
+  return { html: renderDocumentHtml({}, bodyHtml), properties: {} };
+}
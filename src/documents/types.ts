@@ -0,0 +1,36 @@
+/**
+ * Document ingestion types
+ */
+
+/**
+ * Non-HTML response body types the engines can convert
+ */
+export type DocumentType = "pdf" | "docx" | "text" | "json";
+
+/**
+ * Properties read from the document itself (PDF info dictionary, DOCX core/app properties)
+ */
+export interface DocumentProperties {
+  title?: string;
+  author?: string;
+  /** PDF Subject / DOCX description or subject */
+  description?: string;
+  keywords?: string;
+  /** BCP 47 language tag (PDF /Lang, DOCX dc:language) */
+  language?: string;
+  /** Number of pages (PDF page tree, DOCX app.xml page count) */
+  pageCount?: number;
+  /** Creation date (ISO 8601) */
+  createdAt?: string;
+  /** Last modification date (ISO 8601) */
+  modifiedAt?: string;
+}
+
+/**
+ * A document converted to HTML, ready for the regular cleaning/formatting pipeline
+ */
+export interface ConvertedDocument {
+  /** Full HTML document; page breaks are <hr> between <section data-page="N"> elements */
+  html: string;
+  properties: DocumentProperties;
+}
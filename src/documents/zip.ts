@@ -0,0 +1,105 @@
+import { inflateRawSync } from "node:zlib";
+
+/**
+ * Minimal zip reader (enough for OOXML containers)
+ *
+ * Reads the central directory and inflates entries on demand. Supports the
+ * stored and deflate methods; no zip64, encryption or multi-disk archives.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/**
+ * Largest entry we inflate, whatever the archive declares (guards against zip bombs)
+ */
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Opened zip archive
+ */
+export interface ZipArchive {
+  /** Entry names in directory order */
+  names: string[];
+  /** Entry content, or null if the archive has no such entry (throws for oversized entries) */
+  read(name: string): Buffer | null;
+}
+
+/**
+ * Open a zip archive held in memory
+ *
+ * @throws Error if the buffer is not a readable zip
+ */
+export function openZip(buffer: Buffer): ZipArchive {
+  // End of central directory: last 22 bytes, plus up to 64KB of comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("Not a zip archive (no end of central directory)");
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt zip central directory");
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return {
+    names: [...entries.keys()],
+    read(name: string): Buffer | null {
+      const entry = entries.get(name);
+      if (!entry) return null;
+
+      const local = entry.localHeaderOffset;
+      if (buffer.readUInt32LE(local) !== LOCAL_SIGNATURE) {
+        throw new Error(`Corrupt zip entry: ${name}`);
+      }
+      const start = local + 30 + buffer.readUInt16LE(local + 26) + buffer.readUInt16LE(local + 28);
+      const data = buffer.subarray(start, start + entry.compressedSize);
+
+      if (entry.uncompressedSize > MAX_ENTRY_BYTES) {
+        throw new Error(`Zip entry too large: ${name} (${entry.uncompressedSize} bytes)`);
+      }
+      if (entry.method === 0) return Buffer.from(data);
+      if (entry.method === 8) {
+        // Never inflate past the declared size: a lying header can't balloon memory
+        try {
+          return inflateRawSync(data, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new Error(`Cannot inflate zip entry ${name}: ${reason}`);
+        }
+      }
+      throw new Error(`Unsupported zip compression method ${entry.method} for ${name}`);
+    },
+  };
+}
@@ -103,6 +103,32 @@ export class EngineUnavailableError extends EngineError {
   }
 }
 
+/**
+ * A scripted page action (ScrapeOptions.actions) failed
+ * Not retryable: the page answered, it just doesn't behave as the script expects
+ */
+export class PageActionError extends EngineError {
+  /** Position of the failed action in the actions list */
+  readonly actionIndex: number;
+  readonly actionType: string;
+
+  constructor(
+    engine: EngineName,
+    actionIndex: number,
+    actionType: string,
+    reason: string,
+    cause?: Error
+  ) {
+    super(engine, `Action ${actionIndex + 1} (${actionType}) failed: ${reason}`, {
+      cause,
+      retryable: false,
+    });
+    this.name = "PageActionError";
+    this.actionIndex = actionIndex;
+    this.actionType = actionType;
+  }
+}
+
 /**
  * Signal to orchestrator to move to next engine
  * Not a real error - used for control flow
@@ -0,0 +1,355 @@
+/**
+ * Scripted page actions
+ *
+ * Steps the Hero engine runs on the loaded page before extracting it: dismissing cookie
+ * walls, expanding "show more" sections, switching tabs, filling in a search box. Each
+ * step has a timeout and may be optional, and any step can capture a screenshot or an
+ * HTML snapshot of the page as it left it.
+ *
+ * @example
+ * actions: [
+ *   { type: "click", selector: "#accept-cookies", optional: true },
+ *   { type: "type", selector: "input[name=q]", text: "pricing" },
+ *   { type: "press", key: "Enter", capture: ["screenshot"] },
+ *   { type: "waitForSelector", selector: ".results" },
+ * ]
+ */
+
+import type Hero from "@ulixee/hero";
+import { KeyboardKey, type ISuperElement } from "@ulixee/hero";
+import type { EngineMeta } from "../types.js";
+import type { CaptureOptions } from "../../types.js";
+import { PageActionError } from "../errors.js";
+import {
+  clickLoadMore,
+  scrollToBottom,
+  type PageInteractionTab,
+} from "../../utils/page-interaction.js";
+import { sleep } from "../../utils/rate-limiter.js";
+
+/**
+ * Step timeout when the action doesn't set timeoutMs
+ */
+const DEFAULT_ACTION_TIMEOUT_MS = 10_000;
+
+/**
+ * Options shared by every action
+ */
+export interface PageActionOptions {
+  /** Fail the step when it hasn't finished after this long (default: 10000; not applied to waitForTimeout) */
+  timeoutMs?: number;
+  /** Carry on with the next step when this one fails, instead of failing the scrape (default: false) */
+  optional?: boolean;
+  /** Capture the page once the step has run (also after an optional step failed) */
+  capture?: Array<"screenshot" | "html">;
+}
+
+/** Click an element */
+export interface ClickAction extends PageActionOptions {
+  type: "click";
+  selector: string;
+}
+
+/** Click an input and type text into it */
+export interface TypeAction extends PageActionOptions {
+  type: "type";
+  selector: string;
+  text: string;
+}
+
+/** Press a key, e.g. "Enter", "Escape", "Tab" or "ArrowDown" */
+export interface PressAction extends PageActionOptions {
+  type: "press";
+  key: string;
+}
+
+/** Wait for an element to be in the page (or visible) */
+export interface WaitForSelectorAction extends PageActionOptions {
+  type: "waitForSelector";
+  selector: string;
+  /** Wait until the element is visible, not just present (default: false) */
+  visible?: boolean;
+}
+
+/** Pause */
+export interface WaitForTimeoutAction extends PageActionOptions {
+  type: "waitForTimeout";
+  ms: number;
+}
+
+/** Scroll an element into view, or to the bottom of the page to load lazy content */
+export interface ScrollAction extends PageActionOptions {
+  type: "scroll";
+  /** Element to scroll into view (default: scroll to the bottom) */
+  selector?: string;
+}
+
+/** Click a "load more" button until it disappears or stops adding content */
+export interface ClickLoadMoreAction extends PageActionOptions {
+  type: "clickLoadMore";
+  selector: string;
+  /** Most clicks (default: 5) */
+  maxClicks?: number;
+}
+
+/** Run JavaScript in the page; the value of its last expression is returned */
+export interface EvaluateAction extends PageActionOptions {
+  type: "evaluate";
+  script: string;
+}
+
+/**
+ * A scripted step run on the page before extraction
+ */
+export type PageAction =
+  | ClickAction
+  | TypeAction
+  | PressAction
+  | WaitForSelectorAction
+  | WaitForTimeoutAction
+  | ScrollAction
+  | ClickLoadMoreAction
+  | EvaluateAction;
+
+/**
+ * Outcome of one action
+ */
+export interface PageActionResult {
+  /** Position in the actions list */
+  index: number;
+  type: PageAction["type"];
+  /** "failed" only for optional steps: a required step's failure fails the scrape */
+  status: "completed" | "failed";
+  durationMs: number;
+  /** Why the step failed */
+  error?: string;
+  /** Value returned by an "evaluate" script, or the clicks made by "clickLoadMore" */
+  value?: unknown;
+  /** Screenshot taken after the step (capture: ["screenshot"]) */
+  screenshot?: Buffer;
+  /** Page HTML after the step (capture: ["html"]) */
+  html?: string;
+}
+
+/**
+ * Options for runPageActions
+ */
+export interface RunPageActionsOptions {
+  /** Screenshot settings for captures */
+  captureOptions?: CaptureOptions;
+  /** Cut the current step short and stop once this fires */
+  signal?: AbortSignal;
+  logger?: EngineMeta["logger"];
+}
+
+/**
+ * Run actions in order on the page Hero has loaded
+ *
+ * @returns One result per step finished (fewer than the actions when the signal fired)
+ * @throws PageActionError when a step that isn't optional fails
+ */
+export async function runPageActions(
+  hero: Hero,
+  actions: PageAction[],
+  options: RunPageActionsOptions = {}
+): Promise<PageActionResult[]> {
+  const { logger, signal } = options;
+  const results: PageActionResult[] = [];
+
+  for (const [index, action] of actions.entries()) {
+    if (signal?.aborted) break;
+
+    const startTime = Date.now();
+    const result: PageActionResult = {
+      index,
+      type: action.type,
+      status: "completed",
+      durationMs: 0,
+    };
+
+    try {
+      const value =
+        action.type === "waitForTimeout"
+          ? await runAction(hero, action, signal)
+          : await withTimeout(
+              runAction(hero, action, signal),
+              action.timeoutMs ?? DEFAULT_ACTION_TIMEOUT_MS,
+              signal
+            );
+      if (value !== undefined) result.value = value;
+      logger?.debug(`[hero] Action ${index + 1} (${action.type}) completed`);
+    } catch (error) {
+      if (signal?.aborted) break;
+      const reason = error instanceof Error ? error.message : String(error);
+      if (!action.optional) {
+        throw new PageActionError(
+          "hero",
+          index,
+          action.type,
+          reason,
+          error instanceof Error ? error : undefined
+        );
+      }
+      logger?.debug(`[hero] Optional action ${index + 1} (${action.type}) failed: ${reason}`);
+      result.status = "failed";
+      result.error = reason;
+    }
+    // A step the signal cut short is left out, like the steps after it
+    if (signal?.aborted) break;
+    result.durationMs = Date.now() - startTime;
+
+    await capturePage(hero, action, result, options);
+    results.push(result);
+  }
+
+  return results;
+}
+
+async function runAction(hero: Hero, action: PageAction, signal?: AbortSignal): Promise<unknown> {
+  switch (action.type) {
+    case "click": {
+      await hero.click(await findElement(hero, action.selector, action, true));
+      return undefined;
+    }
+    case "type": {
+      await hero.click(await findElement(hero, action.selector, action, true));
+      await hero.type(action.text);
+      return undefined;
+    }
+    case "press": {
+      const keyCode = KeyboardKey[action.key as keyof typeof KeyboardKey];
+      if (keyCode === undefined) {
+        throw new Error(`Unknown key "${action.key}"`);
+      }
+      await hero.type(keyCode);
+      return undefined;
+    }
+    case "waitForSelector": {
+      await findElement(hero, action.selector, action, action.visible ?? false);
+      return undefined;
+    }
+    case "waitForTimeout": {
+      await sleep(action.ms, signal);
+      return undefined;
+    }
+    case "scroll": {
+      if (action.selector) {
+        await hero.scrollTo(await findElement(hero, action.selector, action, false));
+        return undefined;
+      }
+      await scrollToBottom(await scriptableTab(hero), {
+        timeoutMs: action.timeoutMs ?? DEFAULT_ACTION_TIMEOUT_MS,
+      });
+      return undefined;
+    }
+    case "clickLoadMore": {
+      const { clicks } = await clickLoadMore(await scriptableTab(hero), action.selector, {
+        maxClicks: action.maxClicks,
+      });
+      return clicks;
+    }
+    case "evaluate": {
+      const tab = await scriptableTab(hero);
+      // Indirect eval runs the script in the page's global scope
+      return tab.evaluate((script: string) => (0, eval)(script), action.script);
+    }
+    default:
+      throw new Error(`Unknown action type "${(action as { type: unknown }).type}"`);
+  }
+}
+
+/**
+ * Wait for the element matching `selector`
+ */
+async function findElement(
+  hero: Hero,
+  selector: string,
+  action: PageAction,
+  visible: boolean
+): Promise<ISuperElement> {
+  if (!selector) {
+    throw new Error("No selector given");
+  }
+  const element = await hero.waitForElement(hero.document.querySelector(selector), {
+    timeoutMs: action.timeoutMs ?? DEFAULT_ACTION_TIMEOUT_MS,
+    waitForVisible: visible,
+  });
+  if (!element) {
+    throw new Error(`No element matches "${selector}"`);
+  }
+  return element;
+}
+
+/**
+ * The active tab, when it can run scripts in the page
+ */
+async function scriptableTab(hero: Hero): Promise<PageInteractionTab> {
+  const maybeTab: unknown = await hero.activeTab;
+  if (
+    maybeTab &&
+    typeof maybeTab === "object" &&
+    "evaluate" in maybeTab &&
+    typeof (maybeTab as { evaluate?: unknown }).evaluate === "function"
+  ) {
+    return maybeTab as PageInteractionTab;
+  }
+  throw new Error("This browser can't run scripts in the page");
+}
+
+/**
+ * Take the captures a step asked for. Best-effort: a failed capture is logged and left out.
+ */
+async function capturePage(
+  hero: Hero,
+  action: PageAction,
+  result: PageActionResult,
+  { captureOptions = {}, logger }: RunPageActionsOptions
+): Promise<void> {
+  const capture = action.capture ?? [];
+
+  if (capture.includes("screenshot")) {
+    const format = captureOptions.screenshotFormat ?? "png";
+    try {
+      result.screenshot = await hero.takeScreenshot({
+        format,
+        fullPage: captureOptions.fullPage ?? false,
+        jpegQuality: format === "jpeg" ? (captureOptions.quality ?? 80) : undefined,
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      logger?.warn(`[hero] Screenshot after action ${result.index + 1} failed (skipped): ${msg}`);
+    }
+  }
+
+  if (capture.includes("html")) {
+    try {
+      result.html = await hero.document.documentElement.outerHTML;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      logger?.warn(
+        `[hero] HTML snapshot after action ${result.index + 1} failed (skipped): ${msg}`
+      );
+    }
+  }
+}
+
+/**
+ * Settle with `promise`, or reject once `ms` have passed or `signal` fires
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number, signal?: AbortSignal): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Step did not finish within ${ms}ms`)), ms);
+    onAbort = () => reject(new Error("Step aborted"));
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+    promise.catch(() => {});
+  }
+}
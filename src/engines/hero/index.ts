@@ -7,27 +7,65 @@
  */
 
 import Hero from "@ulixee/hero";
-import type { Engine, EngineConfig, EngineMeta, EngineResult } from "../types.js";
+import type { Resource } from "@ulixee/hero";
+import type { Engine, EngineConfig, EngineMeta, EngineResult, RedirectHop } from "../types.js";
 import {
   EngineError,
   ChallengeDetectedError,
   InsufficientContentError,
   EngineTimeoutError,
   EngineUnavailableError,
+  PageActionError,
 } from "../errors.js";
 import { ENGINE_CONFIGS } from "../types.js";
 import { detectChallenge } from "../../cloudflare/detector.js";
 import { handleChallenge } from "../../cloudflare/handler.js";
 import type { IBrowserPool } from "../../browser/types.js";
+import { printToPdf } from "../../browser/pdf-plugin.js";
 import { setupApiInterceptor } from "../../discovery/api-interceptor.js";
 import { simulateBehavior } from "../../utils/behavior-simulator.js";
 import { scrollToBottom, waitForNetworkIdle } from "../../utils/page-interaction.js";
+import { runPageActions } from "./actions.js";
 
 /**
  * Minimum content length threshold
  */
 const MIN_CONTENT_LENGTH = 100;
 
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts.
+ * The underlying work keeps running and is left to bail out at its next abort checkpoint.
+ */
+function raceAbort<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  onAbort: () => Error
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(onAbort());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      promise.catch(() => {});
+      reject(onAbort());
+    };
+    signal.addEventListener("abort", abort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", abort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", abort);
+        reject(error);
+      }
+    );
+  });
+}
+
 /**
  * Hero Engine implementation using browser pool
  */
@@ -123,32 +161,32 @@ export class HeroEngine implements Engine {
     logger?.debug(`[hero] Starting browser scrape of ${url}`);
 
     try {
-      const result = await pool.withBrowser(async (hero: Hero) => {
+      const run = async (hero: Hero): Promise<EngineResult> => {
         const interceptApis = options.discoveryOptions?.interceptApiRequests === true;
         const interceptor = interceptApis
           ? setupApiInterceptor(hero, options.discoveryOptions?.apiInterceptorOptions)
           : null;
 
+        // Set up abort handling: closing the tab stops the page navigating, and the pool
+        // replaces this browser once it is released
+        let aborted = false;
+        const onAbort = () => {
+          aborted = true;
+          Promise.resolve()
+            .then(() => hero.activeTab.close())
+            .catch(() => {});
+        };
+        abortSignal?.addEventListener("abort", onAbort, { once: true });
+
         try {
           if (interceptor) {
             await interceptor.ready;
           }
 
-          // Set up abort handling
-          let aborted = false;
-          if (abortSignal) {
-            abortSignal.addEventListener(
-              "abort",
-              () => {
-                aborted = true;
-              },
-              { once: true }
-            );
-          }
-
-          // Navigate to URL
+          // Navigate to URL (resources since this command are this page's)
           const timeoutMs = options.timeoutMs || this.config.maxTimeout;
-          await hero.goto(url, { timeoutMs });
+          const sinceCommandId = await hero.lastCommandId;
+          const navigation = await hero.goto(url, { timeoutMs });
 
           if (aborted) {
             throw new EngineTimeoutError("hero", Date.now() - startTime);
@@ -220,6 +258,19 @@ export class HeroEngine implements Engine {
             throw new EngineTimeoutError("hero", Date.now() - startTime);
           }
 
+          // Scripted actions (a failing step that isn't optional fails the scrape)
+          const actionResults = options.actions?.length
+            ? await runPageActions(hero, options.actions, {
+                captureOptions: options.captureOptions,
+                signal: abortSignal,
+                logger,
+              })
+            : undefined;
+
+          if (aborted) {
+            throw new EngineTimeoutError("hero", Date.now() - startTime);
+          }
+
           // Wait for selector if specified
           if (options.waitForSelector) {
             try {
@@ -242,20 +293,41 @@ export class HeroEngine implements Engine {
             throw new InsufficientContentError("hero", textContent.length, MIN_CONTENT_LENGTH);
           }
 
+          const { statusCode, headers, redirects } = await this.readDocumentResponse(
+            hero,
+            finalUrl,
+            navigation,
+            sinceCommandId,
+            logger
+          );
+
           const duration = Date.now() - startTime;
-          logger?.debug(`[hero] Success: ${html.length} chars in ${duration}ms`);
+          logger?.debug(`[hero] Success: ${statusCode}, ${html.length} chars in ${duration}ms`);
 
           const result: EngineResult = {
             html,
             url: finalUrl,
-            statusCode: 200, // Hero doesn't expose status code directly
+            statusCode,
+            contentType: headers?.["content-type"],
+            headers,
+            redirects,
             engine: "hero" as const,
             duration,
           };
 
+          const captures = await this.captureArtifacts(hero, options, logger);
+          if (captures.screenshot || captures.pdf) {
+            result.artifacts = captures;
+          }
+
+          if (actionResults) {
+            result.artifacts = { ...result.artifacts, actions: actionResults };
+          }
+
           if (interceptor) {
             const patterns = interceptor.getApiPatterns();
             result.artifacts = {
+              ...result.artifacts,
               discoveredApis: {
                 patterns,
                 totalRequests: interceptor.count,
@@ -266,18 +338,27 @@ export class HeroEngine implements Engine {
 
           return result;
         } finally {
+          abortSignal?.removeEventListener("abort", onAbort);
           interceptor?.stop();
         }
-      });
-
-      return result;
+      };
+
+      // The browser stays checked out until `run` reaches an abort checkpoint,
+      // but the caller is released as soon as the signal fires.
+      const work = pool.withBrowser(run, { signal: abortSignal });
+      return await raceAbort(
+        work,
+        abortSignal,
+        () => new EngineTimeoutError("hero", Date.now() - startTime)
+      );
     } catch (error: unknown) {
       // Re-throw our own errors
       if (
         error instanceof ChallengeDetectedError ||
         error instanceof InsufficientContentError ||
         error instanceof EngineTimeoutError ||
-        error instanceof EngineUnavailableError
+        error instanceof EngineUnavailableError ||
+        error instanceof PageActionError
       ) {
         throw error;
       }
@@ -302,6 +383,114 @@ export class HeroEngine implements Engine {
     }
   }
 
+  /**
+   * Status, headers and redirects of the document the content was extracted from
+   *
+   * That is the latest Document resource served at the final URL, which is not the
+   * navigation's response when a challenge page redirected after solving. Its redirect
+   * chain is walked back through the redirect resources whose Location led to it.
+   * When no response was recorded, the status is 0 (unknown) and headers are left out.
+   */
+  private async readDocumentResponse(
+    hero: Hero,
+    finalUrl: string,
+    navigation: Resource | undefined,
+    sinceCommandId: number | undefined,
+    logger?: EngineMeta["logger"]
+  ): Promise<{ statusCode: number; headers?: Record<string, string>; redirects: RedirectHop[] }> {
+    let documents: Resource[] = [];
+    try {
+      documents = await hero.findResources(
+        { type: "Document" },
+        sinceCommandId !== undefined ? { sinceCommandId } : undefined
+      );
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      logger?.warn(`[hero] Document resources unavailable: ${msg}`);
+    }
+
+    const served = documents.filter((resource) => !resource.isRedirect && resource.response);
+    const document =
+      served.filter((resource) => resource.url === finalUrl).pop() ?? navigation ?? served.pop();
+    if (!document?.response) {
+      // No response recorded for the page (e.g. served by a service worker): report the
+      // status as unknown rather than as a success
+      logger?.warn(`[hero] No document response recorded for ${finalUrl}; status unknown`);
+      return { statusCode: 0, redirects: [] };
+    }
+
+    const redirects: RedirectHop[] = [];
+    let target = document.url;
+    for (const hop of documents.filter((resource) => resource.isRedirect).reverse()) {
+      const location = this.normalizeHeaders(hop.response.headers).location;
+      if (location && new URL(location, hop.url).href === target) {
+        redirects.unshift({ url: hop.url, statusCode: hop.response.statusCode });
+        target = hop.url;
+      }
+    }
+
+    return {
+      statusCode: document.response.statusCode,
+      headers: this.normalizeHeaders(document.response.headers),
+      redirects,
+    };
+  }
+
+  /**
+   * Lower-case header names and join repeated headers, as fetch does
+   */
+  private normalizeHeaders(headers: Resource["response"]["headers"]): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      record[name.toLowerCase()] = Array.isArray(value) ? value.join(", ") : String(value);
+    }
+    return record;
+  }
+
+  /**
+   * Take the screenshot/PDF requested in options.formats.
+   * Best-effort: a failed capture is logged and left out, the page content is still returned.
+   */
+  private async captureArtifacts(
+    hero: Hero,
+    options: EngineMeta["options"],
+    logger?: EngineMeta["logger"]
+  ): Promise<{ screenshot?: Buffer; pdf?: Buffer }> {
+    const formats = options.formats ?? [];
+    const capture = options.captureOptions ?? {};
+    const captures: { screenshot?: Buffer; pdf?: Buffer } = {};
+
+    if (formats.includes("screenshot")) {
+      const format = capture.screenshotFormat ?? "png";
+      try {
+        captures.screenshot = await hero.takeScreenshot({
+          format,
+          fullPage: capture.fullPage ?? false,
+          jpegQuality: format === "jpeg" ? (capture.quality ?? 80) : undefined,
+        });
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        logger?.warn(`[hero] Screenshot failed (skipped): ${msg}`);
+      }
+    }
+
+    if (formats.includes("pdf")) {
+      try {
+        const pdf = await printToPdf(hero);
+        if (pdf) {
+          captures.pdf = pdf;
+        } else {
+          logger?.warn(`[hero] PDF capture unavailable: plugin not registered on Hero Core`);
+        }
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        logger?.warn(`[hero] PDF capture failed (skipped): ${msg}`);
+      }
+    }
+
+    return captures;
+  }
+
   /**
    * Wait for the final page to load after any Cloudflare redirects
    */
@@ -6,7 +6,7 @@
  * Falls back to tlsclient/hero when blocked or challenged.
  */
 
-import type { Engine, EngineConfig, EngineMeta, EngineResult } from "../types.js";
+import type { Engine, EngineConfig, EngineMeta, EngineResult, RedirectHop } from "../types.js";
 import type { ProxyConfig } from "../../types.js";
 import {
   EngineError,
@@ -19,6 +19,7 @@ import { detectWaf, formatWafChallengeType } from "../../waf/index.js";
 import { ENGINE_CONFIGS } from "../types.js";
 import { getRandomUserAgent, generateReferer, UserAgentRotator } from "../../utils/user-agents.js";
 import { geoConsistentHeaders } from "../../utils/geo-locale.js";
+import { decodeResponseBody } from "../../documents/index.js";
 
 function resolveProxyUrl(proxy?: ProxyConfig): string | undefined {
   if (!proxy) return undefined;
@@ -53,6 +54,18 @@ const DEFAULT_HEADERS: Record<string, string> = {
   "Upgrade-Insecure-Requests": "1",
 };
 
+/**
+ * Redirects followed before giving up (fetch's own limit)
+ */
+const MAX_REDIRECTS = 20;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Credentials not sent on to another origin when following a redirect, as fetch does
+ */
+const CROSS_ORIGIN_STRIPPED_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
 /**
  * Challenge indicators in HTML content
  * These patterns suggest the page requires JS execution or is blocked
@@ -100,18 +113,17 @@ export class HttpEngine implements Engine {
 
   async scrape(meta: EngineMeta): Promise<EngineResult> {
     const startTime = Date.now();
-    const { url, options, logger, abortSignal } = meta;
+    const { url, options, logger, abortSignal, conditional } = meta;
 
-    try {
-      // Create abort controller for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.config.maxTimeout);
+    // Create abort controller for timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.maxTimeout);
 
-      // Link external abort signal
-      if (abortSignal) {
-        abortSignal.addEventListener("abort", () => controller.abort(), { once: true });
-      }
+    // Link external abort signal (unlinked in finally: batch URLs share one signal)
+    const onExternalAbort = () => controller.abort();
+    abortSignal?.addEventListener("abort", onExternalAbort, { once: true });
 
+    try {
       logger?.debug(`[http] Fetching ${url}`);
 
       // Resolve User-Agent: explicit userAgent > explicit header > rotated UA
@@ -154,17 +166,35 @@ export class HttpEngine implements Engine {
         mergedHeaders["User-Agent"] = options.userAgent;
       }
 
-      const response = await fetch(url, {
-        method: "GET",
-        headers: mergedHeaders,
-        redirect: "follow",
-        signal: controller.signal,
-      });
+      // Revalidate a page fetched before: unchanged pages answer 304 with no body
+      if (conditional?.etag) mergedHeaders["If-None-Match"] = conditional.etag;
+      if (conditional?.lastModified) mergedHeaders["If-Modified-Since"] = conditional.lastModified;
+
+      const { response, redirects } = await this.fetchFollowingRedirects(
+        url,
+        mergedHeaders,
+        controller.signal
+      );
 
       clearTimeout(timeoutId);
 
       const duration = Date.now() - startTime;
 
+      if (response.status === 304) {
+        logger?.debug(`[http] Not modified: ${url}`);
+        return {
+          html: "",
+          url: response.url || url,
+          statusCode: 304,
+          contentType: response.headers.get("content-type") || undefined,
+          headers: this.headersToRecord(response.headers),
+          redirects,
+          notModified: true,
+          engine: "http",
+          duration,
+        };
+      }
+
       // Check for HTTP errors BEFORE reading body (avoid OOM on large error responses)
       if (response.status >= 400) {
         const headersRecord = this.headersToRecord(response.headers);
@@ -192,14 +222,41 @@ export class HttpEngine implements Engine {
         throw new HttpError("http", response.status, response.statusText);
       }
 
-      const html = await response.text();
+      const body = Buffer.from(await response.arrayBuffer());
+      const contentType = response.headers.get("content-type") || undefined;
+      const headersRecord = this.headersToRecord(response.headers);
+
+      // PDF, DOCX, text and JSON bodies are converted to HTML
+      const { html, charset, document } = decodeResponseBody(
+        body,
+        contentType,
+        response.url || url
+      );
 
       logger?.debug(
         `[http] Got response: ${response.status} (${html.length} chars) in ${duration}ms`
       );
 
+      if (document) {
+        // Documents are never challenge pages; any extracted text is enough
+        logger?.debug(`[http] Converted ${document.type} document`);
+        if (this.extractText(html).length === 0) {
+          throw new InsufficientContentError("http", 0, 1);
+        }
+        return {
+          html,
+          url: response.url,
+          statusCode: response.status,
+          contentType,
+          headers: headersRecord,
+          redirects,
+          document,
+          engine: "http",
+          duration,
+        };
+      }
+
       // Check for challenge pages
-      const headersRecord = this.headersToRecord(response.headers);
       const waf = detectWaf({ url, statusCode: response.status, headers: headersRecord, html });
 
       let challengeType = this.detectChallenge(html);
@@ -225,8 +282,10 @@ export class HttpEngine implements Engine {
         html,
         url: response.url,
         statusCode: response.status,
-        contentType: response.headers.get("content-type") || undefined,
-        headers: this.headersToRecord(response.headers),
+        contentType,
+        headers: headersRecord,
+        redirects,
+        charset,
         engine: "http",
         duration,
       };
@@ -251,6 +310,55 @@ export class HttpEngine implements Engine {
       }
 
       throw new EngineError("http", String(error));
+    } finally {
+      clearTimeout(timeoutId);
+      abortSignal?.removeEventListener("abort", onExternalAbort);
+    }
+  }
+
+  /**
+   * GET a URL, following redirects one at a time so each hop is recorded
+   */
+  private async fetchFollowingRedirects(
+    url: string,
+    headers: Record<string, string>,
+    signal: AbortSignal
+  ): Promise<{ response: Response; redirects: RedirectHop[] }> {
+    const redirects: RedirectHop[] = [];
+    let currentUrl = url;
+    let currentHeaders = headers;
+
+    for (;;) {
+      const response = await fetch(currentUrl, {
+        method: "GET",
+        headers: currentHeaders,
+        redirect: "manual",
+        signal,
+      });
+
+      const location = REDIRECT_STATUSES.has(response.status)
+        ? response.headers.get("location")
+        : null;
+      if (!location) {
+        return { response, redirects };
+      }
+      if (redirects.length >= MAX_REDIRECTS) {
+        // Wrapped as a retryable EngineError: browsers can get out of cookie redirect loops
+        throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+      }
+
+      await response.body?.cancel();
+      redirects.push({ url: currentUrl, statusCode: response.status });
+
+      const nextUrl = new URL(location, currentUrl).href;
+      if (new URL(nextUrl).origin !== new URL(currentUrl).origin) {
+        currentHeaders = Object.fromEntries(
+          Object.entries(currentHeaders).filter(
+            ([name]) => !CROSS_ORIGIN_STRIPPED_HEADERS.includes(name.toLowerCase())
+          )
+        );
+      }
+      currentUrl = nextUrl;
     }
   }
 
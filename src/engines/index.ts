@@ -22,11 +22,14 @@
 // Types
 export type {
   EngineName,
+  BuiltInEngineName,
   Engine,
   EngineConfig,
   EngineFeatures,
   EngineMeta,
   EngineResult,
+  RedirectHop,
+  ConditionalRequest,
 } from "./types.js";
 
 export { ENGINE_CONFIGS, DEFAULT_ENGINE_ORDER } from "./types.js";
@@ -39,6 +42,7 @@ export {
   HttpError,
   EngineTimeoutError,
   EngineUnavailableError,
+  PageActionError,
   NextEngineSignal,
   AllEnginesFailedError,
 } from "./errors.js";
@@ -47,6 +51,21 @@ export {
 export { httpEngine, HttpEngine } from "./http/index.js";
 export { tlsClientEngine, TlsClientEngine } from "./tlsclient/index.js";
 export { heroEngine, HeroEngine } from "./hero/index.js";
+export type { PageAction, PageActionOptions, PageActionResult } from "./hero/actions.js";
+export {
+  ReplayEngine,
+  RecordingEngine,
+  FixtureStore,
+  recordEngines,
+  replayEngines,
+  type ReplayEngineOptions,
+  type EngineFixture,
+  type RecordedError,
+  type RecordedResponse,
+} from "./replay/index.js";
+
+// Registry
+export { registerEngine, unregisterEngine, getEngine, getRegisteredEngines } from "./registry.js";
 
 // Orchestrator
 export {
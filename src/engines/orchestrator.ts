@@ -9,13 +9,17 @@
  *
  * Features:
  * - Staggered timeouts (each engine gets its configured time before fallback)
- * - Parallel racing option (start next engine while previous still running)
+ * - Parallel racing option (start next engine while previous still running; first
+ *   result wins, the others are aborted)
  * - Graceful fallback on challenge detection
  * - Detailed error tracking per engine
+ * - Caller cancellation via meta.abortSignal (stops the cascade, no fallback)
+ * - Progress events for each attempt, fallback and challenge (onEvent)
+ * - Screenshot/PDF formats route straight to engines that can capture (hero)
+ * - Custom engines, registered globally (registerEngine) or passed per orchestrator
  */
 
 import type { Engine, EngineName, EngineMeta, EngineResult } from "./types.js";
-import { DEFAULT_ENGINE_ORDER } from "./types.js";
 import {
   EngineError,
   ChallengeDetectedError,
@@ -25,10 +29,10 @@ import {
   EngineUnavailableError,
   AllEnginesFailedError,
 } from "./errors.js";
-import { httpEngine } from "./http/index.js";
-import { tlsClientEngine } from "./tlsclient/index.js";
-import { heroEngine } from "./hero/index.js";
+import { getEngine, getRegisteredEngines } from "./registry.js";
 import type { Logger } from "../utils/logger.js";
+import { AbortedError, ValidationError } from "../errors.js";
+import { createEvent, type ReaderEventHandler } from "../events.js";
 import { EngineAffinityCache } from "./engine-affinity.js";
 import { DomainCircuitBreaker } from "./circuit-breaker.js";
 
@@ -41,17 +45,55 @@ function tryGetDomainFromUrl(url: string): string | null {
   }
 }
 
+/**
+ * An engine attempt in flight
+ */
+interface RunningAttempt {
+  outcome: Promise<AttemptOutcome>;
+  controller: AbortController;
+  /** Clear the attempt's timeout and its link to the caller's signal */
+  cleanup: () => void;
+}
+
+type AttemptOutcome = { engineName: EngineName; startedAt: number } & (
+  | { result: EngineResult }
+  | { error: unknown }
+);
+
+/**
+ * Resolves with null after the stagger timeout (parallelRacing)
+ */
+interface Stagger {
+  promise: Promise<null>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+function startStagger(ms: number): Stagger {
+  let fire: (value: null) => void = () => {};
+  const promise = new Promise<null>((resolve) => {
+    fire = resolve;
+  });
+  return { promise, timer: setTimeout(() => fire(null), ms) };
+}
+
 /**
  * Orchestrator options
  */
 export interface OrchestratorOptions {
-  /** Engines to use (in order). Default: ['http', 'tlsclient', 'hero'] */
-  engines?: EngineName[];
+  /**
+   * Engines to use (in order), by registered name or as instances used by this
+   * orchestrator only. Default: the registered engines by quality (http, tlsclient, hero
+   * plus any registered custom engines)
+   */
+  engines?: Array<EngineName | Engine>;
   /** Skip specific engines */
   skipEngines?: EngineName[];
   /** Force a specific engine (skips others) */
   forceEngine?: EngineName;
-  /** Enable parallel racing (start next engine while previous still running) */
+  /**
+   * Enable parallel racing: start the next engine once the running one has gone its
+   * config.timeout without answering, keep the first result and abort the rest
+   */
   parallelRacing?: boolean;
   /** Logger instance */
   logger?: Logger;
@@ -64,17 +106,10 @@ export interface OrchestratorOptions {
   circuitBreaker?: DomainCircuitBreaker;
   /** Inject time source (testing/metrics). Defaults to Date.now */
   now?: () => number;
+  /** Receives engine:attempt, engine:fallback and challenge:detected events */
+  onEvent?: ReaderEventHandler;
 }
 
-/**
- * Engine registry
- */
-const ENGINE_REGISTRY: Record<EngineName, Engine> = {
-  http: httpEngine,
-  tlsclient: tlsClientEngine,
-  hero: heroEngine,
-};
-
 /**
  * Orchestrator result with engine metadata
  */
@@ -102,6 +137,8 @@ export class EngineOrchestrator {
   private options: OrchestratorOptions;
   private engineOrder: EngineName[];
   private availableEngineNames: EngineName[];
+  /** Engines in the resolved order, looked up when the orchestrator is created */
+  private readonly engineByName = new Map<EngineName, Engine>();
   private readonly now: () => number;
 
   constructor(options: OrchestratorOptions = {}) {
@@ -109,7 +146,7 @@ export class EngineOrchestrator {
     this.now = options.now ?? (() => Date.now());
     this.engineOrder = this.resolveEngineOrder();
     this.availableEngineNames = this.engineOrder.filter((name) =>
-      ENGINE_REGISTRY[name].isAvailable()
+      this.getEngine(name).isAvailable()
     );
   }
 
@@ -117,22 +154,49 @@ export class EngineOrchestrator {
    * Resolve the engine order based on options
    */
   private resolveEngineOrder(): EngineName[] {
-    // If force engine is set, use only that
-    if (this.options.forceEngine) {
-      return [this.options.forceEngine];
-    }
+    const { engines, forceEngine, skipEngines } = this.options;
+
+    // Engine instances serve this orchestrator only; names resolve through the registry
+    const instances = new Map<EngineName, Engine>();
+    const names = engines?.map((entry) => {
+      if (typeof entry === "string") return entry;
+      instances.set(entry.config.name, entry);
+      return entry.config.name;
+    });
 
-    // Start with configured order or default
-    let order = this.options.engines || [...DEFAULT_ENGINE_ORDER];
+    // If force engine is set, use only that; otherwise the configured order or default
+    let order = forceEngine ? [forceEngine] : (names ?? getRegisteredEngines());
 
     // Remove skipped engines
-    if (this.options.skipEngines) {
-      order = order.filter((e) => !this.options.skipEngines!.includes(e));
+    if (!forceEngine && skipEngines) {
+      order = order.filter((e) => !skipEngines.includes(e));
+    }
+
+    for (const name of order) {
+      const engine = instances.get(name) ?? getEngine(name);
+      if (!engine) {
+        throw new ValidationError(
+          `Unknown engine "${name}" (registered: ${getRegisteredEngines().join(", ")})`,
+          { field: forceEngine ? "forceEngine" : "engines" }
+        );
+      }
+      this.engineByName.set(name, engine);
     }
 
     return order;
   }
 
+  /**
+   * Engine in the resolved order
+   */
+  private getEngine(name: EngineName): Engine {
+    const engine = this.engineByName.get(name);
+    if (!engine) {
+      throw new EngineUnavailableError(name, "Engine is not in this orchestrator's order");
+    }
+    return engine;
+  }
+
   /**
    * Get available engines
    */
@@ -146,24 +210,56 @@ export class EngineOrchestrator {
    * @param meta - Engine metadata (url, options, logger, abortSignal)
    * @returns Scrape result with engine metadata
    * @throws AllEnginesFailedError if all engines fail
+   * @throws AbortedError if meta.abortSignal fires (the cascade stops immediately)
    */
   async scrape(meta: EngineMeta): Promise<OrchestratorResult> {
+    if (meta.abortSignal?.aborted) {
+      throw new AbortedError({ url: meta.url });
+    }
+
     const attemptedEngines: EngineName[] = [];
     const engineErrors = new Map<EngineName, Error>();
     const logger = meta.logger || this.options.logger;
     const verbose = this.options.verbose || meta.options.verbose;
 
+    // Screenshots, PDFs and scripted actions need a rendered page, so only engines that can
+    // do them are tried, even when a cheaper engine would have returned the HTML. Those runs
+    // are forced, so they don't feed the affinity cache either.
+    const formats = meta.options.formats ?? [];
+    const needsScreenshot = formats.includes("screenshot");
+    const needsPdf = formats.includes("pdf");
+    const needsActions = (meta.options.actions?.length ?? 0) > 0;
+    const canActOn = (name: EngineName) =>
+      !needsActions || this.getEngine(name).config.features.actions === true;
+    const canCapture = (name: EngineName) => {
+      const { features } = this.getEngine(name).config;
+      return (!needsScreenshot || features.screenshots) && (!needsPdf || features.pdf === true);
+    };
+
     const domain = tryGetDomainFromUrl(meta.url);
-    const affinityCache = this.options.affinityCache;
+    const affinityCache =
+      needsScreenshot || needsPdf || needsActions ? undefined : this.options.affinityCache;
     const circuitBreaker = this.options.circuitBreaker;
-    const orderedEngineNames =
+    const orderedEngineNames = (
       domain && affinityCache
         ? affinityCache.getOrderedEngines(domain, this.availableEngineNames)
-        : [...this.availableEngineNames];
+        : [...this.availableEngineNames]
+    ).filter((name) => canCapture(name) && canActOn(name));
 
     let blockedByCircuitBreaker: Error | null = null;
 
     if (orderedEngineNames.length === 0) {
+      for (const name of this.availableEngineNames) {
+        engineErrors.set(
+          name,
+          new EngineUnavailableError(
+            name,
+            canActOn(name)
+              ? "Engine cannot capture screenshots or PDFs"
+              : "Engine cannot run page actions"
+          )
+        );
+      }
       throw new AllEnginesFailedError([], engineErrors);
     }
 
@@ -179,10 +275,33 @@ export class EngineOrchestrator {
       `[orchestrator] Starting scrape of ${meta.url} with engines: ${orderedEngineNames.join(" → ")}`
     );
 
-    // Try each engine in order. The list may be re-ordered mid-cascade based on signals.
-    for (let index = 0; index < orderedEngineNames.length; index++) {
-      const engineName = orderedEngineNames[index];
-      const engine = ENGINE_REGISTRY[engineName];
+    // Engines run one at a time, the next starting when one fails. With parallelRacing the
+    // next also starts once the newest has gone its config.timeout without answering; the
+    // first result wins and the engines still running are aborted. The list may be
+    // re-ordered mid-cascade based on signals.
+    const racing = Boolean(this.options.parallelRacing);
+    const running = new Map<EngineName, RunningAttempt>();
+    let nextIndex = 0;
+    let stopped = false;
+    let stagger = null as Stagger | null; // assigned in launch(), so not narrowed to null
+
+    const clearStagger = () => {
+      if (stagger) clearTimeout(stagger.timer);
+      stagger = null;
+    };
+
+    const abortRunning = () => {
+      clearStagger();
+      for (const attempt of running.values()) {
+        attempt.controller.abort();
+        attempt.cleanup();
+      }
+      running.clear();
+    };
+
+    // Start the next engine in order; false when none is left or the circuit is open
+    const launch = (): boolean => {
+      if (stopped || nextIndex >= orderedEngineNames.length) return false;
 
       if (domain && circuitBreaker) {
         const allowed = circuitBreaker.canRequest(domain);
@@ -192,29 +311,79 @@ export class EngineOrchestrator {
             `Domain circuit breaker is open for ${domain}${remaining > 0 ? ` (cooldown ${remaining}ms)` : ""}`
           );
           log(`[orchestrator] Circuit breaker open for ${domain}; short-circuiting cascade`);
-          break;
+          stopped = true;
+          return false;
         }
       }
 
+      const engineName = orderedEngineNames[nextIndex++];
+      const engine = this.getEngine(engineName);
       attemptedEngines.push(engineName);
 
       const startedAt = this.now();
       log(`[orchestrator] Trying ${engineName} engine...`);
+      this.options.onEvent?.(
+        createEvent("engine:attempt", {
+          url: meta.url,
+          engine: engineName,
+          attempt: attemptedEngines.length,
+        })
+      );
 
       // Create abort controller for this engine's timeout
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), engine.config.maxTimeout);
 
       // Link external abort signal
-      if (meta.abortSignal) {
-        meta.abortSignal.addEventListener("abort", () => controller.abort(), { once: true });
+      const onExternalAbort = () => controller.abort();
+      meta.abortSignal?.addEventListener("abort", onExternalAbort, { once: true });
+
+      // async so a synchronous throw settles as a failed attempt too
+      const scraping = (async () => engine.scrape({ ...meta, abortSignal: controller.signal }))();
+      const outcome = scraping.then(
+        (result): AttemptOutcome => ({ engineName, startedAt, result }),
+        (error: unknown): AttemptOutcome => ({ engineName, startedAt, error })
+      );
+      running.set(engineName, {
+        outcome,
+        controller,
+        cleanup: () => {
+          clearTimeout(timeoutId);
+          meta.abortSignal?.removeEventListener("abort", onExternalAbort);
+        },
+      });
+
+      clearStagger();
+      if (racing && nextIndex < orderedEngineNames.length) {
+        stagger = startStagger(engine.config.timeout);
+      }
+      return true;
+    };
+
+    launch();
+    while (running.size > 0) {
+      const settled = await Promise.race([
+        ...[...running.values()].map((attempt) => attempt.outcome),
+        ...(stagger ? [stagger.promise] : []),
+      ]);
+
+      // The newest engine is slow to answer: race the next one against it
+      if (settled === null) {
+        stagger = null;
+        log(`[orchestrator] No answer within the stagger timeout, racing the next engine`);
+        launch();
+        continue;
       }
 
-      try {
-        const result = await engine.scrape({
-          ...meta,
-          abortSignal: controller.signal,
-        });
+      const { engineName, startedAt } = settled;
+      running.get(engineName)?.cleanup();
+      running.delete(engineName);
+
+      if ("result" in settled) {
+        const { result } = settled;
+
+        // Aborted losers are not the engines' fault, so they aren't recorded anywhere
+        abortRunning();
 
         if (domain && affinityCache) {
           affinityCache.recordResult(domain, engineName, true, result.duration);
@@ -230,79 +399,107 @@ export class EngineOrchestrator {
           attemptedEngines,
           engineErrors,
         };
-      } catch (error: unknown) {
-        const err = error instanceof Error ? error : new Error(String(error));
-        engineErrors.set(engineName, err);
+      }
 
-        const elapsedMs = Math.max(0, this.now() - startedAt);
-        if (domain && affinityCache) {
-          affinityCache.recordResult(domain, engineName, false, elapsedMs);
-        }
-        if (domain && circuitBreaker) {
-          circuitBreaker.recordFailure(domain);
-        }
+      const { error } = settled;
+      const err = error instanceof Error ? error : new Error(String(error));
 
-        // Log the error with appropriate detail
-        if (error instanceof ChallengeDetectedError) {
-          log(`[orchestrator] ${engineName} detected challenge: ${error.challengeType}`);
+      // Caller cancelled: not the engine's fault, so don't record it or fall back
+      if (meta.abortSignal?.aborted) {
+        abortRunning();
+        log(`[orchestrator] ${engineName} aborted by caller`);
+        throw new AbortedError({ url: meta.url, cause: err });
+      }
 
-          if (verbose && error.waf?.signals?.length) {
-            log(
-              `[orchestrator] WAF signals (${error.waf.provider}:${error.waf.category}): ${error.waf.signals.join(", ")}`
-            );
-          }
+      engineErrors.set(engineName, err);
 
-          // Policy: if a WAF/challenge is detected and Hero is available, prioritize Hero next.
-          const isWafTagged = error.challengeType.startsWith("waf:");
-          const isWafRateLimit =
-            error.waf?.category === "rate_limit" ||
-            (isWafTagged && error.challengeType.split(":").slice(-1)[0] === "rate_limit");
-
-          const shouldPreferHero =
-            // Browser-required or interactive challenges.
-            error.challengeType.includes("cloudflare-js") ||
-            error.challengeType.includes("js-required") ||
-            error.challengeType.includes("turnstile") ||
-            error.challengeType.includes("captcha") ||
-            error.challengeType.includes("blocked") ||
-            // WAF tagging from detection (except rate limit).
-            (!isWafRateLimit &&
-              // Non-Cloudflare WAFs are very likely browser-gated.
-              ((Boolean(error.waf) && error.waf?.provider !== "cloudflare") ||
-                // Explicit WAF tagging from detection.
-                isWafTagged));
-
-          if (shouldPreferHero && engineName !== "hero") {
-            const heroIndex = orderedEngineNames.indexOf("hero");
-            if (heroIndex !== -1 && heroIndex > index + 1) {
-              orderedEngineNames.splice(heroIndex, 1);
-              orderedEngineNames.splice(index + 1, 0, "hero");
-              log(`[orchestrator] Prioritizing hero engine next due to WAF/challenge signals`);
-            }
-          }
-        } else if (error instanceof InsufficientContentError) {
-          log(`[orchestrator] ${engineName} insufficient content: ${error.contentLength} chars`);
-        } else if (error instanceof HttpError) {
-          log(`[orchestrator] ${engineName} HTTP error: ${error.statusCode}`);
-        } else if (error instanceof EngineTimeoutError) {
-          log(`[orchestrator] ${engineName} timed out after ${error.timeoutMs}ms`);
-        } else if (error instanceof EngineUnavailableError) {
-          log(`[orchestrator] ${engineName} unavailable: ${err.message}`);
-        } else {
-          log(`[orchestrator] ${engineName} failed: ${err.message}`);
+      const elapsedMs = Math.max(0, this.now() - startedAt);
+      if (domain && affinityCache) {
+        affinityCache.recordResult(domain, engineName, false, elapsedMs);
+      }
+      if (domain && circuitBreaker) {
+        circuitBreaker.recordFailure(domain);
+      }
+
+      // Log the error with appropriate detail
+      if (error instanceof ChallengeDetectedError) {
+        log(`[orchestrator] ${engineName} detected challenge: ${error.challengeType}`);
+        this.options.onEvent?.(
+          createEvent("challenge:detected", {
+            url: meta.url,
+            engine: engineName,
+            challengeType: error.challengeType,
+          })
+        );
+
+        if (verbose && error.waf?.signals?.length) {
+          log(
+            `[orchestrator] WAF signals (${error.waf.provider}:${error.waf.category}): ${error.waf.signals.join(", ")}`
+          );
         }
 
-        // Check if we should continue to next engine
-        if (!this.shouldRetry(error)) {
-          log(`[orchestrator] Non-retryable error, stopping cascade`);
-          break;
+        // Policy: if a WAF/challenge is detected and Hero is available, prioritize Hero next.
+        const isWafTagged = error.challengeType.startsWith("waf:");
+        const isWafRateLimit =
+          error.waf?.category === "rate_limit" ||
+          (isWafTagged && error.challengeType.split(":").slice(-1)[0] === "rate_limit");
+
+        const shouldPreferHero =
+          // Browser-required or interactive challenges.
+          error.challengeType.includes("cloudflare-js") ||
+          error.challengeType.includes("js-required") ||
+          error.challengeType.includes("turnstile") ||
+          error.challengeType.includes("captcha") ||
+          error.challengeType.includes("blocked") ||
+          // WAF tagging from detection (except rate limit).
+          (!isWafRateLimit &&
+            // Non-Cloudflare WAFs are very likely browser-gated.
+            ((Boolean(error.waf) && error.waf?.provider !== "cloudflare") ||
+              // Explicit WAF tagging from detection.
+              isWafTagged));
+
+        if (shouldPreferHero && engineName !== "hero") {
+          const heroIndex = orderedEngineNames.indexOf("hero");
+          if (heroIndex !== -1 && heroIndex > nextIndex) {
+            orderedEngineNames.splice(heroIndex, 1);
+            orderedEngineNames.splice(nextIndex, 0, "hero");
+            log(`[orchestrator] Prioritizing hero engine next due to WAF/challenge signals`);
+          }
         }
+      } else if (error instanceof InsufficientContentError) {
+        log(`[orchestrator] ${engineName} insufficient content: ${error.contentLength} chars`);
+      } else if (error instanceof HttpError) {
+        log(`[orchestrator] ${engineName} HTTP error: ${error.statusCode}`);
+      } else if (error instanceof EngineTimeoutError) {
+        log(`[orchestrator] ${engineName} timed out after ${error.timeoutMs}ms`);
+      } else if (error instanceof EngineUnavailableError) {
+        log(`[orchestrator] ${engineName} unavailable: ${err.message}`);
+      } else {
+        log(`[orchestrator] ${engineName} failed: ${err.message}`);
+      }
 
-        // Continue to next engine
-        log(`[orchestrator] Falling back to next engine...`);
-      } finally {
-        clearTimeout(timeoutId);
+      // Check if we should continue to next engine
+      const fallback = this.shouldRetry(error);
+      this.options.onEvent?.(
+        createEvent("engine:fallback", {
+          url: meta.url,
+          from: engineName,
+          to: fallback ? (orderedEngineNames[nextIndex] ?? null) : null,
+          error: err.message,
+          durationMs: elapsedMs,
+        })
+      );
+      if (!fallback) {
+        // Engines already racing may still answer
+        log(`[orchestrator] Non-retryable error, stopping cascade`);
+        stopped = true;
+        clearStagger();
+        continue;
       }
+
+      // Continue to next engine
+      log(`[orchestrator] Falling back to next engine...`);
+      launch();
     }
 
     // All engines failed
@@ -0,0 +1,76 @@
+/**
+ * Engine registry
+ *
+ * Engines the orchestrator can resolve by name. The built-ins (http, tlsclient, hero)
+ * are registered up front; registerEngine() adds custom engines (an internal rendering
+ * service, an archive lookup, a vendor API, ...) that then take part in the cascade,
+ * forceEngine/skipEngines, affinity and the circuit breaker like the built-ins.
+ *
+ * The registry is process-wide. To use an engine in one orchestrator only, pass the
+ * instance in its `engines` option instead.
+ */
+
+import type { Engine, EngineName } from "./types.js";
+import { httpEngine } from "./http/index.js";
+import { tlsClientEngine } from "./tlsclient/index.js";
+import { heroEngine } from "./hero/index.js";
+import { ValidationError } from "../errors.js";
+
+const BUILT_IN_ENGINES: readonly Engine[] = [httpEngine, tlsClientEngine, heroEngine];
+
+const registry = new Map<EngineName, Engine>(
+  BUILT_IN_ENGINES.map((engine) => [engine.config.name, engine])
+);
+
+/**
+ * Register an engine under its config.name
+ *
+ * @param options.replace - Replace an engine already registered under the same name
+ * @throws ValidationError if the name is empty or taken (and replace is not set)
+ *
+ * @example
+ * registerEngine({
+ *   config: { ...ENGINE_CONFIGS.http, name: "archive", quality: 200 },
+ *   isAvailable: () => true,
+ *   scrape: async (meta) => lookUpArchive(meta.url),
+ * });
+ * await reader.scrape({ urls: [url], forceEngine: "archive" });
+ */
+export function registerEngine(engine: Engine, options: { replace?: boolean } = {}): void {
+  const name = engine.config?.name;
+  if (!name) {
+    throw new ValidationError("Engine config must have a name", { field: "config.name" });
+  }
+  if (registry.has(name) && !options.replace) {
+    throw new ValidationError(`Engine "${name}" is already registered`, { field: "config.name" });
+  }
+  registry.set(name, engine);
+}
+
+/**
+ * Remove a registered engine. Removing a built-in drops it from the default cascade;
+ * register it again to restore it.
+ *
+ * @returns true if an engine was registered under the name
+ */
+export function unregisterEngine(name: EngineName): boolean {
+  return registry.delete(name);
+}
+
+/**
+ * Registered engine by name
+ */
+export function getEngine(name: EngineName): Engine | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Names of the registered engines, highest config.quality first (registration order
+ * among equals). This is the default cascade: http, tlsclient, hero, with custom
+ * engines placed by their quality.
+ */
+export function getRegisteredEngines(): EngineName[] {
+  return [...registry.values()]
+    .sort((a, b) => b.config.quality - a.config.quality)
+    .map((engine) => engine.config.name);
+}
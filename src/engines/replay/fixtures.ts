@@ -0,0 +1,259 @@
+/**
+ * Engine fixtures
+ *
+ * One JSON file per requested URL and engine, holding what the engine answered: the
+ * response (status, redirects, headers, body, final URL, artifacts) or the error it
+ * threw. Files are named `<url hash>.<engine>.json` so every engine's recording of a URL
+ * sits together.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { EngineName, EngineResult } from "../types.js";
+import type { PageActionResult } from "../hero/actions.js";
+import type { WafDetection } from "../../waf/types.js";
+import {
+  EngineError,
+  ChallengeDetectedError,
+  InsufficientContentError,
+  HttpError,
+  EngineTimeoutError,
+  EngineUnavailableError,
+  PageActionError,
+} from "../errors.js";
+
+/**
+ * A recorded engine response; screenshots and PDFs are base64
+ */
+export type RecordedResponse = Omit<EngineResult, "engine" | "duration" | "artifacts"> & {
+  artifacts?: {
+    discoveredApis?: NonNullable<EngineResult["artifacts"]>["discoveredApis"];
+    screenshot?: string;
+    pdf?: string;
+    actions?: Array<Omit<PageActionResult, "screenshot"> & { screenshot?: string }>;
+  };
+};
+
+/**
+ * A recorded engine error, with the fields the orchestrator's fallback looks at
+ */
+export interface RecordedError {
+  /** Error class, e.g. "HttpError" or "ChallengeDetectedError" */
+  name: string;
+  message: string;
+  retryable?: boolean;
+  statusCode?: number;
+  challengeType?: string;
+  waf?: WafDetection;
+  contentLength?: number;
+  threshold?: number;
+  timeoutMs?: number;
+  actionIndex?: number;
+  actionType?: string;
+}
+
+/**
+ * What one engine answered for one URL
+ */
+export interface EngineFixture {
+  /** Requested URL */
+  url: string;
+  engine: EngineName;
+  /** ISO 8601 */
+  recordedAt: string;
+  /** Set when the engine returned a result */
+  response?: RecordedResponse;
+  /** Set when the engine threw */
+  error?: RecordedError;
+}
+
+/**
+ * Fixture directory
+ *
+ * @example
+ * const store = new FixtureStore("test/fixtures/example");
+ * const fixture = await store.load("http", "https://example.com/");
+ */
+export class FixtureStore {
+  constructor(readonly dir: string) {}
+
+  /** Write (or overwrite) the fixture of its URL and engine */
+  async save(fixture: EngineFixture): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(
+      join(this.dir, fixtureFileName(fixture.url, fixture.engine)),
+      `${JSON.stringify(fixture, null, 2)}\n`,
+      "utf-8"
+    );
+  }
+
+  /** Fixture of a URL and engine (null if not recorded) */
+  async load(engine: EngineName, url: string): Promise<EngineFixture | null> {
+    return this.read(fixtureFileName(url, engine));
+  }
+
+  /** Every engine's fixture of a URL, most recently recorded first */
+  async loadAll(url: string): Promise<EngineFixture[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const prefix = `${urlHash(url)}.`;
+    const fixtures: EngineFixture[] = [];
+    for (const file of files.filter((name) => name.startsWith(prefix))) {
+      const fixture = await this.read(file);
+      if (fixture?.url === url) fixtures.push(fixture);
+    }
+    return fixtures.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+  }
+
+  private async read(file: string): Promise<EngineFixture | null> {
+    try {
+      return JSON.parse(await readFile(join(this.dir, file), "utf-8")) as EngineFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Fixture of an engine result
+ */
+export function resultFixture(
+  url: string,
+  engine: EngineName,
+  result: EngineResult
+): EngineFixture {
+  const {
+    html,
+    statusCode,
+    redirects,
+    contentType,
+    headers,
+    charset,
+    document,
+    notModified,
+    artifacts,
+  } = result;
+  const recorded: RecordedResponse = {
+    html,
+    url: result.url,
+    statusCode,
+    redirects,
+    contentType,
+    headers,
+    charset,
+    document,
+    notModified,
+  };
+  if (artifacts) {
+    recorded.artifacts = {
+      ...(artifacts.discoveredApis && { discoveredApis: artifacts.discoveredApis }),
+      ...(artifacts.screenshot && { screenshot: artifacts.screenshot.toString("base64") }),
+      ...(artifacts.pdf && { pdf: artifacts.pdf.toString("base64") }),
+      ...(artifacts.actions && {
+        actions: artifacts.actions.map(({ screenshot, ...step }) => ({
+          ...step,
+          ...(screenshot && { screenshot: screenshot.toString("base64") }),
+        })),
+      }),
+    };
+  }
+  return { url, engine, recordedAt: new Date().toISOString(), response: recorded };
+}
+
+/**
+ * Fixture of an error an engine threw
+ */
+export function errorFixture(url: string, engine: EngineName, error: unknown): EngineFixture {
+  const err = error instanceof Error ? error : new Error(String(error));
+  const recorded: RecordedError = { name: err.name, message: err.message };
+  if (err instanceof EngineError) recorded.retryable = err.retryable;
+  if (err instanceof HttpError) recorded.statusCode = err.statusCode;
+  if (err instanceof ChallengeDetectedError) {
+    recorded.challengeType = err.challengeType;
+    if (err.waf) recorded.waf = err.waf;
+  }
+  if (err instanceof InsufficientContentError) {
+    recorded.contentLength = err.contentLength;
+    recorded.threshold = err.threshold;
+  }
+  if (err instanceof EngineTimeoutError) recorded.timeoutMs = err.timeoutMs;
+  if (err instanceof PageActionError) {
+    recorded.actionIndex = err.actionIndex;
+    recorded.actionType = err.actionType;
+  }
+  return { url, engine, recordedAt: new Date().toISOString(), error: recorded };
+}
+
+/**
+ * Engine result of a recorded response
+ */
+export function replayResult(engine: EngineName, response: RecordedResponse): EngineResult {
+  const { artifacts, ...rest } = response;
+  const result: EngineResult = { ...rest, engine, duration: 0 };
+  if (artifacts) {
+    result.artifacts = {
+      ...(artifacts.discoveredApis && { discoveredApis: artifacts.discoveredApis }),
+      ...(artifacts.screenshot && { screenshot: Buffer.from(artifacts.screenshot, "base64") }),
+      ...(artifacts.pdf && { pdf: Buffer.from(artifacts.pdf, "base64") }),
+      ...(artifacts.actions && {
+        actions: artifacts.actions.map(({ screenshot, ...step }) => ({
+          ...step,
+          ...(screenshot && { screenshot: Buffer.from(screenshot, "base64") }),
+        })),
+      }),
+    };
+  }
+  return result;
+}
+
+/**
+ * The error class a recorded error was thrown as, with its original message
+ */
+export function replayError(engine: EngineName, recorded: RecordedError): EngineError {
+  let error: EngineError;
+  switch (recorded.name) {
+    case "HttpError":
+      error = new HttpError(engine, recorded.statusCode ?? 500);
+      break;
+    case "ChallengeDetectedError":
+      error = new ChallengeDetectedError(engine, recorded.challengeType, recorded.waf);
+      break;
+    case "InsufficientContentError":
+      error = new InsufficientContentError(engine, recorded.contentLength ?? 0, recorded.threshold);
+      break;
+    case "EngineTimeoutError":
+      error = new EngineTimeoutError(engine, recorded.timeoutMs ?? 0);
+      break;
+    case "EngineUnavailableError":
+      error = new EngineUnavailableError(engine);
+      break;
+    case "PageActionError":
+      error = new PageActionError(
+        engine,
+        recorded.actionIndex ?? 0,
+        recorded.actionType ?? "unknown",
+        recorded.message
+      );
+      break;
+    default:
+      error = new EngineError(engine, recorded.message, { retryable: recorded.retryable ?? true });
+  }
+  error.message = recorded.message;
+  return error;
+}
+
+function fixtureFileName(url: string, engine: EngineName): string {
+  return `${urlHash(url)}.${engine.replace(/[^\w-]/g, "_")}.json`;
+}
+
+function urlHash(url: string): string {
+  return createHash("sha256").update(url).digest("hex").slice(0, 16);
+}
@@ -0,0 +1,188 @@
+/**
+ * Record and replay engines
+ *
+ * Recording wraps real engines and writes each answer (response or error) to a fixture
+ * directory, keyed by URL and engine. Replay serves those fixtures through the normal
+ * Scraper / Crawler / EngineOrchestrator paths without touching the network, so tests
+ * of cleaning, metadata, crawling and engine fallback are reproducible offline.
+ *
+ * @example
+ * // Record once against the live site
+ * await reader.scrape({ urls, engines: recordEngines("test/fixtures/docs") });
+ * // Replay in CI: same cascade, same fallbacks, no network
+ * await reader.scrape({ urls, engines: replayEngines("test/fixtures/docs") });
+ */
+
+import type { Engine, EngineConfig, EngineMeta, EngineName, EngineResult } from "../types.js";
+import { EngineUnavailableError } from "../errors.js";
+import { getEngine, getRegisteredEngines } from "../registry.js";
+import { ValidationError } from "../../errors.js";
+import {
+  FixtureStore,
+  errorFixture,
+  replayError,
+  replayResult,
+  resultFixture,
+  type EngineFixture,
+} from "./fixtures.js";
+
+export {
+  FixtureStore,
+  type EngineFixture,
+  type RecordedError,
+  type RecordedResponse,
+} from "./fixtures.js";
+
+/**
+ * Config of the "replay" engine: it can stand in for any engine, so it has every feature
+ */
+const REPLAY_CONFIG: EngineConfig = {
+  name: "replay",
+  timeout: 1000,
+  maxTimeout: 10000,
+  quality: 0,
+  features: {
+    javascript: true,
+    cloudflare: true,
+    tlsFingerprint: true,
+    waitFor: true,
+    screenshots: true,
+    pdf: true,
+    actions: true,
+  },
+};
+
+/**
+ * Replay engine options
+ */
+export interface ReplayEngineOptions {
+  /**
+   * Serve only this engine's recordings, under its name and config. Default: serve
+   * whichever engine's recording of the URL succeeded, as the "replay" engine
+   */
+  engine?: EngineName;
+}
+
+/**
+ * Engine that answers from recorded fixtures
+ *
+ * A URL with no recording fails with EngineUnavailableError, so the orchestrator moves
+ * on to the next engine as it would for an engine that can't run.
+ */
+export class ReplayEngine implements Engine {
+  readonly config: EngineConfig;
+  private readonly store: FixtureStore;
+
+  constructor(
+    fixtures: string | FixtureStore,
+    private readonly options: ReplayEngineOptions = {}
+  ) {
+    this.store = typeof fixtures === "string" ? new FixtureStore(fixtures) : fixtures;
+    const recorded = options.engine;
+    this.config = recorded
+      ? { ...(getEngine(recorded)?.config ?? REPLAY_CONFIG), name: recorded }
+      : REPLAY_CONFIG;
+  }
+
+  async scrape(meta: EngineMeta): Promise<EngineResult> {
+    const fixture = await this.findFixture(meta.url);
+    if (fixture?.error) {
+      meta.logger?.debug(`[${this.config.name}] Replaying ${fixture.engine} error for ${meta.url}`);
+      throw replayError(this.config.name, fixture.error);
+    }
+    if (!fixture?.response) {
+      throw new EngineUnavailableError(
+        this.config.name,
+        `No recording of ${meta.url} in ${this.store.dir}`
+      );
+    }
+
+    meta.logger?.debug(
+      `[${this.config.name}] Replaying ${fixture.engine} response for ${meta.url}`
+    );
+    return replayResult(this.config.name, fixture.response);
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  /** The engine's recording, or the latest successful one (else the latest failure) */
+  private async findFixture(url: string): Promise<EngineFixture | null> {
+    if (this.options.engine) {
+      return this.store.load(this.options.engine, url);
+    }
+    const fixtures = await this.store.loadAll(url);
+    return fixtures.find((fixture) => fixture.response) ?? fixtures[0] ?? null;
+  }
+}
+
+/**
+ * Engine that passes requests to another engine and records each answer
+ *
+ * Attempts aborted through the abort signal (caller cancellation, a faster engine winning
+ * a parallel race, the orchestrator's maxTimeout) are not recorded.
+ */
+export class RecordingEngine implements Engine {
+  readonly config: EngineConfig;
+  private readonly store: FixtureStore;
+
+  constructor(
+    private readonly engine: Engine,
+    fixtures: string | FixtureStore
+  ) {
+    this.config = engine.config;
+    this.store = typeof fixtures === "string" ? new FixtureStore(fixtures) : fixtures;
+  }
+
+  async scrape(meta: EngineMeta): Promise<EngineResult> {
+    let result: EngineResult;
+    try {
+      result = await this.engine.scrape(meta);
+    } catch (error) {
+      if (!meta.abortSignal?.aborted) {
+        await this.store.save(errorFixture(meta.url, this.config.name, error));
+      }
+      throw error;
+    }
+
+    await this.store.save(resultFixture(meta.url, this.config.name, result));
+    return result;
+  }
+
+  isAvailable(): boolean {
+    return this.engine.isAvailable();
+  }
+}
+
+/**
+ * Recording versions of engines, for the `engines` option
+ *
+ * @param engines - Engines to record, by name or instance (default: the registered cascade)
+ * @throws ValidationError for names that aren't registered
+ */
+export function recordEngines(
+  dir: string,
+  engines: Array<EngineName | Engine> = getRegisteredEngines()
+): Engine[] {
+  const store = new FixtureStore(dir);
+  return engines.map((entry) => {
+    const engine = typeof entry === "string" ? getEngine(entry) : entry;
+    if (!engine) {
+      throw new ValidationError(`Unknown engine "${entry}"`, { field: "engines" });
+    }
+    return new RecordingEngine(engine, store);
+  });
+}
+
+/**
+ * Replay engines standing in for the recorded ones, by name, for the `engines` option.
+ * Each serves only its own engine's recordings, so the cascade and its fallbacks play
+ * out as they were recorded.
+ *
+ * @param names - Engines to stand in for (default: the registered cascade)
+ */
+export function replayEngines(dir: string, names: EngineName[] = getRegisteredEngines()): Engine[] {
+  const store = new FixtureStore(dir);
+  return names.map((name) => new ReplayEngine(store, { engine: name }));
+}
@@ -7,7 +7,7 @@
  */
 
 import { gotScraping } from "got-scraping";
-import type { Engine, EngineConfig, EngineMeta, EngineResult } from "../types.js";
+import type { Engine, EngineConfig, EngineMeta, EngineResult, RedirectHop } from "../types.js";
 import type { ProxyConfig } from "../../types.js";
 import {
   EngineError,
@@ -21,6 +21,7 @@ import { ENGINE_CONFIGS } from "../types.js";
 import { getRandomUserAgent, generateReferer, UserAgentRotator } from "../../utils/user-agents.js";
 import { geoConsistentHeaders } from "../../utils/geo-locale.js";
 import { detectWaf, formatWafChallengeType } from "../../waf/index.js";
+import { decodeResponseBody } from "../../documents/index.js";
 
 function resolveProxyUrl(proxy?: ProxyConfig): string | undefined {
   if (!proxy) return undefined;
@@ -95,18 +96,17 @@ export class TlsClientEngine implements Engine {
     }
 
     const startTime = Date.now();
-    const { url, options, logger, abortSignal } = meta;
+    const { url, options, logger, abortSignal, conditional } = meta;
 
-    try {
-      // Create abort controller for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.config.maxTimeout);
+    // Create abort controller for timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.maxTimeout);
 
-      // Link external abort signal
-      if (abortSignal) {
-        abortSignal.addEventListener("abort", () => controller.abort(), { once: true });
-      }
+    // Link external abort signal (unlinked in finally: batch URLs share one signal)
+    const onExternalAbort = () => controller.abort();
+    abortSignal?.addEventListener("abort", onExternalAbort, { once: true });
 
+    try {
       logger?.debug(`[tlsclient] Fetching ${url}`);
 
       // Resolve User-Agent: explicit userAgent > explicit header > rotated UA
@@ -148,6 +148,11 @@ export class TlsClientEngine implements Engine {
         mergedHeaders["User-Agent"] = options.userAgent;
       }
 
+      // Revalidate a page fetched before: unchanged pages answer 304 with no body
+      if (conditional?.etag) mergedHeaders["If-None-Match"] = conditional.etag;
+      if (conditional?.lastModified) mergedHeaders["If-Modified-Since"] = conditional.lastModified;
+
+      const redirects: RedirectHop[] = [];
       const response = await gotScraping({
         url,
         timeout: {
@@ -155,6 +160,17 @@ export class TlsClientEngine implements Engine {
         },
         headers: mergedHeaders,
         followRedirect: true,
+        hooks: {
+          // Each hop, as got only keeps the URLs redirected to
+          beforeRedirect: [
+            (_options, redirect) => {
+              redirects.push({ url: redirect.url, statusCode: redirect.statusCode });
+            },
+          ],
+        },
+        signal: controller.signal,
+        // Raw bytes: PDF/DOCX bodies must not be decoded as text
+        responseType: "buffer",
         // got-scraping handles TLS fingerprinting automatically
         // UA and Referer are now managed by our rotation system
       });
@@ -162,7 +178,7 @@ export class TlsClientEngine implements Engine {
       clearTimeout(timeoutId);
 
       const duration = Date.now() - startTime;
-      const html = response.body;
+      const contentType = response.headers["content-type"] as string | undefined;
 
       const headersRecord: Record<string, string> = Object.fromEntries(
         Object.entries(response.headers).map(([k, v]) => [
@@ -171,6 +187,51 @@ export class TlsClientEngine implements Engine {
         ])
       );
 
+      if (response.statusCode === 304) {
+        logger?.debug(`[tlsclient] Not modified: ${url}`);
+        return {
+          html: "",
+          url: response.url || url,
+          statusCode: 304,
+          contentType,
+          headers: headersRecord,
+          redirects,
+          notModified: true,
+          engine: "tlsclient",
+          duration,
+        };
+      }
+
+      // PDF, DOCX, text and JSON bodies are converted to HTML (error pages never are)
+      const body = Buffer.from(response.body);
+      const { html, charset, document } =
+        response.statusCode >= 400
+          ? { html: body.toString("utf8"), charset: undefined, document: undefined }
+          : decodeResponseBody(body, contentType, response.url || url);
+
+      logger?.debug(
+        `[tlsclient] Got response: ${response.statusCode} (${html.length} chars) in ${duration}ms`
+      );
+
+      if (document) {
+        // Documents are never challenge pages; any extracted text is enough
+        logger?.debug(`[tlsclient] Converted ${document.type} document`);
+        if (this.extractText(html).length === 0) {
+          throw new InsufficientContentError("tlsclient", 0, 1);
+        }
+        return {
+          html,
+          url: response.url,
+          statusCode: response.statusCode,
+          contentType,
+          headers: headersRecord,
+          redirects,
+          document,
+          engine: "tlsclient",
+          duration,
+        };
+      }
+
       const waf = detectWaf({
         url,
         statusCode: response.statusCode,
@@ -178,10 +239,6 @@ export class TlsClientEngine implements Engine {
         html,
       });
 
-      logger?.debug(
-        `[tlsclient] Got response: ${response.statusCode} (${html.length} chars) in ${duration}ms`
-      );
-
       // Check for HTTP errors
       if (response.statusCode >= 400) {
         if (waf) {
@@ -225,8 +282,10 @@ export class TlsClientEngine implements Engine {
         html,
         url: response.url,
         statusCode: response.statusCode,
-        contentType: response.headers["content-type"] as string | undefined,
+        contentType,
         headers: headersRecord,
+        redirects,
+        charset,
         engine: "tlsclient",
         duration,
       };
@@ -256,6 +315,9 @@ export class TlsClientEngine implements Engine {
       }
 
       throw new EngineError("tlsclient", String(error));
+    } finally {
+      clearTimeout(timeoutId);
+      abortSignal?.removeEventListener("abort", onExternalAbort);
     }
   }
 
@@ -9,11 +9,29 @@
 
 import type { ScrapeOptions } from "../types.js";
 import type { Logger } from "../utils/logger.js";
+import type { DocumentProperties, DocumentType } from "../documents/index.js";
+import type { PageActionResult } from "./hero/actions.js";
 
 /**
- * Available engine names
+ * Engines that ship with the library
  */
-export type EngineName = "http" | "tlsclient" | "hero";
+export type BuiltInEngineName = "http" | "tlsclient" | "hero";
+
+/**
+ * Engine names: the built-ins or the name of a custom engine (see registerEngine).
+ * `string & Record<never, never>` keeps editor completion for the built-in names.
+ */
+export type EngineName = BuiltInEngineName | (string & Record<never, never>);
+
+/**
+ * A redirect followed on the way to the final URL
+ */
+export interface RedirectHop {
+  /** URL that answered with the redirect */
+  url: string;
+  /** Redirect status (301, 302, 303, 307 or 308) */
+  statusCode: number;
+}
 
 /**
  * Result returned by an engine after scraping
@@ -23,12 +41,24 @@ export interface EngineResult {
   html: string;
   /** Final URL after redirects */
   url: string;
-  /** HTTP status code */
+  /** HTTP status code (0 when the engine couldn't read it) */
   statusCode: number;
+  /** Redirects followed from the requested URL to `url`, in order */
+  redirects?: RedirectHop[];
   /** Content-Type header */
   contentType?: string;
   /** Response headers */
   headers?: Record<string, string>;
+  /** Charset the body was decoded with (http/tlsclient; Hero pages are decoded by the browser) */
+  charset?: string;
+  /** Set when the response was a document (PDF, DOCX, text, JSON) converted to HTML */
+  document?: {
+    type: DocumentType;
+    properties: DocumentProperties;
+  };
+
+  /** Set when the server answered 304 to a conditional request (html is empty) */
+  notModified?: boolean;
 
   /** Engine that produced this result */
   engine: EngineName;
@@ -43,6 +73,12 @@ export interface EngineResult {
       totalRequests: number;
       uniqueEndpoints: number;
     };
+    /** Screenshot of the rendered page (when "screenshot" is in formats) */
+    screenshot?: Buffer;
+    /** PDF of the rendered page (when "pdf" is in formats) */
+    pdf?: Buffer;
+    /** Outcome of each scripted action (when options.actions is set) */
+    actions?: PageActionResult[];
   };
 }
 
@@ -58,6 +94,18 @@ export interface EngineMeta {
   logger?: Logger;
   /** Abort signal for cancellation */
   abortSignal?: AbortSignal;
+  /** Validators from an earlier fetch; http and tlsclient make the request conditional */
+  conditional?: ConditionalRequest;
+}
+
+/**
+ * Validators for a conditional request
+ */
+export interface ConditionalRequest {
+  /** Sent as If-None-Match */
+  etag?: string;
+  /** Sent as If-Modified-Since */
+  lastModified?: string;
 }
 
 /**
@@ -90,6 +138,10 @@ export interface EngineFeatures {
   waitFor: boolean;
   /** Can take screenshots */
   screenshots: boolean;
+  /** Can print pages to PDF (default: false) */
+  pdf?: boolean;
+  /** Can run scripted page actions (click, type, evaluate...) (default: false) */
+  actions?: boolean;
 }
 
 /**
@@ -117,7 +169,7 @@ export interface Engine {
 /**
  * Default engine configurations
  */
-export const ENGINE_CONFIGS: Record<EngineName, EngineConfig> = {
+export const ENGINE_CONFIGS: Record<BuiltInEngineName, EngineConfig> = {
   http: {
     name: "http",
     timeout: 3000,
@@ -129,6 +181,8 @@ export const ENGINE_CONFIGS: Record<EngineName, EngineConfig> = {
       tlsFingerprint: false,
       waitFor: false,
       screenshots: false,
+      pdf: false,
+      actions: false,
     },
   },
   tlsclient: {
@@ -142,6 +196,8 @@ export const ENGINE_CONFIGS: Record<EngineName, EngineConfig> = {
       tlsFingerprint: true,
       waitFor: false,
       screenshots: false,
+      pdf: false,
+      actions: false,
     },
   },
   hero: {
@@ -155,11 +211,14 @@ export const ENGINE_CONFIGS: Record<EngineName, EngineConfig> = {
       tlsFingerprint: true,
       waitFor: true,
       screenshots: true,
+      pdf: true,
+      actions: true,
     },
   },
 };
 
 /**
- * Default engine order (by quality, highest first)
+ * Built-in engine order (by quality, highest first). The default cascade also places
+ * registered custom engines by their quality (see getRegisteredEngines).
  */
-export const DEFAULT_ENGINE_ORDER: EngineName[] = ["http", "tlsclient", "hero"];
+export const DEFAULT_ENGINE_ORDER: BuiltInEngineName[] = ["http", "tlsclient", "hero"];
@@ -38,6 +38,9 @@ export enum ReaderErrorCode {
   CLIENT_CLOSED = "CLIENT_CLOSED",
   NOT_INITIALIZED = "NOT_INITIALIZED",
 
+  // Cancellation
+  ABORTED = "ABORTED",
+
   // Unknown
   UNKNOWN = "UNKNOWN",
 }
@@ -293,6 +296,23 @@ export class NotInitializedError extends ReaderError {
   }
 }
 
+/**
+ * Operation cancelled via a caller-supplied AbortSignal
+ */
+export class AbortedError extends ReaderError {
+  constructor(options?: { url?: string; cause?: Error }) {
+    super(
+      options?.url ? `Scrape aborted: ${options.url}` : "Scrape aborted",
+      ReaderErrorCode.ABORTED,
+      {
+        ...options,
+        retryable: false,
+      }
+    );
+    this.name = "AbortedError";
+  }
+}
+
 /**
  * Helper to wrap unknown errors in ReaderError
  */
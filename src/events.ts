@@ -0,0 +1,220 @@
+/**
+ * Progress events
+ *
+ * Crawler, Scraper and ReaderClient emit typed events describing what a run is
+ * doing and why: URLs queued and skipped, pages fetched, each engine attempt and
+ * fallback, challenges, retries and the end of the run. Every event carries a
+ * `timestamp` (ms since epoch); events covering a span of time carry `durationMs`.
+ *
+ * @example
+ * const crawler = new Crawler({ url, pool });
+ * crawler.on("url:skipped", (event) => console.log(event.reason, event.url));
+ * crawler.on("done", (event) => console.log(event.skipped));
+ * await crawler.crawl();
+ */
+
+import type { EngineName } from "./engines/types.js";
+
+/**
+ * Why a discovered URL was not crawled
+ * - robots: disallowed by robots.txt
+ * - honeypot: looks like a hidden trap link
+ * - pattern: rejected by includePatterns / excludePatterns
+ * - non-content: legal, policy or utility page (login, cart, feeds, ...)
+ * - duplicate: already queued or crawled
+ * - external: on a host outside the crawl scope
+ * - out-of-scope: on the seed's host but outside the scope's path prefix
+ * - budget: the scope's page budget for its path prefix is used up
+ * - query-variants: the scope's limit of query-string variants for its path is reached
+ * - canonical: the page's rel=canonical (or hreflang group) is already crawled or queued
+ */
+export type UrlSkipReason =
+  | "robots"
+  | "honeypot"
+  | "pattern"
+  | "non-content"
+  | "duplicate"
+  | "external"
+  | "out-of-scope"
+  | "budget"
+  | "query-variants"
+  | "canonical";
+
+/**
+ * Payload of each event, by name
+ */
+export interface ReaderEventMap {
+  /** A URL was added to the crawl frontier */
+  "url:queued": {
+    url: string;
+    depth: number;
+    /** Where the URL came from */
+    source: "seed" | "link" | "sitemap";
+    /** Page the link was found on */
+    parentUrl?: string;
+  };
+
+  /** A URL was not crawled (or, for scrapes, not fetched) */
+  "url:skipped": {
+    url: string;
+    reason: UrlSkipReason;
+    /** Page the link was found on */
+    parentUrl?: string;
+  };
+
+  /** A page was fetched through the engine cascade */
+  "page:fetched": {
+    url: string;
+    /** URL after redirects */
+    finalUrl: string;
+    statusCode: number;
+    engine: EngineName;
+    /** Time spent in the cascade, all attempts included */
+    durationMs: number;
+    /** Crawl depth (crawls only) */
+    depth?: number;
+    /** The server answered 304 Not Modified (see changeTracking) */
+    notModified?: boolean;
+  };
+
+  /** An engine started fetching a URL */
+  "engine:attempt": {
+    url: string;
+    engine: EngineName;
+    /** Position in this URL's cascade (1 for the first engine) */
+    attempt: number;
+  };
+
+  /** An engine failed; the cascade moves on to `to` (null when it gives up) */
+  "engine:fallback": {
+    url: string;
+    from: EngineName;
+    to: EngineName | null;
+    error: string;
+    /** Time the failed attempt took */
+    durationMs: number;
+  };
+
+  /** An engine hit a bot challenge or WAF block page */
+  "challenge:detected": {
+    url: string;
+    engine: EngineName;
+    challengeType: string;
+  };
+
+  /** A failed URL will be scraped again */
+  retry: {
+    url: string;
+    /** Attempt about to start (2 for the first retry) */
+    attempt: number;
+    maxRetries: number;
+    /** Backoff before the attempt (0 when it starts right away) */
+    delayMs: number;
+    error: string;
+  };
+
+  /** The crawl or batch finished (also emitted when aborted or timed out) */
+  done: {
+    kind: "crawl" | "scrape";
+    status: "completed" | "aborted";
+    durationMs: number;
+    successfulUrls: number;
+    failedUrls: number;
+    /** URLs skipped per reason (crawls only) */
+    skipped?: Partial<Record<UrlSkipReason, number>>;
+  };
+}
+
+export type ReaderEventName = keyof ReaderEventMap;
+
+/**
+ * An emitted event: its payload plus `type` and `timestamp`
+ */
+export type ReaderEvent<K extends ReaderEventName = ReaderEventName> = {
+  [P in K]: { type: P; timestamp: number } & ReaderEventMap[P];
+}[K];
+
+/**
+ * Callback receiving every event (ScrapeOptions.onEvent / CrawlOptions.onEvent)
+ */
+export type ReaderEventHandler = (event: ReaderEvent) => void;
+
+/**
+ * Build an event, stamped with the current time
+ */
+export function createEvent<K extends ReaderEventName>(
+  type: K,
+  data: ReaderEventMap[K]
+): ReaderEvent<K> {
+  return { type, timestamp: Date.now(), ...data } as ReaderEvent<K>;
+}
+
+/**
+ * Typed event emitter
+ *
+ * A listener that throws is ignored so a broken progress hook can't fail a crawl.
+ */
+export class ReaderEventEmitter {
+  /** Listeners by event type (dispatch only hands each the events of its own type) */
+  private listeners = new Map<ReaderEventName, Set<(event: never) => void>>();
+
+  /** Also called with every event, after the listeners */
+  protected onEvent?: ReaderEventHandler;
+
+  /**
+   * Listen for an event
+   */
+  on<K extends ReaderEventName>(type: K, listener: (event: ReaderEvent<K>) => void): this {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+    return this;
+  }
+
+  /**
+   * Listen for the next occurrence of an event only
+   */
+  once<K extends ReaderEventName>(type: K, listener: (event: ReaderEvent<K>) => void): this {
+    const wrapper = (event: ReaderEvent<K>) => {
+      this.off(type, wrapper);
+      listener(event);
+    };
+    return this.on(type, wrapper);
+  }
+
+  /**
+   * Stop listening for an event
+   */
+  off<K extends ReaderEventName>(type: K, listener: (event: ReaderEvent<K>) => void): this {
+    this.listeners.get(type)?.delete(listener);
+    return this;
+  }
+
+  /**
+   * Emit an event built from its payload
+   */
+  protected emit<K extends ReaderEventName>(type: K, data: ReaderEventMap[K]): void {
+    this.dispatch(createEvent<ReaderEventName>(type, data));
+  }
+
+  /**
+   * Deliver an already built event to the listeners and onEvent
+   */
+  protected dispatch(event: ReaderEvent): void {
+    for (const listener of [...(this.listeners.get(event.type) ?? [])]) {
+      try {
+        (listener as ReaderEventHandler)(event);
+      } catch {
+        // ignore listener errors
+      }
+    }
+    try {
+      this.onEvent?.(event);
+    } catch {
+      // ignore handler errors
+    }
+  }
+}
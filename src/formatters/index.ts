@@ -1,3 +1,17 @@
 // Export all formatters
 export { formatToMarkdown, htmlToMarkdown } from "./markdown";
 export { formatToHTML } from "./html";
+export { formatToText, htmlToText } from "./text";
+export { formatToJSON, htmlToDocument } from "./json";
+export type {
+  ContentDocument,
+  ContentBlock,
+  HeadingBlock,
+  ParagraphBlock,
+  ListBlock,
+  ListItem,
+  TableBlock,
+  CodeBlock,
+  ImageBlock,
+  QuoteBlock,
+} from "./json";
@@ -0,0 +1,403 @@
+import { parseHTML } from "linkedom";
+
+/**
+ * Structured JSON formatter
+ *
+ * Converts cleaned HTML into a block-level document tree (headings, paragraphs,
+ * lists, tables, code, images, quotes) so downstream chunkers can work on
+ * structure instead of re-parsing markdown.
+ *
+ * Every block carries the CSS selector of the element it came from, relative
+ * to the HTML passed in (i.e. the cleaned HTML, not the original page).
+ */
+
+interface BlockBase {
+  /** CSS selector of the source element */
+  selector: string;
+}
+
+export interface HeadingBlock extends BlockBase {
+  type: "heading";
+  level: 1 | 2 | 3 | 4 | 5 | 6;
+  text: string;
+}
+
+export interface ParagraphBlock extends BlockBase {
+  type: "paragraph";
+  text: string;
+}
+
+export interface ListItem {
+  text: string;
+  /** Nested blocks inside the item (sub-lists, code, images) */
+  children?: ContentBlock[];
+}
+
+export interface ListBlock extends BlockBase {
+  type: "list";
+  ordered: boolean;
+  items: ListItem[];
+}
+
+export interface TableBlock extends BlockBase {
+  type: "table";
+  /** Header cells (empty when the table has no header row) */
+  headers: string[];
+  rows: string[][];
+}
+
+export interface CodeBlock extends BlockBase {
+  type: "code";
+  /** Language from a `language-*` / `lang-*` class, if present */
+  language?: string;
+  text: string;
+}
+
+export interface ImageBlock extends BlockBase {
+  type: "image";
+  src: string;
+  alt: string;
+}
+
+export interface QuoteBlock extends BlockBase {
+  type: "quote";
+  children: ContentBlock[];
+}
+
+export type ContentBlock =
+  | HeadingBlock
+  | ParagraphBlock
+  | ListBlock
+  | TableBlock
+  | CodeBlock
+  | ImageBlock
+  | QuoteBlock;
+
+/**
+ * Block-level document tree
+ */
+export interface ContentDocument {
+  blocks: ContentBlock[];
+}
+
+const HEADING_TAGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+
+/** Elements whose content never becomes text */
+const SKIP_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "head",
+  "svg",
+  "canvas",
+  "iframe",
+  "object",
+  "button",
+  "select",
+  "input",
+  "textarea",
+]);
+
+/** Containers that are walked into rather than read as inline text */
+const CONTAINER_TAGS = new Set([
+  "html",
+  "body",
+  "main",
+  "article",
+  "section",
+  "div",
+  "header",
+  "footer",
+  "aside",
+  "nav",
+  "figure",
+  "figcaption",
+  "details",
+  "summary",
+  "form",
+  "fieldset",
+  "address",
+  "center",
+  "dl",
+  "dt",
+  "dd",
+  "hr",
+]);
+
+/**
+ * Convert HTML to a structured document tree
+ */
+export function htmlToDocument(html: string): ContentDocument {
+  const { document } = parseHTML(asDocument(html));
+  const root = document.body as Element | null;
+  if (!root) {
+    return { blocks: [] };
+  }
+  return { blocks: collectBlocks(root) };
+}
+
+/**
+ * Alias for htmlToDocument (mirrors formatToMarkdown / formatToHTML)
+ */
+export const formatToJSON = htmlToDocument;
+
+/**
+ * linkedom only builds <body> for full documents: a bare fragment becomes the
+ * document element itself, so wrap fragments before parsing
+ */
+function asDocument(html: string): string {
+  if (/<html[\s>]/i.test(html)) return html;
+  if (/<body[\s>]/i.test(html)) return `<html>${html}</html>`;
+  return `<html><body>${html}</body></html>`;
+}
+
+/**
+ * Walk a container and emit its blocks in document order.
+ * Loose inline content between blocks becomes a paragraph attributed to the container.
+ */
+function collectBlocks(container: Element): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let inline = "";
+
+  const flush = () => {
+    const text = normalizeText(inline);
+    inline = "";
+    if (text) {
+      blocks.push({ type: "paragraph", text, selector: selectorFor(container) });
+    }
+  };
+
+  for (const node of Array.from(container.childNodes)) {
+    if (node.nodeType === 3) {
+      inline += collapse(node.textContent);
+      continue;
+    }
+    if (node.nodeType !== 1) continue;
+
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    if (SKIP_TAGS.has(tag)) continue;
+
+    if (HEADING_TAGS.has(tag)) {
+      flush();
+      const text = normalizeText(inlineText(el));
+      if (text) {
+        blocks.push({
+          type: "heading",
+          level: Number(tag[1]) as HeadingBlock["level"],
+          text,
+          selector: selectorFor(el),
+        });
+      }
+    } else if (tag === "p") {
+      flush();
+      const text = normalizeText(inlineText(el));
+      if (text) {
+        blocks.push({ type: "paragraph", text, selector: selectorFor(el) });
+      }
+      blocks.push(...imagesIn(el));
+    } else if (tag === "ul" || tag === "ol") {
+      flush();
+      const list = toList(el);
+      if (list.items.length > 0) blocks.push(list);
+    } else if (tag === "table") {
+      flush();
+      const table = toTable(el);
+      if (table.headers.length > 0 || table.rows.length > 0) blocks.push(table);
+    } else if (tag === "pre") {
+      flush();
+      const text = (el.textContent ?? "").replace(/^\n+|\s+$/g, "");
+      if (text) {
+        const language = languageOf(el);
+        blocks.push({
+          type: "code",
+          ...(language ? { language } : {}),
+          text,
+          selector: selectorFor(el),
+        });
+      }
+    } else if (tag === "img") {
+      flush();
+      const image = toImage(el);
+      if (image) blocks.push(image);
+    } else if (tag === "blockquote") {
+      flush();
+      const children = collectBlocks(el);
+      if (children.length > 0) {
+        blocks.push({ type: "quote", children, selector: selectorFor(el) });
+      }
+    } else if (CONTAINER_TAGS.has(tag)) {
+      flush();
+      blocks.push(...collectBlocks(el));
+    } else {
+      // Inline element (a, span, strong, code, br, ...): keep accumulating
+      inline += inlineText(el);
+      const images = imagesIn(el);
+      if (images.length > 0) {
+        flush();
+        blocks.push(...images);
+      }
+    }
+  }
+
+  flush();
+  return blocks;
+}
+
+function toList(el: Element): ListBlock {
+  const items: ListItem[] = [];
+
+  for (const li of Array.from(el.children)) {
+    if (li.tagName.toLowerCase() !== "li") continue;
+
+    // Loose inline content of the item is its text; everything else is nested
+    const own = selectorFor(li);
+    const blocks = collectBlocks(li);
+    const isOwnText = (block: ContentBlock) => block.type === "paragraph" && block.selector === own;
+    let text = blocks
+      .filter(isOwnText)
+      .map((block) => (block as ParagraphBlock).text)
+      .join(" ");
+    const children = blocks.filter((block) => !isOwnText(block));
+
+    // <li><p>Item</p>...</li>: lift the leading paragraph into the item text
+    if (!text && children[0]?.type === "paragraph") {
+      text = (children.shift() as ParagraphBlock).text;
+    }
+
+    if (text || children.length > 0) {
+      items.push(children.length > 0 ? { text, children } : { text });
+    }
+  }
+
+  return {
+    type: "list",
+    ordered: el.tagName.toLowerCase() === "ol",
+    items,
+    selector: selectorFor(el),
+  };
+}
+
+function toTable(el: Element): TableBlock {
+  const rows = Array.from(el.querySelectorAll("tr")).filter(
+    (tr) => tr.closest("table") === el
+  ) as Element[];
+
+  let headers: string[] = [];
+  const body: string[][] = [];
+
+  for (const tr of rows) {
+    const cells = Array.from(tr.children).filter((cell) =>
+      ["td", "th"].includes(cell.tagName.toLowerCase())
+    );
+    const values = cells.map((cell) => normalizeText(inlineText(cell)));
+    const isHeader =
+      headers.length === 0 &&
+      body.length === 0 &&
+      (tr.parentElement?.tagName.toLowerCase() === "thead" ||
+        (cells.length > 0 && cells.every((cell) => cell.tagName.toLowerCase() === "th")));
+
+    if (isHeader) {
+      headers = values;
+    } else if (values.some((value) => value.length > 0)) {
+      body.push(values);
+    }
+  }
+
+  return { type: "table", headers, rows: body, selector: selectorFor(el) };
+}
+
+function toImage(el: Element): ImageBlock | null {
+  const src = el.getAttribute("src") ?? el.getAttribute("data-src");
+  if (!src) return null;
+  return {
+    type: "image",
+    src,
+    alt: normalizeText(el.getAttribute("alt") ?? ""),
+    selector: selectorFor(el),
+  };
+}
+
+function imagesIn(el: Element): ImageBlock[] {
+  return (Array.from(el.querySelectorAll("img")) as Element[])
+    .map(toImage)
+    .filter((image): image is ImageBlock => image !== null);
+}
+
+function languageOf(pre: Element): string | undefined {
+  const code = pre.querySelector("code");
+  const classes = `${pre.getAttribute("class") ?? ""} ${code?.getAttribute("class") ?? ""}`;
+  const match = classes.match(/(?:^|\s)(?:language|lang)-([\w+#-]+)/);
+  return match?.[1];
+}
+
+/**
+ * Text of an element with `<br>` kept as line breaks and skipped tags dropped
+ */
+function inlineText(el: Element): string {
+  const tag = el.tagName.toLowerCase();
+  if (tag === "br") return "\n";
+  if (SKIP_TAGS.has(tag)) return "";
+
+  let text = "";
+  for (const node of Array.from(el.childNodes)) {
+    if (node.nodeType === 3) {
+      text += collapse(node.textContent);
+    } else if (node.nodeType === 1) {
+      text += inlineText(node as Element);
+    }
+  }
+  return text;
+}
+
+/**
+ * Source whitespace (including newlines) is insignificant outside <pre>
+ */
+function collapse(text: string | null): string {
+  return (text ?? "").replace(/\s+/g, " ");
+}
+
+/**
+ * Trim each line and drop runs of blank lines; the only newlines left come from <br>
+ */
+function normalizeText(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line, i, lines) => line.length > 0 || (i > 0 && lines[i - 1].length > 0))
+    .join("\n")
+    .trim();
+}
+
+/**
+ * Build a CSS selector for an element: nearest ancestor id, then tag:nth-of-type steps
+ */
+function selectorFor(el: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = el;
+
+  while (current) {
+    const tag = current.tagName.toLowerCase();
+    if (tag === "html") break;
+
+    const id = current.getAttribute("id");
+    if (id && /^[A-Za-z][\w-]*$/.test(id)) {
+      parts.unshift(`#${id}`);
+      break;
+    }
+
+    const parent: Element | null = current.parentElement;
+    if (!parent || tag === "body") {
+      parts.unshift(tag);
+      break;
+    }
+
+    const tagName = current.tagName;
+    const sameTag = Array.from(parent.children).filter((sibling) => sibling.tagName === tagName);
+    parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+    current = parent;
+  }
+
+  return parts.join(" > ");
+}
@@ -0,0 +1,68 @@
+/**
+ * Plain-text formatter
+ *
+ * Renders readable plain text from cleaned HTML. Built on the JSON document
+ * tree so both formats agree on what counts as a block: blocks are separated
+ * by a blank line and `<br>` line breaks inside a paragraph are kept.
+ */
+
+import { htmlToDocument, type ContentBlock } from "./json";
+
+/**
+ * Convert HTML to plain text with paragraph breaks preserved
+ */
+export function htmlToText(html: string): string {
+  return renderBlocks(htmlToDocument(html).blocks, "");
+}
+
+/**
+ * Alias for htmlToText (mirrors formatToMarkdown / formatToHTML)
+ */
+export const formatToText = htmlToText;
+
+function renderBlocks(blocks: ContentBlock[], indent: string): string {
+  return blocks
+    .map((block) => renderBlock(block, indent))
+    .filter((text) => text.length > 0)
+    .join("\n\n");
+}
+
+function renderBlock(block: ContentBlock, indent: string): string {
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+    case "code":
+      return indentLines(block.text, indent);
+
+    case "list":
+      return block.items
+        .map((item, i) => {
+          const marker = block.ordered ? `${i + 1}. ` : "- ";
+          const line = indentLines(`${marker}${item.text}`, indent);
+          if (!item.children?.length) return line;
+          return `${line}\n${renderBlocks(item.children, `${indent}  `)}`;
+        })
+        .join("\n");
+
+    case "table":
+      return [block.headers, ...block.rows]
+        .filter((row) => row.length > 0)
+        .map((row) => indentLines(row.join(" | "), indent))
+        .join("\n");
+
+    case "quote":
+      return renderBlocks(block.children, indent);
+
+    case "image":
+      // Images carry no readable text
+      return "";
+  }
+}
+
+function indentLines(text: string, indent: string): string {
+  if (!indent) return text;
+  return text
+    .split("\n")
+    .map((line) => `${indent}${line}`)
+    .join("\n");
+}
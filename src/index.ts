@@ -10,8 +10,16 @@
 // =============================================================================
 export { ReaderClient } from "./client";
 export type { ReaderClientOptions, ProxyRotation } from "./client";
-export { scrape, Scraper } from "./scraper";
+export { scrape, scrapeStream, Scraper } from "./scraper";
 export { crawl, Crawler } from "./crawler";
+export { ReaderEventEmitter } from "./events";
+export type {
+  ReaderEvent,
+  ReaderEventMap,
+  ReaderEventName,
+  ReaderEventHandler,
+  UrlSkipReason,
+} from "./events";
 
 // =============================================================================
 // Daemon exports
@@ -32,28 +40,107 @@ export type { DaemonServerOptions, DaemonClientOptions, DaemonStatus } from "./d
 export type {
   ScrapeOptions,
   ScrapeResult,
+  ScrapeStreamItem,
+  ScrapeStreamSuccess,
+  ScrapeStreamFailure,
   WebsiteScrapeResult,
+  OutputFormat,
+  ContentChunk,
+  CaptureOptions,
+  CapturedArtifact,
+  PageActionOutput,
   BatchMetadata,
+  ChangeTrackingOptions,
+  ChangeStatus,
+  PageChange,
+  PaginationOptions,
+  PaginationMetadata,
   Page,
   WebsiteMetadata,
+  StructuredData,
+  StructuredDataItem,
+  StructuredDataSource,
+  ArticleMetadata,
+  ArticleValue,
+  ArticleValueSource,
   ProxyConfig,
   ProxyMetadata,
   BrowserPoolConfig,
 } from "./types";
 
-export type { CrawlOptions, CrawlResult, CrawlUrl, CrawlMetadata } from "./crawl-types";
+export type {
+  CrawlOptions,
+  CrawlResult,
+  CrawlUrl,
+  CrawlMetadata,
+  CrawlLinkCandidate,
+} from "./crawl-types";
+export { CrawlFrontier } from "./crawl/frontier.js";
+export type { CrawlStrategy, FrontierEntry, FrontierOptions } from "./crawl/frontier.js";
+export { CrawlCheckpoint, defaultCrawlStateDir } from "./crawl/checkpoint.js";
+export type { CrawlState, CheckpointPage } from "./crawl/checkpoint.js";
+export { CrawlScope } from "./crawl/scope.js";
+export type { CrawlScopeMode, CrawlScopeOptions, SkippedUrl } from "./crawl/scope.js";
+export { SiteGraphBuilder, buildSiteTree } from "./crawl/site-graph.js";
+export type {
+  SiteGraph,
+  SiteGraphNode,
+  SiteTreeNode,
+  LinkEdge,
+  PageLinks,
+} from "./crawl/site-graph.js";
+export {
+  exportCrawlGraph,
+  toGraphML,
+  toDot,
+  toLlmsTxt,
+  CRAWL_GRAPH_FORMATS,
+} from "./crawl/graph-export.js";
+export type { CrawlGraphFormat } from "./crawl/graph-export.js";
 
 // =============================================================================
 // Formatter exports (for custom formatting)
 // =============================================================================
 export { formatToMarkdown, htmlToMarkdown } from "./formatters/markdown";
 export { formatToHTML } from "./formatters/html";
+export { formatToText, htmlToText } from "./formatters/text";
+export { formatToJSON, htmlToDocument } from "./formatters/json";
+export type {
+  ContentDocument,
+  ContentBlock,
+  HeadingBlock,
+  ParagraphBlock,
+  ListBlock,
+  ListItem,
+  TableBlock,
+  CodeBlock,
+  ImageBlock,
+  QuoteBlock,
+} from "./formatters/json";
 
 // =============================================================================
 // Utility exports (for advanced usage)
 // =============================================================================
-export { extractMetadata } from "./utils/metadata-extractor";
+export {
+  extractMetadata,
+  extractStructuredData,
+  extractMicrodata,
+  extractRdfa,
+} from "./utils/metadata-extractor";
+export { chunkMarkdown, estimateTokens } from "./utils/markdown-chunker";
+export type { ChunkingOptions, MarkdownChunk } from "./utils/markdown-chunker";
+export { extractPageLinks, extractPageImages } from "./utils/page-inventory";
+export type { PageLink, PageImage, ImageSource } from "./utils/page-inventory";
 export { cleanContent } from "./utils/content-cleaner";
+export { decodeBody, detectCharset, normalizeCharset } from "./utils/charset";
+export type { DecodedText, DecodeOptions, CharsetSource } from "./utils/charset";
+export { ChangeTracker, contentHash, isGoneError } from "./utils/change-tracker";
+export type { PageRecord } from "./utils/change-tracker";
+export { findNextPageUrl, nextNumberedUrls } from "./utils/pagination";
+export { UrlCanonicalizer, canonicalUrlKey, isTrackingParam } from "./utils/canonical-url";
+export type { CanonicalizationPolicy, PageCanonical } from "./utils/canonical-url";
+export { convertDocument, decodeResponseBody, detectDocumentType } from "./documents";
+export type { ConvertedDocument, DecodedBody, DocumentProperties, DocumentType } from "./documents";
 export {
   isSameDomain,
   resolveUrl,
@@ -69,6 +156,47 @@ export { rateLimit, RateLimiter, jitteredDelay } from "./utils/rate-limiter";
 // =============================================================================
 export * from "./discovery";
 
+// =============================================================================
+// Engine exports (for custom engines)
+// =============================================================================
+export {
+  registerEngine,
+  unregisterEngine,
+  getEngine,
+  getRegisteredEngines,
+  ReplayEngine,
+  RecordingEngine,
+  FixtureStore,
+  recordEngines,
+  replayEngines,
+  ENGINE_CONFIGS,
+  EngineError,
+  ChallengeDetectedError,
+  InsufficientContentError,
+  HttpError,
+  EngineTimeoutError,
+  EngineUnavailableError,
+  PageActionError,
+  AllEnginesFailedError,
+} from "./engines/index.js";
+export type {
+  Engine,
+  EngineName,
+  BuiltInEngineName,
+  EngineConfig,
+  EngineFeatures,
+  EngineMeta,
+  EngineResult,
+  RedirectHop,
+  PageAction,
+  PageActionOptions,
+  PageActionResult,
+  ReplayEngineOptions,
+  EngineFixture,
+  RecordedError,
+  RecordedResponse,
+} from "./engines/index.js";
+
 // =============================================================================
 // User-Agent rotation exports (for advanced usage)
 // =============================================================================
@@ -80,6 +208,8 @@ export type { UaRotationStrategy } from "./utils/user-agents";
 // =============================================================================
 export { BrowserPool, HeroBrowserPool } from "./browser/pool";
 export { createHeroConfig } from "./browser/hero-config";
+export { PdfCorePlugin, PdfClientPlugin, printToPdf } from "./browser/pdf-plugin";
+export type { PdfOptions } from "./browser/pdf-plugin";
 export type {
   IBrowserPool,
   PoolConfig,
@@ -126,5 +256,6 @@ export {
   BrowserPoolError,
   ClientClosedError,
   NotInitializedError,
+  AbortedError,
   wrapError,
 } from "./errors";
@@ -1,10 +1,20 @@
 import pLimit from "p-limit";
 import { htmlToMarkdown } from "./formatters/markdown";
+import { htmlToText } from "./formatters/text";
+import { htmlToDocument } from "./formatters/json";
+import { chunkMarkdown } from "./utils/markdown-chunker";
+import { toCapturedArtifact } from "./utils/capture-artifacts";
+import { extractPageImages, extractPageLinks } from "./utils/page-inventory";
 import { cleanContent } from "./utils/content-cleaner";
-import { extractMetadata } from "./utils/metadata-extractor";
+import { applyDocumentProperties, extractMetadata } from "./utils/metadata-extractor";
 import { createLogger } from "./utils/logger";
 import { fetchRobotsTxt, isUrlAllowed, type RobotsRules } from "./utils/robots-parser";
-import { jitteredDelay } from "./utils/rate-limiter";
+import { jitteredDelay, sleep } from "./utils/rate-limiter";
+import { ChangeTracker, isGoneError, isGoneStatus, type PageRecord } from "./utils/change-tracker";
+import { findNextPageUrl } from "./utils/pagination";
+import { UrlCanonicalizer } from "./utils/canonical-url";
+import { AbortedError } from "./errors";
+import { ReaderEventEmitter } from "./events";
 import {
   DEFAULT_OPTIONS,
   type ScrapeOptions,
@@ -12,8 +22,16 @@ import {
   type WebsiteScrapeResult,
   type BatchMetadata,
   type ProxyMetadata,
+  type ScrapeStreamItem,
+  type PaginationMetadata,
+  type OutputFormat,
 } from "./types";
-import { EngineOrchestrator, AllEnginesFailedError } from "./engines/index.js";
+import {
+  EngineOrchestrator,
+  AllEnginesFailedError,
+  type ConditionalRequest,
+  type OrchestratorResult,
+} from "./engines/index.js";
 import { EngineAffinityCache } from "./engines/engine-affinity.js";
 import { DomainCircuitBreaker } from "./engines/circuit-breaker.js";
 import { configureDefaultRotator } from "./utils/user-agents.js";
@@ -25,6 +43,11 @@ import {
   type SiteProfile,
 } from "./discovery/site-profile.js";
 
+/**
+ * Pages fetched by following pagination, the requested page first
+ */
+type PaginatedPages = { pages: OrchestratorResult[]; stoppedBy: PaginationMetadata["stoppedBy"] };
+
 /**
  * Scraper class with built-in concurrency support
  *
@@ -32,7 +55,8 @@ import {
  * - Hero-based browser automation
  * - Automatic Cloudflare challenge detection and bypass
  * - Built-in concurrency via browser pool
- * - Progress tracking
+ * - Progress tracking and events (engine attempts, fallbacks, retries)
+ * - Optional pagination following, merging multi-page articles into one result
  * - Error handling per URL
  *
  * @example
@@ -43,30 +67,48 @@ import {
  *   proxy: { type: 'residential', ... }
  * });
  *
+ * scraper.on("retry", (event) => console.log(`Retrying ${event.url}: ${event.error}`));
+ *
  * const result = await scraper.scrape();
  * console.log(`Scraped ${result.batchMetadata.successfulUrls} URLs`);
  */
-export class Scraper {
+export class Scraper extends ReaderEventEmitter {
   private options: Required<ScrapeOptions>;
   private logger = createLogger("scraper");
   private orchestrator: EngineOrchestrator;
   private robotsCache: Map<string, RobotsRules | null> = new Map();
   private siteProfileCache: Map<string, SiteProfile | null> = new Map();
   private siteProfileInFlight: Map<string, Promise<SiteProfile | null>> = new Map();
+  /** Per-URL records of earlier runs (when changeTracking is set) */
+  private changeTracker: ChangeTracker | null = null;
+  /** Recorded URLs that answered 404/410 in this batch */
+  private removedUrls: Set<string> = new Set();
+  /** Batch URLs dropped as duplicates of an earlier one (when canonicalization is set) */
+  private duplicateUrls: string[] = [];
+  /** Position in the caller's urls of each URL scraped (duplicates leave gaps) */
+  private urlPositions: number[];
+  /** Cancels fetches: the caller's abortSignal, or stream()'s own signal linked to it */
+  private abortSignal: AbortSignal | undefined;
 
   constructor(options: ScrapeOptions) {
+    super();
+    this.onEvent = options.onEvent;
+
     // Merge with defaults
     this.options = {
       ...DEFAULT_OPTIONS,
       ...options,
     } as Required<ScrapeOptions>;
+    this.abortSignal = this.options.abortSignal;
 
     this.orchestrator = new EngineOrchestrator({
       engines: this.options.engines,
       skipEngines: this.options.skipEngines,
       forceEngine: this.options.forceEngine,
+      parallelRacing: this.options.parallelRacing,
       logger: this.logger,
       verbose: this.options.verbose,
+      onEvent: (event) => this.dispatch(event),
 
       // Phase 1.5.11/1.5.12: keep per-domain learning and avoid burning attempts.
       affinityCache: new EngineAffinityCache(),
@@ -79,6 +121,32 @@ export class Scraper {
       }),
     });
 
+    // Scrape one URL per canonical key; stream items keep the caller's positions
+    const canonicalizer = this.options.canonicalization
+      ? new UrlCanonicalizer(this.options.canonicalization)
+      : undefined;
+    this.urlPositions = this.options.urls.map((_, position) => position);
+    if (canonicalizer) {
+      const keys = new Set<string>();
+      const urls: string[] = [];
+      this.urlPositions = [];
+      this.options.urls.forEach((url, position) => {
+        const key = canonicalizer.key(url);
+        if (keys.has(key)) {
+          this.duplicateUrls.push(url);
+          return;
+        }
+        keys.add(key);
+        urls.push(url);
+        this.urlPositions.push(position);
+      });
+      this.options.urls = urls;
+    }
+
+    if (this.options.changeTracking) {
+      this.changeTracker = new ChangeTracker(this.options.changeTracking.file, canonicalizer);
+    }
+
     // Pool is required for Hero engine (but may not be needed if using http/tlsclient only)
     // The orchestrator will check availability when needed
 
@@ -199,13 +267,162 @@ export class Scraper {
    */
   async scrape(): Promise<ScrapeResult> {
     const startTime = Date.now();
+    this.reportDuplicates();
+    // Fail before fetching anything when earlier change records can't be read
+    await this.changeTracker?.load();
 
     // Pool is managed by ReaderClient - just use it
     // Scrape URLs with concurrency control
     const results = await this.scrapeWithConcurrency();
+    await this.saveChanges();
 
     // Build response
-    return this.buildScrapeResult(results, startTime);
+    const result = this.buildScrapeResult(results, startTime);
+    this.emit("done", {
+      kind: "scrape",
+      status: result.batchMetadata.status ?? "completed",
+      durationMs: result.batchMetadata.totalDuration,
+      successfulUrls: result.batchMetadata.successfulUrls,
+      failedUrls: result.batchMetadata.failedUrls,
+    });
+    return result;
+  }
+
+  /**
+   * Scrape all URLs, yielding each result as soon as its URL finishes
+   *
+   * Items arrive in completion order (not input order); use `index` to correlate.
+   * URLs dropped as duplicates by canonicalization yield no item.
+   * Honors batchConcurrency. When batchTimeoutMs elapses, URLs that have not
+   * finished yet are yielded as failure records and the stream ends.
+   * Breaking out of the loop early, or the timeout, also aborts the URLs in flight.
+   * After abortSignal fires, remaining URLs are yielded as failures with `aborted: true`.
+   *
+   * @example
+   * for await (const item of scraper.stream()) {
+   *   if (item.status === "success") await store.upsert(item.result);
+   * }
+   */
+  async *stream(): AsyncGenerator<ScrapeStreamItem, void, undefined> {
+    const startTime = Date.now();
+    this.reportDuplicates();
+    await this.changeTracker?.load();
+    const urls = this.options.urls;
+    const limit = pLimit(this.options.batchConcurrency || 1);
+    const signal = this.options.abortSignal;
+    let successfulUrls = 0;
+
+    // Aborted when the stream ends early, so scrapes in flight (their retries and
+    // browser tabs) stop with it
+    const controller = new AbortController();
+    const onExternalAbort = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener("abort", onExternalAbort, { once: true });
+    this.abortSignal = controller.signal;
+
+    const ready: ScrapeStreamItem[] = [];
+    let wake: (() => void) | null = null;
+    const push = (item: ScrapeStreamItem) => {
+      if (item.status === "failed" && signal?.aborted) {
+        item.aborted = true;
+      }
+      if (item.status === "failed" && this.removedUrls.has(item.url)) {
+        item.removed = true;
+      }
+      ready.push(item);
+      wake?.();
+      wake = null;
+    };
+
+    urls.forEach((url, i) => {
+      const index = this.urlPositions[i];
+      limit(() => this.scrapeSingleUrlWithRetry(url, i)).then(
+        ({ result, error }) =>
+          push(
+            result
+              ? { status: "success", url, index, result }
+              : {
+                  status: "failed",
+                  url,
+                  index,
+                  error: error ?? `Failed to scrape ${url}: No content returned`,
+                }
+          ),
+        (error: unknown) =>
+          push({
+            status: "failed",
+            url,
+            index,
+            error: error instanceof Error ? error.message : String(error),
+          })
+      );
+    });
+
+    let timedOut = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    if (this.options.batchTimeoutMs && this.options.batchTimeoutMs > 0) {
+      timeoutId = setTimeout(() => {
+        timedOut = true;
+        wake?.();
+        wake = null;
+      }, this.options.batchTimeoutMs);
+    }
+
+    const emitted = new Set<number>();
+    try {
+      while (emitted.size < urls.length) {
+        const item = ready.shift();
+        if (item) {
+          emitted.add(item.index);
+          if (item.status === "success") successfulUrls++;
+          yield item;
+          continue;
+        }
+        if (timedOut) break;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+
+      if (timedOut) {
+        limit.clearQueue();
+        controller.abort();
+        const error = `Batch operation timed out after ${this.options.batchTimeoutMs}ms`;
+        for (const [i, url] of urls.entries()) {
+          const index = this.urlPositions[i];
+          if (emitted.has(index)) continue;
+          emitted.add(index);
+          yield { status: "failed", url, index, error };
+        }
+      }
+    } finally {
+      clearTimeout(timeoutId);
+      // Consumer stopped early (or timeout): don't start URLs nobody will read, and
+      // stop the ones in flight
+      limit.clearQueue();
+      controller.abort();
+      signal?.removeEventListener("abort", onExternalAbort);
+      await this.saveChanges();
+      this.emit("done", {
+        kind: "scrape",
+        status: signal?.aborted || emitted.size < urls.length ? "aborted" : "completed",
+        durationMs: Date.now() - startTime,
+        successfulUrls,
+        failedUrls: emitted.size - successfulUrls,
+      });
+    }
+  }
+
+  /**
+   * Report the batch URLs dropped as duplicates
+   */
+  private reportDuplicates(): void {
+    for (const url of this.duplicateUrls) {
+      if (this.options.verbose) {
+        this.logger.info(`Skipping ${url}: duplicate of an earlier URL in the batch`);
+      }
+      this.emit("url:skipped", { url, reason: "duplicate" });
+    }
   }
 
   /**
@@ -246,17 +463,38 @@ export class Scraper {
     index: number
   ): Promise<{ result: WebsiteScrapeResult | null; error?: string }> {
     const maxRetries = this.options.maxRetries ?? 2;
+    const signal = this.abortSignal;
     let lastError: string | undefined;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (signal?.aborted) {
+        return { result: null, error: new AbortedError({ url }).message };
+      }
+
       try {
         const result = await this.scrapeSingleUrl(url, index);
         if (result) {
           return { result };
         }
+        // A recorded page that now answers 404/410 won't come back on retry
+        if (this.removedUrls.has(url)) {
+          return { result: null, error: `Page removed (404/410): ${url}` };
+        }
         // Result is null but no exception - unexpected state
         lastError = `Failed to scrape ${url}: No content returned`;
+        if (attempt < maxRetries) {
+          this.emit("retry", {
+            url,
+            attempt: attempt + 2,
+            maxRetries,
+            delayMs: 0,
+            error: lastError,
+          });
+        }
       } catch (error: any) {
+        if (error instanceof AbortedError) {
+          return { result: null, error: error.message };
+        }
         lastError = error.message;
         if (attempt < maxRetries) {
           // Exponential backoff: 1s, 2s, 4s...
@@ -265,7 +503,14 @@ export class Scraper {
           this.logger.warn(
             `Retry ${attempt + 1}/${maxRetries} for ${url} in ${delay}ms (base ${baseDelay}ms)`
           );
-          await new Promise((resolve) => setTimeout(resolve, delay));
+          this.emit("retry", {
+            url,
+            attempt: attempt + 2,
+            maxRetries,
+            delayMs: delay,
+            error: error.message,
+          });
+          await sleep(delay, signal);
         }
       }
     }
@@ -284,23 +529,27 @@ export class Scraper {
     if (this.options.respectRobots !== false) {
       const robotsRules = await this.getRobotsRules(url);
       if (!isUrlAllowed(url, robotsRules)) {
+        this.emit("url:skipped", { url, reason: "robots" });
         throw new Error(`URL blocked by robots.txt: ${url}`);
       }
     }
 
     try {
-      const orchestrator = this.orchestrator;
-
       // Phase 1.5: discovery (well-known, sitemap, OpenAPI, GraphQL)
       // Run before the engine cascade to avoid "door front" scraping when APIs are available.
       let siteProfile = await this.getSiteProfile(url);
 
+      // Revalidate pages an earlier run recorded instead of downloading them again
+      let conditional: ConditionalRequest | undefined;
+      if (this.changeTracker) {
+        await this.changeTracker.load();
+        if (this.options.changeTracking?.conditionalRequests !== false) {
+          conditional = this.changeTracker.validatorsFor(url);
+        }
+      }
+
       // Use orchestrator to fetch HTML
-      const engineResult = await orchestrator.scrape({
-        url,
-        options: this.options,
-        logger: this.logger,
-      });
+      const engineResult = await this.fetchPage(url, conditional);
 
       // Phase 1.5.5: if Hero was used and interception is enabled, merge discovered APIs
       // into the SiteProfile and re-save the cached profile.
@@ -406,90 +655,49 @@ export class Scraper {
         }
       }
 
-      if (this.options.verbose) {
-        this.logger.info(
-          `[scraper] ${url} scraped with ${engineResult.engine} engine in ${engineResult.duration}ms ` +
-            `(attempted: ${engineResult.attemptedEngines.join(" → ")})`
-        );
-      }
-
-      // Clean content with configurable options
-      const cleanedHtml = cleanContent(engineResult.html, engineResult.url, {
-        removeAds: this.options.removeAds,
-        removeBase64Images: this.options.removeBase64Images,
-        onlyMainContent: this.options.onlyMainContent,
-        includeTags: this.options.includeTags,
-        excludeTags: this.options.excludeTags,
-      });
-
-      // Extract metadata
-      const websiteMetadata = extractMetadata(cleanedHtml, engineResult.url);
-
-      const duration = Date.now() - startTime;
-
-      // Convert to requested formats
-      const markdown = this.options.formats.includes("markdown")
-        ? htmlToMarkdown(cleanedHtml)
-        : undefined;
-
-      const htmlOutput = this.options.formats.includes("html") ? cleanedHtml : undefined;
+      // Fetch the article's following pages to merge into this result
+      const pagination =
+        this.options.followPagination && !engineResult.notModified
+          ? await this.fetchNextPages(engineResult)
+          : undefined;
 
-      // Report progress
-      if (this.options.onProgress) {
-        this.options.onProgress({
-          completed: index + 1,
-          total: this.options.urls.length,
-          currentUrl: url,
-        });
-      }
-
-      // Build proxy metadata if proxy was used
-      let proxyMetadata: ProxyMetadata | undefined;
-      if (this.options.proxy) {
-        const proxy = this.options.proxy;
-        // Extract host and port from either url or direct config
-        if (proxy.url) {
-          try {
-            const proxyUrl = new URL(proxy.url);
-            proxyMetadata = {
-              host: proxyUrl.hostname,
-              port: parseInt(proxyUrl.port, 10) || 80,
-              country: proxy.country,
-            };
-          } catch {
-            // Invalid URL, skip proxy metadata
+      const result = await this.buildPageResult(
+        url,
+        index,
+        engineResult,
+        startTime,
+        siteProfile,
+        pagination,
+        engineResult.notModified ? this.changeTracker?.get(url) : undefined
+      );
+      if (this.changeTracker) {
+        // An engine that returned the site's 404/410 page means the page is gone
+        if (isGoneStatus(engineResult.statusCode)) {
+          const removed = this.changeTracker.markRemoved(url);
+          if (removed) {
+            result.change = removed;
+            this.removedUrls.add(url);
           }
-        } else if (proxy.host && proxy.port) {
-          proxyMetadata = {
-            host: proxy.host,
-            port: proxy.port,
-            country: proxy.country,
-          };
+        } else {
+          result.change = this.changeTracker.record(url, engineResult, {
+            title: result.metadata.website.title ?? undefined,
+            description: result.metadata.website.description,
+          });
         }
       }
-
-      // Build result
-      const metadata: WebsiteScrapeResult["metadata"] = {
-        baseUrl: url,
-        totalPages: 1,
-        scrapedAt: new Date().toISOString(),
-        duration,
-        website: websiteMetadata,
-        proxy: proxyMetadata,
-      };
-
-      if (siteProfile) {
-        metadata.siteProfile = siteProfile;
+      return result;
+    } catch (error: unknown) {
+      // Cancellation is not a page failure: let the retry loop stop
+      if (error instanceof AbortedError) {
+        throw error;
       }
 
-      const result: WebsiteScrapeResult = {
-        markdown,
-        html: htmlOutput,
-        metadata,
-      };
+      // Tombstone pages an earlier run recorded that are now gone
+      if (this.changeTracker?.get(url) && isGoneError(error)) {
+        this.changeTracker.markRemoved(url);
+        this.removedUrls.add(url);
+      }
 
-      return result;
-    } catch (error: unknown) {
       // Handle AllEnginesFailedError with detailed logging
       if (error instanceof AllEnginesFailedError) {
         const engineSummary = error.attemptedEngines
@@ -515,6 +723,307 @@ export class Scraper {
     }
   }
 
+  /**
+   * Fetch a URL through the engine cascade
+   */
+  private async fetchPage(
+    url: string,
+    conditional?: ConditionalRequest
+  ): Promise<OrchestratorResult> {
+    const startTime = Date.now();
+    const engineResult = await this.orchestrator.scrape({
+      url,
+      options: this.options,
+      logger: this.logger,
+      abortSignal: this.abortSignal,
+      conditional,
+    });
+    this.emit("page:fetched", {
+      url,
+      finalUrl: engineResult.url,
+      statusCode: engineResult.statusCode,
+      engine: engineResult.engine,
+      durationMs: Date.now() - startTime,
+      notModified: engineResult.notModified,
+    });
+    return engineResult;
+  }
+
+  /**
+   * Follow a page's next-page links, up to paginationOptions.maxPages pages in all
+   */
+  private async fetchNextPages(first: OrchestratorResult): Promise<PaginatedPages> {
+    // A limit that isn't a number (NaN never compares) falls back to the default
+    const limit = this.options.paginationOptions?.maxPages ?? 10;
+    const maxPages = Number.isFinite(limit) ? Math.max(1, limit) : 10;
+    const pages = [first];
+    const seen = new Set([withoutHash(first.url)]);
+
+    for (;;) {
+      const last = pages[pages.length - 1];
+      const nextUrl = findNextPageUrl(last.html, last.url);
+      if (!nextUrl || seen.has(nextUrl)) return { pages, stoppedBy: "last-page" };
+      if (pages.length >= maxPages) return { pages, stoppedBy: "max-pages" };
+      seen.add(nextUrl);
+
+      if (this.options.respectRobots !== false) {
+        if (!isUrlAllowed(nextUrl, await this.getRobotsRules(nextUrl))) {
+          this.emit("url:skipped", { url: nextUrl, reason: "robots", parentUrl: last.url });
+          return { pages, stoppedBy: "robots" };
+        }
+      }
+
+      try {
+        const page = await this.fetchPage(nextUrl);
+        pages.push(page);
+        seen.add(withoutHash(page.url));
+      } catch (error: unknown) {
+        if (error instanceof AbortedError) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Stopped following pagination at ${nextUrl}: ${message}`);
+        return { pages, stoppedBy: "error" };
+      }
+    }
+  }
+
+  /**
+   * Build a page result from HTML an engine already fetched, without fetching it again
+   *
+   * Used by the crawler, which fetches every page through the same engine cascade.
+   * Robots.txt checks are the caller's responsibility.
+   *
+   * @param url - URL that was requested
+   * @param engineResult - Orchestrator result for that URL
+   * @param index - Position of the URL (for progress reporting)
+   */
+  async scrapeFetchedPage(
+    url: string,
+    engineResult: OrchestratorResult,
+    index = 0,
+    recorded?: PageRecord
+  ): Promise<WebsiteScrapeResult> {
+    const startTime = Date.now() - engineResult.duration;
+    return this.buildPageResult(url, index, engineResult, startTime, null, undefined, recorded);
+  }
+
+  /**
+   * Clean, convert and annotate a fetched page
+   */
+  private async buildPageResult(
+    url: string,
+    index: number,
+    engineResult: OrchestratorResult,
+    startTime: number,
+    siteProfile: SiteProfile | null,
+    pagination?: PaginatedPages,
+    recorded?: PageRecord
+  ): Promise<WebsiteScrapeResult> {
+    if (this.options.verbose) {
+      this.logger.info(
+        `[scraper] ${url} scraped with ${engineResult.engine} engine in ${engineResult.duration}ms ` +
+          `(attempted: ${engineResult.attemptedEngines.join(" → ")})`
+      );
+    }
+
+    // A 304 has no body to convert: the result carries no content, and the page's
+    // title and description come from the change-tracking record
+    const formats: OutputFormat[] = engineResult.notModified ? [] : this.options.formats;
+
+    // Clean content with configurable options, page by page when pagination was followed
+    const pages = pagination?.pages ?? [engineResult];
+    const cleanedParts = (engineResult.notModified ? [] : pages).map((page) =>
+      cleanContent(page.html, page.url, {
+        removeAds: this.options.removeAds,
+        removeBase64Images: this.options.removeBase64Images,
+        onlyMainContent: this.options.onlyMainContent,
+        includeTags: this.options.includeTags,
+        excludeTags: this.options.excludeTags,
+      })
+    );
+    const cleanedHtml = cleanedParts.join("\n");
+
+    // Extract metadata from the full page: cleaning strips <meta> tags and JSON-LD scripts
+    // (converted documents carry their own properties)
+    const extractedMetadata = extractMetadata(engineResult.html, engineResult.url);
+    if (engineResult.charset) {
+      extractedMetadata.charset = engineResult.charset;
+    }
+    const websiteMetadata = engineResult.document
+      ? applyDocumentProperties(
+          extractedMetadata,
+          engineResult.document.type,
+          engineResult.document.properties
+        )
+      : extractedMetadata;
+
+    const duration = Date.now() - startTime;
+
+    if (engineResult.notModified && recorded) {
+      websiteMetadata.title = recorded.title ?? null;
+      websiteMetadata.description = recorded.description ?? null;
+    }
+
+    // Convert to requested formats (chunks are cut from the markdown)
+    const needsMarkdown = formats.includes("markdown") || formats.includes("chunks");
+    const markdownParts = needsMarkdown
+      ? cleanedParts.map((part) => htmlToMarkdown(part))
+      : undefined;
+    const fullMarkdown = markdownParts?.join("\n\n");
+    const markdown = formats.includes("markdown") ? fullMarkdown : undefined;
+
+    const htmlOutput = formats.includes("html") ? cleanedHtml : undefined;
+
+    const text = formats.includes("text") ? htmlToText(cleanedHtml) : undefined;
+
+    const json = formats.includes("json") ? htmlToDocument(cleanedHtml) : undefined;
+
+    const chunks =
+      fullMarkdown !== undefined && formats.includes("chunks")
+        ? chunkMarkdown(fullMarkdown, this.options.chunkingOptions).map((chunk) => ({
+            ...chunk,
+            url: engineResult.url,
+            metadata: websiteMetadata,
+          }))
+        : undefined;
+
+    // Link and image inventories cover the whole page, not just the cleaned content
+    const links = formats.includes("links")
+      ? extractPageLinks(engineResult.html, engineResult.url)
+      : undefined;
+    const images = formats.includes("images")
+      ? extractPageImages(engineResult.html, engineResult.url)
+      : undefined;
+
+    // Screenshot/PDF bytes come from the engine (hero); a failed capture is simply absent
+    const outputDir = this.options.captureOptions?.outputDir;
+    const captures = engineResult.artifacts;
+    const screenshotMimeType =
+      this.options.captureOptions?.screenshotFormat === "jpeg" ? "image/jpeg" : "image/png";
+    const screenshot =
+      formats.includes("screenshot") && captures?.screenshot
+        ? await toCapturedArtifact(
+            captures.screenshot,
+            screenshotMimeType,
+            engineResult.url,
+            outputDir
+          )
+        : undefined;
+    const pdf =
+      formats.includes("pdf") && captures?.pdf
+        ? await toCapturedArtifact(captures.pdf, "application/pdf", engineResult.url, outputDir)
+        : undefined;
+
+    // Each step's screenshot gets its own file name (the fragment changes the URL's hash)
+    const actions = captures?.actions
+      ? await Promise.all(
+          captures.actions.map(async ({ screenshot: stepScreenshot, ...step }) => ({
+            ...step,
+            ...(stepScreenshot && {
+              screenshot: await toCapturedArtifact(
+                stepScreenshot,
+                screenshotMimeType,
+                `${engineResult.url}#action-${step.index + 1}`,
+                outputDir
+              ),
+            }),
+          }))
+        )
+      : undefined;
+
+    // Report progress
+    if (this.options.onProgress) {
+      this.options.onProgress({
+        completed: index + 1,
+        total: this.options.urls.length,
+        currentUrl: url,
+      });
+    }
+
+    // Build proxy metadata if proxy was used
+    let proxyMetadata: ProxyMetadata | undefined;
+    if (this.options.proxy) {
+      const proxy = this.options.proxy;
+      // Extract host and port from either url or direct config
+      if (proxy.url) {
+        try {
+          const proxyUrl = new URL(proxy.url);
+          proxyMetadata = {
+            host: proxyUrl.hostname,
+            port: parseInt(proxyUrl.port, 10) || 80,
+            country: proxy.country,
+          };
+        } catch {
+          // Invalid URL, skip proxy metadata
+        }
+      } else if (proxy.host && proxy.port) {
+        proxyMetadata = {
+          host: proxy.host,
+          port: proxy.port,
+          country: proxy.country,
+        };
+      }
+    }
+
+    // Build result
+    const metadata: WebsiteScrapeResult["metadata"] = {
+      baseUrl: url,
+      statusCode: engineResult.statusCode,
+      finalUrl: engineResult.url,
+      redirects: engineResult.redirects ?? [],
+      totalPages: pages.length,
+      scrapedAt: new Date().toISOString(),
+      duration,
+      website: websiteMetadata,
+      proxy: proxyMetadata,
+    };
+
+    if (siteProfile) {
+      metadata.siteProfile = siteProfile;
+    }
+
+    // Where each merged page starts in the markdown
+    if (pagination) {
+      let offset = 0;
+      metadata.pagination = {
+        pages: pages.map((page, i) => {
+          const markdownOffset = markdown !== undefined ? offset : undefined;
+          offset += (markdownParts?.[i].length ?? 0) + 2;
+          return { url: page.url, markdownOffset };
+        }),
+        stoppedBy: pagination.stoppedBy,
+      };
+    }
+
+    const result: WebsiteScrapeResult = {
+      markdown,
+      html: htmlOutput,
+      text,
+      json,
+      chunks,
+      screenshot,
+      pdf,
+      links,
+      images,
+      actions,
+      metadata,
+    };
+
+    return result;
+  }
+
+  /**
+   * Persist change records for the next run (a failed write doesn't fail the batch)
+   */
+  private async saveChanges(): Promise<void> {
+    if (!this.changeTracker) return;
+    try {
+      await this.changeTracker.save();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to save change tracking records: ${message}`);
+    }
+  }
+
   /**
    * Build final scrape result
    */
@@ -540,7 +1049,11 @@ export class Scraper {
       scrapedAt: new Date().toISOString(),
       totalDuration: Date.now() - startTime,
       errors,
+      status: this.options.abortSignal?.aborted ? "aborted" : "completed",
     };
+    if (this.changeTracker) {
+      batchMetadata.removedUrls = [...this.removedUrls];
+    }
 
     return {
       data: successful,
@@ -549,6 +1062,19 @@ export class Scraper {
   }
 }
 
+/**
+ * URL without its fragment, for comparing pagination URLs
+ */
+function withoutHash(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
 /**
  * Convenience function to scrape URLs
  *
@@ -565,3 +1091,21 @@ export async function scrape(options: ScrapeOptions): Promise<ScrapeResult> {
   const scraper = new Scraper(options);
   return scraper.scrape();
 }
+
+/**
+ * Convenience function to scrape URLs as a stream
+ *
+ * @param options - Scrape options
+ * @returns Async iterator of per-URL results in completion order
+ *
+ * @example
+ * for await (const item of scrapeStream({ urls, batchConcurrency: 5 })) {
+ *   console.log(item.url, item.status);
+ * }
+ */
+export function scrapeStream(
+  options: ScrapeOptions
+): AsyncGenerator<ScrapeStreamItem, void, undefined> {
+  const scraper = new Scraper(options);
+  return scraper.stream();
+}
@@ -1,7 +1,37 @@
 import type { IBrowserPool } from "./browser/types";
-import type { EngineName } from "./engines/types.js";
+import type { Engine, EngineName, RedirectHop } from "./engines/types.js";
 import type { DiscoveryOptions, SiteProfile } from "./discovery/site-profile.js";
 import type { CaptchaSolverConfig } from "./captcha/types.js";
+import type { ContentDocument } from "./formatters/json";
+import type { ChunkingOptions, MarkdownChunk } from "./utils/markdown-chunker";
+import type { PageImage, PageLink } from "./utils/page-inventory";
+import type { CanonicalizationPolicy } from "./utils/canonical-url";
+import type { DocumentType } from "./documents";
+import type { PageAction, PageActionResult } from "./engines/hero/actions.js";
+import type { ReaderEventHandler } from "./events";
+
+/**
+ * Content output format
+ * - markdown: Markdown conversion of the cleaned HTML
+ * - html: cleaned HTML
+ * - text: plain text with paragraph breaks preserved
+ * - json: block-level document tree (see ContentDocument)
+ * - chunks: heading-aware markdown chunks for RAG (see ContentChunk, chunkingOptions)
+ * - screenshot: PNG/JPEG capture of the rendered page (Hero only, see captureOptions)
+ * - pdf: full-page PDF of the rendered page (Hero only, see captureOptions)
+ * - links: every link on the page with anchor text, rel, internal and honeypot flags
+ * - images: every image on the page with srcset, alt, dimensions and main-content flag
+ */
+export type OutputFormat =
+  | "markdown"
+  | "html"
+  | "text"
+  | "json"
+  | "chunks"
+  | "screenshot"
+  | "pdf"
+  | "links"
+  | "images";
 
 /**
  * Proxy configuration for Hero
@@ -57,7 +87,7 @@ export interface ScrapeOptions {
   urls: string[];
 
   /** Output formats - which content fields to include (default: ['markdown']) */
-  formats?: Array<"markdown" | "html">;
+  formats?: OutputFormat[];
 
   /** Custom user agent string */
   userAgent?: string;
@@ -112,6 +142,16 @@ export interface ScrapeOptions {
   /** Progress callback for batch operations */
   onProgress?: (progress: { completed: number; total: number; currentUrl: string }) => void;
 
+  /** Receives every progress event (see ReaderEventMap); Scraper also offers on()/off() */
+  onEvent?: ReaderEventHandler;
+
+  /**
+   * Cancel the batch. In-flight engines (including browser pool queue waits) are aborted,
+   * pending retries and URLs not started yet are skipped, and results finished so far are
+   * returned with batchMetadata.status "aborted".
+   */
+  abortSignal?: AbortSignal;
+
   // ============================================================================
   // Hero-specific options
   // ============================================================================
@@ -122,6 +162,14 @@ export interface ScrapeOptions {
   /** CSS selector to wait for before considering page loaded */
   waitForSelector?: string;
 
+  /**
+   * Steps to run on the page before it is extracted: click, type, press, waitForSelector,
+   * waitForTimeout, scroll, clickLoadMore and evaluate. Each has a timeout, can be
+   * optional and can capture a screenshot or HTML snapshot. Setting actions routes the
+   * URL to an engine that can run them (hero).
+   */
+  actions?: PageAction[];
+
   /** Enable verbose logging (default: false) */
   verbose?: boolean;
 
@@ -164,8 +212,11 @@ export interface ScrapeOptions {
   // Engine options
   // ============================================================================
 
-  /** Engines to use in order (default: ['http', 'tlsclient', 'hero']) */
-  engines?: EngineName[];
+  /**
+   * Engines to use in order, by name or as engine instances (default: the registered
+   * engines by quality: ['http', 'tlsclient', 'hero'] plus any registerEngine() ones)
+   */
+  engines?: Array<EngineName | Engine>;
 
   /** Skip specific engines (e.g., ['http'] to skip native fetch) */
   skipEngines?: EngineName[];
@@ -173,6 +224,13 @@ export interface ScrapeOptions {
   /** Force a specific engine, skipping the cascade */
   forceEngine?: EngineName;
 
+  /**
+   * Hedge slow requests: start the next engine once the running one has gone its stagger
+   * timeout (http 3s, tlsclient 5s) without answering, keep the first result and abort the
+   * others (default: false)
+   */
+  parallelRacing?: boolean;
+
   // ============================================================================
   // Anti-detection options
   // ============================================================================
@@ -198,6 +256,188 @@ export interface ScrapeOptions {
 
   /** Options for discovery (Phase 1.5) */
   discoveryOptions?: DiscoveryOptions;
+
+  /** Chunk size, unit and overlap for the "chunks" format (default: 512 tokens, 64 overlap) */
+  chunkingOptions?: ChunkingOptions;
+
+  /** Screenshot/PDF settings for the "screenshot" and "pdf" formats */
+  captureOptions?: CaptureOptions;
+
+  /** Tag results new/changed/unchanged/removed against an earlier run (see ChangeTrackingOptions) */
+  changeTracking?: ChangeTrackingOptions;
+
+  /**
+   * Follow rel="next", pager and numbered-URL pagination and merge the cleaned content of
+   * every page into one result (default: false). See metadata.pagination.
+   */
+  followPagination?: boolean;
+
+  /** Limits for followPagination */
+  paginationOptions?: PaginationOptions;
+
+  /**
+   * Drop batch URLs that canonicalize to an earlier one (query parameters, tracking
+   * parameters, case) and key changeTracking records the same way. Unset, every URL
+   * is scraped and records are keyed by exact URL.
+   */
+  canonicalization?: CanonicalizationPolicy;
+}
+
+/**
+ * Screenshot and PDF capture options
+ */
+export interface CaptureOptions {
+  /** Capture the whole scrollable page instead of the viewport (default: false) */
+  fullPage?: boolean;
+
+  /** Screenshot image format (default: "png") */
+  screenshotFormat?: "png" | "jpeg";
+
+  /** JPEG quality, 0-100 (default: 80; ignored for PNG) */
+  quality?: number;
+
+  /** Write artifacts to this directory and return their paths instead of base64 */
+  outputDir?: string;
+}
+
+/**
+ * Incremental recrawl options
+ *
+ * A per-URL record (ETag, Last-Modified, sitemap lastmod, content hash) is kept in
+ * `file` between runs. The http and tlsclient engines send If-None-Match /
+ * If-Modified-Since from it, and each result is tagged with a PageChange.
+ */
+export interface ChangeTrackingOptions {
+  /** JSON file holding the per-URL records (created on first run) */
+  file: string;
+
+  /** Send conditional requests from the stored validators (default: true) */
+  conditionalRequests?: boolean;
+}
+
+/**
+ * Pagination options (used when followPagination is true)
+ */
+export interface PaginationOptions {
+  /** Maximum pages merged into one result, the first included (default: 10) */
+  maxPages?: number;
+}
+
+/**
+ * Pages merged into a paginated result
+ */
+export interface PaginationMetadata {
+  /** Each page in order, the requested page first */
+  pages: Array<{
+    /** Final URL of the page */
+    url: string;
+    /** Where the page's content starts in `markdown` (when the markdown format is requested) */
+    markdownOffset?: number;
+  }>;
+
+  /**
+   * Why no further page was merged
+   * - last-page: no next page was found (or it was one already merged)
+   * - max-pages: paginationOptions.maxPages was reached
+   * - robots: robots.txt disallows the next page
+   * - error: the next page could not be fetched (the pages before it are kept)
+   */
+  stoppedBy: "last-page" | "max-pages" | "robots" | "error";
+}
+
+/**
+ * How a page compares to the last run that recorded it
+ * - new: not recorded before (or recorded as removed)
+ * - changed / unchanged: normalized content hash differs / matches
+ * - removed: recorded before, now answers 404 or 410
+ */
+export type ChangeStatus = "new" | "changed" | "unchanged" | "removed";
+
+/**
+ * Change detection result attached to a page
+ */
+export interface PageChange {
+  status: ChangeStatus;
+
+  /** Hash of the page's normalized text (null when removed) */
+  contentHash: string | null;
+
+  /** Hash recorded by the previous run, if any */
+  previousContentHash: string | null;
+
+  /** True when the server answered 304 Not Modified (content was not downloaded) */
+  notModified: boolean;
+}
+
+/**
+ * Where a structured data item was found
+ */
+export type StructuredDataSource = "json-ld" | "microdata" | "rdfa";
+
+/**
+ * One top-level structured data item
+ *
+ * `data` is normalized to JSON-LD shape whatever the source: "@type" (schema.org
+ * types shortened to "Product", "Article"...), optional "@id", and one key per
+ * property. Repeated properties become arrays; nested items are nested objects.
+ */
+export interface StructuredDataItem {
+  source: StructuredDataSource;
+  /** Type names of the item ("Product"); non-schema.org types keep their full IRI */
+  types: string[];
+  data: Record<string, unknown>;
+}
+
+/**
+ * Structured data found on a page
+ */
+export interface StructuredData {
+  /** Top-level items in page order (JSON-LD @graph entries are separate items) */
+  items: StructuredDataItem[];
+  /** Every item, nested ones included, indexed by type name */
+  byType: Record<string, Record<string, unknown>[]>;
+}
+
+/**
+ * Where an article metadata value was found
+ *
+ * Listed in priority order: structured data, then `article:*` Open Graph tags,
+ * other named meta tags, converted document properties, `<time>` elements,
+ * bylines, the URL, and finally the page content itself.
+ */
+export type ArticleValueSource =
+  | StructuredDataSource
+  | "opengraph"
+  | "meta"
+  | "document"
+  | "time"
+  | "byline"
+  | "url"
+  | "content";
+
+/**
+ * An article metadata value with its provenance
+ */
+export interface ArticleValue<T> {
+  value: T;
+  source: ArticleValueSource;
+  /** 0-1; raised when lower-priority sources agree */
+  confidence: number;
+}
+
+/**
+ * Article metadata derived from the page (each field null when not found)
+ */
+export interface ArticleMetadata {
+  /** ISO 8601: "2024-03-15" when only the day is known, else a UTC timestamp */
+  publishedAt: ArticleValue<string> | null;
+  modifiedAt: ArticleValue<string> | null;
+  authors: ArticleValue<string[]> | null;
+  section: ArticleValue<string> | null;
+  tags: ArticleValue<string[]> | null;
+  /** Words in the main content (CJK characters count as one word each) */
+  wordCount: ArticleValue<number> | null;
+  readingTimeMinutes: ArticleValue<number> | null;
 }
 
 /**
@@ -209,7 +449,7 @@ export interface WebsiteMetadata {
   description: string | null /** <meta name="description"> */;
   author: string | null /** <meta name="author"> */;
   language: string | null /** <html lang="..."> */;
-  charset: string | null /** <meta charset="..."> */;
+  charset: string | null /** Charset the page was decoded with, else <meta charset="..."> */;
 
   /** Links */
   favicon: string | null /** <link rel="icon"> */;
@@ -243,6 +483,51 @@ export interface WebsiteMetadata {
     description: string | null /** <meta name="twitter:description"> */;
     image: string | null /** <meta name="twitter:image"> */;
   } | null;
+
+  /** JSON-LD, microdata and RDFa Lite items (see StructuredData) */
+  structuredData: StructuredData | null;
+
+  /** Publication dates, authors, section/tags and reading time (see ArticleMetadata) */
+  article: ArticleMetadata;
+
+  /** Source document, when the response was a PDF, DOCX, text or JSON body */
+  document?: {
+    type: DocumentType;
+    pageCount: number | null;
+    createdAt: string | null /** ISO 8601 */;
+    modifiedAt: string | null /** ISO 8601 */;
+  };
+}
+
+/**
+ * Markdown chunk enriched with the page it came from
+ *
+ * Offsets point into the page's markdown; request the "markdown" format too
+ * if you need to map chunks back.
+ */
+export interface ContentChunk extends MarkdownChunk {
+  /** Final URL of the page */
+  url: string;
+
+  /** Metadata of the page the chunk belongs to */
+  metadata: WebsiteMetadata;
+}
+
+/**
+ * Binary artifact (screenshot or PDF) captured from the rendered page
+ */
+export interface CapturedArtifact {
+  /** "image/png", "image/jpeg" or "application/pdf" */
+  mimeType: string;
+
+  /** Size of the artifact in bytes */
+  byteLength: number;
+
+  /** Base64-encoded content (unless captureOptions.outputDir is set) */
+  base64?: string;
+
+  /** File the artifact was written to (when captureOptions.outputDir is set) */
+  path?: string;
 }
 
 /**
@@ -291,11 +576,44 @@ export interface WebsiteScrapeResult {
   /** HTML content (present if 'html' in formats) */
   html?: string;
 
+  /** Plain-text content (present if 'text' in formats) */
+  text?: string;
+
+  /** Block-level document tree (present if 'json' in formats) */
+  json?: ContentDocument;
+
+  /** Heading-aware markdown chunks (present if 'chunks' in formats) */
+  chunks?: ContentChunk[];
+
+  /** Page screenshot (present if 'screenshot' in formats and the capture succeeded) */
+  screenshot?: CapturedArtifact;
+
+  /** Page PDF (present if 'pdf' in formats and the capture succeeded) */
+  pdf?: CapturedArtifact;
+
+  /** Links on the page (present if 'links' in formats) */
+  links?: PageLink[];
+
+  /** Images on the page (present if 'images' in formats) */
+  images?: PageImage[];
+
+  /** Outcome of each scripted action (present if options.actions was set) */
+  actions?: PageActionOutput[];
+
   /** Metadata about the scraping operation */
   metadata: {
     /** Base URL that was scraped */
     baseUrl: string;
 
+    /** HTTP status the page was served with (filter error pages on it; 0 when unknown) */
+    statusCode: number;
+
+    /** URL the page was served from, after redirects */
+    finalUrl: string;
+
+    /** Redirects followed from baseUrl to finalUrl, in order (empty when there were none) */
+    redirects: RedirectHop[];
+
     /** Total number of pages scraped */
     totalPages: number;
 
@@ -313,9 +631,22 @@ export interface WebsiteScrapeResult {
 
     /** Phase 1.5: site profile (APIs, sitemaps, etc.) */
     siteProfile?: SiteProfile;
+
+    /** Pages merged into this result (when followPagination is set) */
+    pagination?: PaginationMetadata;
   };
+
+  /** Comparison with the previous run (present when changeTracking is set) */
+  change?: PageChange;
 }
 
+/**
+ * Outcome of one scripted action, with its screenshot packaged like the page's
+ */
+export type PageActionOutput = Omit<PageActionResult, "screenshot"> & {
+  screenshot?: CapturedArtifact;
+};
+
 /**
  * Batch metadata for multi-URL operations
  */
@@ -337,6 +668,12 @@ export interface BatchMetadata {
 
   /** Array of errors for failed URLs */
   errors?: Array<{ url: string; error: string }>;
+
+  /** "aborted" when the batch was cancelled via abortSignal (data holds partial results) */
+  status?: "completed" | "aborted";
+
+  /** Previously recorded URLs that now answer 404 or 410 (when changeTracking is set) */
+  removedUrls?: string[];
 }
 
 /**
@@ -350,6 +687,49 @@ export interface ScrapeResult {
   batchMetadata: BatchMetadata;
 }
 
+/**
+ * Successful item yielded by a streaming scrape
+ */
+export interface ScrapeStreamSuccess {
+  status: "success";
+
+  /** URL as provided in options.urls */
+  url: string;
+
+  /** Position of the URL in options.urls as given (before canonicalization drops duplicates) */
+  index: number;
+
+  /** Scrape result for this URL */
+  result: WebsiteScrapeResult;
+}
+
+/**
+ * Failure record yielded by a streaming scrape
+ */
+export interface ScrapeStreamFailure {
+  status: "failed";
+
+  /** URL as provided in options.urls */
+  url: string;
+
+  /** Position of the URL in options.urls as given (before canonicalization drops duplicates) */
+  index: number;
+
+  /** Error message of the last attempt */
+  error: string;
+
+  /** True when the URL was skipped or interrupted by abortSignal */
+  aborted?: boolean;
+
+  /** True when changeTracking had recorded the URL and it now answers 404 or 410 */
+  removed?: boolean;
+}
+
+/**
+ * Item yielded by Scraper.stream() as soon as a URL finishes (in completion order)
+ */
+export type ScrapeStreamItem = ScrapeStreamSuccess | ScrapeStreamFailure;
+
 /**
  * Internal crawler state
  */
@@ -385,6 +765,7 @@ export const DEFAULT_OPTIONS: Omit<
   Required<ScrapeOptions>,
   | "proxy"
   | "waitForSelector"
+  | "actions"
   | "connectionToCore"
   | "userAgent"
   | "headers"
@@ -397,21 +778,36 @@ export const DEFAULT_OPTIONS: Omit<
   | "stickyUaPerDomain"
   | "captcha"
   | "captchaFallback"
+  | "abortSignal"
+  | "chunkingOptions"
+  | "captureOptions"
+  | "changeTracking"
+  | "onEvent"
+  | "paginationOptions"
+  | "canonicalization"
 > & {
   proxy?: ProxyConfig;
   waitForSelector?: string;
+  actions?: PageAction[];
   connectionToCore?: any;
   userAgent?: string;
   headers?: Record<string, string>;
   browserPool?: BrowserPoolConfig;
   pool?: IBrowserPool;
-  engines?: EngineName[];
+  engines?: Array<EngineName | Engine>;
   skipEngines?: EngineName[];
   forceEngine?: EngineName;
   uaRotation?: "random" | "weighted" | "round-robin" | "per-domain";
   stickyUaPerDomain?: boolean;
   captcha?: CaptchaSolverConfig;
   captchaFallback?: CaptchaSolverConfig;
+  abortSignal?: AbortSignal;
+  chunkingOptions?: ChunkingOptions;
+  captureOptions?: CaptureOptions;
+  changeTracking?: ChangeTrackingOptions;
+  onEvent?: ReaderEventHandler;
+  paginationOptions?: PaginationOptions;
+  canonicalization?: CanonicalizationPolicy;
 } = {
   urls: [],
   formats: ["markdown"],
@@ -430,6 +826,8 @@ export const DEFAULT_OPTIONS: Omit<
   batchTimeoutMs: 300000,
   maxRetries: 2,
   onProgress: () => {}, // Default no-op progress callback
+  // Engine defaults
+  parallelRacing: false,
   // Hero-specific defaults
   verbose: false,
   showChrome: false,
@@ -443,13 +841,25 @@ export const DEFAULT_OPTIONS: Omit<
   // Discovery defaults
   discovery: true,
   discoveryOptions: {},
+  // Pagination defaults
+  followPagination: false,
 };
 
 /**
  * Format type guard
  */
-export function isValidFormat(format: string): format is "markdown" | "html" {
-  return format === "markdown" || format === "html";
+export function isValidFormat(format: string): format is OutputFormat {
+  return (
+    format === "markdown" ||
+    format === "html" ||
+    format === "text" ||
+    format === "json" ||
+    format === "chunks" ||
+    format === "screenshot" ||
+    format === "pdf" ||
+    format === "links" ||
+    format === "images"
+  );
 }
 
 /**
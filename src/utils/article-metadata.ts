@@ -0,0 +1,696 @@
+import type {
+  ArticleMetadata,
+  ArticleValue,
+  ArticleValueSource,
+  StructuredData,
+  StructuredDataSource,
+} from "../types";
+import type { DocumentProperties } from "../documents";
+import { findMainContent } from "./content-cleaner";
+
+/**
+ * Article metadata: publication dates, authors, section, tags and reading time
+ *
+ * Each field collects candidate values in source priority order (structured
+ * data, article:* Open Graph, meta tags, <time> elements, bylines, the URL).
+ * The first candidate wins; every other source that agrees with it raises its
+ * confidence.
+ */
+
+/** Confidence of a value taken from each source, before agreement */
+const BASE_CONFIDENCE: Record<ArticleValueSource, number> = {
+  "json-ld": 0.95,
+  microdata: 0.9,
+  rdfa: 0.9,
+  opengraph: 0.9,
+  meta: 0.8,
+  document: 0.8,
+  time: 0.7,
+  byline: 0.6,
+  url: 0.4,
+  content: 0.8,
+};
+
+const AGREEMENT_BONUS = 0.05;
+const MAX_CONFIDENCE = 0.99;
+
+/** Average adult silent reading speeds */
+const WORDS_PER_MINUTE = 238;
+const CJK_CHARACTERS_PER_MINUTE = 500;
+
+/**
+ * Derive article metadata from a parsed page
+ *
+ * @param document - Parsed page
+ * @param pageUrl - Final page URL (for URL date patterns)
+ * @param structuredData - Structured data already extracted from the page
+ */
+export function extractArticleMetadata(
+  document: Document,
+  pageUrl: string,
+  structuredData: StructuredData | null
+): ArticleMetadata {
+  const nodes = structuredNodes(structuredData);
+  const meta = metaIndex(document);
+  const times = timeCandidates(document);
+  const bylineDates = bylineDateCandidates(document);
+  const counts = countWords(document);
+
+  const publishedAt = resolve(
+    [
+      ...fromStructured(nodes, ["datePublished", "dateCreated", "uploadDate"], toDate),
+      fromMeta(meta, "opengraph", ["article:published_time"], toDate),
+      fromMeta(meta, "meta", PUBLISHED_META, toDate),
+      times.published,
+      bylineDates.published,
+      fromUrl(pageUrl),
+    ],
+    dayKey
+  );
+
+  const modifiedAt = resolve(
+    [
+      ...fromStructured(nodes, ["dateModified"], toDate),
+      fromMeta(meta, "opengraph", ["article:modified_time", "og:updated_time"], toDate),
+      fromMeta(meta, "meta", MODIFIED_META, toDate),
+      times.modified,
+      bylineDates.modified,
+    ],
+    dayKey
+  );
+
+  const authors = resolve(
+    [
+      ...fromStructured(nodes, ["author", "creator"], toNames),
+      fromMeta(meta, "opengraph", ["article:author"], toNames),
+      fromMeta(meta, "meta", AUTHOR_META, toNames),
+      bylineAuthors(document),
+    ],
+    listKey
+  );
+
+  const section = resolve(
+    [
+      ...fromStructured(nodes, ["articleSection"], toText),
+      fromMeta(meta, "opengraph", ["article:section"], toText),
+      fromMeta(meta, "meta", SECTION_META, toText),
+    ],
+    (value) => value.toLowerCase()
+  );
+
+  const tags = resolve(
+    [
+      ...fromStructured(nodes, ["keywords"], toList),
+      fromMeta(meta, "opengraph", ["article:tag"], toList),
+      fromMeta(meta, "meta", TAG_META, toList),
+      relTags(document),
+    ],
+    listKey
+  );
+
+  const wordCount = resolve(
+    [...fromStructured(nodes, ["wordCount"], toCount), contentWordCount(counts)],
+    String
+  );
+
+  const readingTimeMinutes = resolve(
+    [
+      ...fromStructured(nodes, ["timeRequired"], toMinutes),
+      wordCount && {
+        ...wordCount,
+        value: Math.ceil(
+          wordCount.source === "content"
+            ? counts.words / WORDS_PER_MINUTE + counts.cjk / CJK_CHARACTERS_PER_MINUTE
+            : wordCount.value / WORDS_PER_MINUTE
+        ),
+      },
+    ],
+    String
+  );
+
+  return { publishedAt, modifiedAt, authors, section, tags, wordCount, readingTimeMinutes };
+}
+
+/**
+ * Overlay the dates and author of a converted document (PDF info dictionary,
+ * DOCX core properties), which outrank anything found in its HTML rendering
+ */
+export function applyDocumentArticleProperties(
+  article: ArticleMetadata,
+  properties: DocumentProperties
+): ArticleMetadata {
+  const published = properties.createdAt ? toDate(properties.createdAt) : null;
+  const modified = properties.modifiedAt ? toDate(properties.modifiedAt) : null;
+  const authors = properties.author ? toNames(properties.author) : null;
+
+  return {
+    ...article,
+    publishedAt: published ? candidate(published, "document") : article.publishedAt,
+    modifiedAt: modified ? candidate(modified, "document") : article.modifiedAt,
+    authors: authors ? candidate(authors, "document") : article.authors,
+  };
+}
+
+// ============================================================================
+// Candidate resolution
+// ============================================================================
+
+function candidate<T>(
+  value: T,
+  source: ArticleValueSource,
+  confidence = BASE_CONFIDENCE[source]
+): ArticleValue<T> {
+  return { value, source, confidence };
+}
+
+/**
+ * Pick the first candidate; each other source agreeing with it adds confidence
+ */
+function resolve<T>(
+  candidates: Array<ArticleValue<T> | null>,
+  key: (value: T) => string
+): ArticleValue<T> | null {
+  const found = candidates.filter((c): c is ArticleValue<T> => c !== null);
+  if (found.length === 0) return null;
+
+  const [best, ...rest] = found;
+  const agreeing = new Set(
+    rest
+      .filter((c) => c.source !== best.source && key(c.value) === key(best.value))
+      .map((c) => c.source)
+  );
+  const confidence = Math.min(MAX_CONFIDENCE, best.confidence + AGREEMENT_BONUS * agreeing.size);
+  return { ...best, confidence: Math.round(confidence * 100) / 100 };
+}
+
+/** Dates agree when they fall on the same day */
+const dayKey = (value: string) => value.slice(0, 10);
+
+const listKey = (value: string[]) =>
+  value
+    .map((v) => v.toLowerCase())
+    .sort()
+    .join("\n");
+
+// ============================================================================
+// Value conversion
+// ============================================================================
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH_NAME = "(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?";
+
+const ISO_DAY = /\b(\d{4})-(\d{2})-(\d{2})\b/;
+const MONTH_DAY_YEAR = new RegExp(
+  `\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`,
+  "i"
+);
+const DAY_MONTH_YEAR = new RegExp(
+  `\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME},?\\s+(\\d{4})\\b`,
+  "i"
+);
+
+/**
+ * "YYYY-MM-DD" for a valid calendar day, else null
+ */
+function isoDay(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * First calendar date written in a piece of text ("2024-03-15", "March 15, 2024", "15 Mar 2024")
+ */
+function findDateInText(text: string): string | null {
+  let match = text.match(ISO_DAY);
+  if (match) return isoDay(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(MONTH_DAY_YEAR);
+  if (match) {
+    return isoDay(Number(match[3]), MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[2]));
+  }
+
+  match = text.match(DAY_MONTH_YEAR);
+  if (match) {
+    return isoDay(Number(match[3]), MONTHS.indexOf(match[2].toLowerCase()) + 1, Number(match[1]));
+  }
+
+  return null;
+}
+
+/**
+ * Normalize a date value: timestamps become UTC ISO 8601, bare days "YYYY-MM-DD"
+ */
+function toDate(value: unknown): string | null {
+  if (Array.isArray(value)) return toDate(value[0]);
+  if (typeof value !== "string" || !value.trim()) return null;
+
+  const text = value.trim();
+  if (/\d{1,2}:\d{2}/.test(text)) {
+    const time = Date.parse(text);
+    if (!Number.isNaN(time)) return new Date(time).toISOString();
+  }
+  return findDateInText(text);
+}
+
+function looksLikeName(name: string): boolean {
+  return (
+    name.length >= 2 &&
+    name.length <= 60 &&
+    name.split(" ").length <= 6 &&
+    /\p{L}/u.test(name) &&
+    !/\d|@|:\/\//.test(name)
+  );
+}
+
+/**
+ * "By Jane Doe, John Smith and Ann Lee" -> ["Jane Doe", "John Smith", "Ann Lee"]
+ */
+function splitNames(text: string): string[] {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/^\s*(?:written\s+|posted\s+|words\s+)?by\b:?/i, "")
+    .split(/\s*(?:,|;|&|\band\b)\s*/i)
+    .map((name) => name.trim())
+    .filter(looksLikeName);
+}
+
+/**
+ * Author names from a string, a Person/Organization object, or an array of either
+ */
+function toNames(value: unknown): string[] | null {
+  const names: string[] = [];
+  const collect = (v: unknown) => {
+    if (Array.isArray(v)) {
+      v.forEach(collect);
+    } else if (typeof v === "string") {
+      names.push(...splitNames(v));
+    } else if (typeof v === "object" && v !== null && "name" in v) {
+      collect((v as Record<string, unknown>).name);
+    }
+  };
+  collect(value);
+
+  const unique = names.filter(
+    (name, i) => names.findIndex((n) => n.toLowerCase() === name.toLowerCase()) === i
+  );
+  return unique.length > 0 ? unique : null;
+}
+
+function toText(value: unknown): string | null {
+  if (Array.isArray(value)) return toText(value[0]);
+  return typeof value === "string" && value.trim() ? value.replace(/\s+/g, " ").trim() : null;
+}
+
+/**
+ * A list from an array or a comma-separated string
+ */
+function toList(value: unknown): string[] | null {
+  const values = (Array.isArray(value) ? value : [value])
+    .filter((v): v is string => typeof v === "string")
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+  const unique = [...new Set(values)];
+  return unique.length > 0 ? unique : null;
+}
+
+function toCount(value: unknown): number | null {
+  const count = typeof value === "string" ? Number(value.replace(/[,\s]/g, "")) : value;
+  return typeof count === "number" && Number.isInteger(count) && count > 0 ? count : null;
+}
+
+/**
+ * ISO 8601 duration ("PT4M", "PT1H30M") in whole minutes
+ */
+function toMinutes(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/i);
+  if (!match || value.trim().length < 3) return null;
+
+  const [, days, hours, minutes, seconds] = match.map((part) => Number(part ?? 0));
+  const total = Math.ceil(days * 1440 + hours * 60 + minutes + seconds / 60);
+  return total > 0 ? total : null;
+}
+
+// ============================================================================
+// Structured data and meta tags
+// ============================================================================
+
+const STRUCTURED_SOURCE_ORDER: StructuredDataSource[] = ["json-ld", "microdata", "rdfa"];
+
+/**
+ * How article-like a type is: articles and posts first, then pages, then anything else
+ */
+function typeRank(types: unknown): number {
+  const list = (Array.isArray(types) ? types : [types]).filter(
+    (t): t is string => typeof t === "string"
+  );
+  if (list.some((t) => /(?:Article|Posting|^Report|^Review)$/.test(t))) return 0;
+  if (list.some((t) => /Page$/.test(t))) return 1;
+  return 2;
+}
+
+interface StructuredNode {
+  source: StructuredDataSource;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Every typed node (nested ones included), ordered by source, then type rank
+ */
+function structuredNodes(structuredData: StructuredData | null): StructuredNode[] {
+  if (!structuredData) return [];
+
+  const nodes: Array<StructuredNode & { rank: number }> = [];
+  const seen = new Set<object>();
+  const visit = (source: StructuredDataSource, value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach((v) => visit(source, v));
+      return;
+    }
+    if (typeof value !== "object" || value === null || seen.has(value)) return;
+    seen.add(value);
+
+    const data = value as Record<string, unknown>;
+    if ("@type" in data) {
+      nodes.push({
+        source,
+        data,
+        rank: STRUCTURED_SOURCE_ORDER.indexOf(source) * 3 + typeRank(data["@type"]),
+      });
+    }
+    for (const [key, nested] of Object.entries(data)) {
+      if (!key.startsWith("@")) visit(source, nested);
+    }
+  };
+  structuredData.items.forEach((item) => visit(item.source, item.data));
+
+  return nodes.sort((a, b) => a.rank - b.rank);
+}
+
+/**
+ * First convertible value of the given properties, one candidate per source
+ */
+function fromStructured<T>(
+  nodes: StructuredNode[],
+  properties: string[],
+  convert: (value: unknown) => T | null
+): ArticleValue<T>[] {
+  const candidates: ArticleValue<T>[] = [];
+  for (const node of nodes) {
+    if (candidates.some((c) => c.source === node.source)) continue;
+    for (const property of properties) {
+      const value = convert(node.data[property]);
+      if (value !== null) {
+        candidates.push(candidate(value, node.source));
+        break;
+      }
+    }
+  }
+  return candidates;
+}
+
+const PUBLISHED_META = [
+  "article.published",
+  "pubdate",
+  "publishdate",
+  "publish-date",
+  "date",
+  "dc.date",
+  "dc.date.issued",
+  "dcterms.issued",
+  "citation_publication_date",
+  "parsely-pub-date",
+  "sailthru.date",
+];
+const MODIFIED_META = ["article.updated", "last-modified", "dc.date.modified", "dcterms.modified"];
+const AUTHOR_META = [
+  "author",
+  "dc.creator",
+  "citation_author",
+  "parsely-author",
+  "sailthru.author",
+];
+const SECTION_META = ["article.section", "parsely-section", "section"];
+const TAG_META = ["news_keywords", "parsely-tags", "sailthru.tags"];
+
+/**
+ * Meta tag contents keyed by lowercased name/property (repeated tags keep every value)
+ */
+function metaIndex(document: Document): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const meta of Array.from(document.querySelectorAll("meta"))) {
+    const key = (meta.getAttribute("property") || meta.getAttribute("name") || "").toLowerCase();
+    const content = meta.getAttribute("content")?.trim();
+    if (!key || !content) continue;
+    const values = index.get(key) ?? [];
+    values.push(content);
+    index.set(key, values);
+  }
+  return index;
+}
+
+function fromMeta<T>(
+  meta: Map<string, string[]>,
+  source: ArticleValueSource,
+  names: string[],
+  convert: (value: unknown) => T | null
+): ArticleValue<T> | null {
+  for (const name of names) {
+    const values = meta.get(name);
+    // Profile URLs (common in article:author) are not names
+    const usable = values?.filter((v) => !/^https?:\/\//i.test(v));
+    const value = usable?.length ? convert(usable.length === 1 ? usable[0] : usable) : null;
+    if (value !== null) return candidate(value, source);
+  }
+  return null;
+}
+
+// ============================================================================
+// Page heuristics
+// ============================================================================
+
+/** Page areas that hold comments, related stories and the like, not the article's own byline */
+const OFF_ARTICLE = 'footer, aside, nav, [class*="comment"], [class*="related"]';
+
+const MODIFIED_HINT = /updat|modif|revis|edit/i;
+const PUBLISHED_HINT = /publish|posted|created|pubdate/i;
+
+/**
+ * Class, id and itemprop of an element and its parent, plus the parent's text before it
+ */
+function contextOf(el: Element): string {
+  const parent = el.parentElement;
+  const parentText = parent?.textContent ?? "";
+  const ownText = el.textContent ?? "";
+  return [
+    el.getAttribute("class"),
+    el.getAttribute("id"),
+    el.getAttribute("itemprop"),
+    parent?.getAttribute("class"),
+    parent?.getAttribute("id"),
+    ownText ? parentText.slice(0, Math.max(0, parentText.indexOf(ownText))) : "",
+  ].join(" ");
+}
+
+/**
+ * <time> elements: labelled ones ("Updated", class="published") first, then the
+ * first dated <time> in the article header
+ */
+function timeCandidates(document: Document): {
+  published: ArticleValue<string> | null;
+  modified: ArticleValue<string> | null;
+} {
+  let published: ArticleValue<string> | null = null;
+  let modified: ArticleValue<string> | null = null;
+  let fallback: ArticleValue<string> | null = null;
+
+  for (const el of Array.from(document.querySelectorAll("time"))) {
+    if (el.closest(OFF_ARTICLE)) continue;
+    const date = toDate(el.getAttribute("datetime") || el.textContent || "");
+    if (!date) continue;
+
+    const context = contextOf(el);
+    if (MODIFIED_HINT.test(context)) {
+      modified ??= candidate(date, "time");
+    } else if (el.hasAttribute("pubdate") || PUBLISHED_HINT.test(context)) {
+      published ??= candidate(date, "time");
+    } else if (el.closest("article, header, main")) {
+      fallback ??= candidate(date, "time", 0.55);
+    }
+  }
+
+  return { published: published ?? fallback, modified };
+}
+
+const BYLINE_DATE_SELECTOR =
+  '[class*="byline"], [class*="dateline"], [class*="date"], [class*="posted"], [class*="publish"]';
+
+/**
+ * Dates written out in byline/dateline text ("Published March 3, 2024 · Updated March 5")
+ */
+function bylineDateCandidates(document: Document): {
+  published: ArticleValue<string> | null;
+  modified: ArticleValue<string> | null;
+} {
+  let published: ArticleValue<string> | null = null;
+  let modified: ArticleValue<string> | null = null;
+
+  for (const el of Array.from(document.querySelectorAll(BYLINE_DATE_SELECTOR))) {
+    const text = (el.textContent || "").replace(/\s+/g, " ").trim();
+    if (text.length > 150 || el.closest(OFF_ARTICLE) || el.querySelector("time")) continue;
+
+    // Split "Published ... Updated ..." so each date keeps its own label
+    for (const part of text.split(/(?=\b(?:updated|modified|published|posted)\b)/i)) {
+      const date = findDateInText(part);
+      if (!date) continue;
+      if (MODIFIED_HINT.test(part) || MODIFIED_HINT.test(contextOf(el))) {
+        modified ??= candidate(date, "byline");
+      } else {
+        published ??= candidate(date, "byline");
+      }
+    }
+  }
+
+  return { published, modified };
+}
+
+/** Byline elements, most specific first */
+const BYLINE_SELECTORS: Array<{ selector: string; confidence: number }> = [
+  { selector: '[rel~="author"]', confidence: 0.65 },
+  { selector: '[class*="byline"], [id*="byline"]', confidence: 0.6 },
+  { selector: '[class*="author"]', confidence: 0.5 },
+];
+
+/**
+ * Strip dates and labels from byline text, keeping the names
+ */
+function bylineNames(text: string): string[] {
+  const collapsed = text
+    .replace(/\s+/g, " ")
+    .replace(new RegExp(MONTH_DAY_YEAR.source, "gi"), " | ")
+    .replace(new RegExp(DAY_MONTH_YEAR.source, "gi"), " | ")
+    .replace(new RegExp(ISO_DAY.source, "g"), " | ")
+    .replace(/\b(?:updated|modified|published|posted)(?:\s+on)?\b/gi, " | ");
+
+  const parts = collapsed.split(/\s*[|•·—–]\s*/).filter((part) => part.trim());
+  const byPart = parts.find((part) => /^\s*(?:written\s+|posted\s+)?by\b/i.test(part));
+  return splitNames(byPart ?? parts[0] ?? "");
+}
+
+function bylineAuthors(document: Document): ArticleValue<string[]> | null {
+  for (const { selector, confidence } of BYLINE_SELECTORS) {
+    const names: string[] = [];
+    for (const el of Array.from(document.querySelectorAll(selector))) {
+      const text = el.textContent || "";
+      if (text.length > 100 || el.closest(OFF_ARTICLE)) continue;
+      names.push(...bylineNames(text));
+    }
+    const unique = toNames(names);
+    if (unique) return candidate(unique, "byline", confidence);
+  }
+  return null;
+}
+
+/**
+ * Tag links (rel="tag") in the article
+ */
+function relTags(document: Document): ArticleValue<string[]> | null {
+  const tags = Array.from(document.querySelectorAll('a[rel~="tag"]'))
+    .filter((a: Element) => !a.closest(OFF_ARTICLE))
+    .map((a: Element) => (a.textContent || "").replace(/\s+/g, " ").trim())
+    .filter((tag) => tag.length > 0 && tag.length <= 50);
+
+  const unique = [...new Set(tags)];
+  return unique.length > 0 ? candidate(unique, "content", 0.5) : null;
+}
+
+/** /2024/03/15/, -2024-03-15-, /20240315/ */
+const URL_DATE_PATTERNS = [
+  /\/((?:19|20)\d{2})\/(\d{1,2})\/(\d{1,2})(?:\/|$)/,
+  /[/_-]((?:19|20)\d{2})-(\d{2})-(\d{2})(?:[/_.-]|$)/,
+  /\/((?:19|20)\d{2})(\d{2})(\d{2})(?:\/|$)/,
+];
+
+function fromUrl(pageUrl: string): ArticleValue<string> | null {
+  let pathname: string;
+  try {
+    pathname = new URL(pageUrl).pathname;
+  } catch {
+    return null;
+  }
+
+  const nextYear = new Date().getUTCFullYear() + 1;
+  for (const pattern of URL_DATE_PATTERNS) {
+    const match = pathname.match(pattern);
+    if (!match || Number(match[1]) > nextYear) continue;
+    const day = isoDay(Number(match[1]), Number(match[2]), Number(match[3]));
+    if (day) return candidate(day, "url");
+  }
+  return null;
+}
+
+// ============================================================================
+// Word count and reading time
+// ============================================================================
+
+const SKIPPED_TEXT_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "nav",
+  "aside",
+  "footer",
+  "form",
+  "button",
+]);
+
+const CJK_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+const WORD = /[\p{L}\p{N}]+(?:['’.-][\p{L}\p{N}]+)*/gu;
+
+function visibleText(node: Node, parts: string[]): void {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === 3) {
+      parts.push(child.textContent || "");
+    } else if (child.nodeType === 1) {
+      if (!SKIPPED_TEXT_TAGS.has((child as Element).tagName.toLowerCase())) {
+        visibleText(child, parts);
+      }
+    }
+  }
+}
+
+interface WordCounts {
+  words: number;
+  cjk: number;
+  /** Counted in the detected main content rather than the whole body */
+  main: boolean;
+}
+
+/**
+ * Words and CJK characters of the main content (the whole body if none is found)
+ */
+function countWords(document: Document): WordCounts {
+  const main = findMainContent(document);
+  // linkedom's body getter throws on a document without an <html> element (empty input)
+  const root = main ?? (document.documentElement ? document.body : null);
+  if (!root) return { words: 0, cjk: 0, main: false };
+
+  const parts: string[] = [];
+  visibleText(root, parts);
+  const text = parts.join(" ");
+
+  const cjk = text.match(CJK_CHARACTER)?.length ?? 0;
+  const words = text.replace(CJK_CHARACTER, " ").match(WORD)?.length ?? 0;
+  return { words, cjk, main: main !== null };
+}
+
+function contentWordCount(counts: WordCounts): ArticleValue<number> | null {
+  const { words, cjk, main } = counts;
+  if (words + cjk === 0) return null;
+  return candidate(words + cjk, "content", main ? BASE_CONFIDENCE.content : 0.5);
+}
@@ -0,0 +1,240 @@
+/**
+ * URL canonicalization
+ *
+ * Turns URLs into dedupe keys under a configurable policy (which query parameters
+ * matter, tracking parameter stripping, path case sensitivity), and learns from
+ * fetched pages which URLs are the same page: `<link rel="canonical">` and
+ * `<link rel="alternate" hreflang>` alternates.
+ *
+ * The default policy drops query strings and lowercases the whole URL; getUrlKey
+ * is this key under the default policy.
+ */
+
+import { parseHTML } from "linkedom";
+
+/**
+ * How URLs are reduced to dedupe keys
+ */
+export interface CanonicalizationPolicy {
+  /**
+   * Query parameters that make a different page (default: "none")
+   * - "none": the query string is ignored (`?id=1` and `?id=2` are one page)
+   * - "all": every parameter counts, except tracking and `dropParams` ones
+   * - string[]: only these parameters count
+   */
+  keepParams?: "none" | "all" | string[];
+
+  /** Parameters to ignore when keepParams is "all" (e.g. ["sort", "view"]) */
+  dropParams?: string[];
+
+  /** Ignore utm_*, fbclid, gclid and other tracking parameters (default: true) */
+  stripTrackingParams?: boolean;
+
+  /** Treat paths (and kept query values) as case-sensitive (default: false) */
+  caseSensitivePaths?: boolean;
+
+  /**
+   * Treat a page declaring `<link rel="canonical">` as the canonical URL: both share
+   * one key, so the canonical and its duplicates are crawled once (default: false)
+   */
+  trustCanonical?: boolean;
+
+  /**
+   * Treat `<link rel="alternate" hreflang>` language versions of a page as one page,
+   * listed as its alternates (default: false)
+   */
+  groupHreflang?: boolean;
+}
+
+/**
+ * What a fetched page says about its canonical URL and language versions
+ */
+export interface PageCanonical {
+  /** Dedupe key of the page (of its canonical URL when trustCanonical is set) */
+  key: string;
+
+  /** `<link rel="canonical">` target, absolute */
+  canonicalUrl?: string;
+
+  /** `<link rel="alternate" hreflang>` versions, absolute */
+  alternates: Array<{ hreflang: string; url: string }>;
+}
+
+/** Tracking parameters stripped by default */
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "twclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "_hsenc",
+  "_hsmi",
+  "mkt_tok",
+]);
+
+const INDEX_FILES = ["index.html", "index.htm", "default.html", "default.htm", "index.php"];
+
+/**
+ * Whether a query parameter only tracks the visit (utm_*, fbclid, gclid, ...)
+ */
+export function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith("utm_") || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * Dedupe key of a URL under a policy
+ *
+ * Always removes the fragment, `www.`, default ports, index files (`/index.html`)
+ * and trailing slashes (except the root). Kept query parameters are sorted.
+ */
+export function canonicalUrlKey(url: string, policy: CanonicalizationPolicy = {}): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url.toLowerCase();
+  }
+
+  parsed.hash = "";
+  parsed.search = keptQuery(parsed.searchParams, policy);
+
+  if (parsed.hostname.startsWith("www.")) {
+    parsed.hostname = parsed.hostname.slice(4);
+  }
+  if (
+    (parsed.protocol === "http:" && parsed.port === "80") ||
+    (parsed.protocol === "https:" && parsed.port === "443")
+  ) {
+    parsed.port = "";
+  }
+
+  for (const indexFile of INDEX_FILES) {
+    if (parsed.pathname.endsWith(`/${indexFile}`)) {
+      parsed.pathname = parsed.pathname.slice(0, -indexFile.length);
+      break;
+    }
+  }
+  if (parsed.pathname !== "/" && parsed.pathname.endsWith("/")) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+  }
+
+  const key = parsed.toString();
+  return policy.caseSensitivePaths ? key : key.toLowerCase();
+}
+
+/**
+ * Sorted query string of the parameters a policy keeps ("" if none)
+ */
+function keptQuery(params: URLSearchParams, policy: CanonicalizationPolicy): string {
+  const keep = policy.keepParams ?? "none";
+  if (keep === "none") return "";
+
+  const dropped = new Set((policy.dropParams ?? []).map((name) => name.toLowerCase()));
+  const listed = Array.isArray(keep) ? new Set(keep.map((name) => name.toLowerCase())) : null;
+  const kept = [...params.entries()].filter(([name]) => {
+    const lower = name.toLowerCase();
+    if (listed) return listed.has(lower);
+    if (policy.stripTrackingParams !== false && isTrackingParam(name)) return false;
+    return !dropped.has(lower);
+  });
+  if (kept.length === 0) return "";
+
+  kept.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return new URLSearchParams(kept).toString();
+}
+
+/**
+ * Dedupe keys for one run, refined by what fetched pages declare
+ *
+ * @example
+ * const canonicalizer = new UrlCanonicalizer({ keepParams: ["id"], trustCanonical: true });
+ * canonicalizer.learn("https://example.com/item?id=1&ref=home", html); // rel=canonical → /item?id=1
+ * canonicalizer.key("https://example.com/item?id=1&ref=nav"); // same key as /item?id=1
+ */
+export class UrlCanonicalizer {
+  /** Key of a duplicate URL → key of the page it duplicates */
+  private aliases = new Map<string, string>();
+
+  constructor(readonly policy: CanonicalizationPolicy = {}) {}
+
+  /**
+   * Dedupe key of a URL, following what fetched pages declared about it
+   */
+  key(url: string): string {
+    let key = canonicalUrlKey(url, this.policy);
+    // Follow chains (A → B → C), guarding against cycles
+    for (let hops = 0; hops < 5; hops++) {
+      const alias = this.aliases.get(key);
+      if (!alias || alias === key) break;
+      key = alias;
+    }
+    return key;
+  }
+
+  /**
+   * Dedupe key of a URL's path, whatever its query string
+   */
+  pathKey(url: string): string {
+    return canonicalUrlKey(url, { ...this.policy, keepParams: "none" });
+  }
+
+  /**
+   * Read a fetched page's canonical link and hreflang alternates, and (as the policy
+   * allows) remember them as the same page
+   *
+   * @param pageUrl - Final URL of the page
+   * @param html - Full page HTML
+   */
+  learn(pageUrl: string, html: string): PageCanonical {
+    const { trustCanonical, groupHreflang } = this.policy;
+    const result: PageCanonical = { key: this.key(pageUrl), alternates: [] };
+    if ((!trustCanonical && !groupHreflang) || !html) return result;
+
+    const { document } = parseHTML(html);
+    const canonicalHref = document.querySelector('link[rel~="canonical"][href]');
+    result.canonicalUrl = absolute(canonicalHref?.getAttribute("href"), pageUrl);
+    document.querySelectorAll('link[rel~="alternate"][hreflang][href]').forEach((link: Element) => {
+      const url = absolute(link.getAttribute("href"), pageUrl);
+      const hreflang = link.getAttribute("hreflang");
+      if (url && hreflang) result.alternates.push({ hreflang, url });
+    });
+
+    const pageKey = canonicalUrlKey(pageUrl, this.policy);
+    if (trustCanonical && result.canonicalUrl) {
+      result.key = this.key(result.canonicalUrl);
+      if (result.key !== pageKey) this.aliases.set(pageKey, result.key);
+    }
+    if (groupHreflang) {
+      for (const alternate of result.alternates) {
+        const alternateKey = canonicalUrlKey(alternate.url, this.policy);
+        if (alternateKey !== result.key && !this.aliases.has(alternateKey)) {
+          this.aliases.set(alternateKey, result.key);
+        }
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Resolve an href against the page URL (undefined if missing or not http(s))
+ */
+function absolute(href: string | null | undefined, pageUrl: string): string | undefined {
+  if (!href?.trim()) return undefined;
+  try {
+    const url = new URL(href.trim(), pageUrl);
+    url.hash = "";
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
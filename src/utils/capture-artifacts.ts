@@ -0,0 +1,56 @@
+import { createHash } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { CapturedArtifact } from "../types";
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "application/pdf": "pdf",
+};
+
+/**
+ * File name for an artifact of `url`: a readable slug of host and path,
+ * plus a short hash of the full URL so query strings don't collide
+ *
+ * @example
+ * artifactFileName("https://example.com/docs/intro?v=2", "image/png")
+ * // "example.com-docs-intro-1a2b3c4d.png"
+ */
+export function artifactFileName(url: string, mimeType: string): string {
+  let slug: string;
+  try {
+    const parsed = new URL(url);
+    slug = `${parsed.hostname}${parsed.pathname}`;
+  } catch {
+    slug = url;
+  }
+  slug = slug
+    .replace(/[^a-zA-Z0-9.]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 100);
+
+  const hash = createHash("sha256").update(url).digest("hex").slice(0, 8);
+  const extension = EXTENSIONS[mimeType] ?? "bin";
+  return `${slug || "page"}-${hash}.${extension}`;
+}
+
+/**
+ * Package captured bytes for a scrape result: base64 inline, or written to
+ * `outputDir` (created if needed) and returned as a path
+ */
+export async function toCapturedArtifact(
+  data: Buffer,
+  mimeType: string,
+  url: string,
+  outputDir?: string
+): Promise<CapturedArtifact> {
+  if (!outputDir) {
+    return { mimeType, byteLength: data.length, base64: data.toString("base64") };
+  }
+
+  await mkdir(outputDir, { recursive: true });
+  const path = join(outputDir, artifactFileName(url, mimeType));
+  await writeFile(path, data);
+  return { mimeType, byteLength: data.length, path };
+}
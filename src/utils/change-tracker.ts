@@ -0,0 +1,275 @@
+/**
+ * Change tracking for incremental recrawls
+ *
+ * Keeps a per-URL record of the validators (ETag, Last-Modified), sitemap lastmod
+ * and a hash of the page's normalized text, so the next run can send conditional
+ * requests and tag each page new / changed / unchanged / removed.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { parseHTML } from "linkedom";
+import { AllEnginesFailedError, HttpError } from "../engines/errors.js";
+import type { ConditionalRequest, EngineResult } from "../engines/types.js";
+import type { PageChange } from "../types";
+import type { UrlCanonicalizer } from "./canonical-url";
+
+/**
+ * What the last run recorded about a URL
+ */
+export interface PageRecord {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  /** <lastmod> from the sitemap the URL was listed in */
+  sitemapLastmod?: string;
+  contentHash: string;
+  /** ISO timestamp of the last fetch (or revalidation) */
+  checkedAt: string;
+  /** ISO timestamp when the URL started answering 404/410 */
+  removedAt?: string;
+
+  /** Crawl details reused when the page answers 304 Not Modified */
+  title?: string;
+  description?: string | null;
+  links?: string[];
+}
+
+interface ChangeTrackerFile {
+  version: 1;
+  pages: Record<string, PageRecord>;
+}
+
+/**
+ * Hash of a page's visible text with whitespace collapsed
+ *
+ * Scripts, styles and markup are ignored so rotating nonces, tracking
+ * parameters and attribute order don't register as changes.
+ */
+export function contentHash(html: string): string {
+  let text: string;
+  try {
+    const { document } = parseHTML(html);
+    document.querySelectorAll("script, style, noscript, template").forEach((el: Element) => {
+      el.remove();
+    });
+    // Fragments without <html> parse as several top-level nodes
+    text = Array.from(document.childNodes as ArrayLike<Node>)
+      .map((node) => node.textContent ?? "")
+      .join(" ");
+  } catch {
+    text = html.replace(/<[^>]+>/g, " ");
+  }
+  const normalized = text.replace(/\s+/g, " ").trim();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Whether a status code means the page is gone (404 or 410)
+ */
+export function isGoneStatus(statusCode: number): boolean {
+  return statusCode === 404 || statusCode === 410;
+}
+
+/**
+ * Whether a failed fetch means the page is gone (404 or 410 from any engine)
+ */
+export function isGoneError(error: unknown): boolean {
+  const errors =
+    error instanceof AllEnginesFailedError ? [...error.errors.values()] : [error as Error];
+  return errors.some((e) => e instanceof HttpError && isGoneStatus(e.statusCode));
+}
+
+function recordKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function header(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const found = Object.keys(headers).find((key) => key.toLowerCase() === name);
+  return found ? headers[found] || undefined : undefined;
+}
+
+/**
+ * Per-URL change records stored in a JSON file
+ *
+ * @example
+ * const tracker = new ChangeTracker("./state/pages.json");
+ * await tracker.load();
+ * const result = await orchestrator.scrape({ url, options, conditional: tracker.validatorsFor(url) });
+ * const change = tracker.record(url, result);
+ * await tracker.save();
+ *
+ * Records are keyed by URL without its fragment, or by the canonicalizer's key when
+ * one is given (so URLs a canonicalization policy treats as one page share a record).
+ */
+export class ChangeTracker {
+  private readonly file: string;
+  private pages = new Map<string, PageRecord>();
+  private loading: Promise<void> | null = null;
+  private loadError: unknown = null;
+
+  constructor(
+    file: string,
+    private canonicalizer?: UrlCanonicalizer
+  ) {
+    this.file = file;
+  }
+
+  /**
+   * Read the records of earlier runs (once; a missing file means a first run)
+   *
+   * @throws Error when the file exists but can't be read or parsed; save() then
+   *   refuses to overwrite it
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.read();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Record for a URL, if an earlier run kept one
+   */
+  get(url: string): PageRecord | undefined {
+    return this.pages.get(this.keyOf(url));
+  }
+
+  /**
+   * Validators for a conditional request, if the URL was fetched before
+   *
+   * @param sitemapLastmod - Current sitemap lastmod; a newer one than recorded skips revalidation
+   */
+  validatorsFor(url: string, sitemapLastmod?: string): ConditionalRequest | undefined {
+    const record = this.get(url);
+    if (!record || record.removedAt || (!record.etag && !record.lastModified)) return undefined;
+
+    if (sitemapLastmod && record.sitemapLastmod) {
+      const current = Date.parse(sitemapLastmod);
+      const recorded = Date.parse(record.sitemapLastmod);
+      if (current > recorded) return undefined;
+    }
+
+    return { etag: record.etag, lastModified: record.lastModified };
+  }
+
+  /**
+   * Compare a fetched page with its record and update the record
+   *
+   * @param details - Sitemap lastmod and crawl details to keep with the record
+   */
+  record(
+    url: string,
+    result: Pick<EngineResult, "html" | "headers" | "notModified">,
+    details: Partial<Pick<PageRecord, "sitemapLastmod" | "title" | "description" | "links">> = {}
+  ): PageChange {
+    const key = this.keyOf(url);
+    const previous = this.pages.get(key);
+    const checkedAt = new Date().toISOString();
+
+    if (result.notModified && previous) {
+      const sitemapLastmod = details.sitemapLastmod ?? previous.sitemapLastmod;
+      this.pages.set(key, { ...previous, sitemapLastmod, checkedAt, removedAt: undefined });
+      return {
+        status: "unchanged",
+        contentHash: previous.contentHash,
+        previousContentHash: previous.contentHash,
+        notModified: true,
+      };
+    }
+
+    const hash = contentHash(result.html);
+    const previousContentHash = previous && !previous.removedAt ? previous.contentHash : null;
+    this.pages.set(key, {
+      url,
+      etag: header(result.headers, "etag"),
+      lastModified: header(result.headers, "last-modified"),
+      sitemapLastmod: details.sitemapLastmod ?? previous?.sitemapLastmod,
+      contentHash: hash,
+      checkedAt,
+      title: details.title,
+      description: details.description,
+      links: details.links,
+    });
+
+    return {
+      status:
+        previousContentHash === null
+          ? "new"
+          : previousContentHash === hash
+            ? "unchanged"
+            : "changed",
+      contentHash: hash,
+      previousContentHash,
+      notModified: false,
+    };
+  }
+
+  /**
+   * Mark a recorded URL as removed (it answered 404/410)
+   *
+   * @returns null if the URL was never recorded or was already removed
+   */
+  markRemoved(url: string): PageChange | null {
+    const key = this.keyOf(url);
+    const previous = this.pages.get(key);
+    if (!previous || previous.removedAt) return null;
+
+    const now = new Date().toISOString();
+    this.pages.set(key, { ...previous, checkedAt: now, removedAt: now });
+    return {
+      status: "removed",
+      contentHash: null,
+      previousContentHash: previous.contentHash,
+      notModified: false,
+    };
+  }
+
+  /**
+   * Write the records for the next run
+   *
+   * Writes a temporary file and renames it over the old one, so an interrupted
+   * save leaves the previous records intact.
+   */
+  async save(): Promise<void> {
+    if (this.loadError) {
+      throw new Error(`Not overwriting unreadable change records in ${this.file}`, {
+        cause: this.loadError,
+      });
+    }
+    const data: ChangeTrackerFile = { version: 1, pages: Object.fromEntries(this.pages) };
+    const temp = `${this.file}.${process.pid}.tmp`;
+    await mkdir(dirname(this.file), { recursive: true });
+    await writeFile(temp, JSON.stringify(data), "utf-8");
+    await rename(temp, this.file);
+  }
+
+  private async read(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await readFile(this.file, "utf-8")) as ChangeTrackerFile;
+      this.pages = new Map(Object.entries(parsed.pages ?? {}));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      this.loadError = error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot read change records from ${this.file}: ${message}`, {
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Key of a URL's record
+   */
+  private keyOf(url: string): string {
+    return this.canonicalizer ? this.canonicalizer.key(url) : recordKey(url);
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Response body charset decoding
+ *
+ * Resolves the charset of a raw body in priority order:
+ * 1. Content-Type header charset
+ * 2. Byte order mark
+ * 3. <meta charset> in the first 1024 bytes
+ * 4. <meta http-equiv="Content-Type" content="...; charset=..."> in the first 1024 bytes
+ * 5. Detection: valid UTF-8, else the best-scoring legacy encoding
+ *
+ * Decoding uses the WHATWG encodings built into TextDecoder (Shift_JIS, EUC-JP,
+ * GBK/GB18030, Big5, EUC-KR, windows-125x, ISO-8859-x, KOI8-R/U...).
+ */
+
+/**
+ * Where the charset of a decoded body came from
+ */
+export type CharsetSource = "header" | "bom" | "meta" | "http-equiv" | "detected";
+
+/**
+ * A decoded body and the charset used to decode it
+ */
+export interface DecodedText {
+  text: string;
+  /** WHATWG encoding name (e.g. "utf-8", "shift_jis", "windows-1251") */
+  charset: string;
+  source: CharsetSource;
+}
+
+/**
+ * Options for decodeBody
+ */
+export interface DecodeOptions {
+  /** Look for <meta charset> / http-equiv declarations (HTML bodies only). Default: true */
+  sniffMeta?: boolean;
+}
+
+/** Browsers only prescan this many bytes for a meta charset declaration */
+const META_PRESCAN_BYTES = 1024;
+
+/** Detection looks at a prefix of the body; enough text to be representative */
+const DETECTION_SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Canonical WHATWG encoding name for a charset label, or null if unsupported
+ */
+export function normalizeCharset(label: string | null | undefined): string | null {
+  if (!label) return null;
+  try {
+    const encoding = new TextDecoder(label.trim().replace(/^["']|["']$/g, "")).encoding;
+    // A page can't declare itself UTF-16 from inside its own (ASCII-compatible) bytes
+    return encoding.startsWith("utf-16") ? "utf-8" : encoding;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Charset parameter of a Content-Type header
+ */
+export function charsetFromContentType(contentType?: string): string | null {
+  const match = contentType?.match(/;\s*charset\s*=\s*("?)([^";\s]+)\1/i);
+  if (!match) return null;
+  try {
+    return new TextDecoder(match[2]).encoding;
+  } catch {
+    return null;
+  }
+}
+
+function charsetFromBom(body: Buffer): string | null {
+  if (body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf) return "utf-8";
+  if (body[0] === 0xfe && body[1] === 0xff) return "utf-16be";
+  if (body[0] === 0xff && body[1] === 0xfe) return "utf-16le";
+  return null;
+}
+
+function charsetFromMeta(body: Buffer): { charset: string; source: "meta" | "http-equiv" } | null {
+  const head = body.subarray(0, META_PRESCAN_BYTES).toString("latin1");
+
+  for (const tag of head.match(/<meta\b[^>]*>/gi) ?? []) {
+    const charset = tag.match(/\bcharset\s*=\s*["']?\s*([^"'\s/>;]+)/i);
+    if (charset && !/\bcontent\s*=/i.test(tag)) {
+      const normalized = normalizeCharset(charset[1]);
+      if (normalized) return { charset: normalized, source: "meta" };
+    }
+  }
+
+  for (const tag of head.match(/<meta\b[^>]*>/gi) ?? []) {
+    if (!/\bhttp-equiv\s*=\s*["']?content-type/i.test(tag)) continue;
+    const content = tag.match(/\bcontent\s*=\s*(["'])(.*?)\1/i)?.[2];
+    const charset = content?.match(/charset\s*=\s*["']?([^"'\s;]+)/i);
+    const normalized = normalizeCharset(charset?.[1]);
+    if (normalized) return { charset: normalized, source: "http-equiv" };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+const isAsciiLetter = (ch: string | undefined) => ch !== undefined && /[A-Za-z]/.test(ch);
+
+/**
+ * Score a decoded sample: positive for characters plausible in the encoding's
+ * languages, negative for ones typical of a wrong guess. Scores are per byte,
+ * so two-byte CJK characters weigh 2 for a plausible character.
+ */
+type Scorer = (chars: string[], i: number) => number;
+
+const CJK_IDEOGRAPH = /[\u4e00-\u9fff]/;
+const KANA = /[\u3040-\u30ff]/;
+const CJK_PUNCTUATION = /[\u3000-\u303f\uff01-\uff60\uffe0-\uffe6]/;
+const HALFWIDTH_KATAKANA = /[\uff61-\uff9f]/;
+const HANGUL = /[\uac00-\ud7af]/;
+const CYRILLIC = /[\u0400-\u04ff]/;
+const LATIN_ACCENTED = /[À-ÿŒœŠšŸŽž]/;
+const COMMON_PUNCTUATION = /[\u00a0«»°·©®£€–—‘’“”•…№]/;
+
+const japanese: Scorer = (chars, i) => {
+  const ch = chars[i];
+  if (KANA.test(ch)) return 3;
+  if (CJK_IDEOGRAPH.test(ch) || CJK_PUNCTUATION.test(ch)) return 2;
+  if (HALFWIDTH_KATAKANA.test(ch)) return -1;
+  return -2;
+};
+
+const chinese: Scorer = (chars, i) => {
+  const ch = chars[i];
+  if (CJK_IDEOGRAPH.test(ch) || CJK_PUNCTUATION.test(ch)) return 2;
+  if (KANA.test(ch)) return 0;
+  return -2;
+};
+
+const korean: Scorer = (chars, i) => {
+  const ch = chars[i];
+  if (HANGUL.test(ch)) return 3;
+  // Hanja are rare in modern Korean; Chinese text decoded as EUC-KR is full of them
+  if (CJK_IDEOGRAPH.test(ch)) return -1;
+  if (CJK_PUNCTUATION.test(ch)) return 2;
+  return -2;
+};
+
+/** Cyrillic words are all-Cyrillic; Cyrillic letters glued to ASCII letters mean a wrong guess */
+const cyrillic: Scorer = (chars, i) => {
+  const ch = chars[i];
+  if (CYRILLIC.test(ch)) return isAsciiLetter(chars[i - 1]) || isAsciiLetter(chars[i + 1]) ? -1 : 1;
+  return COMMON_PUNCTUATION.test(ch) ? 0 : -1;
+};
+
+/** Accented Latin letters sit inside mostly-ASCII words; runs of them mean a wrong guess */
+const western: Scorer = (chars, i) => {
+  const ch = chars[i];
+  if (LATIN_ACCENTED.test(ch)) {
+    return isAsciiLetter(chars[i - 1]) || isAsciiLetter(chars[i + 1]) ? 1 : -0.5;
+  }
+  return COMMON_PUNCTUATION.test(ch) ? 0 : -1;
+};
+
+/** Candidates in tie-break order */
+const CANDIDATES: Array<{ charset: string; score: Scorer }> = [
+  { charset: "gbk", score: chinese },
+  { charset: "shift_jis", score: japanese },
+  { charset: "euc-jp", score: japanese },
+  { charset: "big5", score: chinese },
+  { charset: "euc-kr", score: korean },
+  { charset: "windows-1251", score: cyrillic },
+  { charset: "windows-1252", score: western },
+];
+
+function decodes(charset: string, sample: Buffer): string | null {
+  try {
+    // stream: true so a character cut off at the end of the sample isn't an error
+    return new TextDecoder(charset, { fatal: true }).decode(sample, { stream: true });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Guess the charset of an undeclared body
+ */
+export function detectCharset(body: Buffer): string {
+  const sample = body.subarray(0, DETECTION_SAMPLE_BYTES);
+
+  let nonAscii = 0;
+  for (const byte of sample) if (byte >= 0x80) nonAscii++;
+  if (nonAscii === 0 || decodes("utf-8", sample) !== null) return "utf-8";
+
+  let best = "windows-1252";
+  let bestScore = 0;
+  for (const candidate of CANDIDATES) {
+    const text = decodes(candidate.charset, sample);
+    if (text === null) continue;
+
+    const chars = Array.from(text);
+    let score = 0;
+    for (let i = 0; i < chars.length; i++) {
+      if (chars[i].charCodeAt(0) >= 0x80) score += candidate.score(chars, i);
+    }
+    score /= nonAscii;
+
+    if (score > bestScore) {
+      best = candidate.charset;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/**
+ * Decode a raw response body
+ *
+ * @param body - Raw response body
+ * @param contentType - Content-Type response header
+ * @param options - Decoding options
+ */
+export function decodeBody(
+  body: Buffer,
+  contentType?: string,
+  options: DecodeOptions = {}
+): DecodedText {
+  const { sniffMeta = true } = options;
+
+  let resolved: { charset: string; source: CharsetSource } | null = null;
+
+  const header = charsetFromContentType(contentType);
+  if (header) {
+    resolved = { charset: header, source: "header" };
+  } else {
+    const bom = charsetFromBom(body);
+    if (bom) {
+      resolved = { charset: bom, source: "bom" };
+    } else if (sniffMeta) {
+      resolved = charsetFromMeta(body);
+    }
+  }
+  resolved ??= { charset: detectCharset(body), source: "detected" };
+
+  // Non-fatal: stray invalid bytes become U+FFFD rather than failing the page
+  const text = new TextDecoder(resolved.charset).decode(body);
+  return { text, ...resolved };
+}
@@ -357,7 +357,7 @@ function removeWithProtection(
 /**
  * Find the main content container using multiple strategies
  */
-function findMainContent(document: Document): Element | null {
+export function findMainContent(document: Document): Element | null {
   // Helper to validate a content element
   const isValidContent = (el: Element | null): el is Element => {
     if (!el) return false;
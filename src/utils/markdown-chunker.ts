@@ -0,0 +1,317 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Markdown chunking for RAG pipelines
+ *
+ * Splits markdown on heading boundaries, then packs each section into chunks
+ * up to a token or character budget:
+ * 1. Parse the markdown into blocks (headings, fenced code, tables, paragraphs)
+ * 2. Group blocks into sections; each section knows its heading breadcrumb
+ * 3. Greedily pack a section's blocks into chunks, carrying a small overlap
+ *
+ * Chunks never span two sections, and fenced code blocks and tables are never
+ * cut: one that is larger than the budget becomes an oversized chunk of its own.
+ * Oversized paragraphs are split on sentence, then word boundaries.
+ *
+ * Chunk text is always an exact slice of the input, so `startOffset`/`endOffset`
+ * can be used to map a chunk back to the markdown it came from.
+ */
+
+/**
+ * Chunking options
+ */
+export interface ChunkingOptions {
+  /** Unit for `size` and `overlap` (default: "tokens") */
+  unit?: "tokens" | "characters";
+  /** Maximum chunk size in `unit` (default: 512) */
+  size?: number;
+  /** Trailing content of the previous chunk repeated at the start of the next one, in `unit` (default: 64) */
+  overlap?: number;
+  /** Token counter (default: estimate of ~4 characters per token) */
+  tokenizer?: (text: string) => number;
+}
+
+/**
+ * A chunk of markdown
+ */
+export interface MarkdownChunk {
+  /** Position of the chunk in the page (0-based) */
+  index: number;
+  /** Chunk content (exact slice of the markdown) */
+  text: string;
+  /** Headings enclosing the chunk, outermost first (empty before the first heading) */
+  headingPath: string[];
+  /** Start offset into the markdown (inclusive) */
+  startOffset: number;
+  /** End offset into the markdown (exclusive) */
+  endOffset: number;
+  /** Token count (from `tokenizer`, or estimated) */
+  tokenCount: number;
+  /** Character count */
+  charCount: number;
+  /** SHA-256 of the chunk text (hex) */
+  hash: string;
+}
+
+type BlockKind = "heading" | "code" | "table" | "text";
+
+interface Block {
+  kind: BlockKind;
+  start: number;
+  end: number;
+  /** Heading level and title (headings only) */
+  level?: number;
+  title?: string;
+}
+
+interface Section {
+  headingPath: string[];
+  blocks: Block[];
+}
+
+const DEFAULT_SIZE = 512;
+const DEFAULT_OVERLAP = 64;
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING_RE = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const TABLE_DELIMITER_RE = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split markdown into heading-aware chunks
+ *
+ * @example
+ * const chunks = chunkMarkdown(markdown, { size: 256, overlap: 32 });
+ * for (const chunk of chunks) {
+ *   await index.upsert(chunk.hash, chunk.text, { path: chunk.headingPath.join(" > ") });
+ * }
+ */
+export function chunkMarkdown(markdown: string, options: ChunkingOptions = {}): MarkdownChunk[] {
+  const countTokens = options.tokenizer ?? estimateTokens;
+  const measure =
+    options.unit === "characters"
+      ? (text: string) => text.length
+      : (text: string) => countTokens(text);
+  const size = Math.max(1, options.size ?? DEFAULT_SIZE);
+  const overlap = Math.max(0, Math.min(options.overlap ?? DEFAULT_OVERLAP, size - 1));
+
+  const spanSize = (blocks: Block[]) =>
+    measure(markdown.slice(blocks[0].start, blocks[blocks.length - 1].end));
+
+  const chunks: MarkdownChunk[] = [];
+  const emit = (blocks: Block[], headingPath: string[]) => {
+    const startOffset = blocks[0].start;
+    const endOffset = blocks[blocks.length - 1].end;
+    const text = markdown.slice(startOffset, endOffset);
+    chunks.push({
+      index: chunks.length,
+      text,
+      headingPath,
+      startOffset,
+      endOffset,
+      tokenCount: countTokens(text),
+      charCount: text.length,
+      hash: createHash("sha256").update(text).digest("hex"),
+    });
+  };
+
+  for (const section of groupSections(parseBlocks(markdown))) {
+    const blocks = section.blocks.flatMap((block) =>
+      block.kind === "text" && measure(markdown.slice(block.start, block.end)) > size
+        ? splitText(markdown, block, size, measure)
+        : [block]
+    );
+
+    let current: Block[] = [];
+    for (const block of blocks) {
+      if (current.length > 0 && spanSize([...current, block]) > size) {
+        emit(current, section.headingPath);
+        current = overlapTail(current, block, overlap, size, spanSize);
+      }
+      current.push(block);
+    }
+    if (current.length > 0) {
+      emit(current, section.headingPath);
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Trailing blocks of the previous chunk to repeat before `next`.
+ * Never the whole previous chunk, never a heading, and never enough to push `next` over budget.
+ */
+function overlapTail(
+  previous: Block[],
+  next: Block,
+  overlap: number,
+  size: number,
+  spanSize: (blocks: Block[]) => number
+): Block[] {
+  if (overlap === 0) return [];
+
+  const tail: Block[] = [];
+  for (let i = previous.length - 1; i > 0; i--) {
+    const candidate = [previous[i], ...tail];
+    if (previous[i].kind === "heading" || spanSize(candidate) > overlap) break;
+    tail.unshift(previous[i]);
+  }
+
+  while (tail.length > 0 && spanSize([...tail, next]) > size) {
+    tail.shift();
+  }
+  return tail;
+}
+
+/**
+ * Parse markdown into top-level blocks with offsets
+ */
+function parseBlocks(markdown: string): Block[] {
+  const lines: Array<{ text: string; start: number; end: number }> = [];
+  let offset = 0;
+  for (const text of markdown.split("\n")) {
+    lines.push({ text, start: offset, end: offset + text.length });
+    offset += text.length + 1;
+  }
+
+  const isBlank = (i: number) => lines[i].text.trim().length === 0;
+  const isTableStart = (i: number) =>
+    lines[i].text.includes("|") &&
+    (lines[i].text.trim().startsWith("|") ||
+      (i + 1 < lines.length && TABLE_DELIMITER_RE.test(lines[i + 1].text)));
+
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (isBlank(i)) {
+      i++;
+      continue;
+    }
+
+    const line = lines[i];
+
+    // Fenced code: runs until a closing fence of the same character and at least the same length
+    const fence = line.text.match(FENCE_RE);
+    if (fence) {
+      const marker = fence[1];
+      let j = i + 1;
+      while (j < lines.length) {
+        const close = lines[j].text.match(FENCE_RE);
+        if (close && close[1][0] === marker[0] && close[1].length >= marker.length) break;
+        j++;
+      }
+      const last = Math.min(j, lines.length - 1);
+      blocks.push({ kind: "code", start: line.start, end: lines[last].end });
+      i = last + 1;
+      continue;
+    }
+
+    const heading = line.text.match(HEADING_RE);
+    if (heading) {
+      blocks.push({
+        kind: "heading",
+        start: line.start,
+        end: line.end,
+        level: heading[1].length,
+        title: heading[2].trim(),
+      });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(i)) {
+      let j = i;
+      while (j + 1 < lines.length && !isBlank(j + 1) && lines[j + 1].text.includes("|")) j++;
+      blocks.push({ kind: "table", start: line.start, end: lines[j].end });
+      i = j + 1;
+      continue;
+    }
+
+    // Paragraph / list: runs until a blank line or the start of another block
+    let j = i;
+    while (
+      j + 1 < lines.length &&
+      !isBlank(j + 1) &&
+      !FENCE_RE.test(lines[j + 1].text) &&
+      !HEADING_RE.test(lines[j + 1].text) &&
+      !isTableStart(j + 1)
+    ) {
+      j++;
+    }
+    blocks.push({ kind: "text", start: line.start, end: lines[j].end });
+    i = j + 1;
+  }
+
+  return blocks;
+}
+
+/**
+ * Group blocks into sections, one per heading, tracking the heading breadcrumb
+ */
+function groupSections(blocks: Block[]): Section[] {
+  const sections: Section[] = [];
+  const stack: Array<{ level: number; title: string }> = [];
+  let current: Section = { headingPath: [], blocks: [] };
+
+  for (const block of blocks) {
+    if (block.kind === "heading") {
+      if (current.blocks.length > 0) sections.push(current);
+
+      const level = block.level ?? 1;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ level, title: block.title ?? "" });
+      current = { headingPath: stack.map((h) => h.title), blocks: [] };
+    }
+    current.blocks.push(block);
+  }
+  if (current.blocks.length > 0) sections.push(current);
+
+  return sections;
+}
+
+/**
+ * Split an oversized text block into sentence blocks, and oversized sentences into word blocks.
+ * Packing merges them back up to the budget.
+ */
+function splitText(
+  markdown: string,
+  block: Block,
+  size: number,
+  measure: (text: string) => number
+): Block[] {
+  const sentences = segments(markdown, block, /(?<=[.!?])\s+|\n+/g);
+  return sentences.flatMap((sentence) =>
+    measure(markdown.slice(sentence.start, sentence.end)) > size
+      ? segments(markdown, sentence, /\s+/g)
+      : [sentence]
+  );
+}
+
+/**
+ * Cut a block at every match of `separator`, dropping the separators
+ */
+function segments(markdown: string, block: Block, separator: RegExp): Block[] {
+  const text = markdown.slice(block.start, block.end);
+  const result: Block[] = [];
+  let from = 0;
+
+  for (const match of text.matchAll(separator)) {
+    const at = match.index ?? 0;
+    if (at > from) {
+      result.push({ kind: "text", start: block.start + from, end: block.start + at });
+    }
+    from = at + match[0].length;
+  }
+  if (from < text.length) {
+    result.push({ kind: "text", start: block.start + from, end: block.end });
+  }
+
+  return result;
+}
@@ -1,6 +1,13 @@
 import { parseHTML } from "linkedom";
-import type { WebsiteMetadata } from "../types";
-import { normalizeUrl } from "./url-helpers";
+import type {
+  StructuredData,
+  StructuredDataItem,
+  StructuredDataSource,
+  WebsiteMetadata,
+} from "../types";
+import type { DocumentProperties, DocumentType } from "../documents";
+import { applyDocumentArticleProperties, extractArticleMetadata } from "./article-metadata";
+import { normalizeUrl, resolveUrl } from "./url-helpers";
 
 /**
  * Extract comprehensive website metadata from HTML content
@@ -30,6 +37,16 @@ export function extractWebsiteMetadata(html: string, baseUrl: string): WebsiteMe
     themeColor: null,
     openGraph: null,
     twitter: null,
+    structuredData: null,
+    article: {
+      publishedAt: null,
+      modifiedAt: null,
+      authors: null,
+      section: null,
+      tags: null,
+      wordCount: null,
+      readingTimeMinutes: null,
+    },
   };
 
   // Extract basic meta tags
@@ -56,9 +73,46 @@ export function extractWebsiteMetadata(html: string, baseUrl: string): WebsiteMe
   // Extract Twitter Card metadata
   metadata.twitter = extractTwitterCard(document);
 
+  // Extract JSON-LD, microdata and RDFa items
+  metadata.structuredData = collectStructuredData(document, baseUrl);
+
+  // Extract article dates, authors, section/tags and reading time
+  metadata.article = extractArticleMetadata(document, baseUrl, metadata.structuredData);
+
   return metadata;
 }
 
+/**
+ * Overlay properties read from a converted document (PDF info dictionary,
+ * DOCX core properties) onto metadata extracted from its HTML rendering
+ */
+export function applyDocumentProperties(
+  metadata: WebsiteMetadata,
+  type: DocumentType,
+  properties: DocumentProperties
+): WebsiteMetadata {
+  const keywords = properties.keywords
+    ?.split(/[,;]/)
+    .map((k) => k.trim())
+    .filter(Boolean);
+
+  return {
+    ...metadata,
+    title: properties.title ?? metadata.title,
+    description: properties.description ?? metadata.description,
+    author: properties.author ?? metadata.author,
+    language: properties.language ?? metadata.language,
+    keywords: keywords?.length ? keywords : metadata.keywords,
+    article: applyDocumentArticleProperties(metadata.article, properties),
+    document: {
+      type,
+      pageCount: properties.pageCount ?? null,
+      createdAt: properties.createdAt ?? null,
+      modifiedAt: properties.modifiedAt ?? null,
+    },
+  };
+}
+
 /**
  * Extract page title from HTML
  */
@@ -252,26 +306,355 @@ export function extractStructuredData(html: string): unknown[] {
   const { document } = parseHTML(html);
   const structuredData: unknown[] = [];
 
-  document.querySelectorAll('script[type="application/ld+json"]').forEach((script: Element) => {
+  for (const script of jsonLdScripts(document)) {
+    const jsonData = parseJsonLd(script.textContent || "");
+    if (jsonData !== undefined) structuredData.push(jsonData);
+  }
+
+  return structuredData;
+}
+
+/**
+ * Extract microdata items (itemscope/itemtype/itemprop/itemref) from HTML
+ *
+ * Follows the WHATWG microdata model: top-level items are elements with
+ * itemscope and no itemprop; values come from the element type (meta content,
+ * link/a href, img src, time datetime, data/meter value, otherwise text).
+ */
+export function extractMicrodata(html: string, baseUrl = ""): Record<string, unknown>[] {
+  const { document } = parseHTML(html);
+  return microdataItems(document, baseUrl);
+}
+
+/**
+ * Extract RDFa Lite items (vocab/typeof/property/resource/prefix) from HTML
+ */
+export function extractRdfa(html: string, baseUrl = ""): Record<string, unknown>[] {
+  const { document } = parseHTML(html);
+  return rdfaItems(document, baseUrl);
+}
+
+// ============================================================================
+// Structured data normalization
+// ============================================================================
+
+const SCHEMA_ORG_IRI = /^(?:https?:\/\/(?:www\.)?schema\.org\/|schema:)/i;
+
+/**
+ * "http://schema.org/Product", "schema:Product" -> "Product"
+ */
+function shortenSchemaName(name: string): string {
+  return name.trim().replace(SCHEMA_ORG_IRI, "");
+}
+
+function splitTokens(value: string | null): string[] {
+  return value?.split(/\s+/).filter(Boolean) ?? [];
+}
+
+/**
+ * Add a property value, turning repeated properties into arrays
+ */
+function addProperty(data: Record<string, unknown>, name: string, value: unknown): void {
+  const key = shortenSchemaName(name);
+  if (!(key in data)) {
+    data[key] = value;
+  } else if (Array.isArray(data[key])) {
+    (data[key] as unknown[]).push(value);
+  } else {
+    data[key] = [data[key], value];
+  }
+}
+
+function typeValue(types: string[]): string | string[] {
+  return types.length === 1 ? types[0] : types;
+}
+
+function typesOf(data: Record<string, unknown>): string[] {
+  const type = data["@type"];
+  const types = Array.isArray(type) ? type : type === undefined ? [] : [type];
+  return types.filter((t): t is string => typeof t === "string");
+}
+
+function textValue(el: Element): string {
+  return (el.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Collect JSON-LD, microdata and RDFa items into one normalized, type-indexed structure
+ */
+function collectStructuredData(document: Document, baseUrl: string): StructuredData | null {
+  const items: StructuredDataItem[] = [];
+  const add = (source: StructuredDataSource, data: Record<string, unknown>) => {
+    items.push({ source, types: typesOf(data), data });
+  };
+
+  for (const script of jsonLdScripts(document)) {
+    const json = parseJsonLd(script.textContent || "");
+    for (const node of flattenJsonLd(json))
+      add("json-ld", normalizeJsonLd(node) as Record<string, unknown>);
+  }
+  for (const item of microdataItems(document, baseUrl)) add("microdata", item);
+  for (const item of rdfaItems(document, baseUrl)) add("rdfa", item);
+
+  if (items.length === 0) return null;
+
+  // Index every typed object, nested ones included (Offer inside Product, Person as author...)
+  const byType: Record<string, Record<string, unknown>[]> = {};
+  const seen = new Set<object>();
+  const index = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(index);
+      return;
+    }
+    if (typeof value !== "object" || value === null || seen.has(value)) return;
+    seen.add(value);
+
+    const data = value as Record<string, unknown>;
+    for (const type of typesOf(data)) (byType[type] ??= []).push(data);
+    for (const [key, nested] of Object.entries(data)) {
+      if (!key.startsWith("@")) index(nested);
+    }
+  };
+  items.forEach((item) => index(item.data));
+
+  return { items, byType };
+}
+
+// ============================================================================
+// JSON-LD
+// ============================================================================
+
+function jsonLdScripts(document: Document): Element[] {
+  return Array.from(document.querySelectorAll("script")).filter(
+    (script: Element) =>
+      (script.getAttribute("type") || "").trim().toLowerCase() === "application/ld+json"
+  );
+}
+
+/**
+ * Parse a JSON-LD block, tolerating the usual CMS damage (comment/CDATA
+ * wrappers, raw newlines inside strings, trailing commas)
+ */
+function parseJsonLd(text: string): unknown {
+  const stripped = text
+    .trim()
+    .replace(/^(?:<!--|\/\/\s*<!\[CDATA\[|<!\[CDATA\[)/, "")
+    .replace(/(?:-->|\/\/\s*\]\]>|\]\]>)$/, "")
+    .trim();
+  if (!stripped) return undefined;
+
+  try {
+    return JSON.parse(stripped);
+  } catch {
     try {
-      const jsonData = JSON.parse(script.textContent || "");
-      structuredData.push(jsonData);
+      // eslint-disable-next-line no-control-regex
+      return JSON.parse(stripped.replace(/[\u0000-\u001f]+/g, " ").replace(/,\s*([}\]])/g, "$1"));
     } catch {
-      // Invalid JSON, skip
+      return undefined;
     }
-  });
+  }
+}
 
-  return structuredData;
+/**
+ * Top-level nodes of a JSON-LD document: arrays and @graph containers are flattened
+ */
+function flattenJsonLd(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) return value.flatMap(flattenJsonLd);
+  if (typeof value !== "object" || value === null) return [];
+
+  const node = value as Record<string, unknown>;
+  if ("@graph" in node) {
+    const graph = flattenJsonLd(node["@graph"]);
+    // A @graph container may also describe a node of its own
+    const own = Object.keys(node).some((key) => key !== "@graph" && key !== "@context");
+    return own ? [{ ...node, "@graph": undefined }, ...graph] : graph;
+  }
+  return [node];
 }
 
 /**
- * Extract microdata from HTML (basic implementation)
+ * Drop @context and shorten schema.org types and property names
  */
-export function extractMicrodata(_html: string): unknown[] {
-  const microdata: unknown[] = [];
-  // This is a simplified implementation
-  // In a real-world scenario, you'd want to use a proper microdata parser
-  return microdata;
+function normalizeJsonLd(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(normalizeJsonLd);
+  if (typeof value !== "object" || value === null) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+    if (key === "@context" || nested === undefined) continue;
+    if (key === "@type") {
+      const types = (Array.isArray(nested) ? nested : [nested]).filter(
+        (t): t is string => typeof t === "string"
+      );
+      result["@type"] = typeValue(types.map(shortenSchemaName));
+    } else {
+      result[key.startsWith("@") ? key : shortenSchemaName(key)] = normalizeJsonLd(nested);
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// Microdata
+// ============================================================================
+
+const URL_VALUE_ATTRIBUTES: Record<string, string> = {
+  a: "href",
+  area: "href",
+  link: "href",
+  audio: "src",
+  embed: "src",
+  iframe: "src",
+  img: "src",
+  source: "src",
+  track: "src",
+  video: "src",
+  object: "data",
+};
+
+function microdataItems(document: Document, baseUrl: string): Record<string, unknown>[] {
+  return Array.from(document.querySelectorAll("[itemscope]"))
+    .filter((el: Element) => !el.hasAttribute("itemprop"))
+    .map((el: Element) => microdataItem(el, document, baseUrl, new Set()));
+}
+
+function microdataItem(
+  item: Element,
+  document: Document,
+  baseUrl: string,
+  ancestors: Set<Element>
+): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  const types = splitTokens(item.getAttribute("itemtype")).map(shortenSchemaName);
+  if (types.length > 0) data["@type"] = typeValue(types);
+  const id = item.getAttribute("itemid");
+  if (id) data["@id"] = resolveUrl(id, baseUrl);
+
+  // Properties: descendants up to (and including) nested items, plus itemref'd elements
+  const properties: Element[] = [];
+  const visited = new Set<Element>();
+  const crawl = (el: Element) => {
+    if (visited.has(el)) return;
+    visited.add(el);
+    if (el.hasAttribute("itemprop")) properties.push(el);
+    if (!el.hasAttribute("itemscope")) Array.from(el.children).forEach(crawl);
+  };
+  Array.from(item.children).forEach(crawl);
+  for (const ref of splitTokens(item.getAttribute("itemref"))) {
+    const el = document.getElementById(ref);
+    if (el && el !== item) crawl(el);
+  }
+
+  const nextAncestors = new Set(ancestors).add(item);
+  for (const el of properties) {
+    let value: unknown;
+    if (el.hasAttribute("itemscope")) {
+      // An item that (via itemref) contains itself would recurse forever
+      if (nextAncestors.has(el)) continue;
+      value = microdataItem(el, document, baseUrl, nextAncestors);
+    } else {
+      value = microdataValue(el, baseUrl);
+    }
+    for (const name of splitTokens(el.getAttribute("itemprop"))) addProperty(data, name, value);
+  }
+
+  return data;
+}
+
+function microdataValue(el: Element, baseUrl: string): string {
+  const tag = el.tagName.toLowerCase();
+
+  if (tag === "meta") return (el.getAttribute("content") || "").trim();
+  if (tag in URL_VALUE_ATTRIBUTES) {
+    const url = el.getAttribute(URL_VALUE_ATTRIBUTES[tag]);
+    return url ? resolveUrl(url.trim(), baseUrl) : "";
+  }
+  if (tag === "data" || tag === "meter") return (el.getAttribute("value") || "").trim();
+  if (tag === "time") return (el.getAttribute("datetime") || textValue(el)).trim();
+  return textValue(el);
+}
+
+// ============================================================================
+// RDFa Lite
+// ============================================================================
+
+/**
+ * Prefix mappings in scope for an element (prefix="og: http://ogp.me/ns# schema: ...")
+ */
+function rdfaPrefixes(el: Element): Record<string, string> {
+  const prefixes: Record<string, string> = {};
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    const tokens = splitTokens(node.getAttribute("prefix"));
+    for (let i = 0; i + 1 < tokens.length; i += 2) {
+      const prefix = tokens[i].replace(/:$/, "");
+      prefixes[prefix] ??= tokens[i + 1];
+    }
+  }
+  return prefixes;
+}
+
+/**
+ * Expand a CURIE or vocab-relative term, then shorten schema.org names
+ */
+function rdfaTerm(term: string, el: Element): string {
+  const curie = term.match(/^([\w-]+):(?!\/\/)(.+)$/);
+  if (curie) {
+    const iri = rdfaPrefixes(el)[curie[1]];
+    return shortenSchemaName(iri ? iri + curie[2] : term);
+  }
+  if (/^https?:\/\//i.test(term)) return shortenSchemaName(term);
+
+  const vocab = el.closest("[vocab]")?.getAttribute("vocab");
+  return vocab && !SCHEMA_ORG_IRI.test(vocab) ? vocab + term : term;
+}
+
+function rdfaItems(document: Document, baseUrl: string): Record<string, unknown>[] {
+  // Top-level: typed elements that aren't the value of an enclosing item's property
+  return Array.from(document.querySelectorAll("[typeof]"))
+    .filter((el: Element) => !el.hasAttribute("property") || !el.parentElement?.closest("[typeof]"))
+    .map((el: Element) => rdfaItem(el, baseUrl));
+}
+
+function rdfaItem(item: Element, baseUrl: string): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  const types = splitTokens(item.getAttribute("typeof")).map((t) => rdfaTerm(t, item));
+  if (types.length > 0) data["@type"] = typeValue(types);
+  const resource = item.getAttribute("resource") ?? item.getAttribute("about");
+  if (resource) data["@id"] = resolveUrl(resource, baseUrl);
+
+  const crawl = (el: Element) => {
+    for (const child of Array.from(el.children)) {
+      const properties = splitTokens(child.getAttribute("property"));
+      const typed = child.hasAttribute("typeof");
+
+      if (properties.length > 0) {
+        const value = typed ? rdfaItem(child, baseUrl) : rdfaValue(child, baseUrl);
+        for (const name of properties) addProperty(data, rdfaTerm(name, child), value);
+      }
+      // A nested typed element owns the properties below it
+      if (!typed) crawl(child);
+    }
+  };
+  crawl(item);
+
+  return data;
+}
+
+function rdfaValue(el: Element, baseUrl: string): string {
+  const content = el.getAttribute("content");
+  if (content !== null) return content.trim();
+
+  const iri =
+    el.getAttribute("resource") ??
+    el.getAttribute("href") ??
+    el.getAttribute("src") ??
+    (el.tagName.toLowerCase() === "object" ? el.getAttribute("data") : null);
+  if (iri !== null) return resolveUrl(iri.trim(), baseUrl);
+
+  if (el.tagName.toLowerCase() === "time") {
+    return (el.getAttribute("datetime") || textValue(el)).trim();
+  }
+  return textValue(el);
 }
 
 /**
@@ -288,6 +671,12 @@ export function getMetadataSummary(metadata: WebsiteMetadata): string {
   if (metadata.openGraph)
     parts.push(`Open Graph: ${Object.keys(metadata.openGraph).length} fields`);
   if (metadata.twitter) parts.push(`Twitter Card: ${Object.keys(metadata.twitter).length} fields`);
+  if (metadata.article.publishedAt) {
+    parts.push(`Published: ${metadata.article.publishedAt.value}`);
+  }
+  if (metadata.structuredData) {
+    parts.push(`Structured data: ${Object.keys(metadata.structuredData.byType).join(", ")}`);
+  }
 
   return parts.join(" | ") || "No metadata found";
 }
@@ -0,0 +1,167 @@
+import { parseHTML } from "linkedom";
+import { findMainContent } from "./content-cleaner";
+import { isLikelyHoneypotLink } from "./honeypot-detector";
+import { isSameDomain } from "./url-helpers";
+
+/**
+ * Link and image inventory of a page
+ *
+ * Runs on the full page HTML (before content cleaning), so navigation and
+ * footer links are included. Relative URLs are resolved against the page URL.
+ */
+
+/**
+ * A link found on the page
+ */
+export interface PageLink {
+  /** Absolute URL (fragment kept) */
+  url: string;
+  /** Anchor text, whitespace collapsed */
+  text: string;
+  /** Tokens of the rel attribute, lowercased (e.g. ["nofollow", "noopener"]) */
+  rel: string[];
+  /** Same site as the page (subdomains count as internal) */
+  internal: boolean;
+  /** Flagged by the honeypot/trap link heuristics */
+  honeypot: boolean;
+}
+
+/**
+ * A candidate from an image's srcset
+ */
+export interface ImageSource {
+  /** Absolute URL */
+  url: string;
+  /** Width or density descriptor as written (e.g. "480w", "2x"); empty if omitted */
+  descriptor: string;
+}
+
+/**
+ * An image found on the page
+ */
+export interface PageImage {
+  /** Absolute URL of src (or data-src for lazy-loaded images) */
+  src: string;
+  /** Parsed srcset candidates (present if the image has a srcset) */
+  srcset?: ImageSource[];
+  /** Alt text (empty string if missing) */
+  alt: string;
+  /** Width from the width attribute, in CSS pixels */
+  width?: number;
+  /** Height from the height attribute, in CSS pixels */
+  height?: number;
+  /** Inside the main-content region picked by content cleaning */
+  inMainContent: boolean;
+}
+
+const SKIPPED_SCHEMES = ["javascript:", "mailto:", "tel:", "data:", "blob:"];
+
+/**
+ * Resolve `href` against `pageUrl`, keeping only http(s) results
+ */
+function resolveHttpUrl(href: string, pageUrl: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed || trimmed.startsWith("#")) return null;
+
+  const lower = trimmed.toLowerCase();
+  if (SKIPPED_SCHEMES.some((scheme) => lower.startsWith(scheme))) return null;
+
+  try {
+    const resolved = new URL(trimmed, pageUrl);
+    return resolved.protocol === "http:" || resolved.protocol === "https:"
+      ? resolved.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a dimension attribute ("640", "640px"); percentages and junk are ignored
+ */
+function parseDimension(value: string | null): number | undefined {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)(px)?$/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Parse a srcset attribute into resolved candidates
+ */
+function parseSrcset(srcset: string, pageUrl: string): ImageSource[] {
+  const sources: ImageSource[] = [];
+  for (const candidate of srcset.split(/,\s+/)) {
+    const [rawUrl, descriptor = ""] = candidate.trim().split(/\s+/);
+    if (!rawUrl) continue;
+
+    const url = resolveHttpUrl(rawUrl, pageUrl);
+    if (url) sources.push({ url, descriptor });
+  }
+  return sources;
+}
+
+/**
+ * Collect every http(s) link on the page
+ *
+ * @param html - Page HTML
+ * @param pageUrl - Final URL of the page (for resolution and the internal flag)
+ */
+export function extractPageLinks(html: string, pageUrl: string): PageLink[] {
+  const { document } = parseHTML(html);
+  const links: PageLink[] = [];
+
+  document.querySelectorAll("a[href]").forEach((anchor: Element) => {
+    const href = anchor.getAttribute("href") ?? "";
+    const url = resolveHttpUrl(href, pageUrl);
+    if (!url) return;
+
+    links.push({
+      url,
+      text: (anchor.textContent ?? "").replace(/\s+/g, " ").trim(),
+      rel: (anchor.getAttribute("rel") ?? "").toLowerCase().split(/\s+/).filter(Boolean),
+      internal: isSameDomain(url, pageUrl),
+      honeypot: isLikelyHoneypotLink({ href, resolvedUrl: url, anchor, baseUrl: pageUrl }),
+    });
+  });
+
+  return links;
+}
+
+/**
+ * Collect every image on the page (inline data: images are skipped)
+ *
+ * @param html - Page HTML
+ * @param pageUrl - Final URL of the page (for resolution)
+ */
+export function extractPageImages(html: string, pageUrl: string): PageImage[] {
+  const { document } = parseHTML(html);
+  const mainContent = findMainContent(document);
+  const images: PageImage[] = [];
+
+  document.querySelectorAll("img").forEach((img: Element) => {
+    const srcsetAttr = img.getAttribute("srcset") ?? img.getAttribute("data-srcset");
+    const srcset = srcsetAttr ? parseSrcset(srcsetAttr, pageUrl) : [];
+
+    const rawSrc = img.getAttribute("src") ?? "";
+    const src =
+      resolveHttpUrl(rawSrc, pageUrl) ??
+      resolveHttpUrl(img.getAttribute("data-src") ?? "", pageUrl) ??
+      srcset[0]?.url;
+    if (!src) return;
+
+    const image: PageImage = {
+      src,
+      alt: (img.getAttribute("alt") ?? "").trim(),
+      inMainContent: mainContent ? mainContent.contains(img) : false,
+    };
+    if (srcset.length > 0) image.srcset = srcset;
+
+    const width = parseDimension(img.getAttribute("width"));
+    const height = parseDimension(img.getAttribute("height"));
+    if (width !== undefined) image.width = width;
+    if (height !== undefined) image.height = height;
+
+    images.push(image);
+  });
+
+  return images;
+}
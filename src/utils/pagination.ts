@@ -0,0 +1,136 @@
+import { parseHTML } from "linkedom";
+
+/**
+ * Pagination detection
+ *
+ * Finds the URL of the next part of a paginated article or thread, checking in order:
+ * 1. `<link rel="next">` / `<a rel="next">`
+ * 2. Pager markup: a "next" link inside a pagination/pager container
+ * 3. Numbered URLs: a link on the page to the current URL with its page number
+ *    incremented (`?page=2`, `?p=3`, `/page/2/`, ...)
+ *
+ * Only same-host URLs different from the current page are returned.
+ */
+
+/** Containers that hold pager links */
+const PAGER_SELECTORS = [
+  ".pagination",
+  ".pager",
+  ".paging",
+  ".page-numbers",
+  ".paginator",
+  ".nav-links",
+  '[class*="pagination"]',
+  '[role="navigation"][aria-label*="page" i]',
+  'nav[aria-label*="pagination" i]',
+].join(", ");
+
+/** Text of a "next page" link */
+const NEXT_TEXT = /^(next|next page|next »|next ›|›|»|→|>|>>|older posts?|more)$/i;
+
+/** Query parameters that commonly hold a page number */
+const PAGE_PARAMS = ["page", "p", "pg", "paged", "pagenum", "pagina", "seite"];
+
+/** Path segments that commonly precede a page number (`/page/2`) */
+const PAGE_PATH = /\/(page|p|seite|pagina)\/(\d+)\/?$/i;
+
+/**
+ * Find the next page of a paginated document
+ *
+ * @param html - Full page HTML (before content cleaning, which strips pagers)
+ * @param pageUrl - Final URL of the page, to resolve relative links against
+ * @returns Absolute URL of the next page, or null if there is none
+ */
+export function findNextPageUrl(html: string, pageUrl: string): string | null {
+  const { document } = parseHTML(html);
+
+  const relNext = document.querySelector('link[rel~="next"][href], a[rel~="next"][href]');
+  const fromRel = accept(relNext?.getAttribute("href"), pageUrl);
+  if (fromRel) return fromRel;
+
+  for (const container of Array.from(document.querySelectorAll(PAGER_SELECTORS))) {
+    for (const anchor of Array.from(container.querySelectorAll("a[href]"))) {
+      const text = (anchor.textContent ?? "").replace(/\s+/g, " ").trim();
+      const label = anchor.getAttribute("aria-label") ?? "";
+      const className = anchor.getAttribute("class") ?? "";
+      if (NEXT_TEXT.test(text) || /\bnext\b/i.test(label) || /\bnext\b/i.test(className)) {
+        const fromPager = accept(anchor.getAttribute("href"), pageUrl);
+        if (fromPager) return fromPager;
+      }
+    }
+  }
+
+  const numbered = nextNumberedUrls(pageUrl);
+  if (numbered.length === 0) return null;
+  for (const anchor of Array.from(document.querySelectorAll("a[href]"))) {
+    const href = accept(anchor.getAttribute("href"), pageUrl);
+    if (href && numbered.includes(href)) return href;
+  }
+  return null;
+}
+
+/**
+ * Candidate URLs for the page after `pageUrl`, by incrementing its page number
+ * (or asking for page 2 when it has none)
+ */
+export function nextNumberedUrls(pageUrl: string): string[] {
+  let url: URL;
+  try {
+    url = new URL(pageUrl);
+  } catch {
+    return [];
+  }
+  url.hash = "";
+
+  for (const param of PAGE_PARAMS) {
+    const value = url.searchParams.get(param);
+    if (value !== null && /^\d+$/.test(value)) {
+      const next = new URL(url);
+      next.searchParams.set(param, String(Number(value) + 1));
+      return [next.href];
+    }
+  }
+
+  const pathMatch = url.pathname.match(PAGE_PATH);
+  if (pathMatch) {
+    const next = new URL(url);
+    const trailing = url.pathname.endsWith("/") ? "/" : "";
+    next.pathname = url.pathname.replace(
+      PAGE_PATH,
+      `/${pathMatch[1]}/${Number(pathMatch[2]) + 1}${trailing}`
+    );
+    return [next.href];
+  }
+
+  // First page: look for the common page 2 forms
+  const candidates = ["page", "p"].map((param) => {
+    const next = new URL(url);
+    next.searchParams.set(param, "2");
+    return next.href;
+  });
+  const base = url.pathname.endsWith("/") ? url.pathname : `${url.pathname}/`;
+  for (const segment of ["page/2", "page/2/"]) {
+    const next = new URL(url);
+    next.pathname = `${base}${segment}`;
+    candidates.push(next.href);
+  }
+  return candidates;
+}
+
+/**
+ * Resolve a next-page href, keeping it only if it's another page on the same host
+ */
+function accept(href: string | null | undefined, pageUrl: string): string | null {
+  if (!href || href.trim().startsWith("#")) return null;
+  try {
+    const current = new URL(pageUrl);
+    const next = new URL(href.trim(), current);
+    next.hash = "";
+    current.hash = "";
+    if (next.protocol !== "http:" && next.protocol !== "https:") return null;
+    if (next.host !== current.host || next.href === current.href) return null;
+    return next.href;
+  } catch {
+    return null;
+  }
+}
@@ -10,14 +10,36 @@ export function jitteredDelay(baseMs: number, jitterFactor: number = 0.5): numbe
   return Math.floor(min + Math.random() * (max - min));
 }
 
+/**
+ * Wait for `ms` milliseconds. Resolves early (never rejects) when `signal` aborts,
+ * so callers should re-check `signal.aborted` afterwards.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
 /**
  * Simple rate limit function with optional jitter.
  * @param ms - Base delay in milliseconds
  * @param jitter - Jitter factor (0-1). 0 = exact delay, 0.5 = ±50% variation
+ * @param signal - Optional signal that cuts the wait short
  */
-export async function rateLimit(ms: number, jitter: number = 0): Promise<void> {
+export async function rateLimit(
+  ms: number,
+  jitter: number = 0,
+  signal?: AbortSignal
+): Promise<void> {
   const delay = jitter > 0 ? jitteredDelay(ms, jitter) : ms;
-  return new Promise((resolve) => setTimeout(resolve, delay));
+  return sleep(delay, signal);
 }
 
 /**
@@ -4,6 +4,7 @@ import { defineConfig } from "tsup";
 const external = [
   "@ulixee/hero",
   "@ulixee/hero-core",
+  "@ulixee/hero-plugin-utils",
   "@ulixee/net",
   "@ulixee/commons",
   "re2",